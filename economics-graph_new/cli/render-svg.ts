@@ -0,0 +1,118 @@
+// cli/render-svg.ts
+
+// ------------------------------------------------------------
+// 命令列：JSON 參數檔 -> SVG（不需要瀏覽器）
+//
+// 用法：
+//   pnpm build:cli
+//   pnpm render-svg <spec.json> [--out-dir <dir>]
+//
+// JSON 可以是：
+// - 一張圖：{ "I": 30, "px": 2, "output": "q1.svg", ... }
+// - 很多張圖：[ {...}, {...} ]
+// - 共用設定 + 很多張圖：{ "defaults": {...}, "figures": [ {...}, {...} ] }
+//
+// 每張圖的欄位見 src/cli/renderFigure.tsx 的 FigureSpec
+// 沒給 output 的圖依序寫成 figure-1.svg, figure-2.svg, ...
+// ------------------------------------------------------------
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { mergeSpecs, renderFigureSvg, type FigureSpec } from "../src/cli/renderFigure";
+
+const USAGE = "Usage: render-svg <spec.json> [--out-dir <dir>]";
+
+type CliArgs = {
+  specPath: string;
+  outDir: string;
+};
+
+function parseArgs(argv: string[]): CliArgs {
+  let specPath: string | null = null;
+  let outDir = ".";
+
+  let i = 0;
+  while (i < argv.length) {
+    const arg = argv[i];
+    if (arg === "--out-dir" || arg === "-o") {
+      const next = argv[i + 1];
+      if (next === undefined) {
+        throw new Error(`${arg} needs a directory.\n${USAGE}`);
+      }
+      outDir = next;
+      i += 2;
+      continue;
+    }
+    if (arg === "--help" || arg === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (specPath !== null) {
+      throw new Error(`Unexpected argument "${arg}".\n${USAGE}`);
+    }
+    specPath = arg;
+    i += 1;
+  }
+
+  if (specPath === null) {
+    throw new Error(USAGE);
+  }
+  return { specPath, outDir };
+}
+
+// JSON -> 一串 FigureSpec（三種格式統一展開）
+function expandSpecs(json: unknown): FigureSpec[] {
+  if (Array.isArray(json)) {
+    return json as FigureSpec[];
+  }
+  if (json !== null && typeof json === "object") {
+    const obj = json as { defaults?: FigureSpec; figures?: FigureSpec[] };
+    if (Array.isArray(obj.figures)) {
+      const defaults = obj.defaults ? obj.defaults : {};
+      return obj.figures.map((f) => mergeSpecs(defaults, f));
+    }
+    return [json as FigureSpec];
+  }
+  throw new Error("The spec file must contain a JSON object or array.");
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const raw = await readFile(args.specPath, "utf8");
+  const specs = expandSpecs(JSON.parse(raw));
+
+  await mkdir(args.outDir, { recursive: true });
+
+  let failed = 0;
+  let i = 0;
+  while (i < specs.length) {
+    const spec = specs[i];
+    const name = spec.output ? spec.output : `figure-${i + 1}.svg`;
+    const target = path.resolve(args.outDir, name);
+
+    try {
+      const svg = await renderFigureSvg(spec);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, svg, "utf8");
+      console.log(`wrote ${target}`);
+    } catch (err) {
+      failed += 1;
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`figure ${i + 1} (${name}): ${message}`);
+    }
+    i += 1;
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} of ${specs.length} figure(s) failed.`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err: unknown) => {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(message);
+  process.exitCode = 1;
+});
@@ -11,7 +11,7 @@ import tseslint from 'typescript-eslint'
 import { defineConfig, globalIgnores } from 'eslint/config'
 
 export default defineConfig([
-  globalIgnores(['dist']),
+  globalIgnores(['dist', 'dist-cli']),
   {
     files: ['**/*.{ts,tsx}'],
     extends: [
@@ -25,4 +25,11 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // 命令列（Node）：process / console ...
+    files: ['cli/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
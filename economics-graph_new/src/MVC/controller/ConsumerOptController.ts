@@ -5,7 +5,7 @@
 //    - Drawable: line/polyline/point/text 之一
 //    - textSpan:假上下標
 //    Controller 產生 SceneOutput，View 只負責 render。
-import type { SceneOutput, Drawable, TextSpan } from "../../core/drawables";
+import type { SceneOutput, Drawable, LineDragPart, TextSpan } from "../../core/drawables";
 
 // 2) Viewport：座標系轉換器
 //    - econ(x,y) -> pixel(x,y) 用 map
@@ -20,16 +20,165 @@ import { Viewport } from "../../core/Viewport";
 //    - Controller：協調（接事件、更新 model、產 scene、通知 view）
 //    - View：畫
 import { ConsumerOptModel } from "../model/ConsumerOptModel";
-
-// 4) Listener：訂閱者（通常是 View）
+import type { UtilityKind } from "../../lib/utility";
+import {
+  budgetRegion,
+  describeBudgetSet,
+  frontierHeightAt,
+  type BudgetSetSpec,
+} from "../../lib/budgetSet";
+
+// 4) SceneController：listeners / scene 快取 / 標籤拖曳 offset 的共用骨架
 //    Controller 內部維護 listeners，當 scene 更新時通知。
-//    (scene: SceneOutput) => void 表示：收到新 scene 後做些事情（例如 setState）。
-type Listener = (scene: SceneOutput) => void;
+import { SceneController } from "./SceneController";
+
+// Slutsky 分解的箭頭顏色：替代效果 (SE) / 所得效果 (IE)
+const SE_COLOR = "#1f77b4";
+const IE_COLOR = "#d62728";
+
+// CV / EV 的補償預算線與括號顏色
+const CV_COLOR = "#ff7f0e";
+const EV_COLOR = "#17becf";
+
+// PCC / ICC 的掃描範圍（px 或 I）
+type SweepRange = { min: number; max: number };
+
+// 畫 locus 用的取樣點數（和「一族」預算線的 steps 分開）
+const SWEEP_LOCUS_SAMPLES = 60;
+
+// ------------------------------------------------------------
+// 拖曳 opt 點的模式
+// - alongBudget：點沿著預算邊界滑動，由切線條件反解 a（偏好改變）
+// - income：預算邊界平行移動（所得改變），點跟著新的最適點走
+// - priceX：以 y 截距為支點轉動預算線（px 改變）
+// - priceY：以 x 截距為支點轉動預算線（py 改變）
+// ------------------------------------------------------------
+export type OptDragMode = "alongBudget" | "income" | "priceX" | "priceY";
+
+export const OPT_DRAG_MODES: { id: OptDragMode; label: string }[] = [
+  { id: "alongBudget", label: "Slide along budget (solve a)" },
+  { id: "income", label: "Shift budget (change I)" },
+  { id: "priceX", label: "Pivot x-intercept (change px)" },
+  { id: "priceY", label: "Pivot y-intercept (change py)" },
+];
+
+export function isOptDragMode(raw: string): raw is OptDragMode {
+  let i = 0;
+  while (i < OPT_DRAG_MODES.length) {
+    if (OPT_DRAG_MODES[i].id === raw) {
+      return true;
+    }
+    i += 1;
+  }
+  return false;
+}
+
+// 拖曳時參數的範圍：和 AppView 的 slider 一致
+// （a = 0 或 1 會讓無異曲線出現數值問題）
+const ALPHA_RANGE: SweepRange = { min: 0.1, max: 0.9 };
+const INCOME_RANGE: SweepRange = { min: 5, max: 60 };
+const PRICE_RANGE: SweepRange = { min: 0.1, max: 5 };
+
+// clampToRange：把值限制在 range 內
+function clampToRange(v: number, range: SweepRange): number {
+  if (v < range.min) {
+    return range.min;
+  }
+  if (v > range.max) {
+    return range.max;
+  }
+  return v;
+}
+
+// ------------------------------------------------------------
+// bisect：在 [lo, hi] 找 f(v) = 0（f 單調，方向不拘）
+// - 兩端同號（解不在範圍內）：回傳 |f| 比較小的那一端
+// ------------------------------------------------------------
+function bisect(f: (v: number) => number, lo: number, hi: number): number {
+  let a = lo;
+  let b = hi;
+  let fa = f(a);
+  const fb = f(b);
+  if (fa === 0) {
+    return a;
+  }
+  if (fb === 0) {
+    return b;
+  }
+  if (fa > 0 === fb > 0) {
+    return Math.abs(fa) < Math.abs(fb) ? a : b;
+  }
 
-type PixelOffset = { dx: number; dy: number };
+  let i = 0;
+  while (i < 50) {
+    const mid = (a + b) / 2;
+    const fm = f(mid);
+    if (fm === 0) {
+      return mid;
+    }
+    if (fm > 0 === fa > 0) {
+      a = mid;
+      fa = fm;
+    } else {
+      b = mid;
+    }
+    i += 1;
+  }
+  return (a + b) / 2;
+}
+
+// projectOntoPolyline：點投影到折線上的最近點（像素座標）
+function projectOntoPolyline(
+  p: { x: number; y: number },
+  pts: { x: number; y: number }[]
+): { x: number; y: number } {
+  let best = pts[0];
+  let bestD2 = Infinity;
+  let i = 0;
+  while (i + 1 < pts.length) {
+    const a = pts[i];
+    const b = pts[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+
+    let t = 0;
+    if (len2 > 0) {
+      t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2;
+    }
+    if (t < 0) {
+      t = 0;
+    }
+    if (t > 1) {
+      t = 1;
+    }
 
+    const q = { x: a.x + t * dx, y: a.y + t * dy };
+    const d2 = (p.x - q.x) * (p.x - q.x) + (p.y - q.y) * (p.y - q.y);
+    if (d2 < bestD2) {
+      best = q;
+      bestD2 = d2;
+    }
+    i += 1;
+  }
+  return best;
+}
 
-export class ConsumerOptController {
+// 價格變動 basePx -> px 的比較（Slutsky 分解與 CV / EV 共用）
+// - A：原價格下的最適點
+// - B：新價格、但所得補償到「剛好回到原效用」時的最適點（補償預算線與原無異曲線相切）
+// - C：新價格下的最適點（即目前的 opt）
+type PriceChange = {
+  basePx: number;
+  U0: number;               // 原效用（A 所在的無異曲線）
+  U1: number;               // 新效用（C 所在的無異曲線）
+  compIncome: number;       // 補償所得 e(px_new, py, U0)，CV = compIncome - I
+  evIncome: number;         // 等價所得 e(px_old, py, U1)，EV = I - evIncome
+  A: { x: number; y: number };
+  B: { x: number; y: number };
+};
+
+export class ConsumerOptController extends SceneController {
   // ---------------------------
   // Controller 的「持久狀態」
   // ---------------------------
@@ -38,32 +187,10 @@ export class ConsumerOptController {
   // readonly：表示建構後不允許替換 model 物件（但 model 內部狀態仍可改）
   private readonly model: ConsumerOptModel;
 
-  // 2) innerW/innerH：繪圖內容區（扣掉 margin 後）的寬高
-  //    注意：這裡是「內容區」，不是整張 SVG 的 W/H
-  //    View 那邊通常會：
-  //      W=520/H=360 + margin，然後 innerW = W - margin.left - margin.right
-  private readonly innerW: number;
-  private readonly innerH: number;
-
-  // 3) listeners：訂閱者列表（通常是 GraphView）
-  //    只要 scene 重算，就會通知每個 listener。
-  private listeners: Listener[];
-
-  // 4) lastScene：快取（cache）
-  //    - 目的：避免每次 View 呼叫 getScene 都重算一次
-  //    - 只要參數變了（I/a），就 rebuildAndNotify 會把它更新
-  private lastScene: SceneOutput | null;
-
-  // 5) lastViewport: 和 lastScene 同步的「同一份座標轉換器」
-  private lastViewport: Viewport | null;
-
-  // 6) 線段顏色 (線與其方程式標籤會共用)
+  // 2) 線段顏色 (線與其方程式標籤會共用)
   private budgetColor: string;
   private indiffColor: string;
 
-  // 7) id -> 方程式標籤的「使用者拖曳 offset」 (相對於 anchor)
-  private labelOffsets: Record<string, PixelOffset>;
-
   // ---------------------------------------------------------
   // 新增：顯示控制 + 字體大小 + Opt 顏色
   // 需求對應：
@@ -71,14 +198,39 @@ export class ConsumerOptController {
   // 3) 控制 Opt point / Opt text 顏色
   // 1) 控制文字標籤字體大小（我這裡把 Opt + equations 都視為「標籤」）
   // ---------------------------------------------------------
-  private showEquationLabels: boolean;  // 控制 utility/budget/indiff 方程式文字標籤
+  // （showEquationLabels / labelFontSize 放在 SceneController，所有圖共用）
   private showOpt: boolean;             // 控制 opt 點 + opt 文字
-  private labelFontSize: number;        // 控制 「標籤」字體大小 ()
+  private optDragMode: OptDragMode;     // 拖 opt 點時改哪個參數
+
+  // 拖曳中鎖住的 viewport
+  // 座標軸平常會隨 I / px / py 自動縮放（截距永遠在軸長的 1/1.2 處），
+  // 拖曳時若跟著縮放，游標和圖就對不上；放開（onDragEnd）後才重新縮放
+  private dragViewport: Viewport | null;
 
   
   private optPointColor: string;        // Opt point 顏色
   private optTextColor: string;         // Opt text 顏色
 
+  // 價格變動的比較模式：開啟時記下「原價格」basePx，之後 px 的變動都和它比較
+  // - slutskyMode：替代效果 / 所得效果
+  // - welfareMode：補償變量 CV / 等價變量 EV
+  private slutskyMode: boolean;
+  private welfareMode: boolean;
+  private basePx: number;
+
+  // 比較靜態 overlay
+  // - PCC（價格消費曲線）：px 在 pccRange 掃描，其他參數不變
+  // - ICC（所得消費曲線）：I 在 iccRange 掃描，價格不變
+  // - showOverlayFamily：在 overlaySteps 個取樣值畫淡淡的預算線 + 相切無異曲線
+  private showPcc: boolean;
+  private showIcc: boolean;
+  private pccRange: SweepRange;
+  private iccRange: SweepRange;
+  private showOverlayFamily: boolean;
+  private overlaySteps: number;
+  private pccColor: string;
+  private iccColor: string;
+
   // ---------------------------
   // 建構子：注入依賴（Dependency Injection）
   // ---------------------------
@@ -87,104 +239,37 @@ export class ConsumerOptController {
     innerHeight: number;
     model: ConsumerOptModel;
   }) {
-    // 內容區寬高（畫圖區）
-    this.innerW = args.innerWidth;
-    this.innerH = args.innerHeight;
+    // 內容區寬高（畫圖區）交給 SceneController 保存
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
 
     // 注入 model
     this.model = args.model;
 
-    // 初始沒有訂閱者
-    this.listeners = [];
-
-    // 初始 scene 尚未生成（lazy build）
-    this.lastScene = null;
-
-    // 初始 viewport 尚未生成（lazy build）
-    this.lastViewport = null;
-
     // 預設顏色
     this.budgetColor = "#111111";
     this.indiffColor = "#111111";
 
-    this.labelOffsets = {};
-
-    this.showEquationLabels = true;      // 預設顯示方程式文字標籤
-    this.labelFontSize = 12;             // 預設顯示 Opt 點 與 文字
-    this.showOpt = true;                 // 預設標籤字體大小
+    this.showOpt = true;                 // 預設顯示 Opt 點 與 文字
+    this.optDragMode = "alongBudget";
+    this.dragViewport = null;
 
     this.optPointColor = "#111111";    // 預設 Opt 點顏色
     this.optTextColor = "#111111";     // 預設 Opt 文字顏色
-  }
-
-  // ------------------------------------------------------
-  // subscribe 訂閱 / unsubscribe 取消訂閱：View 用
-  // ------------------------------------------------------
-  // subscribe(fn)：把 View 的 callback 放進 listeners
-  // View 通常在 constructor/componentDidMount 訂閱
-  subscribe(fn: Listener) {
-    this.listeners.push(fn);
-  }
-
-  // unsubscribe(fn)：把指定 listener 移除
-  // 你用 while + 手動 copy 的方式做 immutable-like 更新（不使用 filter）
-  // 好處：不會用到 break/continue，行為也可控
-  unsubscribe(fn: Listener) {
-    const next: Listener[] = [];
-    let i = 0;
-    while (i < this.listeners.length) {
-      const item = this.listeners[i];
-      // 只保留不是同一個 function 的 listener
-      if (item !== fn) {
-        next.push(item);
-      }
-      i += 1;
-    }
-    this.listeners = next;
-  }
-
-  // ---------------------------
-  // View 取 scene 的方法
-  // ---------------------------
-
-  // getScene：給 View 拿最新場景
-  // - 如果 lastScene 有值：回傳快取（不重算）
-  // - 如果沒有：呼叫 buildScene() 計算一次，並保存快取
-  //
-  // 這個 lazy build 的設計，使得：
-  // - Controller 剛建好但 View 還沒 render 時，不會先做重算
-  // - 只有真正需要畫圖時才算
-  getScene(): SceneOutput {
-    if (this.lastScene) {
-      return this.lastScene;
-    }
-    const scene = this.buildScene();
-    this.lastScene = scene;
-    return scene;
-  }
-
-  // =========================================================
-  // getViewport：提供 View 使用（AxesView 會用）
-  // - 確保 viewport 永遠和 lastScene 同步
-  // =========================================================
-  getViewport(): Viewport {
-    // 若尚未 build，先確保 scene.viewport 被建立
-    if (!this.lastScene || !this.lastViewport) {
-      // buildScene 內會同步更新 this.lastViewport
-      const scene = this.buildScene();
-      this.lastScene = scene;
-    }
-
-    // 此時 lastViewport 一定存在 (若不存在表示 buildScene 忘了更新)
-    if (!this.lastViewport) {
-      // 保險: 理論上不會發生
-      this.lastViewport = new Viewport(this.innerW, this.innerH, [0,1], [0,1]);
-    }
 
-    return this.lastViewport;
+    this.slutskyMode = false;
+    this.welfareMode = false;
+    this.basePx = this.model.getModelParams().px;
+
+    this.showPcc = false;
+    this.showIcc = false;
+    this.pccRange = { min: 0.5, max: 3 };
+    this.iccRange = { min: 5, max: 40 };
+    this.showOverlayFamily = false;
+    this.overlaySteps = 5;
+    this.pccColor = "#2ca02c";
+    this.iccColor = "#9467bd";
   }
 
-
   // =========================================================
   // UI events (from View)
   // 這些方法都是「View 事件入口」
@@ -238,155 +323,192 @@ export class ConsumerOptController {
     this.rebuildAndNotify();
   }
 
+  // ---------------------------------------------------------
+  // UI events: 預算集合（數量折扣 / 從量稅 / 配給 / 實物補貼）
+  // ---------------------------------------------------------
+  onBudgetSetChange(spec: BudgetSetSpec) {
+    this.model.setBudgetSet(spec);
+    this.rebuildAndNotify();
+  }
+
+  // ---------------------------------------------------------
+  // UI events: 效用函數家族與形狀參數
+  // ---------------------------------------------------------
+  onUtilityKindChange(kind: UtilityKind) {
+    this.model.setUtilityKind(kind);
+    this.rebuildAndNotify();
+  }
+
+  // CES 的 ρ：ρ<1 才是凸偏好；ρ=0 由 lib 自動退化成 Cobb-Douglas
+  onRhoChange(nextRho: number) {
+    let rho = nextRho;
+    if (rho > 0.95) {
+      rho = 0.95;
+    }
+    this.model.setRho(rho);
+    this.rebuildAndNotify();
+  }
+
+  // Stone-Geary 的最低生存消費量（不能 < 0）
+  onSubsistenceChange(nextXBar: number, nextYBar: number) {
+    let xBar = nextXBar;
+    let yBar = nextYBar;
+    if (xBar < 0) {
+      xBar = 0;
+    }
+    if (yBar < 0) {
+      yBar = 0;
+    }
+    this.model.setSubsistence(xBar, yBar);
+    this.rebuildAndNotify();
+  }
+
   // 拖曳互動：View 回報被拖曳的 point（以像素座標回報）
   // - id: 哪一個點（你的 drawables 中 point 的 id）
   // - pixel: 使用者當下拖曳的局部座標（在內容區 <g> 裡）
+  //
+  // 拖 opt 點代表什麼，由 optDragMode 決定（見 OPT_DRAG_MODES）
   onPointDrag(id: string, pixel: { x: number; y: number }) {
     // 若 Opt 被關掉，就不允許拖曳 opt
     if (!this.showOpt) {
       return;
     }
-    
-    // 目前你只允許拖 opt 這個點
-    // 其他點拖了也忽略（直接 return）
-    if (id !== "opt") {
-      return;
-    }
 
-    // // 先取得當前 scene（可能是 cache）
-    // const scene = this.getScene();
-
-    // // 用當前 scene 的 domain 建立 viewport
-    // // 這步很重要：因為 domain 會隨 I/px/py 改變，不能用舊 domain
-    // const vp = new Viewport(
-    //   this.innerW,
-    //   this.innerH,
-    //   scene.xDomain,
-    //   scene.yDomain
-    // );
-
-    // 不再 new Viewport，直接用「controller 當前的 viewport」
-    const vp = this.getViewport();
-
-    // 像素座標 -> 經濟座標
-    // 使用者拖曳的是 pixel，但你的經濟模型應該接 econ(x,y)
-    const econPoint = vp.pixelToEconMapping(pixel);
-    const xEcon = econPoint.x;
-    const yEcon = econPoint.y;
-
-    // ---------------------------------------------------------
-    // 關鍵：拖 opt 點要怎麼「回推 a」？
-    // ---------------------------------------------------------
-    // 你註解寫得很實在：有很多種定義方式
-    //
-    // 你現在採用的是一個簡單 proxy：
-    //   alpha ≈ x / (x + y)
-    //
-    // 解釋：
-    // - alpha 在 Cobb-Douglas 裡是「x 的權重」
-    // - 拖到越靠右（x 大），a 就越大
-    // - 拖到越靠上（y 大），a 就越小
-    //
-    // 這不是嚴格從 FOC 推回來的，但互動上直觀。
-    const denom = xEcon + yEcon;
-
-    // 防呆：避免 denom <= 0 時除以 0 或得到奇怪值
-    if (denom <= 0) {
+    // 目前只允許拖 opt 這個點
+    if (id !== "opt") {
       return;
     }
 
-    // 計算新的 a
-    let nextAlpha = xEcon / denom;
-
-    // clamp：限制 a 的範圍到 [0.1, 0.9]
-    // 因為 a=0 或 1 會讓 indifference curve / 效用等出現數值問題
-    // （例如 1/(1-a) 會爆掉）
-    if (nextAlpha < 0.1) {
-      nextAlpha = 0.1;
-    }
-    if (nextAlpha > 0.9) {
-      nextAlpha = 0.9;
+    // 不再 new Viewport，直接用「controller 當前的 viewport」（拖曳中鎖住）
+    const vp = this.getDragViewport();
+
+    if (this.optDragMode === "alongBudget") {
+      this.dragOptAlongBudget(pixel, vp);
+    } else if (this.optDragMode === "income") {
+      // 預算邊界平行移動到游標所在處
+      const econ = vp.pixelToEconMapping(pixel);
+      this.model.setIncome(this.solveBudgetThrough(econ, "I", INCOME_RANGE));
+    } else if (this.optDragMode === "priceX") {
+      // 以 y 截距 (0, I/py) 為支點轉動，讓邊界通過游標
+      const econ = vp.pixelToEconMapping(pixel);
+      const params = this.model.getModelParams();
+      this.model.setPrices(this.solveBudgetThrough(econ, "px", PRICE_RANGE), params.py);
+    } else {
+      // 以 x 截距 (I/px, 0) 為支點轉動
+      const econ = vp.pixelToEconMapping(pixel);
+      const params = this.model.getModelParams();
+      this.model.setPrices(params.px, this.solveBudgetThrough(econ, "py", PRICE_RANGE));
     }
 
-    // 更新 model 的 a
-    this.model.setAlpha(nextAlpha);
-
     // 重建 scene + 通知 view（讓圖重畫、slider 也能同步）
     this.rebuildAndNotify();
   }
 
   // ---------------------------------------------------------
-  // 拖曳：方程式標籤（text）
-  //  - 1 找出「這個標籤」對應的 anchor（例如預算線中點）
-  //  - 2 計算 offset = 使用者拖到的位置 - anchor
-  //  - 3 存起來（labelOffsets[id]）
-  //  - 4 rebuildScene 時把 offset 加回去（位置就會保留）
-  //  - 5 限制 方程式標前拖曳區域 為 plot 區域
-  //      - 從 SvgSceneView 回報的是「plot group 內 local pixel」
-  //      - plot 區域座標範圍: x in [0, scene.width], y in [0, scene.height]
+  // 拖曳預算線（只有一般預算線 "budget" 可以拖）
+  // - a：x 截距 (I/px, 0)，I、py 不變，改 px
+  // - b：y 截距 (0, I/py)，I、px 不變，改 py
+  // - body：平行移動，價格不變，改 I（讓線通過游標）
+  // 範圍和 slider 一致；改完 rebuildAndNotify，slider 跟著同步
   // ---------------------------------------------------------
-  onTextDrag(id: string, pixel: { x: number; y: number }) {
-    const scene = this.getScene();
-    const anchor = this.findLabelAnchor(scene.drawables, id);
-    if (!anchor) {
+  onLineDrag(id: string, part: LineDragPart, pixel: { x: number; y: number }) {
+    if (id !== "budget") {
       return;
     }
 
+    const vp = this.getDragViewport();
+    const econ = vp.pixelToEconMapping(pixel);
+    const params = this.model.getModelParams();
 
-    // clamp: 標籤拖曳限制在 plot 區域
-    const padding = 2;
-    let x = pixel.x;
-    let y = pixel.y;
-
-    if (x < padding) {
-      x = padding;
-    }
-    if (y < padding) {
-      y = padding;
-    }
-
-    if (x > scene.width - padding) {
-      x = scene.width - padding;
-    }
-    if (y > scene.height - padding) {
-      y = scene.height - padding;
+    if (part === "a") {
+      const px = econ.x > 0 ? params.I / econ.x : PRICE_RANGE.max;
+      this.model.setPrices(clampToRange(px, PRICE_RANGE), params.py);
+    } else if (part === "b") {
+      const py = econ.y > 0 ? params.I / econ.y : PRICE_RANGE.max;
+      this.model.setPrices(params.px, clampToRange(py, PRICE_RANGE));
+    } else {
+      const I = params.px * econ.x + params.py * econ.y;
+      this.model.setIncome(clampToRange(I, INCOME_RANGE));
     }
 
-    const dx = pixel.x - anchor.x;
-    const dy = pixel.y - anchor.y;
-
-    this.labelOffsets[id] = { dx, dy };
+    this.rebuildAndNotify();
+  }
 
-    // 標籤位置改了，需要通知 view 重新渲染
+  // 拖曳結束：解除鎖定，座標軸重新縮放
+  onDragEnd() {
+    if (!this.dragViewport) {
+      return;
+    }
+    this.dragViewport = null;
     this.rebuildAndNotify();
   }
 
+  // 拖曳開始時記下當時的 viewport，拖曳期間都用它
+  private getDragViewport(): Viewport {
+    if (!this.dragViewport) {
+      this.dragViewport = this.getViewport();
+    }
+    return this.dragViewport;
+  }
 
   // ---------------------------------------------------------
-  //  View options setters
+  // 沿預算線拖曳：
+  // 1) 游標投影到預算邊界（像素空間的最近點，視覺上就是「貼著線走」）
+  // 2) 找 a，使最適點的 x*(a) = 投影點的 x
+  //    最適點本來就滿足切線條件（MRS = px/py，或角解 / 拗折點），
+  //    所以反解出的 a 讓無異曲線剛好在這一點和預算邊界相切
+  //    （各效用函數家族的 x*(a) 都隨 a 遞增，用二分法解）
   // ---------------------------------------------------------
-  setShowEquationLabels(show: boolean) {
-    this.showEquationLabels = show;
-    this.rebuildAndNotify();
+  private dragOptAlongBudget(pixel: { x: number; y: number }, vp: Viewport) {
+    const frontier = this.model.computeBudgetFrontier();
+    const target = vp.pixelToEconMapping(projectOntoPolyline(pixel, frontier.map((p) => vp.econToPixelMapping(p))));
+
+    const nextAlpha = bisect(
+      (a) => this.model.computeOptimumFor({ a }).x - target.x,
+      ALPHA_RANGE.min,
+      ALPHA_RANGE.max
+    );
+    this.model.setAlpha(nextAlpha);
   }
 
-  setEquationFontSize(size: number) {
-    let next = size;
-    if (next < 8) {
-      next = 8;
-    }
-    if (next > 28) {
-      next = 28;
-    }
-    this.labelFontSize = next;
-    this.rebuildAndNotify();
+  // ---------------------------------------------------------
+  // solveBudgetThrough：找 I / px / py，使預算邊界通過 econ 點
+  // - 邊界在 x 處的高度隨 I 遞增、隨 px / py 遞減，用二分法解
+  // - 解不在 range 內（例如配給上限右邊的點）就停在 range 端點
+  // ---------------------------------------------------------
+  private solveBudgetThrough(
+    point: { x: number; y: number },
+    param: "I" | "px" | "py",
+    range: SweepRange
+  ): number {
+    return bisect(
+      (v) => {
+        let overrides: { I?: number; px?: number; py?: number } = { py: v };
+        if (param === "I") {
+          overrides = { I: v };
+        } else if (param === "px") {
+          overrides = { px: v };
+        }
+        return frontierHeightAt(this.model.computeBudgetFrontierFor(overrides), point.x) - point.y;
+      },
+      range.min,
+      range.max
+    );
   }
 
+  // ---------------------------------------------------------
+  //  View options setters
+  // ---------------------------------------------------------
   setShowOpt(show: boolean) {
     this.showOpt = show;
     this.rebuildAndNotify();
   }
 
+  // 拖 opt 點的意義（沿預算線改 a / 改所得 / 改 px / 改 py）
+  setOptDragMode(mode: OptDragMode) {
+    this.optDragMode = mode;
+  }
+
   setOptPointColor(color: string) {
     this.optPointColor = color;
     this.rebuildAndNotify();
@@ -408,141 +530,115 @@ export class ConsumerOptController {
     this.rebuildAndNotify();
   }
 
-  
-
-  // =========================================================
-  // getModelParamsSnapshot：讓 View 讀到目前 model 參數
-  // - 目的：GraphView 初始化 slider(px/py) 的 state 用
-  // =========================================================
-  getModelParamsSnapshot() {
-    return this.model.getModelParams();
+  // Slutsky 分解模式：開啟的當下把目前 px 當作「原價格」
+  // 之後拖 px slider，就會畫出 原價格 -> 新價格 的替代效果 / 所得效果
+  // （若 CV / EV 模式已經開著，就沿用它的原價格，兩者比較的是同一個價格變動）
+  setSlutskyMode(on: boolean) {
+    if (on && !this.welfareMode) {
+      this.basePx = this.model.getModelParams().px;
+    }
+    this.slutskyMode = on;
+    this.rebuildAndNotify();
   }
 
-
-  // =========================================================
-  // Internals（Controller 內部工具方法）
-  // =========================================================
-
-  private formatNum(value: number): string {
-    // 避免方程式顯示一堆小數
-    return value.toFixed(2);
-  }
-
-  // 工具: anchor + offset (若曾拖曳就套用)
-  private resolveLabelPos(
-    labelId: string,
-    anchor: { x: number ; y: number },
-    defaultDx: number,
-    defaultDy: number
-  ): { x: number; y: number } {
-    const offset = this.labelOffsets[labelId];
-    let x = anchor.x + defaultDx;
-    let y = anchor.y + defaultDy;
-    if (offset) {
-      x = anchor.x + offset.dx;
-      y = anchor.y + offset.dy;
+  // CV / EV 模式：同上，開啟的當下把目前 px 當作「原價格」
+  setWelfareMode(on: boolean) {
+    if (on && !this.slutskyMode) {
+      this.basePx = this.model.getModelParams().px;
     }
-    
-    return { x, y }
+    this.welfareMode = on;
+    this.rebuildAndNotify();
   }
 
+  
 
+  // ---------------------------------------------------------
+  //  PCC / ICC overlay setters
+  // ---------------------------------------------------------
+  setShowPcc(show: boolean) {
+    this.showPcc = show;
+    this.rebuildAndNotify();
+  }
 
-  // rebuildAndNotify：重算場景 + 通知所有訂閱者
-  //
-  // 這是 MVC 裡 controller 最核心的動作：
-  // - model 變了
-  // - scene 必須更新
-  // - view 必須被通知重新 render
-  private rebuildAndNotify() {
-    // 重算並覆蓋快取 (buildScene 會同步更新 lastViewport)
-    this.lastScene = this.buildScene();
-
-    // 用 local 變數避免 TS 對 null 抱怨，也避免通知時被改動
-    const scene = this.lastScene;
-
-    // 逐一通知 listener
-    // listener 通常會 setState({scene}) 或同步 slider state 等
-    let i = 0;
-    while (i < this.listeners.length) {
-      const fn = this.listeners[i];
-
-      fn(scene);
+  setShowIcc(show: boolean) {
+    this.showIcc = show;
+    this.rebuildAndNotify();
+  }
 
-      i += 1;
-    }
+  // px 的掃描範圍（價格不能 <= 0）
+  setPccRange(min: number, max: number) {
+    this.pccRange = this.normalizeSweepRange(min, max, 0.1);
+    this.rebuildAndNotify();
   }
 
-  
-  // ---------------------------------------------------------
-  // computePlotInnerSize(): 依 px/py 決定「plot 區域」像素寬高比例
-  // - arg:
-  //   1. width: 這次要畫圖的區域-像素寬度
-  //   2. height: 這次要畫圖的區域-像素高度
-  // 
-  //   - px 變大 → x 軸變短（相對於 y）
-  //   - py 變大 → y 軸變短（等價：x 相對變長）
-  //
-  // Let
-  //   plotWidth / plotHeight = py / px
-  //
-  // 同時：plotW/plotH 不能超出可用的 innerW/innerH
-  // 所以要在 availW×availH 裡，找「最大可放的矩形」
-  // ---------------------------------------------------------
-  private computePlotInnerSize(px: number, py:number): {
-    width: number;
-    height: number
-  } {
-    const availWidth = this.innerW;   // 可畫圖的區域 (像素寬度)
-    const availHeight = this.innerH;  // 可畫圖的區域 (像素高度)
+  // I 的掃描範圍
+  setIccRange(min: number, max: number) {
+    this.iccRange = this.normalizeSweepRange(min, max, 1);
+    this.rebuildAndNotify();
+  }
 
-    // priceRatio = plotWidth / plotHeight
-    let priceRatio = 1;  // 預設 1，plot 區域的長寬比 = px 和 py 的比
-    // 防呆: px、py 需要大於 0
-    if (px > 0 && py > 0) {
-      priceRatio = py/px
-    }
+  setShowOverlayFamily(show: boolean) {
+    this.showOverlayFamily = show;
+    this.rebuildAndNotify();
+  }
 
-    // 避免極端比例讓圖接近消失 (可自行調整上下界)
-    //  - 如果出現: px/py 極端，priceRatio 可能非常大禍非常小，導致圖形變成一條線
-    if (priceRatio < 0.1) {
-      priceRatio = 0.1;
+  // 一族預算線 / 無異曲線的條數（2~12）
+  setOverlaySteps(steps: number) {
+    let next = Math.round(steps);
+    if (next < 2) {
+      next = 2;
     }
-    if (priceRatio > 10) {
-      priceRatio = 10;
+    if (next > 12) {
+      next = 12;
     }
+    this.overlaySteps = next;
+    this.rebuildAndNotify();
+  }
 
-    const availRatio = availWidth / availHeight;
+  setPccColor(color: string) {
+    this.pccColor = color;
+    this.rebuildAndNotify();
+  }
 
-    // 預設把 plot 塞滿整個可用區
-    let width = availWidth;
-    let height = availHeight;
+  setIccColor(color: string) {
+    this.iccColor = color;
+    this.rebuildAndNotify();
+  }
 
-    if (availRatio > priceRatio) {
-      height = availHeight;
-      width = availHeight * priceRatio;
-    } else {
-      width = availWidth;
-      height = availWidth / priceRatio;
-    }
+  // =========================================================
+  // getModelParamsSnapshot：讓 View 讀到目前 model 參數
+  // - 目的：GraphView 初始化 slider(px/py) 的 state 用
+  // =========================================================
+  getModelParamsSnapshot() {
+    return this.model.getModelParams();
+  }
 
-    if (width < 1) {
-      width = 1;
-    }
-    if (height < 1) {
-      height = 1;
-    }
+  // Slutsky / CV-EV 比較用的「原價格」（存檔 / 讀檔 / undo 用）
+  getComparisonBasePx(): number {
+    return this.basePx;
+  }
 
-    return {width, height};
+  // 直接指定原價格（開啟比較模式之後呼叫，否則會被 setSlutskyMode 蓋掉）
+  setComparisonBasePx(px: number) {
+    let next = px;
+    if (next < 0.1) {
+      next = 0.1;
+    }
+    this.basePx = next;
+    this.rebuildAndNotify();
   }
 
 
+  // =========================================================
+  // Internals（Controller 內部工具方法）
+  // =========================================================
+
   // ---------------------------------------------------------
   // findLabelAnchor: 找方程式標籤的 anchor（用目前 drawables 取，穩）
   // - budget-eq -> budget line 的中點
   // - indiff-eq -> indiff polyline 的中間點
   // ---------------------------------------------------------
-  private findLabelAnchor(
+  protected findLabelAnchor(
     drawables: Drawable[],
     labelId: string
   ): { x: number; y: number } | null {
@@ -553,6 +649,12 @@ export class ConsumerOptController {
         if (drawableType.kind === "line" && drawableType.id === "budget") {
           return { x: (drawableType.a.x + drawableType.b.x)/2 , y: (drawableType.a.y + drawableType.b.y) / 2 };
         }
+        // 拗折預算集合：貼在第一段（從 y 軸出發那段）的中點
+        if (drawableType.kind === "polyline" && drawableType.id === "budget-set" && drawableType.points.length >= 2) {
+          const a = drawableType.points[0];
+          const b = drawableType.points[1];
+          return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        }
         i++;
       }
       return null;
@@ -588,6 +690,65 @@ export class ConsumerOptController {
       return null;
     }
 
+    // Slutsky 分解：A / B 點的文字跟著點走，SE / IE 數值跟著箭頭中點走
+    if (labelId === "slutsky-A-label" || labelId === "slutsky-B-label") {
+      const pointId = labelId === "slutsky-A-label" ? "slutsky-A" : "slutsky-B";
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "point" && d.id === pointId) {
+          return { x: d.center.x - 14, y: d.center.y - 8 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    if (labelId === "slutsky-se-label" || labelId === "slutsky-ie-label") {
+      const lineId = labelId === "slutsky-se-label" ? "slutsky-se" : "slutsky-ie";
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "line" && d.id === lineId) {
+          return { x: (d.a.x + d.b.x) / 2, y: (d.a.y + d.b.y) / 2 - 5 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    // CV / EV 標籤：放在括號中段的右邊
+    if (labelId === "welfare-cv-label" || labelId === "welfare-ev-label") {
+      const bracketId = labelId === "welfare-cv-label" ? "welfare-cv-bracket" : "welfare-ev-bracket";
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "polyline" && d.id === bracketId && d.points.length >= 3) {
+          return { x: d.points[1].x + 24, y: (d.points[1].y + d.points[2].y) / 2 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    // PCC / ICC 標籤：放在 locus 的最後一點（掃描範圍的上端）
+    if (labelId === "pcc-label" || labelId === "icc-label") {
+      const locusId = labelId === "pcc-label" ? "pcc-locus" : "icc-locus";
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "polyline" && d.id === locusId) {
+          const n = d.points.length;
+          if (n <= 0) {
+            return null;
+          }
+          return { x: d.points[n - 1].x, y: d.points[n - 1].y };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
     if (labelId === "utility-eq") {
       // utility-eq anchor：固定放在左上角（在 plot 內）
       // 讓它預設不依賴任何線/曲線也能出現，這不是貼在線上，所以用固定位置（靠左上，避免跟 tick 擠）
@@ -598,26 +759,15 @@ export class ConsumerOptController {
   }
 
   // ---------------------------------------------------------
-  //  類似 LaText: 用 tspans 模擬上下標
+  //  類似 LaText: 用 tspans 模擬上下標（supSize 在 SceneController）
+  //  效用 / 無異曲線的 spans 由各效用函數家族提供（lib/utility.ts）
   // ---------------------------------------------------------
-  private supSize(base: number): number {
-    const supTextSize = Math.round(base * 0.8);
-    if (supTextSize < 8) {
-      return 8;
-    }
-    return supTextSize;
-  }
-
-  private buildUtilitySpans(a: number, fontSize: number): TextSpan[] {
-    const supTextSize = this.supSize(fontSize);
-    // U(x,y) = x^{\alpha} y^{1-\alpha}, \alpha = 0.5
-    return [
-      { text: "U(x,y) = x" },
-      { text: "α", baselineShift: "super", fontSize: supTextSize },
-      { text: " y" },
-      { text: "1-α", baselineShift: "super", fontSize: supTextSize },
-      { text: ",  α=" + this.formatNum(a) },
-    ];
+  // 同一條預算線的 LaTeX 版本（mathSvg 用）
+  private buildBudgetLatex(px: number, py: number, I: number): string {
+    return (
+      `p_x x + p_y y = I,\\quad p_x=${this.formatNum(px)},\\ ` +
+      `p_y=${this.formatNum(py)},\\ I=${this.formatNum(I)}`
+    );
   }
 
   private buildBudgetSpans(px: number, py: number, I: number, fontSize: number): TextSpan[] {
@@ -639,22 +789,250 @@ export class ConsumerOptController {
     ];
   }
 
-  private buildIndiffSpans(U0: number, a: number, fontSize: number): TextSpan[] {
-    const supTextSize = this.supSize(fontSize);
-    // y = (U_0 / x^{α})^{1/(1-α)},  U_0 = ...
-    return [
-      { text: "y = (U" },
-      { text: "0", baselineShift: "sub", fontSize: supTextSize },
-      { text: " / x" },
-      { text: "α", baselineShift: "super", fontSize: supTextSize },
-      { text: ")" },
-      { text: "1/(1-α)", baselineShift: "super", fontSize: supTextSize },
-      { text: ",  U" },
-      { text: "0", baselineShift: "sub", fontSize: supTextSize },
-      { text: "=" + this.formatNum(U0) + ",  α=" + this.formatNum(a) },
+  // ---------------------------------------------------------
+  // computePriceChange：原價格 basePx -> 目前 px 的比較
+  // - 原價格下的最適點 A，效用 U0；新價格下的效用 U1
+  // - Slutsky（Hicks 補償）：新價格下補償所得 e(px, py, U0)，在它之下的最適點 B
+  //   （補償預算線與原無異曲線相切 / 角解時落在原無異曲線上）
+  // - CV = e(px_new, U0) - I：新價格下要「補多少錢」才回到原效用
+  // - EV = I - e(px_old, U1)：原價格下要「拿走多少錢」才和漲價一樣糟
+  //   （漲價時兩者都 > 0；降價時都 < 0）
+  // - 兩個模式都沒開、或價格沒變時回傳 null
+  // - 非線性預算集合（折扣 / 配給 / 實物補貼 ...）也回傳 null：
+  //   補償所得 e(px, py, U) 與 B 點都是在一般預算線上解的，和折線上的 A / C 混在一起就不對了
+  //   （模式的勾選狀態保留，切回一般預算線就會再畫出來）
+  // ---------------------------------------------------------
+  private computePriceChange(): PriceChange | null {
+    if (!this.slutskyMode && !this.welfareMode) {
+      return null;
+    }
+
+    const p = this.model.getModelParams();
+    if (p.budgetSet.kind !== "linear") {
+      return null;
+    }
+    const basePx = this.basePx;
+    if (Math.abs(basePx - p.px) < 1e-9) {
+      return null;
+    }
+
+    const A = this.model.computeOptimumFor({ px: basePx });
+    const U0 = this.model.computeUtilityAt(A.x, A.y);
+    const C = this.model.computeOptimum();
+    const U1 = this.model.computeUtilityAt(C.x, C.y);
+
+    const compIncome = this.model.computeExpenditure(p.px, p.py, U0);
+    const evIncome = this.model.computeExpenditure(basePx, p.py, U1);
+    const B = this.model.computeLinearOptimumFor({ I: compIncome });
+
+    return { basePx, U0, U1, compIncome, evIncome, A, B };
+  }
+
+  // 掃描範圍防呆：下限 floor、min <= max、不能是空區間
+  private normalizeSweepRange(min: number, max: number, floor: number): SweepRange {
+    let lo = min;
+    let hi = max;
+    if (lo < floor) {
+      lo = floor;
+    }
+    if (hi < floor) {
+      hi = floor;
+    }
+    if (hi < lo) {
+      const tmp = lo;
+      lo = hi;
+      hi = tmp;
+    }
+    if (hi - lo < 1e-6) {
+      hi = lo + 0.1;
+    }
+    return { min: lo, max: hi };
+  }
+
+  // ---------------------------------------------------------
+  // buildSweepOverlay：PCC 或 ICC 的 overlay（像素座標 drawables）
+  // - locus：最適點軌跡（polyline）
+  // - family（可選）：每個取樣值的預算線 + 相切無異曲線 + 最適點，淡淡地畫
+  // - 超出目前 domain 的部分裁掉（不改 domain，避免主圖跟著縮放）
+  // ---------------------------------------------------------
+  private buildSweepOverlay(
+    kind: "pcc" | "icc",
+    vp: Viewport,
+    xMin: number,
+    xMax: number,
+    yMax: number
+  ): Drawable[] {
+    const range = kind === "pcc" ? this.pccRange : this.iccRange;
+    const color = kind === "pcc" ? this.pccColor : this.iccColor;
+    const out: Drawable[] = [];
+
+    // 一族預算線 / 無異曲線（畫在 locus 下面）
+    if (this.showOverlayFamily) {
+      const steps = this.overlaySteps;
+      let k = 0;
+      while (k < steps) {
+        const v = range.min + ((range.max - range.min) * k) / (steps - 1);
+        const overrides = kind === "pcc" ? { px: v } : { I: v };
+
+        const budget = this.clipBudgetToDomain(this.model.computeBudgetFor(overrides), xMax, yMax);
+        if (budget) {
+          out.push({
+            kind: "line",
+            id: `${kind}-budget-${k}`,
+            a: vp.econToPixelMapping(budget.p1),
+            b: vp.econToPixelMapping(budget.p2),
+            stroke: { width: 1, color, opacity: 0.35 },
+          });
+        }
+
+        const opt = this.model.computeOptimumFor(overrides);
+        const U = this.model.computeUtilityAt(opt.x, opt.y);
+        const curve = this.model.computeIndifferenceCurve(U, xMin, xMax, yMax, 40);
+        out.push({
+          kind: "polyline",
+          id: `${kind}-indiff-${k}`,
+          points: this.mapPointsInDomain(vp, curve, xMax, yMax),
+          stroke: { width: 1, color, dash: [4, 3], opacity: 0.35 },
+        });
+
+        if (opt.x <= xMax && opt.y <= yMax) {
+          out.push({
+            kind: "point",
+            id: `${kind}-opt-${k}`,
+            center: vp.econToPixelMapping(opt),
+            r: 2.5,
+            fill: { color },
+          });
+        }
+        k += 1;
+      }
+    }
+
+    // locus：最適點軌跡
+    let locus: { x: number; y: number }[] = [];
+    if (kind === "pcc") {
+      locus = this.model.computePriceConsumptionCurve(range.min, range.max, SWEEP_LOCUS_SAMPLES);
+    } else {
+      locus = this.model.computeIncomeConsumptionCurve(range.min, range.max, SWEEP_LOCUS_SAMPLES);
+    }
+    out.push({
+      kind: "polyline",
+      id: `${kind}-locus`,
+      points: this.mapPointsInDomain(vp, locus, xMax, yMax),
+      stroke: { width: 2, color },
+    });
+
+    return out;
+  }
+
+  // 只保留 domain 內的點（經濟座標），再轉成像素座標
+  private mapPointsInDomain(
+    vp: Viewport,
+    pts: { x: number; y: number }[],
+    xMax: number,
+    yMax: number
+  ): { x: number; y: number }[] {
+    const out: { x: number; y: number }[] = [];
+    let i = 0;
+    while (i < pts.length) {
+      const pt = pts[i];
+      if (Number.isFinite(pt.x) && Number.isFinite(pt.y) && pt.x >= 0 && pt.y >= 0 && pt.x <= xMax && pt.y <= yMax) {
+        out.push(vp.econToPixelMapping(pt));
+      }
+      i += 1;
+    }
+    return out;
+  }
+
+  // 把預算線 (a,0)-(0,b) 裁到 [0,xMax] x [0,yMax]；整條在外面就回傳 null
+  private clipBudgetToDomain(
+    budget: { p1: { x: number; y: number }; p2: { x: number; y: number } },
+    xMax: number,
+    yMax: number
+  ): { p1: { x: number; y: number }; p2: { x: number; y: number } } | null {
+    const a = budget.p1.x; // x 截距
+    const b = budget.p2.y; // y 截距
+
+    // 上端（靠 y 軸）：y 截距超出就改成和 y=yMax 的交點
+    let top = { x: 0, y: b };
+    if (b > yMax) {
+      top = { x: a * (1 - yMax / b), y: yMax };
+    }
+
+    // 下端（靠 x 軸）：x 截距超出就改成和 x=xMax 的交點
+    let bottom = { x: a, y: 0 };
+    if (a > xMax) {
+      bottom = { x: xMax, y: b * (1 - xMax / a) };
+    }
+
+    if (top.x > bottom.x) {
+      return null;
+    }
+    return { p1: bottom, p2: top };
+  }
+
+  // ---------------------------------------------------------
+  // buildWelfareLayer：CV / EV 的圖形
+  // - CV 線：新價格、所得 e(px_new, U0)，和目前預算線平行，切原無異曲線
+  // - EV 線：原價格、所得 e(px_old, U1)，和原預算線平行，切新無異曲線
+  // - py 沒變，所以「所得差」= py × 「y 截距差」：
+  //   在 y 軸旁邊用括號標出截距差，文字寫所得單位的 CV / EV
+  // ---------------------------------------------------------
+  private buildWelfareLayer(change: PriceChange, vp: Viewport): Drawable[] {
+    const p = this.model.getModelParams();
+    const out: Drawable[] = [];
+
+    const cvBudget = this.model.computeBudgetFor({ I: change.compIncome });
+    const evBudget = this.model.computeBudgetFor({ I: change.evIncome, px: change.basePx });
+
+    out.push({
+      kind: "line",
+      id: "welfare-cv-budget",
+      a: vp.econToPixelMapping(cvBudget.p1),
+      b: vp.econToPixelMapping(cvBudget.p2),
+      stroke: { width: 1.5, color: CV_COLOR, dash: [2, 3] },
+    });
+    out.push({
+      kind: "line",
+      id: "welfare-ev-budget",
+      a: vp.econToPixelMapping(evBudget.p1),
+      b: vp.econToPixelMapping(evBudget.p2),
+      stroke: { width: 1.5, color: EV_COLOR, dash: [2, 3] },
+    });
+
+    // 括號：垂直線 + 兩端往右的短橫線（像 "["），畫在 y 軸右側
+    const baseY = vp.econToPixelMapping({ x: 0, y: p.I / p.py }).y;
+    const brackets = [
+      { id: "welfare-cv-bracket", x: 8, toY: vp.econToPixelMapping({ x: 0, y: change.compIncome / p.py }).y, color: CV_COLOR },
+      { id: "welfare-ev-bracket", x: 22, toY: vp.econToPixelMapping({ x: 0, y: change.evIncome / p.py }).y, color: EV_COLOR },
     ];
+    let i = 0;
+    while (i < brackets.length) {
+      const b = brackets[i];
+      out.push({
+        kind: "polyline",
+        id: b.id,
+        points: [
+          { x: b.x + 5, y: baseY },
+          { x: b.x, y: baseY },
+          { x: b.x, y: b.toY },
+          { x: b.x + 5, y: b.toY },
+        ],
+        stroke: { width: 1.5, color: b.color },
+      });
+      i += 1;
+    }
+
+    return out;
   }
 
+  // 帶正負號的數值（SE / IE 標籤用）
+  private formatSigned(value: number): string {
+    if (value >= 0) {
+      return "+" + this.formatNum(value);
+    }
+    return this.formatNum(value);
+  }
 
   // =========================================================
   // buildScene：把 model 的參數轉成 SceneOutput
@@ -662,21 +1040,67 @@ export class ConsumerOptController {
   // 這步「等價於你舊架構的 ConsumerOptScene.build()」
   // 但 MVC/OOP 版本把它放進 controller（或你也可以拆成 SceneBuilder class）
   // =========================================================
-  private buildScene(): SceneOutput {
+  protected buildScene(): SceneOutput {
     // 取得 model 當前參數（I, px, py, a）
     const p = this.model.getModelParams();
 
+    // 價格變動的比較（模式關閉或價格沒變時為 null）
+    const change = this.computePriceChange();
+    const slutsky = change && this.slutskyMode ? change : null;
+    const welfare = change && this.welfareMode ? change : null;
+
+    // 預算集合的邊界折線（一般預算線就是兩個截距點）
+    const frontier = this.model.computeBudgetFrontier();
+
     // 決定經濟座標最大範圍（多留 20% 邊界）
-    const xEconMax = (p.I / p.px) * 1.2;
-    const yEconMax = (p.I / p.py) * 1.2;
+    // 比較模式下要把原預算線、補償 / 等價預算線也放得進來
+    let xInterceptMax = 0;
+    let yInterceptMax = 0;
+    let f = 0;
+    while (f < frontier.length) {
+      if (frontier[f].x > xInterceptMax) {
+        xInterceptMax = frontier[f].x;
+      }
+      if (frontier[f].y > yInterceptMax) {
+        yInterceptMax = frontier[f].y;
+      }
+      f += 1;
+    }
+    if (change) {
+      const candidates = [
+        { x: p.I / change.basePx, y: p.I / p.py },
+        { x: change.compIncome / p.px, y: change.compIncome / p.py },
+        { x: change.evIncome / change.basePx, y: change.evIncome / p.py },
+      ];
+      let c = 0;
+      while (c < candidates.length) {
+        if (candidates[c].x > xInterceptMax) {
+          xInterceptMax = candidates[c].x;
+        }
+        if (candidates[c].y > yInterceptMax) {
+          yInterceptMax = candidates[c].y;
+        }
+        c += 1;
+      }
+    }
+    let xEconMax = xInterceptMax * 1.2;
+    let yEconMax = yInterceptMax * 1.2;
 
 
     // 依 px/py 決定 plot 的像素大小 (軸長會跟著變)
-    const plotSize = this.computePlotInnerSize(p.px, p.py);
+    let plotSize = this.computePlotInnerSize(p.px, p.py);
+
+    // 拖曳中：沿用拖曳開始時的座標範圍與 plot 大小（見 dragViewport）
+    const locked = this.dragViewport;
+    if (locked) {
+      xEconMax = locked.getXEconDomain()[1];
+      yEconMax = locked.getYEconDomain()[1];
+      plotSize = { width: locked.getInnerWidth(), height: locked.getInnerHeight() };
+    }
 
 
     // 建立 viewport：經濟座標 -> 像素座標
-    const vp = new Viewport(plotSize.width, plotSize.height, [0, xEconMax], [0, yEconMax]);
+    const vp = locked ? locked : new Viewport(plotSize.width, plotSize.height, [0, xEconMax], [0, yEconMax]);
     this.lastViewport = vp;  // 同步更新 lastViewport
 
 
@@ -697,7 +1121,7 @@ export class ConsumerOptController {
     }
 
     // 取樣無異曲線（回傳 econ 點）
-    const curveEconPts = this.model.computeIndifferenceCurve(U0, xMin, xEconMax, 60);
+    const curveEconPts = this.model.computeIndifferenceCurve(U0, xMin, xEconMax, yEconMax, 60);
 
     // econ -> pixel（line/polyline/point 都要 pixel 才能畫）
     const curvePxPts = curveEconPts.map((pt) => vp.econToPixelMapping(pt));
@@ -705,13 +1129,22 @@ export class ConsumerOptController {
 
 
     // 先建 drawable 物件 (用來計算 label anchor)
-    // 預算線：line
-    const budgetLine: Drawable = {
+    // 預算線：一般預算線用 line；拗折預算集合用 polyline（邊界折線）
+    let budgetLine: Drawable = {
       kind: "line",
       id: "budget",
       a: vp.econToPixelMapping(budget.p1),
       b: vp.econToPixelMapping(budget.p2),
       stroke: { width: 2, color: this.budgetColor },
+      draggable: true,   // 拖截距改價格、拖線身改所得（見 onLineDrag）
+    }
+    if (!this.model.isLinearBudget()) {
+      budgetLine = {
+        kind: "polyline",
+        id: "budget-set",
+        points: frontier.map((pt) => vp.econToPixelMapping(pt)),
+        stroke: { width: 2, color: this.budgetColor },
+      };
     }
     // 無異曲線：polyline
     const indiffCurve: Drawable = {
@@ -722,10 +1155,188 @@ export class ConsumerOptController {
     }
 
     // 組裝 drawables：這就是 View 的「唯一輸入」（這就是 drawables.ts 的用途）
-    const drawables: Drawable[] = [
-      budgetLine,
-      indiffCurve  // 需要 特別指出 indiffCurve 時，再添加
-    ];
+    const drawables: Drawable[] = [];
+
+    // 價格變動的「背景層」：原預算線、原無異曲線（虛線，畫在最下面）
+    if (change) {
+      const oldBudget = this.model.computeBudgetFor({ px: change.basePx });
+      const oldCurve = this.model.computeIndifferenceCurve(change.U0, xMin, xEconMax, yEconMax, 60);
+
+      drawables.push({
+        kind: "line",
+        id: "base-budget",
+        a: vp.econToPixelMapping(oldBudget.p1),
+        b: vp.econToPixelMapping(oldBudget.p2),
+        stroke: { width: 1.5, color: this.budgetColor, dash: [6, 4] },
+      });
+      drawables.push({
+        kind: "polyline",
+        id: "base-indiff",
+        points: oldCurve.map((pt) => vp.econToPixelMapping(pt)),
+        stroke: { width: 1.5, color: this.indiffColor, dash: [6, 4] },
+      });
+    }
+
+    // Slutsky 的補償預算線（CV 模式也開著時不重畫：它就是 CV 的那條線）
+    if (slutsky && !welfare) {
+      const compBudget = this.model.computeBudgetFor({ I: slutsky.compIncome });
+      drawables.push({
+        kind: "line",
+        id: "slutsky-comp-budget",
+        a: vp.econToPixelMapping(compBudget.p1),
+        b: vp.econToPixelMapping(compBudget.p2),
+        stroke: { width: 1.5, color: SE_COLOR, dash: [2, 3] },
+      });
+    }
+
+    // CV / EV：兩條平行移動的預算線 + y 截距上的括號
+    if (welfare) {
+      const welfareLayer = this.buildWelfareLayer(welfare, vp);
+      let k = 0;
+      while (k < welfareLayer.length) {
+        drawables.push(welfareLayer[k]);
+        k += 1;
+      }
+    }
+
+    // PCC / ICC overlay（畫在主預算線 / 無異曲線下面）
+    const sweepKinds: ("pcc" | "icc")[] = [];
+    if (this.showPcc) {
+      sweepKinds.push("pcc");
+    }
+    if (this.showIcc) {
+      sweepKinds.push("icc");
+    }
+    let sw = 0;
+    while (sw < sweepKinds.length) {
+      const overlay = this.buildSweepOverlay(sweepKinds[sw], vp, xMin, xEconMax, yEconMax);
+      let k = 0;
+      while (k < overlay.length) {
+        drawables.push(overlay[k]);
+        k += 1;
+      }
+      sw += 1;
+    }
+
+    // 拗折預算集合：可行區域（原點 + 邊界折線）淡色填滿 + 斜線紋
+    if (!this.model.isLinearBudget()) {
+      drawables.push({
+        kind: "area",
+        id: "budget-set-region",
+        points: budgetRegion(frontier).map((pt) => vp.econToPixelMapping(pt)),
+        fill: { color: this.budgetColor },
+        fillOpacity: 0.08,
+        hatch: { spacing: 7, angle: 45, color: this.budgetColor, width: 0.6 },
+      });
+    }
+
+    drawables.push(budgetLine);
+    drawables.push(indiffCurve);
+
+    // Slutsky 分解的「前景層」：A / B 點、往 x 軸的虛線、SE / IE 箭頭與數值
+    if (slutsky) {
+      const aPx = vp.econToPixelMapping(slutsky.A);
+      const bPx = vp.econToPixelMapping(slutsky.B);
+      const fontSize = this.labelFontSize;
+
+      // A / B / C 往 x 軸畫垂直虛線，讓 x 的變化看得出來
+      const guides = [
+        { id: "slutsky-guide-A", pt: aPx },
+        { id: "slutsky-guide-B", pt: bPx },
+        { id: "slutsky-guide-C", pt: optPx },
+      ];
+      let g = 0;
+      while (g < guides.length) {
+        drawables.push({
+          kind: "line",
+          id: guides[g].id,
+          a: guides[g].pt,
+          b: { x: guides[g].pt.x, y: plotSize.height },
+          stroke: { width: 1, color: "#888888", dash: [3, 3] },
+        });
+        g += 1;
+      }
+
+      drawables.push({ kind: "point", id: "slutsky-A", center: aPx, r: 3.5, fill: { color: this.indiffColor } });
+      drawables.push({ kind: "point", id: "slutsky-B", center: bPx, r: 3.5, fill: { color: SE_COLOR } });
+
+      // 箭頭貼近 x 軸：SE (A -> B) 在下排，IE (B -> C) 在上排
+      const seY = plotSize.height - 12;
+      const ieY = plotSize.height - 30;
+      const seArrow = this.buildArrow("slutsky-se", { x: aPx.x, y: seY }, { x: bPx.x, y: seY }, SE_COLOR);
+      const ieArrow = this.buildArrow("slutsky-ie", { x: bPx.x, y: ieY }, { x: optPx.x, y: ieY }, IE_COLOR);
+      let k = 0;
+      while (k < seArrow.length) {
+        drawables.push(seArrow[k]);
+        k += 1;
+      }
+      k = 0;
+      while (k < ieArrow.length) {
+        drawables.push(ieArrow[k]);
+        k += 1;
+      }
+
+      // 文字標籤：A / B + SE / IE 的數值（x 的變化量）
+      const se = slutsky.B.x - slutsky.A.x;
+      const ie = xEcon - slutsky.B.x;
+      const labels = [
+        { id: "slutsky-A-label", text: "A", color: this.indiffColor, anchor: "start" as const },
+        { id: "slutsky-B-label", text: "B", color: SE_COLOR, anchor: "start" as const },
+        { id: "slutsky-se-label", text: "SE = " + this.formatSigned(se), color: SE_COLOR, anchor: "middle" as const },
+        { id: "slutsky-ie-label", text: "IE = " + this.formatSigned(ie), color: IE_COLOR, anchor: "middle" as const },
+      ];
+      let j = 0;
+      while (j < labels.length) {
+        const item = labels[j];
+        const anchor = this.findLabelAnchor(drawables, item.id);
+        if (anchor) {
+          drawables.push({
+            kind: "text",
+            id: item.id,
+            pos: this.resolveLabelPos(item.id, anchor, 0, 0),
+            text: item.text,
+            fontSize,
+            fill: { color: item.color },
+            draggable: true,
+            textAnchor: item.anchor,
+          });
+        }
+        j += 1;
+      }
+    }
+
+    // CV / EV 數值標籤（所得單位），用 spans 讓名稱加粗
+    if (welfare) {
+      const fontSize = this.labelFontSize;
+      const cv = welfare.compIncome - p.I;
+      const ev = p.I - welfare.evIncome;
+      const welfareLabels = [
+        { id: "welfare-cv-label", name: "CV", value: cv, color: CV_COLOR },
+        { id: "welfare-ev-label", name: "EV", value: ev, color: EV_COLOR },
+      ];
+      let j = 0;
+      while (j < welfareLabels.length) {
+        const item = welfareLabels[j];
+        const anchor = this.findLabelAnchor(drawables, item.id);
+        if (anchor) {
+          const valueText = " = " + this.formatNum(item.value);
+          drawables.push({
+            kind: "text",
+            id: item.id,
+            pos: this.resolveLabelPos(item.id, anchor, 0, 4),
+            text: item.name + valueText,
+            spans: [
+              { text: item.name, fontWeight: "bold" },
+              { text: valueText },
+            ],
+            fontSize,
+            fill: { color: item.color },
+            draggable: true,
+          });
+        }
+        j += 1;
+      }
+    }
 
     // Opt 可顯示/隱藏 + 可控顏色
     if (this.showOpt) {
@@ -765,6 +1376,30 @@ export class ConsumerOptController {
     // 方程式標籤: 可顯示/隱藏 + 字體大小 + 類 LaTeX
     if (this.showEquationLabels) {
       const equationFontSize = this.labelFontSize;
+      const supTextSize = this.supSize(equationFontSize);
+
+      // 效用 / 無異曲線方程式由目前的效用函數家族提供
+      const utility = this.model.getUtilityFunction();
+      const shape = this.model.getUtilityShape();
+
+      // PCC / ICC 標籤
+      let sl = 0;
+      while (sl < sweepKinds.length) {
+        const labelId = sweepKinds[sl] + "-label";
+        const sweepAnchor = this.findLabelAnchor(drawables, labelId);
+        if (sweepAnchor) {
+          drawables.push({
+            kind: "text",
+            id: labelId,
+            pos: this.resolveLabelPos(labelId, sweepAnchor, 6, -6),
+            text: sweepKinds[sl] === "pcc" ? "PCC" : "ICC",
+            fontSize: equationFontSize,
+            fill: { color: sweepKinds[sl] === "pcc" ? this.pccColor : this.iccColor },
+            draggable: true,
+          });
+        }
+        sl += 1;
+      }
 
       // ---------------------------------------------------------
       //  utility equation（效用方程式）顯示  (固定左上角)
@@ -772,18 +1407,33 @@ export class ConsumerOptController {
       const utilAnchor = this.findLabelAnchor(drawables, "utility-eq");
       if (utilAnchor) {
         const utilPos = this.resolveLabelPos("utility-eq", utilAnchor, 0, 0);
-        drawables.push({
-          kind: "text",
-          id: "utility-eq",
-          pos: utilPos,
-          // 顯示一般式 + 目前 a 值（用純文字，SVG 不做上標）
-          text: `U(x,y) = x^a y^(1-a),  a=${this.formatNum(p.a)}`,
-          // text: "U(x,y)=x^α y^(1-α)",
-          spans: this.buildUtilitySpans(p.a, equationFontSize),
-          fontSize: equationFontSize,
-          fill: { color: this.indiffColor },
-          draggable: true,
-        });
+        // 顯示一般式 + 目前參數（text 是純文字 fallback，spans 才有上下標）
+        const utilText = utility.utilityText(shape);
+        const utilSpans = utility.utilitySpans(shape, supTextSize);
+        if (this.useLatexLabels) {
+          drawables.push({
+            kind: "mathSvg",
+            id: "utility-eq",
+            pos: utilPos,
+            latex: utility.utilityLatex(shape),
+            fallbackText: utilText,
+            fallbackSpans: utilSpans,
+            fontSize: equationFontSize,
+            fill: { color: this.indiffColor },
+            draggable: true,
+          });
+        } else {
+          drawables.push({
+            kind: "text",
+            id: "utility-eq",
+            pos: utilPos,
+            text: utilText,
+            spans: utilSpans,
+            fontSize: equationFontSize,
+            fill: { color: this.indiffColor },
+            draggable: true,
+          });
+        }
       }
       
       // ---------------------------------------------------------
@@ -798,37 +1448,74 @@ export class ConsumerOptController {
       const budgetAnchor = this.findLabelAnchor(drawables, "budget-eq");
       if (budgetAnchor) {
         const budgetPos = this.resolveLabelPos("budget-eq", budgetAnchor, 10, -10);
-        drawables.push({
-          kind: "text",
-          id: "budget-eq",
-          pos: budgetPos,
-          text: `${this.formatNum(p.px)}x + ${this.formatNum(p.py)}y = ${this.formatNum(p.I)}`,
-          // text: "p_x x + p_y y = I",
-          spans: this.buildBudgetSpans(p.px, p.py, p.I, equationFontSize),
-          fontSize: equationFontSize,
-          fill: { color: this.budgetColor },
-          draggable: true,
-        });
+        // 拗折預算集合沒有單一方程式：用 lib 的描述文字（不加上下標）
+        const isLinear = this.model.isLinearBudget();
+        const budgetText = isLinear
+          ? `${this.formatNum(p.px)}x + ${this.formatNum(p.py)}y = ${this.formatNum(p.I)}`
+          : describeBudgetSet(p.budgetSet, { I: p.I, px: p.px, py: p.py });
+        const budgetSpans = isLinear
+          ? this.buildBudgetSpans(p.px, p.py, p.I, equationFontSize)
+          : undefined;
+        if (isLinear && this.useLatexLabels) {
+          drawables.push({
+            kind: "mathSvg",
+            id: "budget-eq",
+            pos: budgetPos,
+            latex: this.buildBudgetLatex(p.px, p.py, p.I),
+            fallbackText: budgetText,
+            fallbackSpans: budgetSpans,
+            fontSize: equationFontSize,
+            fill: { color: this.budgetColor },
+            draggable: true,
+          });
+        } else {
+          drawables.push({
+            kind: "text",
+            id: "budget-eq",
+            pos: budgetPos,
+            text: budgetText,
+            // text: "p_x x + p_y y = I",
+            spans: budgetSpans,
+            fontSize: equationFontSize,
+            fill: { color: this.budgetColor },
+            draggable: true,
+          });
+        }
       }
 
       // ---------------------------------------------------------
       // indifference equation（無異曲線方程）顯示 + 可拖曳 + 顏色同步
-      // 以 Cobb-Douglas：U0 = x^a y^(1-a)
-      // => y = (U0 / x^a)^(1/(1-a))
+      // 例如 Cobb-Douglas：U0 = x^a y^(1-a) => y = (U0 / x^a)^(1/(1-a))
       // ---------------------------------------------------------
       const indiffAnchor = this.findLabelAnchor(drawables, "indiff-eq");
       if (indiffAnchor) {
         const indiffPos = this.resolveLabelPos("indiff-eq", indiffAnchor, 10, -10);
-        drawables.push({
-          kind: "text",
-          id: "indiff-eq",
-          pos: indiffPos,
-          text: `y = (U0 / x^a)^(1/(1-a)),  U0=${this.formatNum(U0)}`,
-          // text: "y=(U0/x^a)^(1/(1-a))",
-          fontSize: equationFontSize,
-          fill: { color: this.indiffColor },
-          draggable: true,
-        });
+        const indiffText = utility.indiffText(U0, shape);
+        const indiffSpans = utility.indiffSpans(U0, shape, supTextSize);
+        if (this.useLatexLabels) {
+          drawables.push({
+            kind: "mathSvg",
+            id: "indiff-eq",
+            pos: indiffPos,
+            latex: utility.indiffLatex(U0, shape),
+            fallbackText: indiffText,
+            fallbackSpans: indiffSpans,
+            fontSize: equationFontSize,
+            fill: { color: this.indiffColor },
+            draggable: true,
+          });
+        } else {
+          drawables.push({
+            kind: "text",
+            id: "indiff-eq",
+            pos: indiffPos,
+            text: indiffText,
+            spans: indiffSpans,
+            fontSize: equationFontSize,
+            fill: { color: this.indiffColor },
+            draggable: true,
+          });
+        }
       }
 
       // ---------------------------------------------------------
@@ -0,0 +1,464 @@
+// src/mvc/controller/CostCurvesController.ts
+
+// ------------------------------------------------------------
+// CostCurvesController：廠商的成本曲線圖（單位成本那一張）
+// - MC / ATC / AVC / AFC：MC 穿過 ATC、AVC 的最低點（由成本函數本身保證）
+// - 歇業點（AVC 最低點）、損益兩平點（ATC 最低點）：標在 MC 上，往兩軸畫虛線
+// - 長期：幾個不同工廠規模的短期 ATC（淡色）+ 它們的包絡線 LRAC
+// - 曲線名稱 / 方程式 / 歇業價格 / 損益兩平價格：可拖曳（labelOffsets）
+//
+// 下方的 TC / TVC / TFC 面板由 TotalCostController 負責（共用 x 軸）。
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, TextSpan } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+import { CostCurvesModel, type CostParams } from "../model/CostCurvesModel";
+import { SceneController } from "./SceneController";
+
+// 可以用 slider 調的參數（和 CostParams 的欄位同名）
+export type CostParam = keyof CostParams;
+
+// 單位成本圖上的曲線（顏色各自可調；TC 面板沿用對應的顏色）
+export type CostCurveColorKey = "mc" | "atc" | "avc" | "afc" | "lrac";
+
+// 參數下限（c = 0 時 AVC 沒有最低點）
+const PARAM_MIN: Record<CostParam, number> = {
+  F: 0,
+  a: 0.1,
+  b: 0,
+  c: 0.01,
+  sigma: 0,
+};
+
+// 曲線的預設顏色（AppView 初始值 / 舊版存檔的 migration 共用）
+export const DEFAULT_COST_COLORS: Record<CostCurveColorKey, string> = {
+  mc: "#d62728",
+  atc: "#2ca02c",
+  avc: "#1f77b4",
+  afc: "#9467bd",
+  lrac: "#111111",
+};
+
+// 預設畫幾個工廠規模（含 s = 1 的基準工廠）
+export const DEFAULT_PLANT_COUNT = 5;
+
+const CURVE_NAMES: Record<CostCurveColorKey, string> = {
+  mc: "MC",
+  atc: "ATC",
+  avc: "AVC",
+  afc: "AFC",
+  lrac: "LRAC",
+};
+
+const SHORT_RUN_CURVES: ("afc" | "avc" | "atc" | "mc")[] = ["afc", "avc", "atc", "mc"];
+
+// 虛線顏色（和市場圖一致）
+const GUIDE_COLOR = "#888888";
+
+export class CostCurvesController extends SceneController {
+  private readonly model: CostCurvesModel;
+
+  // 曲線顏色（線與其標籤共用）
+  private curveColors: Record<CostCurveColorKey, string>;
+
+  // 長期：是否畫工廠規模族 + LRAC、畫幾個工廠規模
+  private showLongRun: boolean;
+  private plantCount: number;
+
+  constructor(args: {
+    innerWidth: number;
+    innerHeight: number;
+    model: CostCurvesModel;
+  }) {
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
+
+    this.model = args.model;
+
+    this.curveColors = { ...DEFAULT_COST_COLORS };
+    this.showLongRun = true;
+    this.plantCount = DEFAULT_PLANT_COUNT;
+  }
+
+  // =========================================================
+  // UI events (from View)
+  // =========================================================
+
+  // slider：成本參數
+  // 另外守住 a >= b^2 / (3c)：否則 MC 會掉到 0 以下（TVC 不再遞增）
+  // 哪個參數動了就由哪個參數讓步，其他 slider 不會被偷偷改掉
+  onParamChange(param: CostParam, value: number) {
+    let next = value;
+    if (next < PARAM_MIN[param]) {
+      next = PARAM_MIN[param];
+    }
+
+    const params: CostParams = { ...this.model.getModelParams() };
+    params[param] = next;
+
+    this.model.setParams(this.keepMcPositive(params, param));
+    this.rebuildAndNotify();
+  }
+
+  // 整組換掉（讀檔 / undo / 分享連結用）
+  // 和 slider 一樣套用下限與 a >= b^2 / (3c)；整組換掉時由 a 讓步
+  setCostParams(params: CostParams) {
+    const next: CostParams = { ...params };
+    const keys: CostParam[] = ["F", "a", "b", "c", "sigma"];
+    let i = 0;
+    while (i < keys.length) {
+      if (next[keys[i]] < PARAM_MIN[keys[i]]) {
+        next[keys[i]] = PARAM_MIN[keys[i]];
+      }
+      i += 1;
+    }
+
+    this.model.setParams(this.keepMcPositive(next, "a"));
+    this.rebuildAndNotify();
+  }
+
+  // MC 的最低點 a - b^2 / (3c) 不能 < 0：違反時由 give 這個參數讓步
+  // （F / sigma 和 MC 無關，給到它們時改由 a 讓步）
+  private keepMcPositive(params: CostParams, give: CostParam): CostParams {
+    const out: CostParams = { ...params };
+    if (out.a * 3 * out.c >= out.b * out.b) {
+      return out;
+    }
+    if (give === "b") {
+      out.b = Math.sqrt(3 * out.a * out.c);
+    } else if (give === "c") {
+      out.c = (out.b * out.b) / (3 * out.a);
+    } else {
+      out.a = (out.b * out.b) / (3 * out.c);
+    }
+    return out;
+  }
+
+  // ---------------------------------------------------------
+  //  View options setters
+  // ---------------------------------------------------------
+
+  // 顏色變更: 曲線 與 標籤一起變
+  setCurveColor(curve: CostCurveColorKey, color: string) {
+    this.curveColors[curve] = color;
+    this.rebuildAndNotify();
+  }
+
+  setShowLongRun(on: boolean) {
+    this.showLongRun = on;
+    this.rebuildAndNotify();
+  }
+
+  setPlantCount(count: number) {
+    let n = Math.round(count);
+    if (n < 1) {
+      n = 1;
+    }
+    this.plantCount = n;
+    this.rebuildAndNotify();
+  }
+
+  // 讓 View 讀到目前 model 參數（同步 slider 用）
+  getModelParamsSnapshot() {
+    return this.model.getModelParams();
+  }
+
+  // 讓 View（與 TC 面板）讀到目前顏色
+  getCurveColors(): Record<CostCurveColorKey, string> {
+    return { ...this.curveColors };
+  }
+
+  getLongRunOptions(): { showLongRun: boolean; plantCount: number } {
+    return { showLongRun: this.showLongRun, plantCount: this.plantCount };
+  }
+
+  // 歇業點 / 損益兩平點：面板顯示數值用
+  getShutdown() {
+    return this.model.computeShutdown();
+  }
+
+  getBreakEven() {
+    return this.model.computeBreakEven();
+  }
+
+  // =========================================================
+  // Internals
+  // =========================================================
+
+  // ---------------------------------------------------------
+  // findLabelAnchor:
+  // - xx-label（mc / atc / avc / afc / lrac） -> 曲線右端（Q 最大的點）
+  // - xx-eq                                   -> 曲線中段
+  // - shutdown-label / break-even-label       -> P 軸旁、該點虛線的上面
+  // ---------------------------------------------------------
+  protected findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null {
+    const keys: CostCurveColorKey[] = ["mc", "atc", "avc", "afc", "lrac"];
+    let c = 0;
+    while (c < keys.length) {
+      const curve = keys[c];
+      if (labelId === `${curve}-label` || labelId === `${curve}-eq`) {
+        const pts = this.findPolyline(drawables, curve);
+        if (!pts || pts.length <= 0) {
+          return null;
+        }
+        if (labelId === `${curve}-eq`) {
+          const mid = pts[Math.floor((pts.length - 1) / 2)];
+          return { x: mid.x, y: mid.y };
+        }
+        let right = pts[0];
+        let i = 1;
+        while (i < pts.length) {
+          if (pts[i].x > right.x) {
+            right = pts[i];
+          }
+          i += 1;
+        }
+        return { x: right.x + 6, y: right.y };
+      }
+      c += 1;
+    }
+
+    if (labelId === "shutdown-label" || labelId === "break-even-label") {
+      const pointId = labelId === "shutdown-label" ? "shutdown" : "break-even";
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "point" && d.id === pointId) {
+          return { x: 4, y: d.center.y - 4 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    return null;
+  }
+
+  private findPolyline(drawables: Drawable[], id: string): { x: number; y: number }[] | null {
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "polyline" && d.id === id) {
+        return d.points;
+      }
+      i += 1;
+    }
+    return null;
+  }
+
+  // ---------------------------------------------------------
+  //  曲線方程式（類似 LaTeX: 用 tspans 模擬上標）
+  //  - MC  = a - 2bQ + 3cQ^2
+  //  - ATC = F/Q + a - bQ + cQ^2
+  //  - AVC = a - bQ + cQ^2
+  //  - AFC = F/Q
+  // ---------------------------------------------------------
+  private buildCurveSpans(curve: "afc" | "avc" | "atc" | "mc", p: CostParams, fontSize: number): TextSpan[] {
+    const f = (v: number) => this.formatNum(v);
+    const supTextSize = this.supSize(fontSize);
+
+    if (curve === "afc") {
+      return [{ text: `AFC = ${f(p.F)}/Q` }];
+    }
+
+    let head = `AVC = ${f(p.a)} - ${f(p.b)}Q + ${f(p.c)}Q`;
+    if (curve === "mc") {
+      head = `MC = ${f(p.a)} - ${f(2 * p.b)}Q + ${f(3 * p.c)}Q`;
+    } else if (curve === "atc") {
+      head = `ATC = ${f(p.F)}/Q + ${f(p.a)} - ${f(p.b)}Q + ${f(p.c)}Q`;
+    }
+    return [{ text: head }, { text: "2", baselineShift: "super", fontSize: supTextSize }];
+  }
+
+  // =========================================================
+  // buildScene：把 model 的參數轉成 SceneOutput
+  // =========================================================
+  protected buildScene(): SceneOutput {
+    const p = this.model.getModelParams();
+    const shutdown = this.model.computeShutdown();
+    const breakEven = this.model.computeBreakEven();
+    const plants = this.showLongRun ? this.model.computePlantSizes(this.plantCount) : [1];
+
+    // 經濟座標範圍：
+    // - Q：損益兩平產量的 2 倍；畫長期時，最大的工廠的最低點也要放得進來
+    // - 成本：損益兩平價格的 2.5 倍；最貴的工廠的最低點也要放得進來
+    let xEconMax = breakEven.x * 2;
+    let yEconMax = breakEven.y * 2.5;
+    let k = 0;
+    while (k < plants.length) {
+      const low = this.model.computePlantMinimum(plants[k]);
+      if (low.x * 1.3 > xEconMax) {
+        xEconMax = low.x * 1.3;
+      }
+      if (low.y * 1.3 > yEconMax) {
+        yEconMax = low.y * 1.3;
+      }
+      k += 1;
+    }
+
+    // 成本圖和市場圖一樣，plot 用正方形
+    const plotSize = this.computePlotInnerSize(1, 1);
+
+    const vp = new Viewport(plotSize.width, plotSize.height, [0, xEconMax], [0, yEconMax]);
+    this.lastViewport = vp;
+
+    const range = { qMax: xEconMax, yMax: yEconMax, n: 160 };
+
+    const drawables: Drawable[] = [];
+
+    // 長期：其他工廠規模的短期 ATC（淡色，s = 1 就是下面的 ATC）+ LRAC 包絡線
+    if (this.showLongRun) {
+      let i = 0;
+      while (i < plants.length) {
+        const s = plants[i];
+        if (Math.abs(s - 1) > 1e-9) {
+          drawables.push({
+            kind: "polyline",
+            id: `plant-${i}`,
+            points: this.model.computePlantCurve(s, range).map((pt) => vp.econToPixelMapping(pt)),
+            stroke: { width: 1.5, color: this.curveColors.atc, opacity: 0.45 },
+          });
+        }
+        i += 1;
+      }
+      drawables.push({
+        kind: "polyline",
+        id: "lrac",
+        points: this.model.computeLongRunCurve(range).map((pt) => vp.econToPixelMapping(pt)),
+        stroke: { width: 2.5, color: this.curveColors.lrac },
+      });
+    }
+
+    // 歇業點 / 損益兩平點：往兩軸的虛線
+    const marks = [
+      { id: "shutdown", pt: shutdown },
+      { id: "break-even", pt: breakEven },
+    ];
+    k = 0;
+    while (k < marks.length) {
+      const px = vp.econToPixelMapping(marks[k].pt);
+      drawables.push({
+        kind: "line",
+        id: `${marks[k].id}-guide-p`,
+        a: px,
+        b: { x: 0, y: px.y },
+        stroke: { width: 1, color: GUIDE_COLOR, dash: [3, 3] },
+      });
+      drawables.push({
+        kind: "line",
+        id: `${marks[k].id}-guide-q`,
+        a: px,
+        b: { x: px.x, y: plotSize.height },
+        stroke: { width: 1, color: GUIDE_COLOR, dash: [3, 3] },
+      });
+      k += 1;
+    }
+
+    let c = 0;
+    while (c < SHORT_RUN_CURVES.length) {
+      const curve = SHORT_RUN_CURVES[c];
+      drawables.push({
+        kind: "polyline",
+        id: curve,
+        points: this.model.computeCurve(curve, range).map((pt) => vp.econToPixelMapping(pt)),
+        stroke: { width: 2, color: this.curveColors[curve] },
+      });
+      c += 1;
+    }
+
+    // 兩個點都在 MC 上
+    k = 0;
+    while (k < marks.length) {
+      drawables.push({
+        kind: "point",
+        id: marks[k].id,
+        center: vp.econToPixelMapping(marks[k].pt),
+        r: 4,
+        fill: { color: this.curveColors.mc },
+      });
+      k += 1;
+    }
+
+    const fontSize = this.labelFontSize;
+
+    // 曲線名稱
+    const names: CostCurveColorKey[] = this.showLongRun
+      ? ["afc", "avc", "atc", "mc", "lrac"]
+      : ["afc", "avc", "atc", "mc"];
+    c = 0;
+    while (c < names.length) {
+      const curve = names[c];
+      const id = `${curve}-label`;
+      const anchor = this.findLabelAnchor(drawables, id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id,
+          pos: this.resolveLabelPos(id, anchor, 0, 0),
+          text: CURVE_NAMES[curve],
+          fontSize: fontSize + 2,
+          fill: { color: this.curveColors[curve] },
+          draggable: true,
+        });
+      }
+      c += 1;
+    }
+
+    // 歇業價格 / 損益兩平價格
+    const markLabels = [
+      { id: "shutdown-label", text: `Shutdown P = ${this.formatNum(shutdown.y)}` },
+      { id: "break-even-label", text: `Break-even P = ${this.formatNum(breakEven.y)}` },
+    ];
+    k = 0;
+    while (k < markLabels.length) {
+      const item = markLabels[k];
+      const anchor = this.findLabelAnchor(drawables, item.id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id: item.id,
+          pos: this.resolveLabelPos(item.id, anchor, 0, 0),
+          text: item.text,
+          fontSize,
+          fill: { color: "#111111" },
+          draggable: true,
+        });
+      }
+      k += 1;
+    }
+
+    // 方程式標籤
+    if (this.showEquationLabels) {
+      c = 0;
+      while (c < SHORT_RUN_CURVES.length) {
+        const curve = SHORT_RUN_CURVES[c];
+        const id = `${curve}-eq`;
+        const anchor = this.findLabelAnchor(drawables, id);
+        if (anchor) {
+          const spans = this.buildCurveSpans(curve, p, fontSize);
+          drawables.push({
+            kind: "text",
+            id,
+            pos: this.resolveLabelPos(id, anchor, 10, -10),
+            text: spans.map((s) => (s.baselineShift === "super" ? `^${s.text}` : s.text)).join(""),
+            spans,
+            fontSize,
+            fill: { color: this.curveColors[curve] },
+            draggable: true,
+          });
+        }
+        c += 1;
+      }
+    }
+
+    return {
+      width: plotSize.width,
+      height: plotSize.height,
+      drawables,
+      xDomain: [0, xEconMax],
+      yDomain: [0, yEconMax],
+    };
+  }
+}
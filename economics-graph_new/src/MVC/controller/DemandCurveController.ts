@@ -0,0 +1,252 @@
+// src/mvc/controller/DemandCurveController.ts
+
+// ------------------------------------------------------------
+// DemandCurveController：消費者圖下方的「Marshallian 需求曲線」面板
+//
+// 經典的上下兩張圖：
+// - 上：無異曲線 / 預算線（ConsumerOptController）
+// - 下：x 的需求曲線 x*(px)（這個 controller）
+//
+// 兩張圖「共用 x 軸」：
+// - x 的經濟座標範圍直接沿用上圖的 xDomain
+// - plot 寬度也沿用上圖的寬度（GraphView 以同樣的方式置中，所以兩張圖的 x 會對齊）
+//
+// 資料流：
+// - 上圖 controller notify -> 這裡 rebuildAndNotify（px / I / 偏好 改了，需求曲線跟著動）
+// - 拖曳這裡的 (x*, px) 點 -> consumer.onPxChange -> 兩張圖一起更新
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, Vec2 } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+
+import { ConsumerOptModel } from "../model/ConsumerOptModel";
+import { ConsumerOptController } from "./ConsumerOptController";
+import { SceneController } from "./SceneController";
+
+// px 的範圍：和 AppView 的 px slider 一致
+const PX_MIN = 0.1;
+const PX_MAX = 5;
+
+// 需求曲線取樣點數
+const DEMAND_SAMPLES = 120;
+
+export class DemandCurveController extends SceneController {
+  private readonly model: ConsumerOptModel;
+
+  // 上圖的 controller：取 xDomain / plot 寬度，並把 px 的拖曳轉交給它
+  private readonly consumer: ConsumerOptController;
+
+  private demandColor: string;
+
+  constructor(args: {
+    innerWidth: number;
+    innerHeight: number;
+    model: ConsumerOptModel;
+    consumer: ConsumerOptController;
+  }) {
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
+
+    this.model = args.model;
+    this.consumer = args.consumer;
+
+    this.demandColor = "#111111";
+
+    this.handleConsumerUpdate = this.handleConsumerUpdate.bind(this);
+  }
+
+  // ---------------------------------------------------------
+  // connect / disconnect：訂閱上圖 controller
+  // - 和 View 一樣，由 AppView 在 componentDidMount / componentWillUnmount 呼叫
+  // ---------------------------------------------------------
+  connect() {
+    this.consumer.subscribe(this.handleConsumerUpdate);
+  }
+
+  disconnect() {
+    this.consumer.unsubscribe(this.handleConsumerUpdate);
+  }
+
+  // 上圖更新（px / I / 偏好 / domain 改變）-> 需求曲線重算
+  private handleConsumerUpdate() {
+    this.rebuildAndNotify();
+  }
+
+  // =========================================================
+  // UI events (from View)
+  // =========================================================
+
+  // 拖曳 (x*, px) 點：只有垂直方向有意義（改 px），x* 由模型決定
+  onPointDrag(id: string, pixel: { x: number; y: number }) {
+    if (id !== "demand-opt") {
+      return;
+    }
+
+    const vp = this.getViewport();
+    const econPoint = vp.pixelToEconMapping(pixel);
+
+    let px = econPoint.y;
+    if (px < PX_MIN) {
+      px = PX_MIN;
+    }
+    if (px > PX_MAX) {
+      px = PX_MAX;
+    }
+
+    // 交給上圖 controller：它會更新 model 並通知所有訂閱者（包含這個面板與 AppView 的 slider）
+    this.consumer.onPxChange(px);
+  }
+
+  setDemandColor(color: string) {
+    this.demandColor = color;
+    this.rebuildAndNotify();
+  }
+
+  // =========================================================
+  // Internals
+  // =========================================================
+
+  protected findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null {
+    if (labelId === "demand-label") {
+      // D 標在需求曲線的最後一個取樣點（px 最高的那端）旁邊
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "polyline" && d.id === "demand") {
+          const n = d.points.length;
+          if (n <= 0) {
+            return null;
+          }
+          return { x: d.points[n - 1].x, y: d.points[n - 1].y };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    if (labelId === "demand-opt-label") {
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "point" && d.id === "demand-opt") {
+          return { x: d.center.x + 8, y: d.center.y - 8 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    return null;
+  }
+
+  protected buildScene(): SceneOutput {
+    const p = this.model.getModelParams();
+
+    // 共用上圖的 x 軸：xDomain + plot 寬度
+    const upperScene = this.consumer.getScene();
+    const xDomain = upperScene.xDomain;
+    const xEconMax = xDomain[1];
+    const yEconMax = PX_MAX * 1.1;
+
+    const plotWidth = upperScene.width;
+    const plotHeight = this.innerH;
+
+    const vp = new Viewport(plotWidth, plotHeight, [xDomain[0], xEconMax], [0, yEconMax]);
+    this.lastViewport = vp;
+
+    // ---------------------------------------------------------
+    // 需求曲線：在 [PX_MIN, PX_MAX] 取樣 px，求 x*(px)
+    // - 超出上圖 x 範圍的點丟掉（px 很低時 x* 會很大）
+    // ---------------------------------------------------------
+    const curvePts: Vec2[] = [];
+    const step = (PX_MAX - PX_MIN) / (DEMAND_SAMPLES - 1);
+    let i = 0;
+    while (i < DEMAND_SAMPLES) {
+      const px = PX_MIN + step * i;
+      const opt = this.model.computeOptimumFor({ px });
+      if (Number.isFinite(opt.x) && opt.x <= xEconMax) {
+        curvePts.push(vp.econToPixelMapping({ x: opt.x, y: px }));
+      }
+      i += 1;
+    }
+
+    // 目前的 (x*, px)
+    const optEcon = this.model.computeOptimum();
+    const optPx = vp.econToPixelMapping({ x: optEcon.x, y: p.px });
+
+    const drawables: Drawable[] = [
+      {
+        kind: "polyline",
+        id: "demand",
+        points: curvePts,
+        stroke: { width: 2, color: this.demandColor },
+      },
+      // 往兩軸的虛線：x* 在 x 軸、px 在 y 軸
+      {
+        kind: "line",
+        id: "demand-guide-x",
+        a: optPx,
+        b: { x: optPx.x, y: plotHeight },
+        stroke: { width: 1, color: "#888888", dash: [3, 3] },
+      },
+      {
+        kind: "line",
+        id: "demand-guide-y",
+        a: optPx,
+        b: { x: 0, y: optPx.y },
+        stroke: { width: 1, color: "#888888", dash: [3, 3] },
+      },
+      {
+        kind: "point",
+        id: "demand-opt",
+        center: optPx,
+        r: 4,
+        fill: { color: this.demandColor },
+      },
+    ];
+
+    if (this.showEquationLabels) {
+      const fontSize = this.labelFontSize;
+
+      const dAnchor = this.findLabelAnchor(drawables, "demand-label");
+      if (dAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "demand-label",
+          pos: this.resolveLabelPos("demand-label", dAnchor, 6, 4),
+          text: "D",
+          spans: [
+            { text: "D" },
+            { text: "x", baselineShift: "sub", fontSize: this.supSize(fontSize) },
+          ],
+          fontSize,
+          fill: { color: this.demandColor },
+          draggable: true,
+        });
+      }
+
+      const optAnchor = this.findLabelAnchor(drawables, "demand-opt-label");
+      if (optAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "demand-opt-label",
+          pos: this.resolveLabelPos("demand-opt-label", optAnchor, 0, 0),
+          text: `(${this.formatNum(optEcon.x)}, ${this.formatNum(p.px)})`,
+          fontSize,
+          fill: { color: this.demandColor },
+          draggable: true,
+        });
+      }
+    }
+
+    return {
+      width: plotWidth,
+      height: plotHeight,
+      drawables,
+      xDomain: [xDomain[0], xEconMax],
+      yDomain: [0, yEconMax],
+    };
+  }
+}
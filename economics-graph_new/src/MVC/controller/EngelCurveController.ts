@@ -0,0 +1,276 @@
+// src/mvc/controller/EngelCurveController.ts
+
+// ------------------------------------------------------------
+// EngelCurveController：Engel 曲線面板（所得 I vs. 需求量 x*）
+//
+// - 垂直軸 I、水平軸 x*(I)，其他參數（px, py, 偏好）跟著消費者圖
+// - 目前的 (x*, I) 用一個點標出來；拖 Income slider 時點會沿曲線移動
+// - 所得彈性 η = (dx*/dI)(I/x*) 判斷財貨類型：
+//     η < 0      劣等財 (inferior)
+//     0 < η < 1  必需品 (normal, necessity)
+//     η > 1      奢侈品 (luxury)
+//
+// 和 DemandCurveController 一樣訂閱消費者 controller，
+// 拖曳這裡的點就把新的 I 轉交給 consumer.onIncomeChange。
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, Vec2 } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+
+import { ConsumerOptModel } from "../model/ConsumerOptModel";
+import { ConsumerOptController } from "./ConsumerOptController";
+import { SceneController } from "./SceneController";
+
+// I 的範圍：和 AppView 的 Income slider 一致
+const INCOME_MIN = 5;
+const INCOME_MAX = 60;
+
+// Engel 曲線取樣點數
+const ENGEL_SAMPLES = 120;
+
+export class EngelCurveController extends SceneController {
+  private readonly model: ConsumerOptModel;
+
+  // 消費者圖的 controller：拖曳時把 I 轉交給它
+  private readonly consumer: ConsumerOptController;
+
+  private engelColor: string;
+
+  constructor(args: {
+    innerWidth: number;
+    innerHeight: number;
+    model: ConsumerOptModel;
+    consumer: ConsumerOptController;
+  }) {
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
+
+    this.model = args.model;
+    this.consumer = args.consumer;
+
+    this.engelColor = "#111111";
+
+    this.handleConsumerUpdate = this.handleConsumerUpdate.bind(this);
+  }
+
+  // ---------------------------------------------------------
+  // connect / disconnect：訂閱消費者 controller（AppView mount / unmount 時呼叫）
+  // ---------------------------------------------------------
+  connect() {
+    this.consumer.subscribe(this.handleConsumerUpdate);
+  }
+
+  disconnect() {
+    this.consumer.unsubscribe(this.handleConsumerUpdate);
+  }
+
+  private handleConsumerUpdate() {
+    this.rebuildAndNotify();
+  }
+
+  // =========================================================
+  // UI events (from View)
+  // =========================================================
+
+  // 拖曳 (x*, I) 點：只取垂直方向（改 I）
+  onPointDrag(id: string, pixel: { x: number; y: number }) {
+    if (id !== "engel-opt") {
+      return;
+    }
+
+    const vp = this.getViewport();
+    const econPoint = vp.pixelToEconMapping(pixel);
+
+    let I = econPoint.y;
+    if (I < INCOME_MIN) {
+      I = INCOME_MIN;
+    }
+    if (I > INCOME_MAX) {
+      I = INCOME_MAX;
+    }
+
+    this.consumer.onIncomeChange(I);
+  }
+
+  setEngelColor(color: string) {
+    this.engelColor = color;
+    this.rebuildAndNotify();
+  }
+
+  // =========================================================
+  // Internals
+  // =========================================================
+
+  // 所得彈性 η（中央差分）；x* = 0 時無定義回傳 null
+  private computeIncomeElasticity(I: number): number | null {
+    const h = 0.01 * I;
+    const xHere = this.model.computeOptimumFor({ I }).x;
+    if (xHere <= 1e-9) {
+      return null;
+    }
+    const xUp = this.model.computeOptimumFor({ I: I + h }).x;
+    const xDown = this.model.computeOptimumFor({ I: I - h }).x;
+    const dxdI = (xUp - xDown) / (2 * h);
+    return dxdI * (I / xHere);
+  }
+
+  private describeGood(eta: number | null): string {
+    if (eta === null) {
+      return "η undefined (x* = 0)";
+    }
+    // 數值微分有誤差：離 0 或 1 很近時視為剛好等於（準線性 η=0、位似偏好 η=1）
+    const tol = 1e-3;
+    let kind = "normal, necessity";
+    if (Math.abs(eta) < tol) {
+      kind = "no income effect";
+    } else if (Math.abs(eta - 1) < tol) {
+      kind = "normal, unit elastic";
+    } else if (eta < 0) {
+      kind = "inferior";
+    } else if (eta > 1) {
+      kind = "luxury";
+    }
+    return `η = ${this.formatNum(eta)} (${kind})`;
+  }
+
+  protected findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null {
+    if (labelId === "engel-label") {
+      // 標在 Engel 曲線最上端（I 最大）
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "polyline" && d.id === "engel") {
+          const n = d.points.length;
+          if (n <= 0) {
+            return null;
+          }
+          return { x: d.points[n - 1].x, y: d.points[n - 1].y };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    if (labelId === "engel-opt-label") {
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "point" && d.id === "engel-opt") {
+          return { x: d.center.x + 8, y: d.center.y - 8 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    return null;
+  }
+
+  protected buildScene(): SceneOutput {
+    const p = this.model.getModelParams();
+
+    // ---------------------------------------------------------
+    // 先在 [INCOME_MIN, INCOME_MAX] 取樣 x*(I)，再由最大的 x* 決定 x 範圍
+    // ---------------------------------------------------------
+    const econPts: Vec2[] = [];
+    let xMaxSeen = 0;
+    const step = (INCOME_MAX - INCOME_MIN) / (ENGEL_SAMPLES - 1);
+    let i = 0;
+    while (i < ENGEL_SAMPLES) {
+      const I = INCOME_MIN + step * i;
+      const opt = this.model.computeOptimumFor({ I });
+      if (Number.isFinite(opt.x)) {
+        econPts.push({ x: opt.x, y: I });
+        if (opt.x > xMaxSeen) {
+          xMaxSeen = opt.x;
+        }
+      }
+      i += 1;
+    }
+
+    let xEconMax = xMaxSeen * 1.1;
+    if (xEconMax <= 0) {
+      xEconMax = 1;
+    }
+    const yEconMax = INCOME_MAX * 1.1;
+
+    const plotWidth = this.innerW;
+    const plotHeight = this.innerH;
+
+    const vp = new Viewport(plotWidth, plotHeight, [0, xEconMax], [0, yEconMax]);
+    this.lastViewport = vp;
+
+    const optEcon = this.model.computeOptimum();
+    const optPx = vp.econToPixelMapping({ x: optEcon.x, y: p.I });
+
+    const drawables: Drawable[] = [
+      {
+        kind: "polyline",
+        id: "engel",
+        points: econPts.map((pt) => vp.econToPixelMapping(pt)),
+        stroke: { width: 2, color: this.engelColor },
+      },
+      {
+        kind: "line",
+        id: "engel-guide-x",
+        a: optPx,
+        b: { x: optPx.x, y: plotHeight },
+        stroke: { width: 1, color: "#888888", dash: [3, 3] },
+      },
+      {
+        kind: "line",
+        id: "engel-guide-y",
+        a: optPx,
+        b: { x: 0, y: optPx.y },
+        stroke: { width: 1, color: "#888888", dash: [3, 3] },
+      },
+      {
+        kind: "point",
+        id: "engel-opt",
+        center: optPx,
+        r: 4,
+        fill: { color: this.engelColor },
+      },
+    ];
+
+    if (this.showEquationLabels) {
+      const fontSize = this.labelFontSize;
+
+      const curveAnchor = this.findLabelAnchor(drawables, "engel-label");
+      if (curveAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "engel-label",
+          pos: this.resolveLabelPos("engel-label", curveAnchor, 6, 12),
+          text: "Engel",
+          fontSize,
+          fill: { color: this.engelColor },
+          draggable: true,
+        });
+      }
+
+      const optAnchor = this.findLabelAnchor(drawables, "engel-opt-label");
+      if (optAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "engel-opt-label",
+          pos: this.resolveLabelPos("engel-opt-label", optAnchor, 0, 0),
+          text: this.describeGood(this.computeIncomeElasticity(p.I)),
+          fontSize,
+          fill: { color: this.engelColor },
+          draggable: true,
+        });
+      }
+    }
+
+    return {
+      width: plotWidth,
+      height: plotHeight,
+      drawables,
+      xDomain: [0, xEconMax],
+      yDomain: [0, yEconMax],
+    };
+  }
+}
@@ -0,0 +1,191 @@
+// src/mvc/controller/HistoryController.ts
+
+// ------------------------------------------------------------
+// HistoryController：undo / redo
+//
+// 做法：快照（snapshot）而不是逐一記錄每個 setter
+// - capture()：拍下「整張圖」目前的狀態（AppView 用 FigureDocument）
+// - restore(snapshot)：把狀態整個換回去（AppView 用 applyFigureDocument）
+// 所以 slider、拖曳 opt 點（onPointDrag）、拖曳標籤（onTextDrag）、顏色、顯示開關
+// 全部自動涵蓋，之後新增的控制項也不用另外處理。
+//
+// 步驟（step）怎麼切：
+// - 使用者每開始一個新動作（pointerdown / keydown）就呼叫 markInput()
+// - 之後到下一個動作之前的所有變動（record()）都併成同一步
+//   -> 一次拖曳 / 一次拖 slider（很多個 onChange）= 一步
+// - 連續打字 / 連按方向鍵（KEY_COALESCE_MS 內）也併成同一步
+// ------------------------------------------------------------
+
+export type HistoryInputKind = "pointer" | "key";
+
+// 連續按鍵間隔小於這個值，視為同一個動作
+const KEY_COALESCE_MS = 1000;
+
+// 最多保留幾步（太多會佔記憶體）
+const DEFAULT_LIMIT = 100;
+
+export class HistoryController<T> {
+  private readonly capture: () => T;
+  private readonly restore: (snapshot: T) => void;
+  private readonly same: (a: T, b: T) => boolean;
+  private readonly limit: number;
+
+  // past：可以 undo 回去的快照（最後一個是上一步）
+  // present：目前狀態的快照
+  // future：undo 之後可以 redo 的快照（最後一個是下一步）
+  private past: T[];
+  private present: T | null;
+  private future: T[];
+
+  // 目前這一步是否已經開了（開了之後的變動都覆蓋 present，不再多一步）
+  private stepOpen: boolean;
+
+  // 上一個輸入動作（連續按鍵合併用）
+  private lastInputKind: HistoryInputKind | null;
+  private lastInputTime: number;
+
+  // undo / redo 狀態改變時通知（按鈕的 enabled 用）
+  private listeners: (() => void)[];
+
+  constructor(args: {
+    capture: () => T;
+    restore: (snapshot: T) => void;
+    same: (a: T, b: T) => boolean;
+    limit?: number;
+  }) {
+    this.capture = args.capture;
+    this.restore = args.restore;
+    this.same = args.same;
+    this.limit = args.limit !== undefined ? args.limit : DEFAULT_LIMIT;
+
+    this.past = [];
+    this.present = null;
+    this.future = [];
+
+    this.stepOpen = false;
+    this.lastInputKind = null;
+    this.lastInputTime = 0;
+
+    this.listeners = [];
+  }
+
+  // ---------------------------------------------------------
+  // subscribe / unsubscribe：View 用
+  // ---------------------------------------------------------
+  subscribe(fn: () => void) {
+    this.listeners.push(fn);
+  }
+
+  unsubscribe(fn: () => void) {
+    const next: (() => void)[] = [];
+    let i = 0;
+    while (i < this.listeners.length) {
+      if (this.listeners[i] !== fn) {
+        next.push(this.listeners[i]);
+      }
+      i += 1;
+    }
+    this.listeners = next;
+  }
+
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  // ---------------------------------------------------------
+  // reset：以目前狀態為起點，清空 undo / redo
+  // ---------------------------------------------------------
+  reset() {
+    this.past = [];
+    this.future = [];
+    this.present = this.capture();
+    this.stepOpen = false;
+    this.notify();
+  }
+
+  // ---------------------------------------------------------
+  // markInput：使用者開始一個新動作
+  // - pointer：每次按下都是新的一步
+  // - key：和上一個按鍵相隔很近就延續同一步（打字、連按方向鍵）
+  // ---------------------------------------------------------
+  markInput(kind: HistoryInputKind) {
+    const now = Date.now();
+    const continuing =
+      kind === "key" && this.lastInputKind === "key" && now - this.lastInputTime < KEY_COALESCE_MS;
+
+    this.lastInputKind = kind;
+    this.lastInputTime = now;
+    if (!continuing) {
+      this.stepOpen = false;
+    }
+  }
+
+  // ---------------------------------------------------------
+  // record：狀態可能變了 -> 拍快照，和 present 比較
+  // - 沒變：什麼都不做
+  // - 這一步還沒開：present 推進 past，開新的一步
+  // - 這一步已經開了：直接覆蓋 present（合併）
+  // 任何新變動都會清掉 redo
+  // ---------------------------------------------------------
+  record() {
+    const snapshot = this.capture();
+    if (this.present === null) {
+      this.present = snapshot;
+      return;
+    }
+    if (this.same(snapshot, this.present)) {
+      return;
+    }
+
+    if (!this.stepOpen) {
+      this.past.push(this.present);
+      if (this.past.length > this.limit) {
+        this.past.shift();
+      }
+      this.stepOpen = true;
+    }
+    this.present = snapshot;
+    this.future = [];
+    this.notify();
+  }
+
+  // ---------------------------------------------------------
+  // undo / redo：present 和 past / future 交換，再 restore
+  // （restore 之後的 record 會發現狀態和 present 一樣，不會多出一步）
+  // ---------------------------------------------------------
+  undo() {
+    const target = this.past.pop();
+    if (target === undefined || this.present === null) {
+      return;
+    }
+    this.future.push(this.present);
+    this.present = target;
+    this.stepOpen = false;
+    this.restore(target);
+    this.notify();
+  }
+
+  redo() {
+    const target = this.future.pop();
+    if (target === undefined || this.present === null) {
+      return;
+    }
+    this.past.push(this.present);
+    this.present = target;
+    this.stepOpen = false;
+    this.restore(target);
+    this.notify();
+  }
+
+  private notify() {
+    let i = 0;
+    while (i < this.listeners.length) {
+      this.listeners[i]();
+      i += 1;
+    }
+  }
+}
@@ -0,0 +1,986 @@
+// src/mvc/controller/MarketController.ts
+
+// ------------------------------------------------------------
+// MarketController：供需市場圖（對應 ConsumerOptController / ProducerOptController）
+// - 需求曲線 D、供給曲線 S：linear 或 constantElasticity，可水平移動
+// - 均衡點 E = (Q*, P*)：往兩軸畫虛線，軸旁標出 Q* / P* 的值
+// - 曲線移動時，移動前的曲線用淡虛線保留（看得出往哪邊移）
+// - 市場干預：稅 / 補貼的楔子（wedge）、價格上限 / 下限與短缺 / 過剩、配額
+// - 福利分析：CS / PS / Gov / DWL 塗色區域 + 面積標籤，可各自開關、換色（依干預後的成交結果）
+// - 曲線名稱 / 方程式 / 均衡標籤 / 面積標籤：可拖曳（labelOffsets）
+//
+// 產出的 SceneOutput 和消費者圖同一套規格，
+// 所以直接丟給 ConsumerOptGraphView / SvgSceneView / AxesView 就能畫。
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, TextSpan } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+import { MarketModel, type MarketParams } from "../model/MarketModel";
+import { SceneController } from "./SceneController";
+import {
+  WELFARE_REGIONS,
+  welfareLabel,
+  type MarketCurve,
+  type MarketCurveKind,
+  type MarketIntervention,
+  type MarketInterventionKind,
+  type MarketInterventionResult,
+  type MarketSide,
+  type MarketWelfare,
+  type WelfareRegion,
+} from "../../lib/market";
+
+// 曲線上可以用 slider 調的參數
+export type MarketCurveParam = "intercept" | "slope" | "scale" | "elasticity" | "shift";
+
+// 干預上可以用 slider 調的參數（和 MarketIntervention 的欄位同名）
+export type MarketInterventionParam = "tax" | "subsidy" | "ceiling" | "floor" | "quota";
+
+// 參數下限（slope / scale / elasticity = 0 會讓曲線退化）
+const CURVE_PARAM_MIN: Record<MarketCurveParam, number> = {
+  intercept: 0,
+  slope: 0.05,
+  scale: 0.1,
+  elasticity: 0.05,
+  shift: -Infinity,
+};
+
+// 沒有均衡時的座標範圍
+const FALLBACK_Q_MAX = 10;
+const FALLBACK_P_MAX = 10;
+
+// 均衡虛線顏色（和 Slutsky 的輔助虛線一致）
+const GUIDE_COLOR = "#888888";
+
+// 干預（楔子、價格管制線、配額線、短缺 / 過剩）的顏色
+const POLICY_COLOR = "#8c564b";
+
+// 福利區域的預設顏色（AppView 初始值 / 舊版存檔的 migration 共用）
+export const DEFAULT_WELFARE_COLORS: Record<WelfareRegion, string> = {
+  cs: "#1f77b4",
+  ps: "#2ca02c",
+  gov: "#9467bd",
+  dwl: "#d62728",
+};
+
+// 福利區域的填色透明度（讓曲線和格線還看得到）
+const WELFARE_FILL_OPACITY = 0.25;
+
+export class MarketController extends SceneController {
+  private readonly model: MarketModel;
+
+  // 線段顏色 (線與其標籤會共用)
+  private demandColor: string;
+  private supplyColor: string;
+
+  // 福利區域：各自的開關 / 顏色
+  private showWelfare: Record<WelfareRegion, boolean>;
+  private welfareColors: Record<WelfareRegion, string>;
+
+  // 最近一次 buildScene 算出的福利（面板顯示面積用；價格上限跟著圖的價格軸）
+  private lastWelfare: MarketWelfare | null;
+
+  constructor(args: {
+    innerWidth: number;
+    innerHeight: number;
+    model: MarketModel;
+  }) {
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
+
+    this.model = args.model;
+
+    this.demandColor = "#111111";
+    this.supplyColor = "#111111";
+
+    this.showWelfare = { cs: false, ps: false, gov: false, dwl: false };
+    this.welfareColors = { ...DEFAULT_WELFARE_COLORS };
+    this.lastWelfare = null;
+  }
+
+  // =========================================================
+  // UI events (from View)
+  // =========================================================
+
+  // 下拉選單：曲線種類
+  onCurveKindChange(side: MarketSide, kind: MarketCurveKind) {
+    const curve = this.model.getModelParams()[side];
+    this.model.setCurve(side, { ...curve, kind });
+    this.rebuildAndNotify();
+  }
+
+  // slider：曲線參數（截距 / 斜率 / 規模 / 彈性 / 水平移動）
+  onCurveParamChange(side: MarketSide, param: MarketCurveParam, value: number) {
+    let next = value;
+    if (next < CURVE_PARAM_MIN[param]) {
+      next = CURVE_PARAM_MIN[param];
+    }
+
+    const curve: MarketCurve = { ...this.model.getModelParams()[side] };
+    curve[param] = next;
+    this.model.setCurve(side, curve);
+    this.rebuildAndNotify();
+  }
+
+  // 下拉選單：干預種類
+  onInterventionKindChange(kind: MarketInterventionKind) {
+    const intervention = this.model.getModelParams().intervention;
+    this.model.setIntervention({ ...intervention, kind });
+    this.rebuildAndNotify();
+  }
+
+  // slider：干預參數（稅額 / 補貼額 / 價格上限 / 價格下限 / 配額），都不能是負的
+  onInterventionParamChange(param: MarketInterventionParam, value: number) {
+    let next = value;
+    if (next < 0) {
+      next = 0;
+    }
+
+    const intervention: MarketIntervention = { ...this.model.getModelParams().intervention };
+    intervention[param] = next;
+    this.model.setIntervention(intervention);
+    this.rebuildAndNotify();
+  }
+
+  // 整組換掉（讀檔 / undo 用）
+  setMarketParams(params: MarketParams) {
+    this.model.setCurve("demand", params.demand);
+    this.model.setCurve("supply", params.supply);
+    this.model.setIntervention(params.intervention);
+    this.rebuildAndNotify();
+  }
+
+  // ---------------------------------------------------------
+  //  View options setters
+  // ---------------------------------------------------------
+
+  // 顏色變更: 線段 與 標籤一起變
+  setDemandColor(color: string) {
+    this.demandColor = color;
+    this.rebuildAndNotify();
+  }
+
+  setSupplyColor(color: string) {
+    this.supplyColor = color;
+    this.rebuildAndNotify();
+  }
+
+  // 福利區域：開關 / 顏色（區域和面積標籤一起變）
+  setShowWelfareRegion(region: WelfareRegion, on: boolean) {
+    this.showWelfare[region] = on;
+    this.rebuildAndNotify();
+  }
+
+  setWelfareColor(region: WelfareRegion, color: string) {
+    this.welfareColors[region] = color;
+    this.rebuildAndNotify();
+  }
+
+  // 讓 View 讀到目前福利區域的開關 / 顏色（面板同步、存檔用）
+  getWelfareOptions(): { show: Record<WelfareRegion, boolean>; colors: Record<WelfareRegion, string> } {
+    return { show: { ...this.showWelfare }, colors: { ...this.welfareColors } };
+  }
+
+  // 各區域面積：面板顯示數值用（沒有均衡時為 null）
+  getWelfareAreas(): Record<WelfareRegion, number> | null {
+    // lastWelfare 是 buildScene 的副產品：先確保 scene 是最新的
+    this.getScene();
+    const w = this.lastWelfare;
+    if (!w) {
+      return null;
+    }
+    return { cs: w.cs.area, ps: w.ps.area, gov: w.gov.area, dwl: w.dwl.area };
+  }
+
+  // 讓 View 讀到目前 model 參數（同步 slider 用）
+  getModelParamsSnapshot() {
+    return this.model.getModelParams();
+  }
+
+  // 讓 View 讀到目前線段顏色（面板重新 mount / 讀檔後同步 color input 用）
+  getLineColors(): { demand: string; supply: string } {
+    return { demand: this.demandColor, supply: this.supplyColor };
+  }
+
+  // 均衡 (Q*, P*)：面板顯示數值用
+  getEquilibrium() {
+    return this.model.computeEquilibrium();
+  }
+
+  // 干預後的市場（成交量、買賣價格、短缺 / 過剩、負擔）：面板顯示數值用
+  getInterventionResult() {
+    return this.model.computeIntervention();
+  }
+
+  // =========================================================
+  // Internals
+  // =========================================================
+
+  // ---------------------------------------------------------
+  // findLabelAnchor:
+  // - demand-label / supply-label -> 曲線右端（Q 最大的點）
+  // - demand-eq / supply-eq       -> 曲線中段
+  // - eq-label                    -> 均衡點右上
+  // - eq-q-label                  -> Q 軸上、均衡虛線的右邊
+  // - eq-p-label                  -> P 軸旁、均衡虛線的上面
+  // - welfare-xx-label            -> 該塊區域的形心
+  // - 干預的標籤                  -> 見 findInterventionAnchor
+  // ---------------------------------------------------------
+  protected findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null {
+    if (labelId === "demand-label" || labelId === "supply-label") {
+      const curve = this.findPolyline(drawables, labelId === "demand-label" ? "demand" : "supply");
+      if (!curve || curve.length <= 0) {
+        return null;
+      }
+      let right = curve[0];
+      let i = 1;
+      while (i < curve.length) {
+        if (curve[i].x > right.x) {
+          right = curve[i];
+        }
+        i += 1;
+      }
+      return { x: right.x + 6, y: right.y };
+    }
+
+    if (labelId === "demand-eq" || labelId === "supply-eq") {
+      const curve = this.findPolyline(drawables, labelId === "demand-eq" ? "demand" : "supply");
+      if (!curve || curve.length <= 0) {
+        return null;
+      }
+      // 中段：兩個中間點的平均（linear 只有兩個端點時就是線段中點）
+      const lo = curve[Math.floor((curve.length - 1) / 2)];
+      const hi = curve[Math.ceil((curve.length - 1) / 2)];
+      return { x: (lo.x + hi.x) / 2, y: (lo.y + hi.y) / 2 };
+    }
+
+    if (labelId === "tax-supply-label") {
+      const curve = this.findPolyline(drawables, "tax-supply");
+      if (!curve || curve.length <= 0) {
+        return null;
+      }
+      let right = curve[0];
+      let i = 1;
+      while (i < curve.length) {
+        if (curve[i].x > right.x) {
+          right = curve[i];
+        }
+        i += 1;
+      }
+      return { x: right.x + 6, y: right.y };
+    }
+
+    const policyAnchor = this.findInterventionAnchor(drawables, labelId);
+    if (policyAnchor) {
+      return policyAnchor;
+    }
+
+    let r = 0;
+    while (r < WELFARE_REGIONS.length) {
+      const region = WELFARE_REGIONS[r];
+      if (labelId === `welfare-${region}-label`) {
+        return this.findAreaCentroid(drawables, `welfare-${region}`);
+      }
+      r += 1;
+    }
+
+    let eq: { x: number; y: number } | null = null;
+    let plotHeight = 0;
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "point" && d.id === "eq") {
+        eq = d.center;
+      }
+      if (d.kind === "line" && d.id === "eq-guide-q") {
+        plotHeight = d.b.y;
+      }
+      i += 1;
+    }
+    if (!eq) {
+      return null;
+    }
+
+    if (labelId === "eq-label") {
+      return { x: eq.x + 8, y: eq.y - 8 };
+    }
+    if (labelId === "eq-q-label") {
+      return { x: eq.x + 4, y: plotHeight - 4 };
+    }
+    if (labelId === "eq-p-label") {
+      return { x: 4, y: eq.y - 4 };
+    }
+
+    return null;
+  }
+
+  // ---------------------------------------------------------
+  // findInterventionAnchor:
+  // - wedge-label          -> 楔子（垂直線段）中點的右邊
+  // - pb-label / ps-label  -> P 軸旁、買方 / 賣方價格虛線的上面 / 下面
+  // - qt-label             -> Q 軸上、成交量虛線的右邊（比 Q* 高一行，免得疊在一起）
+  // - price-control-label  -> 價格上限 / 下限線的右端
+  // - shortage-label       -> 短缺 / 過剩線段的中點
+  // - quota-label          -> 配額線的上端
+  // ---------------------------------------------------------
+  private findInterventionAnchor(drawables: Drawable[], labelId: string): { x: number; y: number } | null {
+    const line = (id: string) => {
+      const d = this.findDrawable(drawables, id);
+      return d && d.kind === "line" ? d : null;
+    };
+    const point = (id: string) => {
+      const d = this.findDrawable(drawables, id);
+      return d && d.kind === "point" ? d.center : null;
+    };
+
+    if (labelId === "wedge-label") {
+      const d = line("wedge");
+      return d ? { x: d.a.x + 8, y: (d.a.y + d.b.y) / 2 + 4 } : null;
+    }
+    if (labelId === "pb-label") {
+      const c = point("buyer-point");
+      return c ? { x: 4, y: c.y - 4 } : null;
+    }
+    if (labelId === "ps-label") {
+      const c = point("seller-point");
+      return c ? { x: 4, y: c.y + 14 } : null;
+    }
+    if (labelId === "qt-label") {
+      const c = point("buyer-point");
+      const guide = line("qt-guide");
+      return c && guide ? { x: c.x + 4, y: guide.b.y - 18 } : null;
+    }
+    if (labelId === "price-control-label") {
+      const d = line("price-control");
+      return d ? { x: d.b.x - 4, y: d.b.y - 4 } : null;
+    }
+    if (labelId === "shortage-label") {
+      const d = line("shortage");
+      return d ? { x: (d.a.x + d.b.x) / 2, y: d.a.y } : null;
+    }
+    if (labelId === "quota-label") {
+      const d = line("quota");
+      return d ? { x: d.a.x + 4, y: d.a.y + 12 } : null;
+    }
+    return null;
+  }
+
+  private findDrawable(drawables: Drawable[], id: string): Drawable | null {
+    let i = 0;
+    while (i < drawables.length) {
+      if (drawables[i].id === id) {
+        return drawables[i];
+      }
+      i += 1;
+    }
+    return null;
+  }
+
+  private findPolyline(drawables: Drawable[], id: string): { x: number; y: number }[] | null {
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "polyline" && d.id === id) {
+        return d.points;
+      }
+      i += 1;
+    }
+    return null;
+  }
+
+  // 多邊形的形心（面積加權；取樣點集中在曲線那一側也不會偏）
+  private findAreaCentroid(drawables: Drawable[], id: string): { x: number; y: number } | null {
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "area" && d.id === id) {
+        const pts = d.points;
+        let a2 = 0;
+        let cx = 0;
+        let cy = 0;
+        let k = 0;
+        while (k < pts.length) {
+          const p0 = pts[k];
+          const p1 = pts[(k + 1) % pts.length];
+          const cross = p0.x * p1.y - p1.x * p0.y;
+          a2 += cross;
+          cx += (p0.x + p1.x) * cross;
+          cy += (p0.y + p1.y) * cross;
+          k += 1;
+        }
+        if (a2 === 0) {
+          return null;
+        }
+        return { x: cx / (3 * a2), y: cy / (3 * a2) };
+      }
+      i += 1;
+    }
+    return null;
+  }
+
+  // ---------------------------------------------------------
+  //  曲線方程式（類似 LaTeX: 用 tspans 模擬上標）
+  //  - linear：       需求 P = a - b(Q - s)、供給 P = c + d(Q - s)
+  //  - constantElast：需求 Q = A P^(-e) + s、供給 Q = B P^(e) + s
+  // ---------------------------------------------------------
+  private formatShiftedQ(shift: number): string {
+    if (shift === 0) {
+      return "Q";
+    }
+    if (shift > 0) {
+      return `(Q - ${this.formatNum(shift)})`;
+    }
+    return `(Q + ${this.formatNum(-shift)})`;
+  }
+
+  private formatShiftTail(shift: number): string {
+    if (shift === 0) {
+      return "";
+    }
+    if (shift > 0) {
+      return ` + ${this.formatNum(shift)}`;
+    }
+    return ` - ${this.formatNum(-shift)}`;
+  }
+
+  private buildCurveText(side: MarketSide, curve: MarketCurve): string {
+    if (curve.kind === "constantElasticity") {
+      const e = side === "demand" ? `-${this.formatNum(curve.elasticity)}` : this.formatNum(curve.elasticity);
+      return `Q = ${this.formatNum(curve.scale)}P^${e}${this.formatShiftTail(curve.shift)}`;
+    }
+    const sign = side === "demand" ? "-" : "+";
+    return (
+      `P = ${this.formatNum(curve.intercept)} ${sign} ` +
+      `${this.formatNum(curve.slope)}${this.formatShiftedQ(curve.shift)}`
+    );
+  }
+
+  private buildCurveSpans(side: MarketSide, curve: MarketCurve, fontSize: number): TextSpan[] {
+    if (curve.kind === "constantElasticity") {
+      const supTextSize = this.supSize(fontSize);
+      const e = side === "demand" ? `-${this.formatNum(curve.elasticity)}` : this.formatNum(curve.elasticity);
+      return [
+        { text: `Q = ${this.formatNum(curve.scale)}P` },
+        { text: e, baselineShift: "super", fontSize: supTextSize },
+        { text: this.formatShiftTail(curve.shift) },
+      ];
+    }
+    return [{ text: this.buildCurveText(side, curve) }];
+  }
+
+  // ---------------------------------------------------------
+  // buildInterventionLayer：干預的圖形（像素座標）
+  // - tax / subsidy：供給曲線上下平移（S + t / S - s）、楔子、買賣價格與成交量虛線
+  // - quota：配額線；有約束力時同樣畫出楔子（配額租）
+  // - ceiling / floor：價格管制線；有約束力時畫出短缺 / 過剩的線段與兩端的量
+  // - 沒有約束力的上限 / 下限 / 配額：只畫線（在圖的範圍內時）
+  // ---------------------------------------------------------
+  private buildInterventionLayer(
+    iv: MarketIntervention,
+    result: MarketInterventionResult | null,
+    vp: Viewport,
+    range: { pMin: number; pMax: number; qMax: number; n: number }
+  ): Drawable[] {
+    const out: Drawable[] = [];
+    const kind = iv.kind;
+    const plotWidth = vp.getInnerWidth();
+    const plotHeight = vp.getInnerHeight();
+    const guide = { width: 1, color: GUIDE_COLOR, dash: [3, 3] };
+
+    // 稅 / 補貼：買方看到的供給曲線 = 賣方價格 + wedge
+    if (kind === "tax" || kind === "subsidy") {
+      const wedge = kind === "tax" ? iv.tax : -iv.subsidy;
+      if (wedge !== 0) {
+        const sellerRange = {
+          pMin: Math.max(range.pMin - wedge, 0),
+          pMax: range.pMax - wedge,
+          qMax: range.qMax,
+          n: range.n,
+        };
+        if (sellerRange.pMax > sellerRange.pMin) {
+          const pts = this.model.computeCurve("supply", sellerRange, false);
+          out.push({
+            kind: "polyline",
+            id: "tax-supply",
+            points: pts.map((pt) => vp.econToPixelMapping({ x: pt.x, y: pt.y + wedge })),
+            stroke: { width: 1.5, color: this.supplyColor, dash: [6, 4] },
+          });
+        }
+      }
+    }
+
+    // 價格上限 / 下限：橫跨整張圖的水平線
+    if (kind === "ceiling" || kind === "floor") {
+      const price = kind === "ceiling" ? iv.ceiling : iv.floor;
+      if (price <= range.pMax) {
+        const y = vp.econToPixelMapping({ x: 0, y: price }).y;
+        out.push({
+          kind: "line",
+          id: "price-control",
+          a: { x: 0, y },
+          b: { x: plotWidth, y },
+          stroke: { width: 1.5, color: POLICY_COLOR },
+        });
+      }
+
+      // 短缺 / 過剩：需求量和供給量之間的線段
+      if (result && result.binding) {
+        const qd = vp.econToPixelMapping({ x: result.quantityDemanded, y: price });
+        const qs = vp.econToPixelMapping({ x: result.quantitySupplied, y: price });
+        out.push({
+          kind: "line",
+          id: "qd-guide",
+          a: qd,
+          b: { x: qd.x, y: plotHeight },
+          stroke: guide,
+        });
+        out.push({
+          kind: "line",
+          id: "qs-guide",
+          a: qs,
+          b: { x: qs.x, y: plotHeight },
+          stroke: guide,
+        });
+        out.push({
+          kind: "line",
+          id: "shortage",
+          a: qd.x < qs.x ? qd : qs,
+          b: qd.x < qs.x ? qs : qd,
+          stroke: { width: 4, color: POLICY_COLOR },
+        });
+        out.push({ kind: "point", id: "qd-point", center: qd, r: 4, fill: { color: POLICY_COLOR } });
+        out.push({ kind: "point", id: "qs-point", center: qs, r: 4, fill: { color: POLICY_COLOR } });
+      }
+    }
+
+    // 配額：垂直線
+    if (kind === "quota" && iv.quota <= range.qMax) {
+      const x = vp.econToPixelMapping({ x: iv.quota, y: 0 }).x;
+      out.push({
+        kind: "line",
+        id: "quota",
+        a: { x, y: 0 },
+        b: { x, y: plotHeight },
+        stroke: { width: 1.5, color: POLICY_COLOR },
+      });
+    }
+
+    // 楔子：同一個成交量下，買方價格（需求曲線上）和賣方價格（供給曲線上）之間
+    if (result && result.binding && (kind === "tax" || kind === "subsidy" || kind === "quota")) {
+      const o = result.outcome;
+      const buyer = vp.econToPixelMapping({ x: o.quantity, y: o.buyerPrice });
+      const seller = vp.econToPixelMapping({ x: o.quantity, y: o.sellerPrice });
+
+      out.push({ kind: "line", id: "pb-guide", a: buyer, b: { x: 0, y: buyer.y }, stroke: guide });
+      out.push({ kind: "line", id: "ps-guide", a: seller, b: { x: 0, y: seller.y }, stroke: guide });
+      if (kind !== "quota") {
+        // 配額線本身就標出了成交量
+        const low = buyer.y > seller.y ? buyer : seller;
+        out.push({ kind: "line", id: "qt-guide", a: low, b: { x: low.x, y: plotHeight }, stroke: guide });
+      }
+
+      out.push({
+        kind: "line",
+        id: "wedge",
+        a: buyer,
+        b: seller,
+        stroke: { width: 3, color: POLICY_COLOR },
+      });
+      out.push({ kind: "point", id: "buyer-point", center: buyer, r: 4, fill: { color: POLICY_COLOR } });
+      out.push({ kind: "point", id: "seller-point", center: seller, r: 4, fill: { color: POLICY_COLOR } });
+    }
+
+    return out;
+  }
+
+  // ---------------------------------------------------------
+  // buildInterventionLabels：干預的標籤（文字 + 相對 anchor 的預設位移）
+  // 位置由 findInterventionAnchor 決定，沒有對應圖形的標籤會被略過
+  // ---------------------------------------------------------
+  private buildInterventionLabels(
+    iv: MarketIntervention,
+    result: MarketInterventionResult | null,
+    fontSize: number
+  ): {
+    id: string;
+    text: string;
+    spans?: TextSpan[];
+    dy: number;
+    color: string;
+    textAnchor: "start" | "middle" | "end";
+  }[] {
+    const kind = iv.kind;
+    const binding = result !== null && result.binding;
+    const subSize = this.supSize(fontSize);
+    const out: {
+      id: string;
+      text: string;
+      spans?: TextSpan[];
+      dy: number;
+      color: string;
+      textAnchor: "start" | "middle" | "end";
+    }[] = [];
+
+    // P_b / P_s / Q_t：下標用 tspan
+    const subscripted = (id: string, name: string, sub: string, value: number) => {
+      const tail = ` = ${this.formatNum(value)}`;
+      out.push({
+        id,
+        text: `${name}_${sub}${tail}`,
+        spans: [
+          { text: name },
+          { text: sub, baselineShift: "sub", fontSize: subSize },
+          { text: tail },
+        ],
+        dy: 0,
+        color: POLICY_COLOR,
+        textAnchor: "start",
+      });
+    };
+
+    if (kind === "tax" || kind === "subsidy") {
+      const isTax = kind === "tax";
+      out.push({
+        id: "tax-supply-label",
+        text: isTax ? "S + t" : "S - s",
+        dy: 0,
+        color: this.supplyColor,
+        textAnchor: "start",
+      });
+      if (binding && result) {
+        out.push({
+          id: "wedge-label",
+          text: isTax ? `t = ${this.formatNum(iv.tax)}` : `s = ${this.formatNum(iv.subsidy)}`,
+          dy: 0,
+          color: POLICY_COLOR,
+          textAnchor: "start",
+        });
+        subscripted("pb-label", "P", "b", result.outcome.buyerPrice);
+        subscripted("ps-label", "P", "s", result.outcome.sellerPrice);
+        subscripted("qt-label", "Q", "t", result.outcome.quantity);
+      }
+    }
+
+    if (kind === "ceiling" || kind === "floor") {
+      const isCeiling = kind === "ceiling";
+      const price = isCeiling ? iv.ceiling : iv.floor;
+      out.push({
+        id: "price-control-label",
+        text: `${isCeiling ? "Ceiling" : "Floor"} = ${this.formatNum(price)}${binding ? "" : " (not binding)"}`,
+        dy: 0,
+        color: POLICY_COLOR,
+        textAnchor: "end",
+      });
+      if (binding && result) {
+        const gap = Math.abs(result.quantityDemanded - result.quantitySupplied);
+        out.push({
+          id: "shortage-label",
+          text: `${isCeiling ? "Shortage" : "Surplus"} = ${this.formatNum(gap)}`,
+          // 上限：寫在線段下面；下限：寫在線段上面（避開均衡點那一側）
+          dy: isCeiling ? fontSize + 6 : -8,
+          color: POLICY_COLOR,
+          textAnchor: "middle",
+        });
+      }
+    }
+
+    if (kind === "quota") {
+      out.push({
+        id: "quota-label",
+        text: `Quota = ${this.formatNum(iv.quota)}${binding ? "" : " (not binding)"}`,
+        dy: 0,
+        color: POLICY_COLOR,
+        textAnchor: "start",
+      });
+      if (binding && result) {
+        out.push({
+          id: "wedge-label",
+          text: `Rent = ${this.formatNum(result.outcome.buyerPrice - result.outcome.sellerPrice)}`,
+          dy: 0,
+          color: POLICY_COLOR,
+          textAnchor: "start",
+        });
+        subscripted("pb-label", "P", "b", result.outcome.buyerPrice);
+        subscripted("ps-label", "P", "s", result.outcome.sellerPrice);
+      }
+    }
+
+    return out;
+  }
+
+  // =========================================================
+  // buildScene：把 model 的參數轉成 SceneOutput
+  // =========================================================
+  protected buildScene(): SceneOutput {
+    const p = this.model.getModelParams();
+    const eq = this.model.computeEquilibrium();
+    const base = this.model.computeBaseEquilibrium();
+
+    // 經濟座標範圍：以「移動前」的均衡為中心（各 2 倍）
+    // - 曲線水平移動時座標軸不跟著縮放，才看得出曲線在移動
+    // - 移動後的均衡也要放得進來（多留 20% 邊界）
+    let xEconMax = FALLBACK_Q_MAX;
+    let yEconMax = FALLBACK_P_MAX;
+    if (base) {
+      xEconMax = base.x * 2;
+      yEconMax = base.y * 2;
+    }
+    if (eq) {
+      if (eq.x * 1.2 > xEconMax) {
+        xEconMax = eq.x * 1.2;
+      }
+      if (eq.y * 1.2 > yEconMax) {
+        yEconMax = eq.y * 1.2;
+      }
+    }
+
+    // 有約束力的干預：買賣價格、需求量 / 供給量（短缺 / 過剩的兩端）也要放得進來
+    const result = eq ? this.model.computeIntervention() : null;
+    if (result && result.binding) {
+      const qs = [result.quantityDemanded, result.quantitySupplied];
+      const ps = [result.outcome.buyerPrice, result.outcome.sellerPrice];
+      let k = 0;
+      while (k < 2) {
+        if (qs[k] * 1.2 > xEconMax) {
+          xEconMax = qs[k] * 1.2;
+        }
+        if (ps[k] * 1.2 > yEconMax) {
+          yEconMax = ps[k] * 1.2;
+        }
+        k += 1;
+      }
+    }
+
+    // 市場圖沒有「價格比」，plot 用正方形
+    const plotSize = this.computePlotInnerSize(1, 1);
+
+    const vp = new Viewport(plotSize.width, plotSize.height, [0, xEconMax], [0, yEconMax]);
+    this.lastViewport = vp;
+
+    const range = { pMin: 0, pMax: yEconMax, qMax: xEconMax, n: 80 };
+
+    const drawables: Drawable[] = [];
+
+    // 福利區域（renderer 會把 area 畫在最底層）
+    // 價格上限用圖的價格軸上限：數字和塗色的範圍一致
+    const welfare = this.model.computeWelfare(yEconMax);
+    this.lastWelfare = welfare;
+    if (welfare) {
+      let w = 0;
+      while (w < WELFARE_REGIONS.length) {
+        const region = WELFARE_REGIONS[w];
+        const polygon = welfare[region].polygon;
+        if (this.showWelfare[region] && polygon.length >= 3) {
+          drawables.push({
+            kind: "area",
+            id: `welfare-${region}`,
+            points: polygon.map((pt) => vp.econToPixelMapping(pt)),
+            fill: { color: this.welfareColors[region] },
+            fillOpacity: WELFARE_FILL_OPACITY,
+          });
+        }
+        w += 1;
+      }
+    }
+
+    // 移動前的曲線：淡虛線（畫在最下面）
+    const sides: MarketSide[] = ["demand", "supply"];
+    let s = 0;
+    while (s < sides.length) {
+      const side = sides[s];
+      if (p[side].shift !== 0) {
+        drawables.push({
+          kind: "polyline",
+          id: `${side}-base`,
+          points: this.model.computeCurve(side, range, true).map((pt) => vp.econToPixelMapping(pt)),
+          stroke: {
+            width: 1.5,
+            color: side === "demand" ? this.demandColor : this.supplyColor,
+            dash: [6, 4],
+            opacity: 0.5,
+          },
+        });
+      }
+      s += 1;
+    }
+
+    // 均衡虛線：往 Q 軸、往 P 軸
+    if (eq) {
+      const eqPx = vp.econToPixelMapping(eq);
+      drawables.push({
+        kind: "line",
+        id: "eq-guide-q",
+        a: eqPx,
+        b: { x: eqPx.x, y: plotSize.height },
+        stroke: { width: 1, color: GUIDE_COLOR, dash: [3, 3] },
+      });
+      drawables.push({
+        kind: "line",
+        id: "eq-guide-p",
+        a: eqPx,
+        b: { x: 0, y: eqPx.y },
+        stroke: { width: 1, color: GUIDE_COLOR, dash: [3, 3] },
+      });
+    }
+
+    drawables.push({
+      kind: "polyline",
+      id: "demand",
+      points: this.model.computeCurve("demand", range, false).map((pt) => vp.econToPixelMapping(pt)),
+      stroke: { width: 2, color: this.demandColor },
+    });
+    drawables.push({
+      kind: "polyline",
+      id: "supply",
+      points: this.model.computeCurve("supply", range, false).map((pt) => vp.econToPixelMapping(pt)),
+      stroke: { width: 2, color: this.supplyColor },
+    });
+
+    // 干預：楔子 / 價格管制線 / 配額線（畫在曲線上面、均衡點下面）
+    const policyLayer = this.buildInterventionLayer(p.intervention, result, vp, range);
+    let pl = 0;
+    while (pl < policyLayer.length) {
+      drawables.push(policyLayer[pl]);
+      pl += 1;
+    }
+
+    if (eq) {
+      drawables.push({
+        kind: "point",
+        id: "eq",
+        center: vp.econToPixelMapping(eq),
+        r: 4,
+        fill: { color: "#111111" },
+      });
+    }
+
+    const fontSize = this.labelFontSize;
+
+    // 曲線名稱 D / S
+    const curveLabels = [
+      { id: "demand-label", text: "D", color: this.demandColor },
+      { id: "supply-label", text: "S", color: this.supplyColor },
+    ];
+    let c = 0;
+    while (c < curveLabels.length) {
+      const item = curveLabels[c];
+      const anchor = this.findLabelAnchor(drawables, item.id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id: item.id,
+          pos: this.resolveLabelPos(item.id, anchor, 0, 0),
+          text: item.text,
+          fontSize: fontSize + 2,
+          fill: { color: item.color },
+          draggable: true,
+        });
+      }
+      c += 1;
+    }
+
+    // 均衡：E + 軸旁的 Q* / P*
+    if (eq) {
+      const eqLabels = [
+        { id: "eq-label", text: "E" },
+        { id: "eq-q-label", text: `Q* = ${this.formatNum(eq.x)}` },
+        { id: "eq-p-label", text: `P* = ${this.formatNum(eq.y)}` },
+      ];
+      let k = 0;
+      while (k < eqLabels.length) {
+        const item = eqLabels[k];
+        const anchor = this.findLabelAnchor(drawables, item.id);
+        if (anchor) {
+          drawables.push({
+            kind: "text",
+            id: item.id,
+            pos: this.resolveLabelPos(item.id, anchor, 0, 0),
+            text: item.text,
+            fontSize,
+            fill: { color: "#111111" },
+            draggable: true,
+          });
+        }
+        k += 1;
+      }
+    }
+
+    // 干預標籤：t / P_b / P_s / Q_t / 價格上限 / 短缺 / 配額 ...
+    const policyLabels = this.buildInterventionLabels(p.intervention, result, fontSize);
+    let pk = 0;
+    while (pk < policyLabels.length) {
+      const item = policyLabels[pk];
+      const anchor = this.findLabelAnchor(drawables, item.id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id: item.id,
+          pos: this.resolveLabelPos(item.id, anchor, 0, item.dy),
+          text: item.text,
+          spans: item.spans,
+          fontSize,
+          fill: { color: item.color },
+          textAnchor: item.textAnchor,
+          draggable: true,
+        });
+      }
+      pk += 1;
+    }
+
+    // 福利面積標籤：CS = 8.00 ...（放在區域形心，可拖曳）
+    if (welfare) {
+      let w = 0;
+      while (w < WELFARE_REGIONS.length) {
+        const region = WELFARE_REGIONS[w];
+        const id = `welfare-${region}-label`;
+        const anchor = this.showWelfare[region] ? this.findLabelAnchor(drawables, id) : null;
+        if (anchor) {
+          drawables.push({
+            kind: "text",
+            id,
+            pos: this.resolveLabelPos(id, anchor, 0, 0),
+            text: `${welfareLabel(region)} = ${this.formatNum(welfare[region].area)}`,
+            fontSize,
+            fill: { color: this.welfareColors[region] },
+            textAnchor: "middle",
+            draggable: true,
+          });
+        }
+        w += 1;
+      }
+    }
+
+    // 方程式標籤
+    if (this.showEquationLabels) {
+      let e = 0;
+      while (e < sides.length) {
+        const side = sides[e];
+        const id = `${side}-eq`;
+        const anchor = this.findLabelAnchor(drawables, id);
+        if (anchor) {
+          drawables.push({
+            kind: "text",
+            id,
+            pos: this.resolveLabelPos(id, anchor, 10, -10),
+            text: this.buildCurveText(side, p[side]),
+            spans: this.buildCurveSpans(side, p[side], fontSize),
+            fontSize,
+            fill: { color: side === "demand" ? this.demandColor : this.supplyColor },
+            draggable: true,
+          });
+        }
+        e += 1;
+      }
+    }
+
+    return {
+      width: plotSize.width,
+      height: plotSize.height,
+      drawables,
+      xDomain: [0, xEconMax],
+      yDomain: [0, yEconMax],
+    };
+  }
+}
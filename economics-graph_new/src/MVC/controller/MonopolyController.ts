@@ -0,0 +1,546 @@
+// src/mvc/controller/MonopolyController.ts
+
+// ------------------------------------------------------------
+// MonopolyController：獨占訂價圖（對應 MarketController）
+// - 需求 D、邊際收入 MR、邊際成本 MC、平均總成本 ATC
+// - 獨占點 M = (Q_m, P_m)：MR = MC 決定 Q_m，再從需求曲線讀 P_m
+// - 競爭點 C = (Q_c, P_c)：P = MC（對照組）
+// - 利潤（或虧損）矩形、獨占 DWL 三角形：可各自開關，面積標籤可拖曳
+// - 曲線名稱 / 方程式 / Q_m / P_m 標籤：可拖曳（labelOffsets）
+//
+// 產出的 SceneOutput 和其他圖同一套規格，
+// 所以直接丟給 ConsumerOptGraphView / SvgSceneView / AxesView 就能畫。
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, TextSpan } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+import { MonopolyModel } from "../model/MonopolyModel";
+import { SceneController } from "./SceneController";
+import type { MonopolyCurve, MonopolyParams } from "../../lib/monopoly";
+
+// 可以用 slider 調的參數（和 MonopolyParams 的欄位同名）
+export type MonopolyParam = keyof MonopolyParams;
+
+// 參數下限（需求斜率 = 0 會讓 MR = MC 沒有解）
+const PARAM_MIN: Record<MonopolyParam, number> = {
+  a: 0.1,
+  b: 0.05,
+  F: 0,
+  c: 0,
+  d: 0,
+};
+
+// 曲線的預設顏色（AppView 初始值 / 舊版存檔的 migration 共用）
+export const DEFAULT_MONOPOLY_COLORS: Record<MonopolyCurve, string> = {
+  demand: "#111111",
+  mr: "#1f77b4",
+  mc: "#d62728",
+  atc: "#2ca02c",
+};
+
+// 曲線在圖上的名稱
+const CURVE_NAMES: Record<MonopolyCurve, string> = {
+  demand: "D",
+  mr: "MR",
+  mc: "MC",
+  atc: "ATC",
+};
+
+const CURVES: MonopolyCurve[] = ["demand", "mr", "mc", "atc"];
+
+// 利潤 / 虧損 / DWL 的填色
+const PROFIT_COLOR = "#2ca02c";
+const LOSS_COLOR = "#d62728";
+const DWL_COLOR = "#7f7f7f";
+const AREA_FILL_OPACITY = 0.25;
+
+// 虛線顏色（和市場圖一致）
+const GUIDE_COLOR = "#888888";
+
+export class MonopolyController extends SceneController {
+  private readonly model: MonopolyModel;
+
+  // 曲線顏色（線與其標籤共用）
+  private curveColors: Record<MonopolyCurve, string>;
+
+  // 利潤矩形 / DWL 三角形的開關
+  private showProfit: boolean;
+  private showDwl: boolean;
+
+  constructor(args: {
+    innerWidth: number;
+    innerHeight: number;
+    model: MonopolyModel;
+  }) {
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
+
+    this.model = args.model;
+
+    this.curveColors = { ...DEFAULT_MONOPOLY_COLORS };
+    this.showProfit = true;
+    this.showDwl = true;
+  }
+
+  // =========================================================
+  // UI events (from View)
+  // =========================================================
+
+  // slider：需求 / 成本參數
+  onParamChange(param: MonopolyParam, value: number) {
+    let next = value;
+    if (next < PARAM_MIN[param]) {
+      next = PARAM_MIN[param];
+    }
+
+    const params: MonopolyParams = { ...this.model.getModelParams() };
+    params[param] = next;
+    this.model.setParams(params);
+    this.rebuildAndNotify();
+  }
+
+  // 整組換掉（讀檔 / undo 用）
+  setMonopolyParams(params: MonopolyParams) {
+    this.model.setParams(params);
+    this.rebuildAndNotify();
+  }
+
+  // ---------------------------------------------------------
+  //  View options setters
+  // ---------------------------------------------------------
+
+  // 顏色變更: 曲線 與 標籤一起變
+  setCurveColor(curve: MonopolyCurve, color: string) {
+    this.curveColors[curve] = color;
+    this.rebuildAndNotify();
+  }
+
+  setShowProfit(on: boolean) {
+    this.showProfit = on;
+    this.rebuildAndNotify();
+  }
+
+  setShowDwl(on: boolean) {
+    this.showDwl = on;
+    this.rebuildAndNotify();
+  }
+
+  // 讓 View 讀到目前 model 參數（同步 slider 用）
+  getModelParamsSnapshot() {
+    return this.model.getModelParams();
+  }
+
+  // 讓 View 讀到目前顯示設定（面板同步、存檔用）
+  getCurveColors(): Record<MonopolyCurve, string> {
+    return { ...this.curveColors };
+  }
+
+  getAreaOptions(): { showProfit: boolean; showDwl: boolean } {
+    return { showProfit: this.showProfit, showDwl: this.showDwl };
+  }
+
+  // 獨占解 / 競爭解 / DWL：面板顯示數值用
+  getOptimum() {
+    return this.model.computeOptimum();
+  }
+
+  getCompetitive() {
+    return this.model.computeCompetitive();
+  }
+
+  getDeadweightLoss() {
+    const dwl = this.model.computeDeadweightLoss();
+    return dwl ? dwl.area : null;
+  }
+
+  // =========================================================
+  // Internals
+  // =========================================================
+
+  // ---------------------------------------------------------
+  // findLabelAnchor:
+  // - xx-label（demand / mr / mc / atc） -> 曲線右端（Q 最大的點）
+  // - xx-eq                               -> 曲線中段
+  // - monopoly-label / competitive-label  -> M / C 點右上
+  // - qm-label                            -> Q 軸上、Q_m 虛線的右邊
+  // - pm-label                            -> P 軸旁、P_m 虛線的上面
+  // - profit-label / dwl-label            -> 區域的形心
+  // ---------------------------------------------------------
+  protected findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null {
+    let c = 0;
+    while (c < CURVES.length) {
+      const curve = CURVES[c];
+      if (labelId === `${curve}-label` || labelId === `${curve}-eq`) {
+        const pts = this.findPolyline(drawables, curve);
+        if (!pts || pts.length <= 0) {
+          return null;
+        }
+        if (labelId === `${curve}-eq`) {
+          const lo = pts[Math.floor((pts.length - 1) / 2)];
+          const hi = pts[Math.ceil((pts.length - 1) / 2)];
+          return { x: (lo.x + hi.x) / 2, y: (lo.y + hi.y) / 2 };
+        }
+        let right = pts[0];
+        let i = 1;
+        while (i < pts.length) {
+          if (pts[i].x > right.x) {
+            right = pts[i];
+          }
+          i += 1;
+        }
+        return { x: right.x + 6, y: right.y };
+      }
+      c += 1;
+    }
+
+    if (labelId === "profit-label") {
+      return this.findAreaCentroid(drawables, "profit");
+    }
+    if (labelId === "dwl-label") {
+      return this.findAreaCentroid(drawables, "dwl");
+    }
+
+    let m: { x: number; y: number } | null = null;
+    let comp: { x: number; y: number } | null = null;
+    let plotHeight = 0;
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "point" && d.id === "monopoly") {
+        m = d.center;
+      }
+      if (d.kind === "point" && d.id === "competitive") {
+        comp = d.center;
+      }
+      if (d.kind === "line" && d.id === "qm-guide") {
+        plotHeight = d.b.y;
+      }
+      i += 1;
+    }
+
+    if (labelId === "competitive-label") {
+      return comp ? { x: comp.x + 8, y: comp.y - 8 } : null;
+    }
+    if (!m) {
+      return null;
+    }
+    if (labelId === "monopoly-label") {
+      return { x: m.x + 8, y: m.y - 8 };
+    }
+    if (labelId === "qm-label") {
+      return { x: m.x + 4, y: plotHeight - 4 };
+    }
+    if (labelId === "pm-label") {
+      return { x: 4, y: m.y - 4 };
+    }
+
+    return null;
+  }
+
+  private findPolyline(drawables: Drawable[], id: string): { x: number; y: number }[] | null {
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "polyline" && d.id === id) {
+        return d.points;
+      }
+      i += 1;
+    }
+    return null;
+  }
+
+  // 多邊形的形心（面積加權）
+  private findAreaCentroid(drawables: Drawable[], id: string): { x: number; y: number } | null {
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "area" && d.id === id) {
+        const pts = d.points;
+        let a2 = 0;
+        let cx = 0;
+        let cy = 0;
+        let k = 0;
+        while (k < pts.length) {
+          const p0 = pts[k];
+          const p1 = pts[(k + 1) % pts.length];
+          const cross = p0.x * p1.y - p1.x * p0.y;
+          a2 += cross;
+          cx += (p0.x + p1.x) * cross;
+          cy += (p0.y + p1.y) * cross;
+          k += 1;
+        }
+        if (a2 === 0) {
+          return null;
+        }
+        return { x: cx / (3 * a2), y: cy / (3 * a2) };
+      }
+      i += 1;
+    }
+    return null;
+  }
+
+  // ---------------------------------------------------------
+  //  曲線方程式（都是一次式，不需要上標）
+  //  - D:   P = a - bQ
+  //  - MR:  MR = a - 2bQ
+  //  - MC:  MC = c + 2dQ
+  //  - ATC: ATC = F/Q + c + dQ
+  // ---------------------------------------------------------
+  private buildCurveText(curve: MonopolyCurve, p: MonopolyParams): string {
+    const f = (v: number) => this.formatNum(v);
+    if (curve === "demand") {
+      return `P = ${f(p.a)} - ${f(p.b)}Q`;
+    }
+    if (curve === "mr") {
+      return `MR = ${f(p.a)} - ${f(2 * p.b)}Q`;
+    }
+    if (curve === "mc") {
+      return `MC = ${f(p.c)} + ${f(2 * p.d)}Q`;
+    }
+    return `ATC = ${f(p.F)}/Q + ${f(p.c)} + ${f(p.d)}Q`;
+  }
+
+  // =========================================================
+  // buildScene：把 model 的參數轉成 SceneOutput
+  // =========================================================
+  protected buildScene(): SceneOutput {
+    const p = this.model.getModelParams();
+    const m = this.model.computeOptimum();
+    const comp = this.model.computeCompetitive();
+    const dwl = this.model.computeDeadweightLoss();
+
+    // 經濟座標範圍：整條需求曲線（Q 軸截距 a/b、P 軸截距 a）
+    // ATC(Q_m) 比需求截距還高（大虧損）時也要放得進來
+    const xEconMax = (p.a / p.b) * 1.05;
+    let yEconMax = p.a * 1.1;
+    if (m && m.atc * 1.1 > yEconMax) {
+      yEconMax = m.atc * 1.1;
+    }
+
+    // 獨占圖和市場圖一樣，plot 用正方形
+    const plotSize = this.computePlotInnerSize(1, 1);
+
+    const vp = new Viewport(plotSize.width, plotSize.height, [0, xEconMax], [0, yEconMax]);
+    this.lastViewport = vp;
+
+    const range = { qMax: xEconMax, pMax: yEconMax, n: 120 };
+
+    const drawables: Drawable[] = [];
+
+    // 利潤（或虧損）矩形：Q_m 寬、P_m 和 ATC(Q_m) 之間
+    if (m && this.showProfit && m.profit !== 0) {
+      drawables.push({
+        kind: "area",
+        id: "profit",
+        points: [
+          { x: 0, y: m.atc },
+          { x: m.Q, y: m.atc },
+          { x: m.Q, y: m.P },
+          { x: 0, y: m.P },
+        ].map((pt) => vp.econToPixelMapping(pt)),
+        fill: { color: m.profit > 0 ? PROFIT_COLOR : LOSS_COLOR },
+        fillOpacity: AREA_FILL_OPACITY,
+      });
+    }
+
+    // 獨占 DWL：Q_m 到 Q_c，需求和 MC 之間
+    if (dwl && this.showDwl && dwl.area > 0) {
+      drawables.push({
+        kind: "area",
+        id: "dwl",
+        points: dwl.polygon.map((pt) => vp.econToPixelMapping(pt)),
+        fill: { color: DWL_COLOR },
+        fillOpacity: AREA_FILL_OPACITY,
+      });
+    }
+
+    // 獨占點的虛線：往 Q 軸、往 P 軸；MR = MC 的交點也往下連到 Q_m
+    if (m) {
+      const mPx = vp.econToPixelMapping({ x: m.Q, y: m.P });
+      drawables.push({
+        kind: "line",
+        id: "qm-guide",
+        a: mPx,
+        b: { x: mPx.x, y: plotSize.height },
+        stroke: { width: 1, color: GUIDE_COLOR, dash: [3, 3] },
+      });
+      drawables.push({
+        kind: "line",
+        id: "pm-guide",
+        a: mPx,
+        b: { x: 0, y: mPx.y },
+        stroke: { width: 1, color: GUIDE_COLOR, dash: [3, 3] },
+      });
+    }
+
+    let c = 0;
+    while (c < CURVES.length) {
+      const curve = CURVES[c];
+      drawables.push({
+        kind: "polyline",
+        id: curve,
+        points: this.model.computeCurve(curve, range).map((pt) => vp.econToPixelMapping(pt)),
+        stroke: { width: 2, color: this.curveColors[curve] },
+      });
+      c += 1;
+    }
+
+    if (m) {
+      drawables.push({
+        kind: "point",
+        id: "mr-mc",
+        center: vp.econToPixelMapping({ x: m.Q, y: m.mc }),
+        r: 3,
+        fill: { color: this.curveColors.mc },
+      });
+      drawables.push({
+        kind: "point",
+        id: "monopoly",
+        center: vp.econToPixelMapping({ x: m.Q, y: m.P }),
+        r: 4,
+        fill: { color: "#111111" },
+      });
+    }
+    if (comp) {
+      drawables.push({
+        kind: "point",
+        id: "competitive",
+        center: vp.econToPixelMapping(comp),
+        r: 4,
+        fill: { color: "#ffffff" },
+        stroke: { width: 1.5, color: "#111111" },
+      });
+    }
+
+    const fontSize = this.labelFontSize;
+    const supTextSize = this.supSize(fontSize);
+
+    // 曲線名稱 D / MR / MC / ATC
+    c = 0;
+    while (c < CURVES.length) {
+      const curve = CURVES[c];
+      const id = `${curve}-label`;
+      const anchor = this.findLabelAnchor(drawables, id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id,
+          pos: this.resolveLabelPos(id, anchor, 0, 0),
+          text: CURVE_NAMES[curve],
+          fontSize: fontSize + 2,
+          fill: { color: this.curveColors[curve] },
+          draggable: true,
+        });
+      }
+      c += 1;
+    }
+
+    // M / C 點，軸旁的 Q_m / P_m（下標用 tspan）
+    const pointLabels: { id: string; text: string; spans?: TextSpan[] }[] = [];
+    if (m) {
+      pointLabels.push({ id: "monopoly-label", text: "M" });
+      pointLabels.push({
+        id: "qm-label",
+        text: `Q_m = ${this.formatNum(m.Q)}`,
+        spans: [
+          { text: "Q" },
+          { text: "m", baselineShift: "sub", fontSize: supTextSize },
+          { text: ` = ${this.formatNum(m.Q)}` },
+        ],
+      });
+      pointLabels.push({
+        id: "pm-label",
+        text: `P_m = ${this.formatNum(m.P)}`,
+        spans: [
+          { text: "P" },
+          { text: "m", baselineShift: "sub", fontSize: supTextSize },
+          { text: ` = ${this.formatNum(m.P)}` },
+        ],
+      });
+    }
+    if (comp) {
+      pointLabels.push({ id: "competitive-label", text: "C" });
+    }
+    let k = 0;
+    while (k < pointLabels.length) {
+      const item = pointLabels[k];
+      const anchor = this.findLabelAnchor(drawables, item.id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id: item.id,
+          pos: this.resolveLabelPos(item.id, anchor, 0, 0),
+          text: item.text,
+          spans: item.spans,
+          fontSize,
+          fill: { color: "#111111" },
+          draggable: true,
+        });
+      }
+      k += 1;
+    }
+
+    // 面積標籤：Profit / Loss、DWL
+    const areaLabels: { id: string; text: string; color: string }[] = [];
+    if (m) {
+      areaLabels.push({
+        id: "profit-label",
+        text: `${m.profit >= 0 ? "Profit" : "Loss"} = ${this.formatNum(Math.abs(m.profit))}`,
+        color: m.profit >= 0 ? PROFIT_COLOR : LOSS_COLOR,
+      });
+    }
+    if (dwl) {
+      areaLabels.push({ id: "dwl-label", text: `DWL = ${this.formatNum(dwl.area)}`, color: DWL_COLOR });
+    }
+    k = 0;
+    while (k < areaLabels.length) {
+      const item = areaLabels[k];
+      const anchor = this.findLabelAnchor(drawables, item.id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id: item.id,
+          pos: this.resolveLabelPos(item.id, anchor, 0, 0),
+          text: item.text,
+          fontSize,
+          fill: { color: item.color },
+          textAnchor: "middle",
+          draggable: true,
+        });
+      }
+      k += 1;
+    }
+
+    // 方程式標籤
+    if (this.showEquationLabels) {
+      c = 0;
+      while (c < CURVES.length) {
+        const curve = CURVES[c];
+        const id = `${curve}-eq`;
+        const anchor = this.findLabelAnchor(drawables, id);
+        if (anchor) {
+          drawables.push({
+            kind: "text",
+            id,
+            pos: this.resolveLabelPos(id, anchor, 10, -10),
+            text: this.buildCurveText(curve, p),
+            fontSize,
+            fill: { color: this.curveColors[curve] },
+            draggable: true,
+          });
+        }
+        c += 1;
+      }
+    }
+
+    return {
+      width: plotSize.width,
+      height: plotSize.height,
+      drawables,
+      xDomain: [0, xEconMax],
+      yDomain: [0, yEconMax],
+    };
+  }
+}
@@ -0,0 +1,411 @@
+// src/mvc/controller/ProducerOptController.ts
+
+// ------------------------------------------------------------
+// ProducerOptController：生產者成本最小化圖（對應 ConsumerOptController）
+// - 等成本線 (isocost)：wL + rK = C*
+// - 等產量曲線 (isoquant)：A L^a K^(1-a) = Q
+// - 最適點 (L*, K*)：可拖曳，沿擴張路徑的斜率回推 a
+// - 方程式標籤：可拖曳、顏色跟線段同步
+//
+// 產出的 SceneOutput 和消費者圖同一套規格，
+// 所以直接丟給 ConsumerOptGraphView / SvgSceneView 就能畫。
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, TextSpan } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+import { ProducerOptModel } from "../model/ProducerOptModel";
+import { SceneController } from "./SceneController";
+import { alphaFromFactorRatio } from "../../lib/producer";
+
+export class ProducerOptController extends SceneController {
+  private readonly model: ProducerOptModel;
+
+  // 線段顏色 (線與其方程式標籤會共用)
+  private isocostColor: string;
+  private isoquantColor: string;
+
+  // Opt 顯示 + 顏色
+  private showOpt: boolean;
+  private optPointColor: string;
+  private optTextColor: string;
+
+  constructor(args: {
+    innerWidth: number;
+    innerHeight: number;
+    model: ProducerOptModel;
+  }) {
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
+
+    this.model = args.model;
+
+    this.isocostColor = "#111111";
+    this.isoquantColor = "#111111";
+
+    this.showOpt = true;
+    this.optPointColor = "#111111";
+    this.optTextColor = "#111111";
+  }
+
+  // =========================================================
+  // UI events (from View)
+  // =========================================================
+
+  // slider：目標產量 Q
+  onOutputChange(nextQ: number) {
+    let Q = nextQ;
+    if (Q < 0.1) {
+      Q = 0.1;
+    }
+    this.model.setOutput(Q);
+    this.rebuildAndNotify();
+  }
+
+  // slider：a（L 的產出彈性）
+  onAlphaChange(nextA: number) {
+    this.model.setAlpha(nextA);
+    this.rebuildAndNotify();
+  }
+
+  // slider：技術水準 A
+  onTechnologyChange(nextA: number) {
+    let A = nextA;
+    if (A < 0.1) {
+      A = 0.1;
+    }
+    this.model.setTechnology(A);
+    this.rebuildAndNotify();
+  }
+
+  // slider：工資 w（r 保持不變）
+  onWageChange(nextW: number) {
+    const params = this.model.getModelParams();
+
+    // 防呆: 價格不能 <= 0
+    let w = nextW;
+    if (w < 0.1) {
+      w = 0.1;
+    }
+
+    this.model.setFactorPrices(w, params.r);
+    this.rebuildAndNotify();
+  }
+
+  // slider：資本租金 r（w 保持不變）
+  onRentalChange(nextR: number) {
+    const params = this.model.getModelParams();
+
+    let r = nextR;
+    if (r < 0.1) {
+      r = 0.1;
+    }
+
+    this.model.setFactorPrices(params.w, r);
+    this.rebuildAndNotify();
+  }
+
+  // ---------------------------------------------------------
+  // 拖曳最適點：
+  // 成本最小化點一定落在擴張路徑上：K/L = ((1-a)/a)(w/r)
+  // 所以把使用者拖到的 (L,K) 當成擴張路徑上的一點，直接解回 a。
+  // （這是由 FOC 推回來的，不是 proxy；目標產量 Q 保持不變）
+  // ---------------------------------------------------------
+  onPointDrag(id: string, pixel: { x: number; y: number }) {
+    if (!this.showOpt) {
+      return;
+    }
+    if (id !== "opt") {
+      return;
+    }
+
+    const vp = this.getViewport();
+    const econPoint = vp.pixelToEconMapping(pixel);
+
+    // 防呆：L 必須 > 0，K 不能 < 0
+    if (econPoint.x <= 0 || econPoint.y < 0) {
+      return;
+    }
+
+    const p = this.model.getModelParams();
+    let nextAlpha = alphaFromFactorRatio({ kOverL: econPoint.y / econPoint.x, w: p.w, r: p.r });
+
+    // clamp：a=0 或 1 會讓等產量曲線出現數值問題
+    if (nextAlpha < 0.1) {
+      nextAlpha = 0.1;
+    }
+    if (nextAlpha > 0.9) {
+      nextAlpha = 0.9;
+    }
+
+    this.model.setAlpha(nextAlpha);
+    this.rebuildAndNotify();
+  }
+
+  // ---------------------------------------------------------
+  //  View options setters
+  // ---------------------------------------------------------
+  setShowOpt(show: boolean) {
+    this.showOpt = show;
+    this.rebuildAndNotify();
+  }
+
+  setOptPointColor(color: string) {
+    this.optPointColor = color;
+    this.rebuildAndNotify();
+  }
+
+  setOptTextColor(color: string) {
+    this.optTextColor = color;
+    this.rebuildAndNotify();
+  }
+
+  // 顏色變更: 線段 與 標籤一起變
+  setIsocostColor(color: string) {
+    this.isocostColor = color;
+    this.rebuildAndNotify();
+  }
+
+  setIsoquantColor(color: string) {
+    this.isoquantColor = color;
+    this.rebuildAndNotify();
+  }
+
+  // 讓 View 讀到目前 model 參數（同步 slider 用）
+  getModelParamsSnapshot() {
+    return this.model.getModelParams();
+  }
+
+  // 讓 View 讀到目前線段顏色（面板重新 mount / 讀檔後同步 color input 用）
+  getLineColors(): { isocost: string; isoquant: string } {
+    return { isocost: this.isocostColor, isoquant: this.isoquantColor };
+  }
+
+  // =========================================================
+  // Internals
+  // =========================================================
+
+  // ---------------------------------------------------------
+  // findLabelAnchor:
+  // - isocost-eq  -> isocost line 的中點
+  // - isoquant-eq -> isoquant polyline 的中間點
+  // - opt-label   -> opt 點右上
+  // - production-eq -> 固定左上角
+  // ---------------------------------------------------------
+  protected findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null {
+    if (labelId === "isocost-eq") {
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "line" && d.id === "isocost") {
+          return { x: (d.a.x + d.b.x) / 2, y: (d.a.y + d.b.y) / 2 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    if (labelId === "isoquant-eq") {
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "polyline" && d.id === "isoquant") {
+          const n = d.points.length;
+          if (n <= 0) {
+            return null;
+          }
+          const mid = Math.floor(n / 2);
+          return { x: d.points[mid].x, y: d.points[mid].y };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    if (labelId === "opt-label") {
+      let i = 0;
+      while (i < drawables.length) {
+        const d = drawables[i];
+        if (d.kind === "point" && d.id === "opt") {
+          return { x: d.center.x + 8, y: d.center.y - 8 };
+        }
+        i += 1;
+      }
+      return null;
+    }
+
+    if (labelId === "production-eq") {
+      return { x: 12, y: 18 };
+    }
+
+    return null;
+  }
+
+  // ---------------------------------------------------------
+  //  類似 LaTeX: 用 tspans 模擬上下標
+  // ---------------------------------------------------------
+  private buildProductionSpans(A: number, a: number, fontSize: number): TextSpan[] {
+    const supTextSize = this.supSize(fontSize);
+    // Q = A L^{a} K^{1-a},  A = ..., a = ...
+    return [
+      { text: "Q = A L" },
+      { text: "α", baselineShift: "super", fontSize: supTextSize },
+      { text: " K" },
+      { text: "1-α", baselineShift: "super", fontSize: supTextSize },
+      { text: ",  A=" + this.formatNum(A) + ",  α=" + this.formatNum(a) },
+    ];
+  }
+
+  private buildIsocostSpans(w: number, r: number, C: number): TextSpan[] {
+    // wL + rK = C, w=..., r=..., C=...
+    return [
+      { text: "wL + rK = C" },
+      { text: ",  w=" + this.formatNum(w) },
+      { text: ",  r=" + this.formatNum(r) },
+      { text: ",  C=" + this.formatNum(C) },
+    ];
+  }
+
+  private buildIsoquantSpans(Q0: number, fontSize: number): TextSpan[] {
+    const supTextSize = this.supSize(fontSize);
+    // K = (Q_0 / (A L^{α}))^{1/(1-α)},  Q_0 = ...
+    return [
+      { text: "K = (Q" },
+      { text: "0", baselineShift: "sub", fontSize: supTextSize },
+      { text: " / A L" },
+      { text: "α", baselineShift: "super", fontSize: supTextSize },
+      { text: ")" },
+      { text: "1/(1-α)", baselineShift: "super", fontSize: supTextSize },
+      { text: ",  Q" },
+      { text: "0", baselineShift: "sub", fontSize: supTextSize },
+      { text: "=" + this.formatNum(Q0) },
+    ];
+  }
+
+  // =========================================================
+  // buildScene：把 model 的參數轉成 SceneOutput
+  // =========================================================
+  protected buildScene(): SceneOutput {
+    const p = this.model.getModelParams();
+
+    const C = this.model.computeMinCost();
+
+    // 經濟座標最大範圍（多留 20% 邊界）
+    const xEconMax = (C / p.w) * 1.2;
+    const yEconMax = (C / p.r) * 1.2;
+
+    // 依 w/r 決定 plot 的像素大小 (軸長會跟著變)
+    const plotSize = this.computePlotInnerSize(p.w, p.r);
+
+    const vp = new Viewport(plotSize.width, plotSize.height, [0, xEconMax], [0, yEconMax]);
+    this.lastViewport = vp;
+
+    const isocost = this.model.computeIsocost();
+    const optEcon = this.model.computeOptimum();
+
+    // 等產量曲線取樣的 lMin：避免 L 太小造成 K 爆掉
+    const lMinCandidate = xEconMax * 0.05;
+    let lMin = 0.0001;
+    if (lMinCandidate > lMin) {
+      lMin = lMinCandidate;
+    }
+
+    const curveEconPts = this.model.computeIsoquant(p.Q, lMin, xEconMax, 60);
+    const curvePxPts = curveEconPts.map((pt) => vp.econToPixelMapping(pt));
+    const optPx = vp.econToPixelMapping(optEcon);
+
+    const drawables: Drawable[] = [
+      {
+        kind: "line",
+        id: "isocost",
+        a: vp.econToPixelMapping(isocost.p1),
+        b: vp.econToPixelMapping(isocost.p2),
+        stroke: { width: 2, color: this.isocostColor },
+      },
+      {
+        kind: "polyline",
+        id: "isoquant",
+        points: curvePxPts,
+        stroke: { width: 2, color: this.isoquantColor },
+      },
+    ];
+
+    if (this.showOpt) {
+      drawables.push({
+        kind: "point",
+        id: "opt",
+        center: optPx,
+        r: 4,
+        fill: { color: this.optPointColor },
+      });
+
+      const optAnchor = this.findLabelAnchor(drawables, "opt-label");
+      if (optAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "opt-label",
+          pos: this.resolveLabelPos("opt-label", optAnchor, 0, 0),
+          text: "Opt",
+          fontSize: 12,
+          fill: { color: this.optTextColor },
+          draggable: true,
+        });
+      }
+    }
+
+    if (this.showEquationLabels) {
+      const equationFontSize = this.labelFontSize;
+
+      const prodAnchor = this.findLabelAnchor(drawables, "production-eq");
+      if (prodAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "production-eq",
+          pos: this.resolveLabelPos("production-eq", prodAnchor, 0, 0),
+          text: `Q = A L^a K^(1-a),  A=${this.formatNum(p.A)},  a=${this.formatNum(p.a)}`,
+          spans: this.buildProductionSpans(p.A, p.a, equationFontSize),
+          fontSize: equationFontSize,
+          fill: { color: this.isoquantColor },
+          draggable: true,
+        });
+      }
+
+      const isocostAnchor = this.findLabelAnchor(drawables, "isocost-eq");
+      if (isocostAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "isocost-eq",
+          pos: this.resolveLabelPos("isocost-eq", isocostAnchor, 10, -10),
+          text: `${this.formatNum(p.w)}L + ${this.formatNum(p.r)}K = ${this.formatNum(C)}`,
+          spans: this.buildIsocostSpans(p.w, p.r, C),
+          fontSize: equationFontSize,
+          fill: { color: this.isocostColor },
+          draggable: true,
+        });
+      }
+
+      const isoquantAnchor = this.findLabelAnchor(drawables, "isoquant-eq");
+      if (isoquantAnchor) {
+        drawables.push({
+          kind: "text",
+          id: "isoquant-eq",
+          pos: this.resolveLabelPos("isoquant-eq", isoquantAnchor, 10, -10),
+          text: `K = (Q0 / (A L^a))^(1/(1-a)),  Q0=${this.formatNum(p.Q)}`,
+          spans: this.buildIsoquantSpans(p.Q, equationFontSize),
+          fontSize: equationFontSize,
+          fill: { color: this.isoquantColor },
+          draggable: true,
+        });
+      }
+    }
+
+    return {
+      width: plotSize.width,
+      height: plotSize.height,
+      drawables,
+      xDomain: [0, xEconMax],
+      yDomain: [0, yEconMax],
+    };
+  }
+}
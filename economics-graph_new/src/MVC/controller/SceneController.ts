@@ -0,0 +1,384 @@
+// src/mvc/controller/SceneController.ts
+
+// ------------------------------------------------------------
+// SceneController：所有「產生 SceneOutput」的 Controller 共用的骨架
+//
+// ConsumerOptController / ProducerOptController ... 都做同一套事情：
+// 1) 持有 listeners（通常是 GraphView），scene 重算後通知
+// 2) lazy build + 快取 lastScene / lastViewport
+// 3) 方程式標籤的拖曳 offset（labelOffsets）與 anchor + offset 的定位
+//
+// 子類別只需要實作：
+// - buildScene()：把 model 轉成 SceneOutput（並同步更新 lastViewport）
+// - findLabelAnchor()：每個標籤 id 對應的 anchor
+// 需要時可覆寫：
+// - onPointDrag()：拖曳點的經濟意義（預設不理會）
+// - onLineDrag()：拖曳 draggable line 的經濟意義（預設不理會）
+// - onDragEnd()：拖曳結束（預設不做事）
+//
+// GraphView 只依賴這個型別，所以任何子類別都可以丟進 ConsumerOptGraphView 畫。
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, LineDragPart } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+
+// Listener：訂閱者（通常是 View），收到新 scene 後做些事情（例如 setState）
+export type Listener = (scene: SceneOutput) => void;
+
+export type PixelOffset = { dx: number; dy: number };
+
+export abstract class SceneController {
+  // 繪圖內容區（扣掉 margin 後）的寬高
+  protected readonly innerW: number;
+  protected readonly innerH: number;
+
+  // 訂閱者列表
+  private listeners: Listener[];
+
+  // 快取：scene 與和它同步的 viewport
+  protected lastScene: SceneOutput | null;
+  protected lastViewport: Viewport | null;
+
+  // id -> 方程式標籤的「使用者拖曳 offset」 (相對於 anchor)
+  protected labelOffsets: Record<string, PixelOffset>;
+
+  // 方程式標籤：是否顯示 + 字體大小
+  protected showEquationLabels: boolean;
+  protected labelFontSize: number;
+
+  // 方程式標籤是否用 LaTeX（mathSvg，MathJax 排版）；false 就用 TextSpan 上下標
+  protected useLatexLabels: boolean;
+
+  constructor(args: { innerWidth: number; innerHeight: number }) {
+    this.innerW = args.innerWidth;
+    this.innerH = args.innerHeight;
+
+    this.listeners = [];
+    this.lastScene = null;
+    this.lastViewport = null;
+    this.labelOffsets = {};
+
+    this.showEquationLabels = true;
+    this.labelFontSize = 12;
+    this.useLatexLabels = true;
+  }
+
+  // ------------------------------------------------------
+  // 子類別必須實作
+  // ------------------------------------------------------
+
+  // buildScene：把 model 的參數轉成 SceneOutput（內部要同步更新 this.lastViewport）
+  protected abstract buildScene(): SceneOutput;
+
+  // findLabelAnchor：找方程式標籤的 anchor（用目前 drawables 取）
+  protected abstract findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null;
+
+  // ------------------------------------------------------
+  // 子類別可以覆寫（預設什麼都不做）
+  // ------------------------------------------------------
+
+  // onPointDrag：View 回報被拖曳的 point（以像素座標回報）
+  onPointDrag(id: string, pixel: { x: number; y: number }) {
+    void id;
+    void pixel;
+  }
+
+  // onLineDrag：View 回報被拖曳的 line（抓到端點 a / b 或線身）
+  onLineDrag(id: string, part: LineDragPart, pixel: { x: number; y: number }) {
+    void id;
+    void part;
+    void pixel;
+  }
+
+  // onDragEnd：任何拖曳結束（放開滑鼠 / 手指）
+  onDragEnd() {}
+
+  // ------------------------------------------------------
+  // subscribe 訂閱 / unsubscribe 取消訂閱：View 用
+  // ------------------------------------------------------
+  subscribe(fn: Listener) {
+    this.listeners.push(fn);
+  }
+
+  unsubscribe(fn: Listener) {
+    const next: Listener[] = [];
+    let i = 0;
+    while (i < this.listeners.length) {
+      const item = this.listeners[i];
+      if (item !== fn) {
+        next.push(item);
+      }
+      i += 1;
+    }
+    this.listeners = next;
+  }
+
+  // ------------------------------------------------------
+  // getScene：給 View 拿最新場景（lazy build + 快取）
+  // ------------------------------------------------------
+  getScene(): SceneOutput {
+    if (this.lastScene) {
+      return this.lastScene;
+    }
+    const scene = this.buildScene();
+    this.lastScene = scene;
+    return scene;
+  }
+
+  // ------------------------------------------------------
+  // getViewport：提供 View 使用（AxesView 會用）
+  // - 確保 viewport 永遠和 lastScene 同步
+  // ------------------------------------------------------
+  getViewport(): Viewport {
+    if (!this.lastScene || !this.lastViewport) {
+      // buildScene 內會同步更新 this.lastViewport
+      const scene = this.buildScene();
+      this.lastScene = scene;
+    }
+
+    // 保險: 理論上不會發生（若發生表示 buildScene 忘了更新）
+    if (!this.lastViewport) {
+      this.lastViewport = new Viewport(this.innerW, this.innerH, [0, 1], [0, 1]);
+    }
+
+    return this.lastViewport;
+  }
+
+  // ---------------------------------------------------------
+  // 拖曳：方程式標籤（text）
+  //  - 1 找出「這個標籤」對應的 anchor
+  //  - 2 限制拖曳區域為 plot 區域（x in [0, scene.width], y in [0, scene.height]）
+  //  - 3 計算 offset = 使用者拖到的位置 - anchor，存進 labelOffsets[id]
+  //  - 4 rebuildScene 時把 offset 加回去（位置就會保留）
+  // ---------------------------------------------------------
+  onTextDrag(id: string, pixel: { x: number; y: number }) {
+    const scene = this.getScene();
+    const anchor = this.findLabelAnchor(scene.drawables, id);
+    if (!anchor) {
+      return;
+    }
+
+    const padding = 2;
+    let x = pixel.x;
+    let y = pixel.y;
+
+    if (x < padding) {
+      x = padding;
+    }
+    if (y < padding) {
+      y = padding;
+    }
+    if (x > scene.width - padding) {
+      x = scene.width - padding;
+    }
+    if (y > scene.height - padding) {
+      y = scene.height - padding;
+    }
+
+    this.labelOffsets[id] = { dx: x - anchor.x, dy: y - anchor.y };
+
+    // 標籤位置改了，需要通知 view 重新渲染
+    this.rebuildAndNotify();
+  }
+
+  // ---------------------------------------------------------
+  // labelOffsets 的存檔 / 讀檔（FigureDocument 用）
+  // - get：回傳一份複本，外部改它不會影響 controller
+  // - set：整組換掉（沒有出現的 id 就回到預設位置）
+  // ---------------------------------------------------------
+  getLabelOffsets(): Record<string, PixelOffset> {
+    const out: Record<string, PixelOffset> = {};
+    const ids = Object.keys(this.labelOffsets);
+    let i = 0;
+    while (i < ids.length) {
+      const offset = this.labelOffsets[ids[i]];
+      out[ids[i]] = { dx: offset.dx, dy: offset.dy };
+      i += 1;
+    }
+    return out;
+  }
+
+  setLabelOffsets(offsets: Record<string, PixelOffset>) {
+    const next: Record<string, PixelOffset> = {};
+    const ids = Object.keys(offsets);
+    let i = 0;
+    while (i < ids.length) {
+      const offset = offsets[ids[i]];
+      next[ids[i]] = { dx: offset.dx, dy: offset.dy };
+      i += 1;
+    }
+    this.labelOffsets = next;
+    this.rebuildAndNotify();
+  }
+
+  // ---------------------------------------------------------
+  //  View options setters（所有圖共用）
+  // ---------------------------------------------------------
+  setShowEquationLabels(show: boolean) {
+    this.showEquationLabels = show;
+    this.rebuildAndNotify();
+  }
+
+  setUseLatexLabels(use: boolean) {
+    this.useLatexLabels = use;
+    this.rebuildAndNotify();
+  }
+
+  setEquationFontSize(size: number) {
+    let next = size;
+    if (next < 8) {
+      next = 8;
+    }
+    if (next > 28) {
+      next = 28;
+    }
+    this.labelFontSize = next;
+    this.rebuildAndNotify();
+  }
+
+  // =========================================================
+  // Internals（子類別共用的工具方法）
+  // =========================================================
+
+  protected formatNum(value: number): string {
+    // 避免方程式顯示一堆小數
+    return value.toFixed(2);
+  }
+
+  // 上下標字體大小（類似 LaTeX：用 tspans 模擬）
+  protected supSize(base: number): number {
+    const supTextSize = Math.round(base * 0.8);
+    if (supTextSize < 8) {
+      return 8;
+    }
+    return supTextSize;
+  }
+
+  // 工具: anchor + offset (若曾拖曳就套用)
+  protected resolveLabelPos(
+    labelId: string,
+    anchor: { x: number; y: number },
+    defaultDx: number,
+    defaultDy: number
+  ): { x: number; y: number } {
+    const offset = this.labelOffsets[labelId];
+    let x = anchor.x + defaultDx;
+    let y = anchor.y + defaultDy;
+    if (offset) {
+      x = anchor.x + offset.dx;
+      y = anchor.y + offset.dy;
+    }
+
+    return { x, y };
+  }
+
+  // 工具: 箭頭 = 箭身 line + 箭頭 polyline（兩條短斜線）
+  // - from / to 都是像素座標；箭頭畫在 to 那一端
+  // - 長度太短（幾乎重合）時只畫箭身，避免箭頭方向亂跳
+  protected buildArrow(
+    id: string,
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    color: string
+  ): Drawable[] {
+    const out: Drawable[] = [
+      { kind: "line", id, a: from, b: to, stroke: { width: 2, color } },
+    ];
+
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const len = Math.sqrt(dx * dx + dy * dy);
+    if (len < 4) {
+      return out;
+    }
+
+    // 單位方向向量 (ux, uy) 與法向量 (-uy, ux)
+    const ux = dx / len;
+    const uy = dy / len;
+    const headLen = 7;
+    const headHalf = 4;
+
+    out.push({
+      kind: "polyline",
+      id: id + "-head",
+      points: [
+        { x: to.x - ux * headLen - uy * headHalf, y: to.y - uy * headLen + ux * headHalf },
+        to,
+        { x: to.x - ux * headLen + uy * headHalf, y: to.y - uy * headLen - ux * headHalf },
+      ],
+      stroke: { width: 2, color },
+    });
+
+    return out;
+  }
+
+  // rebuildAndNotify：重算場景 + 通知所有訂閱者
+  protected rebuildAndNotify() {
+    // 重算並覆蓋快取 (buildScene 會同步更新 lastViewport)
+    this.lastScene = this.buildScene();
+
+    // 用 local 變數避免 TS 對 null 抱怨，也避免通知時被改動
+    const scene = this.lastScene;
+
+    let i = 0;
+    while (i < this.listeners.length) {
+      const fn = this.listeners[i];
+      fn(scene);
+      i += 1;
+    }
+  }
+
+  // ---------------------------------------------------------
+  // computePlotInnerSize(): 依兩個價格決定「plot 區域」像素寬高比例
+  //   plotWidth / plotHeight = priceY / priceX
+  // - priceX 變大 → x 軸變短（相對於 y）
+  // - priceY 變大 → y 軸變短
+  // 同時 plot 不能超出可用的 innerW/innerH，所以在 avail 裡找「最大可放的矩形」
+  // ---------------------------------------------------------
+  protected computePlotInnerSize(priceX: number, priceY: number): {
+    width: number;
+    height: number;
+  } {
+    const availWidth = this.innerW;
+    const availHeight = this.innerH;
+
+    let priceRatio = 1;
+    // 防呆: 價格需要大於 0
+    if (priceX > 0 && priceY > 0) {
+      priceRatio = priceY / priceX;
+    }
+
+    // 避免極端比例讓圖接近消失
+    if (priceRatio < 0.1) {
+      priceRatio = 0.1;
+    }
+    if (priceRatio > 10) {
+      priceRatio = 10;
+    }
+
+    const availRatio = availWidth / availHeight;
+
+    let width = availWidth;
+    let height = availHeight;
+
+    if (availRatio > priceRatio) {
+      height = availHeight;
+      width = availHeight * priceRatio;
+    } else {
+      width = availWidth;
+      height = availWidth / priceRatio;
+    }
+
+    if (width < 1) {
+      width = 1;
+    }
+    if (height < 1) {
+      height = 1;
+    }
+
+    return { width, height };
+  }
+}
@@ -0,0 +1,264 @@
+// src/mvc/controller/TotalCostController.ts
+
+// ------------------------------------------------------------
+// TotalCostController：成本曲線圖下方的「TC / TVC / TFC」面板
+//
+// 和 DemandCurveController 一樣是上下兩張圖、共用 x 軸：
+// - 上：單位成本 MC / ATC / AVC / AFC（CostCurvesController）
+// - 下：總成本 TC / TVC / TFC（這個 controller）
+//
+// 兩張圖的對應關係：
+// - 原點到 TVC 的切線 -> 斜率 = AVC 最低點（歇業點）
+// - 原點到 TC 的切線  -> 斜率 = ATC 最低點（損益兩平點）
+// 兩條切線與切點的虛線，和上圖的兩個點在同一個 Q。
+//
+// 顏色沿用上圖：TC = ATC、TVC = AVC、TFC = AFC。
+// ------------------------------------------------------------
+
+import type { SceneOutput, Drawable, TextSpan } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+
+import { CostCurvesModel } from "../model/CostCurvesModel";
+import { CostCurvesController } from "./CostCurvesController";
+import { SceneController } from "./SceneController";
+
+// 總成本曲線取樣點數
+const TOTAL_SAMPLES = 160;
+
+// 三條曲線 與 上圖對應的顏色
+const TOTAL_CURVES: { curve: "tfc" | "tvc" | "tc"; name: string; color: "afc" | "avc" | "atc" }[] = [
+  { curve: "tfc", name: "TFC", color: "afc" },
+  { curve: "tvc", name: "TVC", color: "avc" },
+  { curve: "tc", name: "TC", color: "atc" },
+];
+
+export class TotalCostController extends SceneController {
+  private readonly model: CostCurvesModel;
+
+  // 上圖的 controller：取 xDomain / plot 寬度 / 曲線顏色
+  private readonly costs: CostCurvesController;
+
+  constructor(args: {
+    innerWidth: number;
+    innerHeight: number;
+    model: CostCurvesModel;
+    costs: CostCurvesController;
+  }) {
+    super({ innerWidth: args.innerWidth, innerHeight: args.innerHeight });
+
+    this.model = args.model;
+    this.costs = args.costs;
+
+    this.handleCostsUpdate = this.handleCostsUpdate.bind(this);
+  }
+
+  // ---------------------------------------------------------
+  // connect / disconnect：訂閱上圖 controller
+  // - 由 AppView 在 componentDidMount / componentWillUnmount 呼叫
+  // ---------------------------------------------------------
+  connect() {
+    this.costs.subscribe(this.handleCostsUpdate);
+  }
+
+  disconnect() {
+    this.costs.unsubscribe(this.handleCostsUpdate);
+  }
+
+  // 上圖更新（參數 / 顏色 / domain 改變）-> 總成本重算
+  private handleCostsUpdate() {
+    this.rebuildAndNotify();
+  }
+
+  // =========================================================
+  // Internals
+  // =========================================================
+
+  // - tc-label / tvc-label / tfc-label -> 曲線右端
+  // - tc-eq / tvc-eq / tfc-eq          -> 曲線中段
+  protected findLabelAnchor(
+    drawables: Drawable[],
+    labelId: string
+  ): { x: number; y: number } | null {
+    let c = 0;
+    while (c < TOTAL_CURVES.length) {
+      const curve = TOTAL_CURVES[c].curve;
+      if (labelId === `${curve}-label` || labelId === `${curve}-eq`) {
+        let i = 0;
+        while (i < drawables.length) {
+          const d = drawables[i];
+          if (d.kind === "polyline" && d.id === curve) {
+            const n = d.points.length;
+            if (n <= 0) {
+              return null;
+            }
+            if (labelId === `${curve}-eq`) {
+              const mid = d.points[Math.floor((n - 1) / 2)];
+              return { x: mid.x, y: mid.y };
+            }
+            return { x: d.points[n - 1].x + 6, y: d.points[n - 1].y };
+          }
+          i += 1;
+        }
+        return null;
+      }
+      c += 1;
+    }
+    return null;
+  }
+
+  // ---------------------------------------------------------
+  //  曲線方程式
+  //  - TC  = F + aQ - bQ^2 + cQ^3
+  //  - TVC = aQ - bQ^2 + cQ^3
+  //  - TFC = F
+  // ---------------------------------------------------------
+  private buildCurveSpans(curve: "tfc" | "tvc" | "tc", fontSize: number): TextSpan[] {
+    const p = this.model.getModelParams();
+    const f = (v: number) => this.formatNum(v);
+    const supTextSize = this.supSize(fontSize);
+
+    if (curve === "tfc") {
+      return [{ text: `TFC = ${f(p.F)}` }];
+    }
+
+    const head = curve === "tc" ? `TC = ${f(p.F)} + ` : "TVC = ";
+    return [
+      { text: `${head}${f(p.a)}Q - ${f(p.b)}Q` },
+      { text: "2", baselineShift: "super", fontSize: supTextSize },
+      { text: ` + ${f(p.c)}Q` },
+      { text: "3", baselineShift: "super", fontSize: supTextSize },
+    ];
+  }
+
+  protected buildScene(): SceneOutput {
+    // 共用上圖的 x 軸：xDomain + plot 寬度
+    const upperScene = this.costs.getScene();
+    const xDomain = upperScene.xDomain;
+    const xEconMax = xDomain[1];
+
+    // TC 遞增，但 Q^3 長得很快：畫長期時 x 範圍很寬，右端的 TC 會把 TFC 壓扁
+    // -> 只保證到損益兩平產量的 2 倍，超出的部分由取樣裁掉
+    let qTop = this.model.computeBreakEven().x * 2;
+    if (qTop > xEconMax) {
+      qTop = xEconMax;
+    }
+    const yEconMax = this.model.computeCost("tc", qTop) * 1.1;
+
+    const plotWidth = upperScene.width;
+    const plotHeight = this.innerH;
+
+    const vp = new Viewport(plotWidth, plotHeight, [xDomain[0], xEconMax], [0, yEconMax]);
+    this.lastViewport = vp;
+
+    const colors = this.costs.getCurveColors();
+    const range = { qMax: xEconMax, yMax: yEconMax, n: TOTAL_SAMPLES };
+
+    const drawables: Drawable[] = [];
+
+    // 原點切線 + 切點往 Q 軸的虛線（和上圖的歇業點 / 損益兩平點同一個 Q）
+    const tangents = [
+      { id: "shutdown", curve: "tvc" as const, Q: this.model.computeShutdown().x },
+      { id: "break-even", curve: "tc" as const, Q: this.model.computeBreakEven().x },
+    ];
+    let k = 0;
+    while (k < tangents.length) {
+      const t = tangents[k];
+      const touch = vp.econToPixelMapping({ x: t.Q, y: this.model.computeCost(t.curve, t.Q) });
+      drawables.push({
+        kind: "line",
+        id: `${t.id}-ray`,
+        a: vp.econToPixelMapping({ x: 0, y: 0 }),
+        b: touch,
+        stroke: { width: 1, color: "#888888", dash: [3, 3] },
+      });
+      drawables.push({
+        kind: "line",
+        id: `${t.id}-guide-q`,
+        a: touch,
+        b: { x: touch.x, y: plotHeight },
+        stroke: { width: 1, color: "#888888", dash: [3, 3] },
+      });
+      k += 1;
+    }
+
+    let c = 0;
+    while (c < TOTAL_CURVES.length) {
+      const item = TOTAL_CURVES[c];
+      drawables.push({
+        kind: "polyline",
+        id: item.curve,
+        points: this.model.computeCurve(item.curve, range).map((pt) => vp.econToPixelMapping(pt)),
+        stroke: { width: 2, color: colors[item.color] },
+      });
+      c += 1;
+    }
+
+    k = 0;
+    while (k < tangents.length) {
+      const t = tangents[k];
+      drawables.push({
+        kind: "point",
+        id: t.id,
+        center: vp.econToPixelMapping({ x: t.Q, y: this.model.computeCost(t.curve, t.Q) }),
+        r: 4,
+        fill: { color: colors[t.curve === "tc" ? "atc" : "avc"] },
+      });
+      k += 1;
+    }
+
+    const fontSize = this.labelFontSize;
+
+    // 曲線名稱
+    c = 0;
+    while (c < TOTAL_CURVES.length) {
+      const item = TOTAL_CURVES[c];
+      const id = `${item.curve}-label`;
+      const anchor = this.findLabelAnchor(drawables, id);
+      if (anchor) {
+        drawables.push({
+          kind: "text",
+          id,
+          pos: this.resolveLabelPos(id, anchor, 0, 4),
+          text: item.name,
+          fontSize: fontSize + 2,
+          fill: { color: colors[item.color] },
+          draggable: true,
+        });
+      }
+      c += 1;
+    }
+
+    // 方程式標籤
+    if (this.showEquationLabels) {
+      c = 0;
+      while (c < TOTAL_CURVES.length) {
+        const item = TOTAL_CURVES[c];
+        const id = `${item.curve}-eq`;
+        const anchor = this.findLabelAnchor(drawables, id);
+        if (anchor) {
+          const spans = this.buildCurveSpans(item.curve, fontSize);
+          drawables.push({
+            kind: "text",
+            id,
+            pos: this.resolveLabelPos(id, anchor, -10, -10),
+            text: spans.map((s) => (s.baselineShift === "super" ? `^${s.text}` : s.text)).join(""),
+            spans,
+            fontSize,
+            fill: { color: colors[item.color] },
+            textAnchor: "end",
+            draggable: true,
+          });
+        }
+        c += 1;
+      }
+    }
+
+    return {
+      width: plotWidth,
+      height: plotHeight,
+      drawables,
+      xDomain: [xDomain[0], xEconMax],
+      yDomain: [0, yEconMax],
+    };
+  }
+}
@@ -2,7 +2,7 @@
 
 // ------------------------------------------------------------
 // Model 層的任務：
-// 1) 保存「狀態」：I, px, py, a
+// 1) 保存「狀態」：I, px, py, a + 效用函數家族與其形狀參數
 // 2) 提供「商業/領域計算」：預算線、最適點、效用、無異曲線
 //
 // Model 不應該知道 View，也不應該知道 SVG/React；
@@ -14,22 +14,45 @@
 // Model 只是包一層：把內部 params 拿出來丟進去算。
 import {
   budgetLineEndpoints,     // 給 I, px, py 算預算線兩端點（經濟座標）
-  cobbDouglasOptimum,      // 給 a, I, px, py 算 Cobb-Douglas 最適點（經濟座標）
-  indifferenceCurvePoints, // 給 a, U0, xMin, xMax, n 算無異曲線取樣點（經濟座標）
-  utilityCobbDouglas,      // 給 a, x, y 算效用 U
 } from "../../lib/consumer";
 
+// 效用函數家族：每一種都有自己的最適解、無異曲線、方程式 spans
+// Model 只依 params.utility 挑出對應的 UtilityFunction 來算
+import {
+  expenditureFor,
+  getUtilityFunction,
+  type UtilityFunction,
+  type UtilityKind,
+  type UtilityShape,
+} from "../../lib/utility";
+
+// 拗折 / 非線性預算集合：邊界折線 + 沿邊界找最適點
+import {
+  budgetFrontier,
+  optimumOnFrontier,
+  type BudgetSetSpec,
+} from "../../lib/budgetSet";
+
 // ------------------------------------------------------------
 // ConsumerParams：Model 的核心狀態型別
 // - I : income（所得）
 // - px, py : 兩種商品價格
-// - a : Cobb-Douglas 中 x 的權重（0<a<1）
+// - a : x 的權重（0<a<1），所有效用函數家族共用
+// - utility : 效用函數家族（Cobb-Douglas / 完全替代 / 完全互補 / CES / 準線性 / Stone-Geary）
+// - rho : CES 的替代參數
+// - xBar, yBar : Stone-Geary 的最低生存消費量
+// - budgetSet : 預算集合的種類（一般預算線 / 數量折扣 / 從量稅 / 配給 / 實物補貼）
 // ------------------------------------------------------------
 export type ConsumerParams = {
   I: number;
   px: number;
   py: number;
   a: number;
+  utility: UtilityKind;
+  rho: number;
+  xBar: number;
+  yBar: number;
+  budgetSet: BudgetSetSpec;
 };
 
 // ------------------------------------------------------------
@@ -81,6 +104,40 @@ export class ConsumerOptModel {
     this.ModelParams.py = py;
   }
 
+  // 設定效用函數家族
+  setUtilityKind(kind: UtilityKind) {
+    this.ModelParams.utility = kind;
+  }
+
+  // 設定 CES 的替代參數 ρ
+  setRho(rho: number) {
+    this.ModelParams.rho = rho;
+  }
+
+  // 設定 Stone-Geary 的最低生存消費量
+  setSubsistence(xBar: number, yBar: number) {
+    this.ModelParams.xBar = xBar;
+    this.ModelParams.yBar = yBar;
+  }
+
+  // 設定預算集合（spec 是整個物件，複製一份避免外部 reference）
+  setBudgetSet(spec: BudgetSetSpec) {
+    this.ModelParams.budgetSet = { ...spec };
+  }
+
+  // ----------------------------------------------------------
+  // getUtilityFunction / getUtilityShape：
+  // Controller 要畫方程式標籤時，需要知道目前的家族與形狀參數
+  // ----------------------------------------------------------
+  getUtilityFunction(): UtilityFunction {
+    return getUtilityFunction(this.ModelParams.utility);
+  }
+
+  getUtilityShape(): UtilityShape {
+    const p = this.ModelParams;
+    return { a: p.a, rho: p.rho, xBar: p.xBar, yBar: p.yBar };
+  }
+
   // ----------------------------------------------------------
   // computeXxx：領域計算（經濟學計算）
   // Model 提供「以自身 params 為基礎」的計算捷徑
@@ -94,29 +151,129 @@ export class ConsumerOptModel {
     return budgetLineEndpoints({ I: p.I, px: p.px, py: p.py });
   }
 
-  // computeOptimum：計算 Cobb-Douglas 最適點
+  // computeOptimum：依目前的效用函數家族與預算集合計算最適點（含角解 / 拗折點）
   computeOptimum() {
-    const p = this.ModelParams;
     // 回傳通常是 {x, y}（經濟座標）
-    return cobbDouglasOptimum({ a: p.a, I: p.I, px: p.px, py: p.py });
+    return this.computeOptimumFor({});
+  }
+
+  // computeBudgetFrontier：目前預算集合的邊界折線（經濟座標）
+  computeBudgetFrontier() {
+    const p = this.ModelParams;
+    return budgetFrontier(p.budgetSet, { I: p.I, px: p.px, py: p.py });
+  }
+
+  // isLinearBudget：一般預算線（可以用各家族的封閉解）
+  isLinearBudget(): boolean {
+    return this.ModelParams.budgetSet.kind === "linear";
   }
 
   // computeUtilityAt：給定任意 (x,y) 計算效用
   // 注意：這裡的 x,y 是「經濟座標」，不是像素座標 (xEcon, yEcon)
   computeUtilityAt(xEcon: number, yEcon: number): number {
-    const p = this.ModelParams;
     // 回傳一個 number：U
-    return utilityCobbDouglas({ a: p.a, x: xEcon, y: yEcon });
+    return this.getUtilityFunction().value(xEcon, yEcon, this.getUtilityShape());
   }
 
   // computeIndifferenceCurve：給定 U0，回傳無異曲線的取樣點
   // - U0：要達到的效用水準
   // - xMin/xMax：取樣 x 範圍（避免 x=0 造成數值爆炸）
+  // - yMax：y 的上界（完全互補 L 形曲線的垂直段畫到這裡）
   // - n：取樣點數
   //
   // 回傳：Point[]（經濟座標點列）
-  computeIndifferenceCurve(U0: number, xMin: number, xMax: number, n: number) {
+  computeIndifferenceCurve(U0: number, xMin: number, xMax: number, yMax: number, n: number) {
+    return this.getUtilityFunction().indifferenceCurve(U0, this.getUtilityShape(), { xMin, xMax, yMax, n });
+  }
+
+  // ----------------------------------------------------------
+  // 比較靜態用：不改 model 狀態，只換掉部分參數來計算
+  // （Slutsky 分解、需求曲線、PCC / ICC 都需要「如果價格是 ...」）
+  // ----------------------------------------------------------
+
+  // computeOptimumFor：用 overrides 取代目前的 I / px / py（/ a）後計算最適點
+  // - 一般預算線：用效用函數家族的封閉解
+  // - 拗折預算集合：沿邊界折線數值搜尋
+  // - a：拖曳最適點時反解 a 用
+  computeOptimumFor(overrides: { I?: number; px?: number; py?: number; a?: number }) {
+    const p = this.ModelParams;
+    const I = overrides.I !== undefined ? overrides.I : p.I;
+    const px = overrides.px !== undefined ? overrides.px : p.px;
+    const py = overrides.py !== undefined ? overrides.py : p.py;
+
+    if (p.budgetSet.kind === "linear") {
+      return this.computeLinearOptimumFor({ I, px, py, a: overrides.a });
+    }
+
+    const f = this.getUtilityFunction();
+    const shape = this.getUtilityShape();
+    if (overrides.a !== undefined) {
+      shape.a = overrides.a;
+    }
+    const frontier = budgetFrontier(p.budgetSet, { I, px, py });
+    return optimumOnFrontier(frontier, (x, y) => f.value(x, y, shape));
+  }
+
+  // computeLinearOptimumFor：忽略預算集合，一律當成一般預算線 px x + py y = I
+  // （Hicks 補償 / 支出函數都是在線性預算下定義的）
+  computeLinearOptimumFor(overrides: { I?: number; px?: number; py?: number; a?: number }) {
     const p = this.ModelParams;
-    return indifferenceCurvePoints({ a: p.a, U0, xMin, xMax, n });
+    const I = overrides.I !== undefined ? overrides.I : p.I;
+    const px = overrides.px !== undefined ? overrides.px : p.px;
+    const py = overrides.py !== undefined ? overrides.py : p.py;
+    const shape = this.getUtilityShape();
+    if (overrides.a !== undefined) {
+      shape.a = overrides.a;
+    }
+    return this.getUtilityFunction().optimum({ I, px, py }, shape);
+  }
+
+  // computeBudgetFrontierFor：用 overrides 取代目前的 I / px / py 後計算預算集合的邊界
+  computeBudgetFrontierFor(overrides: { I?: number; px?: number; py?: number }) {
+    const p = this.ModelParams;
+    const I = overrides.I !== undefined ? overrides.I : p.I;
+    const px = overrides.px !== undefined ? overrides.px : p.px;
+    const py = overrides.py !== undefined ? overrides.py : p.py;
+    return budgetFrontier(p.budgetSet, { I, px, py });
+  }
+
+  // computeBudgetFor：用 overrides 取代目前的 I / px / py 後計算預算線兩端點
+  computeBudgetFor(overrides: { I?: number; px?: number; py?: number }) {
+    const p = this.ModelParams;
+    const I = overrides.I !== undefined ? overrides.I : p.I;
+    const px = overrides.px !== undefined ? overrides.px : p.px;
+    const py = overrides.py !== undefined ? overrides.py : p.py;
+    return budgetLineEndpoints({ I, px, py });
+  }
+
+  // computeExpenditure：支出函數 e(px, py, U0)（達到 U0 的最小所得）
+  computeExpenditure(px: number, py: number, U0: number): number {
+    return expenditureFor(this.getUtilityFunction(), this.getUtilityShape(), px, py, U0);
+  }
+
+  // computePriceConsumptionCurve：價格消費曲線 (PCC)
+  // - px 在 [pxMin, pxMax] 取 n 個值，其他參數不變，回傳每個 px 下的最適點
+  computePriceConsumptionCurve(pxMin: number, pxMax: number, n: number) {
+    const pts: { x: number; y: number }[] = [];
+    const step = (pxMax - pxMin) / (n - 1);
+    let i = 0;
+    while (i < n) {
+      pts.push(this.computeOptimumFor({ px: pxMin + step * i }));
+      i += 1;
+    }
+    return pts;
+  }
+
+  // computeIncomeConsumptionCurve：所得消費曲線 (ICC)
+  // - I 在 [IMin, IMax] 取 n 個值，價格不變，回傳每個 I 下的最適點
+  computeIncomeConsumptionCurve(IMin: number, IMax: number, n: number) {
+    const pts: { x: number; y: number }[] = [];
+    const step = (IMax - IMin) / (n - 1);
+    let i = 0;
+    while (i < n) {
+      pts.push(this.computeOptimumFor({ I: IMin + step * i }));
+      i += 1;
+    }
+    return pts;
   }
 }
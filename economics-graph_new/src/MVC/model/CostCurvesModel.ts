@@ -0,0 +1,101 @@
+// src/mvc/model/CostCurvesModel.ts
+
+// ------------------------------------------------------------
+// Model 層的任務（對應 ProducerOptModel）：
+// 1) 保存「狀態」：短期成本 (F, a, b, c)、規模效果 sigma
+// 2) 提供「領域計算」：各條成本曲線、歇業點、損益兩平點、工廠規模族、LRAC
+//
+// Model 不知道 View，也不知道 SVG/React；只做「經濟學世界」的事情。
+// ------------------------------------------------------------
+
+import {
+  breakEvenPoint,             // ATC 最低點
+  costAt,                     // 單點成本
+  costCurvePoints,            // TC / TVC / TFC / MC / ATC / AVC / AFC 取樣
+  longRunAverageCostPoints,   // LRAC（短期 ATC 族的包絡線）取樣
+  plantAverageCost,           // 某個工廠規模的 ATC
+  plantAverageCostPoints,     // 某個工廠規模的 ATC 取樣
+  plantSizes,                 // 以 s = 1 為中心的工廠規模
+  shutdownPoint,              // AVC 最低點
+  type CostCurve,
+  type ShortRunCostParams,
+} from "../../lib/producer";
+
+// ------------------------------------------------------------
+// CostParams：Model 的核心狀態型別
+// - F, a, b, c：短期成本 TC = F + a Q - b Q^2 + c Q^3（見 lib/producer.ts）
+// - sigma：工廠規模偏離 s = 1 時單位成本上升的幅度（0 = 固定規模報酬）
+// ------------------------------------------------------------
+export type CostParams = ShortRunCostParams & {
+  sigma: number;
+};
+
+// 預設：TC = 20 + 10Q - 2Q^2 + 0.2Q^3
+// => 歇業點 (5, 5)、損益兩平點約 (6.27, 8.51)
+// （AppView 的初始值和舊版存檔的 migration 都用這一份）
+export const DEFAULT_COST_PARAMS: CostParams = { F: 20, a: 10, b: 2, c: 0.2, sigma: 0.3 };
+
+export class CostCurvesModel {
+  private ModelParams: CostParams;
+
+  constructor(initial: CostParams) {
+    // 複製一份，避免外部還握著同一個物件 reference
+    this.ModelParams = { ...initial };
+  }
+
+  // 對外提供一份參數快照（snapshot）
+  getModelParams(): Readonly<CostParams> {
+    return { ...this.ModelParams };
+  }
+
+  // ----------------------------------------------------------
+  // setters：提供 Controller 更新參數的入口
+  // ----------------------------------------------------------
+  setParams(params: CostParams) {
+    this.ModelParams = { ...params };
+  }
+
+  // ----------------------------------------------------------
+  // computeXxx：領域計算
+  // ----------------------------------------------------------
+
+  // computeCost：某條成本曲線在 Q 的值
+  computeCost(curve: CostCurve, Q: number): number {
+    return costAt(this.ModelParams, curve, Q);
+  }
+
+  // computeShutdown / computeBreakEven：(Q, P)（經濟座標）
+  computeShutdown() {
+    return shutdownPoint(this.ModelParams);
+  }
+
+  computeBreakEven() {
+    return breakEvenPoint(this.ModelParams);
+  }
+
+  // computeCurve：成本曲線取樣（經濟座標）
+  computeCurve(curve: CostCurve, range: { qMax: number; yMax: number; n: number }) {
+    return costCurvePoints(this.ModelParams, curve, range);
+  }
+
+  // computePlantSizes：要畫出來的工廠規模（count 個，以 s = 1 為中心）
+  computePlantSizes(count: number) {
+    return plantSizes(count);
+  }
+
+  // computePlantMinimum：工廠規模 s 的 ATC 最低點（= 基準工廠的最低點往右平移 s 倍）
+  computePlantMinimum(s: number) {
+    const Q = breakEvenPoint(this.ModelParams).x * s;
+    return { x: Q, y: plantAverageCost(this.ModelParams, this.ModelParams.sigma, s, Q) };
+  }
+
+  // computePlantCurve：工廠規模 s 的短期 ATC 取樣
+  computePlantCurve(s: number, range: { qMax: number; yMax: number; n: number }) {
+    return plantAverageCostPoints(this.ModelParams, this.ModelParams.sigma, s, range);
+  }
+
+  // computeLongRunCurve：LRAC 取樣
+  computeLongRunCurve(range: { qMax: number; yMax: number; n: number }) {
+    return longRunAverageCostPoints(this.ModelParams, this.ModelParams.sigma, range);
+  }
+}
@@ -0,0 +1,130 @@
+// src/mvc/model/MarketModel.ts
+
+// ------------------------------------------------------------
+// Model 層的任務（對應 ConsumerOptModel / ProducerOptModel）：
+// 1) 保存「狀態」：需求曲線、供給曲線（種類 + 參數 + 水平移動）、市場干預
+// 2) 提供「領域計算」：均衡 (Q*, P*)、干預後的市場、曲線取樣、福利（CS / PS / Gov / DWL）
+//
+// Model 不知道 View，也不知道 SVG/React；只做「經濟學世界」的事情。
+// ------------------------------------------------------------
+
+import {
+  computeWelfare,      // CS / PS / Gov / DWL 的面積與多邊形
+  marketCurvePoints,   // 曲線取樣（經濟座標）
+  solveEquilibrium,    // Q_d(P) = Q_s(P)
+  solveIntervention,   // 稅 / 補貼 / 價格管制 / 配額
+  type MarketCurve,
+  type MarketIntervention,
+  type MarketInterventionResult,
+  type MarketSide,
+  type MarketWelfare,
+} from "../../lib/market";
+
+// ------------------------------------------------------------
+// MarketParams：Model 的核心狀態型別
+// - demand / supply：各自的曲線（見 lib/market.ts 的 MarketCurve）
+// - intervention：市場干預（kind = "none" 就是自由市場）
+// ------------------------------------------------------------
+export type MarketParams = {
+  demand: MarketCurve;
+  supply: MarketCurve;
+  intervention: MarketIntervention;
+};
+
+// 預設市場：需求 P = 10 - Q、供給 P = 2 + Q（均衡 Q* = 4, P* = 6）
+// constantElasticity 的預設：需求 Q = 50 / P、供給 Q = 2P（均衡 Q* = 10, P* = 5）
+// （AppView 的初始值和舊版存檔的 migration 都用這一份）
+export const DEFAULT_MARKET_PARAMS: MarketParams = {
+  demand: { kind: "linear", intercept: 10, slope: 1, scale: 50, elasticity: 1, shift: 0 },
+  supply: { kind: "linear", intercept: 2, slope: 1, scale: 2, elasticity: 1, shift: 0 },
+  // 各種干預的預設值都以預設市場為準：稅 / 補貼 2、上限 5 < P*、下限 7 > P*、配額 3 < Q*
+  intervention: { kind: "none", tax: 2, subsidy: 2, ceiling: 5, floor: 7, quota: 3 },
+};
+
+export class MarketModel {
+  private ModelParams: MarketParams;
+
+  constructor(initial: MarketParams) {
+    // 複製一份，避免外部還握著同一個物件 reference
+    this.ModelParams = {
+      demand: { ...initial.demand },
+      supply: { ...initial.supply },
+      intervention: { ...initial.intervention },
+    };
+  }
+
+  // 對外提供一份參數快照（snapshot）
+  getModelParams(): Readonly<MarketParams> {
+    return {
+      demand: { ...this.ModelParams.demand },
+      supply: { ...this.ModelParams.supply },
+      intervention: { ...this.ModelParams.intervention },
+    };
+  }
+
+  // ----------------------------------------------------------
+  // setters：提供 Controller 更新參數的入口
+  // ----------------------------------------------------------
+  setCurve(side: MarketSide, curve: MarketCurve) {
+    this.ModelParams[side] = { ...curve };
+  }
+
+  setIntervention(intervention: MarketIntervention) {
+    this.ModelParams.intervention = { ...intervention };
+  }
+
+  // ----------------------------------------------------------
+  // computeXxx：領域計算
+  // ----------------------------------------------------------
+
+  // computeEquilibrium：自由市場的均衡 (Q*, P*)（經濟座標 x = Q、y = P）；沒有正的均衡量時為 null
+  // （有干預時這仍是「干預前」的均衡，干預後的結果見 computeIntervention）
+  computeEquilibrium() {
+    const p = this.ModelParams;
+    return solveEquilibrium(p.demand, p.supply);
+  }
+
+  // computeBaseEquilibrium：不含水平移動（shift = 0）時的均衡
+  // 用來決定座標範圍：移動曲線時座標軸不跟著縮放，才看得出曲線在移動
+  computeBaseEquilibrium() {
+    const p = this.ModelParams;
+    return solveEquilibrium({ ...p.demand, shift: 0 }, { ...p.supply, shift: 0 });
+  }
+
+  // computeCurve：曲線取樣（經濟座標）
+  // - unshifted = true：畫「移動前」的曲線（shift = 0）
+  computeCurve(
+    side: MarketSide,
+    range: { pMin: number; pMax: number; qMax: number; n: number },
+    unshifted: boolean
+  ) {
+    const curve = this.ModelParams[side];
+    return marketCurvePoints(unshifted ? { ...curve, shift: 0 } : curve, side, range);
+  }
+
+  // computeIntervention：干預後的成交量 / 買賣價格；沒有均衡（或稅重到沒有交易）時為 null
+  computeIntervention(): MarketInterventionResult | null {
+    const p = this.ModelParams;
+    const eq = solveEquilibrium(p.demand, p.supply);
+    if (!eq) {
+      return null;
+    }
+    return solveIntervention(p.demand, p.supply, p.intervention, eq);
+  }
+
+  // computeWelfare：福利分析（經濟座標）；沒有均衡時為 null
+  // - 依干預後的成交結果算（沒有干預：成交量 = Q*、買賣雙方價格都是 P*，Gov / DWL 為 0）
+  // - pCap：價格上限（通常是圖的價格軸上限，見 lib/market.ts 的 computeWelfare）
+  computeWelfare(pCap: number): MarketWelfare | null {
+    const p = this.ModelParams;
+    const eq = solveEquilibrium(p.demand, p.supply);
+    if (!eq) {
+      return null;
+    }
+    const result = solveIntervention(p.demand, p.supply, p.intervention, eq);
+    if (!result) {
+      return null;
+    }
+    return computeWelfare(p.demand, p.supply, result.outcome, eq, { pCap, n: 80 });
+  }
+}
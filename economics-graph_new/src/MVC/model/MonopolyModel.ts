@@ -0,0 +1,68 @@
+// src/mvc/model/MonopolyModel.ts
+
+// ------------------------------------------------------------
+// Model 層的任務（對應 ProducerOptModel / MarketModel）：
+// 1) 保存「狀態」：需求 (a, b)、成本 (F, c, d)
+// 2) 提供「領域計算」：MR = MC 的獨占解、競爭解、利潤、DWL、曲線取樣
+//
+// Model 不知道 View，也不知道 SVG/React；只做「經濟學世界」的事情。
+// ------------------------------------------------------------
+
+import {
+  competitiveOutcome,      // P = MC
+  monopolyCurvePoints,     // D / MR / MC / ATC 取樣（經濟座標）
+  monopolyDeadweightLoss,  // Q_m 到 Q_c 的 DWL 三角形
+  monopolyOptimum,         // MR = MC
+  type MonopolyCurve,
+  type MonopolyParams,
+} from "../../lib/monopoly";
+
+// 預設：需求 P = 20 - Q、TC = 20 + 2Q + 0.5Q^2（MC = 2 + Q）
+// => Q_m = 6、P_m = 14、ATC = 8.33、利潤 34；Q_c = 9、P_c = 11；DWL = 9
+// （AppView 的初始值和舊版存檔的 migration 都用這一份）
+export const DEFAULT_MONOPOLY_PARAMS: MonopolyParams = { a: 20, b: 1, F: 20, c: 2, d: 0.5 };
+
+export class MonopolyModel {
+  private ModelParams: MonopolyParams;
+
+  constructor(initial: MonopolyParams) {
+    // 複製一份，避免外部還握著同一個物件 reference
+    this.ModelParams = { ...initial };
+  }
+
+  // 對外提供一份參數快照（snapshot）
+  getModelParams(): Readonly<MonopolyParams> {
+    return { ...this.ModelParams };
+  }
+
+  // ----------------------------------------------------------
+  // setters：提供 Controller 更新參數的入口
+  // ----------------------------------------------------------
+  setParams(params: MonopolyParams) {
+    this.ModelParams = { ...params };
+  }
+
+  // ----------------------------------------------------------
+  // computeXxx：領域計算
+  // ----------------------------------------------------------
+
+  // computeOptimum：獨占解 (Q_m, P_m) 與該產量下的 MC / ATC / 利潤；不生產時為 null
+  computeOptimum() {
+    return monopolyOptimum(this.ModelParams);
+  }
+
+  // computeCompetitive：完全競爭的 (Q_c, P_c)（對照組）
+  computeCompetitive() {
+    return competitiveOutcome(this.ModelParams);
+  }
+
+  // computeDeadweightLoss：獨占相對於競爭的 DWL
+  computeDeadweightLoss() {
+    return monopolyDeadweightLoss(this.ModelParams);
+  }
+
+  // computeCurve：曲線取樣（經濟座標）
+  computeCurve(curve: MonopolyCurve, range: { qMax: number; pMax: number; n: number }) {
+    return monopolyCurvePoints(this.ModelParams, curve, range);
+  }
+}
@@ -0,0 +1,101 @@
+// src/mvc/model/ProducerOptModel.ts
+
+// ------------------------------------------------------------
+// Model 層的任務（對應 ConsumerOptModel）：
+// 1) 保存「狀態」：Q, w, r, a, A
+// 2) 提供「領域計算」：等成本線、成本最小化點、產量、等產量曲線
+//
+// Model 不知道 View，也不知道 SVG/React；只做「經濟學世界」的事情。
+// ------------------------------------------------------------
+
+import {
+  costMinimizingBundle,   // 給 A, a, w, r, Q 算成本最小化的 (L*, K*)
+  isocostLineEndpoints,   // 給 C, w, r 算等成本線兩端點
+  isoquantPoints,         // 給 A, a, Q0, lMin, lMax, n 算等產量曲線取樣點
+  productionCobbDouglas,  // 給 A, a, L, K 算產量 Q
+} from "../../lib/producer";
+
+// ------------------------------------------------------------
+// ProducerParams：Model 的核心狀態型別
+// - Q : 目標產量
+// - w, r : 勞動 (L) 與資本 (K) 的要素價格
+// - a : Cobb-Douglas 中 L 的產出彈性（0<a<1）
+// - A : 技術水準 (total factor productivity)
+// ------------------------------------------------------------
+export type ProducerParams = {
+  Q: number;
+  w: number;
+  r: number;
+  a: number;
+  A: number;
+};
+
+export class ProducerOptModel {
+  private ModelParams: ProducerParams;
+
+  constructor(initial: ProducerParams) {
+    // 複製一份，避免外部還握著同一個物件 reference
+    this.ModelParams = { ...initial };
+  }
+
+  // 對外提供一份參數快照（snapshot）
+  getModelParams(): Readonly<ProducerParams> {
+    return { ...this.ModelParams };
+  }
+
+  // ----------------------------------------------------------
+  // setters：提供 Controller 更新參數的入口
+  // ----------------------------------------------------------
+  setOutput(Q: number): void {
+    this.ModelParams.Q = Q;
+  }
+
+  setAlpha(a: number) {
+    this.ModelParams.a = a;
+  }
+
+  setTechnology(A: number) {
+    this.ModelParams.A = A;
+  }
+
+  // 設定兩個要素價格
+  setFactorPrices(w: number, r: number) {
+    this.ModelParams.w = w;
+    this.ModelParams.r = r;
+  }
+
+  // ----------------------------------------------------------
+  // computeXxx：領域計算
+  // ----------------------------------------------------------
+
+  // computeOptimum：成本最小化的 (L*, K*)（經濟座標）
+  computeOptimum() {
+    const p = this.ModelParams;
+    return costMinimizingBundle({ A: p.A, a: p.a, w: p.w, r: p.r, Q: p.Q });
+  }
+
+  // computeMinCost：最小成本 C* = w L* + r K*
+  computeMinCost(): number {
+    const p = this.ModelParams;
+    const opt = this.computeOptimum();
+    return p.w * opt.x + p.r * opt.y;
+  }
+
+  // computeIsocost：通過最適點的等成本線兩端點
+  computeIsocost() {
+    const p = this.ModelParams;
+    return isocostLineEndpoints({ C: this.computeMinCost(), w: p.w, r: p.r });
+  }
+
+  // computeOutputAt：給定任意 (L,K) 計算產量
+  computeOutputAt(L: number, K: number): number {
+    const p = this.ModelParams;
+    return productionCobbDouglas({ A: p.A, a: p.a, L, K });
+  }
+
+  // computeIsoquant：給定 Q0，回傳等產量曲線的取樣點（經濟座標）
+  computeIsoquant(Q0: number, lMin: number, lMax: number, n: number) {
+    const p = this.ModelParams;
+    return isoquantPoints({ A: p.A, a: p.a, Q0, lMin, lMax, n });
+  }
+}
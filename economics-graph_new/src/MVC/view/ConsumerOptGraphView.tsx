@@ -28,10 +28,11 @@ import { SvgSceneView } from "./SvgSceneView";
 
 // SceneOutput：這張圖的「唯一渲染輸入」
 // 內含 drawables + xDomain/yDomain + width/height
-import type { SceneOutput } from "../../core/drawables";
+import type { LineDragPart, SceneOutput } from "../../core/drawables";
 
 // Controller：GraphView 需要一個 controller 來取得 scene、訂閱更新、轉交拖曳事件
-import { ConsumerOptController } from "../controller/ConsumerOptController";
+// 只依賴 SceneController（消費者 / 生產者 ... 的 controller 都能畫）
+import { SceneController } from "../controller/SceneController";
 
 // GraphView: GraphView 的 state 也保存 viewport
 import { Viewport } from "../../core/Viewport";
@@ -40,17 +41,46 @@ import type { TickVisibility } from "./axesTicks";
 
 import { SVG_HEIGHT, SVG_MARGIN, SVG_WIDTH } from "../../core/layout";
 
+import {
+  downloadBlob,
+  rasterizeSvg,
+  serializeSvgForExport,
+} from "../../common/exportImage";
+import type { PngExportOptions } from "../../common/exportImage";
+import { svgToPdfBlob } from "../../common/exportPdf";
+import type { PdfExportOptions } from "../../common/exportPdf";
+
+import { sceneToTikz } from "./tikzExport";
+import type { TikzFormat } from "./tikzExport";
+
 // // ------------------------------------------------------------
 // // ALLOWED_TICKS: 限制 ticks 值: 避免奇怪數字 (1, 2, 4, 5, 10)
 // // ------------------------------------------------------------
 // const ALLOWED_TICKS: number[] = [1, 2, 4, 5, 10]; 
 
+// ------------------------------------------------------------
+// 匯出檔名：空白用預設檔名，沒有副檔名就補上
+// ------------------------------------------------------------
+function ensureExtension(fileNameRaw: string, fallback: string, ext: string): string {
+  let fileName = fileNameRaw.trim();
+  if (fileName.length === 0) {
+    fileName = fallback;
+  }
+
+  // 確保附檔名
+  const lower = fileName.toLowerCase();
+  if (!lower.endsWith(ext)) {
+    fileName = fileName + ext;
+  }
+  return fileName;
+}
+
 // ------------------------------------------------------------
 // Props：外部（通常是 AppView）必須傳入 controller
 // GraphView 不自己 new controller，避免把依賴鎖死
 // ------------------------------------------------------------
 type Props = {
-  controller: ConsumerOptController;
+  controller: SceneController;
 
   ticks: number;
   tickVisibility: TickVisibility;
@@ -103,7 +133,7 @@ export class ConsumerOptGraphView extends React.Component<Props, State> {
   // private readonly svgMargin: Margin;
   private readonly svgMargin = SVG_MARGIN;
 
-  private subscribedController: ConsumerOptController | null;
+  private subscribedController: SceneController | null;
 
   // 拿到 <svg> DOM 匯出使用
   private svgRef: React.RefObject<SVGSVGElement | null>;
@@ -166,6 +196,10 @@ export class ConsumerOptGraphView extends React.Component<Props, State> {
     // 文字拖曳
     this.handleTextDrag = this.handleTextDrag.bind(this);
 
+    // 線段拖曳 / 拖曳結束
+    this.handleLineDrag = this.handleLineDrag.bind(this);
+    this.handleDragEnd = this.handleDragEnd.bind(this);
+
 
     // // 匯出 SVG handler
     // this.handleExportSvg = this.handleExportSvg.bind(this);
@@ -271,6 +305,18 @@ export class ConsumerOptGraphView extends React.Component<Props, State> {
     this.props.controller.onTextDrag(id, pixel);
   }
 
+  // ----------------------------------------------------------
+  // handleLineDrag: 線段拖曳（例如預算線的截距 / 線身）
+  // handleDragEnd: 拖曳結束
+  // ----------------------------------------------------------
+  private handleLineDrag(id: string, part: LineDragPart, pixel: { x: number; y: number }) {
+    this.props.controller.onLineDrag(id, part, pixel);
+  }
+
+  private handleDragEnd() {
+    this.props.controller.onDragEnd();
+  }
+
 
 
   // // ----------------------------------------------------------
@@ -314,9 +360,8 @@ export class ConsumerOptGraphView extends React.Component<Props, State> {
   // 匯出 SVG（LaTeX 可用）讓 AppView 用 ref 呼叫匯出
   //
   // 做法：
-  // 1) clone 一份 svg DOM（不要直接改畫面那份）
-  // 2) 加 xmlns / viewBox（讓外部工具更穩）
-  // 3) 用 XMLSerializer -> Blob -> <a downSload> 下載
+  // 1) clone 一份 svg DOM（不要直接改畫面那份），加 xmlns / viewBox
+  // 2) 用 XMLSerializer -> Blob -> <a download> 下載
   // =========================================================
   public exportSvg(fileNameRaw: string) {
     // 先取得畫面上的 <svg>
@@ -325,47 +370,76 @@ export class ConsumerOptGraphView extends React.Component<Props, State> {
       return
     }
 
-    let fileName = fileNameRaw.trim();
-    if (fileName.length === 0) {
-      fileName = "figure.svg";
-    }
+    const fileName = ensureExtension(fileNameRaw, "figure.svg", ".svg");
 
-    // 確保附檔名
-    const lower = fileName.toLowerCase();
-    if(!lower.endsWith(".svg")) {
-      fileName = fileName + ".svg";
-    }
+    const source = serializeSvgForExport(svg, this.svgWidth, this.svgHeight);
+    const withHeader = `<?xml version="1.0" encoding="UTF-8"?>\n${source}`;
 
-    const svgCloned = svg.cloneNode(true) as SVGSVGElement;  // 避免直接影響原 <svg> 元素
-    
-    // 加上 xmlns (SVG 標準)
-    //  - 有些工具看到 XML (SVG 本質上是一種 XML)，如果沒有 xmlns，可能解析會失敗
-    svgCloned.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+    const blob = new Blob([withHeader], { type: "image/svg+xml;charset=utf-8" });
+    downloadBlob(blob, fileName);
+  }
 
-    // 加上 viewBox: 讓 LaText / Inkscape 縮放更穩，避免切掉、跑位
-    svgCloned.setAttribute("viewBox",  `0 0 ${this.svgWidth} ${this.svgHeight}`);
+  // =========================================================
+  // 匯出 PNG（投影片 / LMS 用）
+  // - 和 exportSvg 用同一份 clone 出來的 SVG，再畫到 canvas
+  // - options.scale 決定像素數（2x / 4x 給高 DPI 螢幕與印刷）
+  // =========================================================
+  public async exportPng(fileNameRaw: string, options: PngExportOptions) {
+    const svg = this.svgRef.current;
+    if (!svg) {
+      return;
+    }
 
-    // 匯出時拿掉 border (避免文件有醜框)
-    // 並且明確指定 color (因為許多 stroke 使用 currentColor)
-    svgCloned.setAttribute("style", "color: black;");
+    const fileName = ensureExtension(fileNameRaw, "figure.png", ".png");
 
-    const serializer = new XMLSerializer();
-    const source = serializer.serializeToString(svgCloned);
-    const withHeader = `<?xml version="1.0" encoding="UTF-8"?>\n${source}`;
+    const source = serializeSvgForExport(svg, this.svgWidth, this.svgHeight);
+    const blob = await rasterizeSvg(source, this.svgWidth, this.svgHeight, options);
+    downloadBlob(blob, fileName);
+  }
 
-    const blob = new Blob([withHeader], { type: "image/svg+xml;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
+  // =========================================================
+  // 匯出 PDF（列印講義用）
+  // - 和 exportSvg 用同一份 clone 出來的 SVG，轉成單頁向量 PDF
+  // =========================================================
+  public async exportPdf(fileNameRaw: string, options: PdfExportOptions) {
+    const svg = this.svgRef.current;
+    if (!svg) {
+      return;
+    }
 
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
+    const fileName = ensureExtension(fileNameRaw, "figure.pdf", ".pdf");
 
-    // 清理 DOM 與 釋放暫時 URL (避免記憶體累積)
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const source = serializeSvgForExport(svg, this.svgWidth, this.svgHeight);
+    const blob = await svgToPdfBlob(source, this.svgWidth, this.svgHeight, options);
+    downloadBlob(blob, fileName);
+  }
 
+  // =========================================================
+  // 匯出 TikZ / pgfplots（.tex）
+  // - 不是從 <svg> DOM 來：直接拿目前的 scene（經濟座標可還原）
+  // - 座標軸設定沿用這張圖的 props（ticks / 軸名稱 / 標題）
+  // =========================================================
+  public exportTikz(
+    fileNameRaw: string,
+    options: { format: TikzFormat; standalone: boolean; widthCm: number }
+  ) {
+    const fileName = ensureExtension(fileNameRaw, "figure.tex", ".tex");
+
+    const source = sceneToTikz(this.state.scene, {
+      format: options.format,
+      standalone: options.standalone,
+      widthCm: options.widthCm,
+      ticks: this.props.ticks,
+      tickVisibility: this.props.tickVisibility,
+      xLabel: this.props.xLabel,
+      yLabel: this.props.yLabel,
+      showXLabel: this.props.showXLabel,
+      showYLabel: this.props.showYLabel,
+      title: this.props.showChartTitle ? this.props.chartTitle : "",
+    });
+
+    const blob = new Blob([source], { type: "application/x-tex;charset=utf-8" });
+    downloadBlob(blob, fileName);
   }
 
 
@@ -471,6 +545,8 @@ export class ConsumerOptGraphView extends React.Component<Props, State> {
             scene={scene}  // Parent Component => Child Component
             onPointDrag={this.handlePointDrag}  // Child Component => Parent Component
             onTextDrag={this.handleTextDrag}
+            onLineDrag={this.handleLineDrag}
+            onDragEnd={this.handleDragEnd}
           />
         </g>
       </svg>
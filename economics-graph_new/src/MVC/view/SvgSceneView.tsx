@@ -21,20 +21,35 @@ import React from "react";
 // - Drawable：每個圖元（line/polyline/point/text）
 // - SceneOutput：包含 drawables + width/height + domain（domain通常不在 renderer 用）
 // SvgSceneView 只用 drawables 來畫
-import type { Drawable, SceneOutput, TextSpan } from "../../core/drawables";
+import type { Drawable, LineDragPart, SceneOutput, TextSpan } from "../../core/drawables";
+
+import { getCachedMathSvg, hasMathSvgFailed, requestMathSvg } from "../../common/mathjaxSvg";
 
 // ------------------------------------------------------------
 // Props：SvgSceneView 的輸入
 // - scene：當前場景（像素座標版的 drawables）
 // - onPointDrag：拖曳時回報（id + pixel 座標）
 //   - 這是「往上層的 callback」，SvgSceneView 不做狀態回推
+// - onLineDrag：拖曳 draggable line 時回報（id + 抓到的部分 + pixel 座標）
+// - onDragEnd：任何拖曳（point / text / line）結束時通知一次
 // ------------------------------------------------------------
 type Props = {
   scene: SceneOutput;
   onPointDrag?: (id: string, pixel: { x: number; y: number }) => void;
   onTextDrag?: (id: string, pixel: { x: number; y: number }) => void;
+  onLineDrag?: (id: string, part: LineDragPart, pixel: { x: number; y: number }) => void;
+  onDragEnd?: () => void;
 };
 
+// draggable line 的命中容錯（像素）
+// - 端點的範圍比線身大，截距附近優先當成拖端點
+const LINE_END_TOLERANCE = 12;
+const LINE_BODY_TOLERANCE = 6;
+
+// 每個 SvgSceneView 實例一個編號：hatch <pattern> 的 id 要在整個頁面唯一
+// （頁面上同時有好幾張圖時，同名 id 會拿到別張圖的 pattern）
+let nextInstanceId = 1;
+
 // ------------------------------------------------------------
 // class component 版本（OOP）
 // extends React.Component<Props> 表示：只用 props，不用 state
@@ -60,15 +75,24 @@ export class SvgSceneView extends React.Component<Props> {
 
   // draggingId：目前正在拖曳的 point drawable id（例如 "opt"）
   private draggingId: string | null;
-  private draggingKind: "point" | "text" | null;
+  private draggingKind: "point" | "text" | "line" | null;
+
+  // 拖 line 時抓到的部分（端點 a / b 或線身）
+  private draggingLinePart: LineDragPart | null;
 
   // pointerId：Pointer Events 裡用來辨識是哪一個 pointer 在拖曳
   // 目的：避免多指/多點觸控時互相干擾
   private pointerId: number | null;
 
-  // 保存每個 text 的 DOM node (用來做 getBBox hit-test)
-  // key = drawable.id，value = <text> 的 SVGTextElement
-  private textNodeById: Record<string, SVGTextElement | null>;
+  // 保存每個 text / mathSvg 的 DOM node (用來做 getBBox hit-test)
+  // key = drawable.id，value = <text> 或包住 MathJax <svg> 的 <g>
+  private textNodeById: Record<string, SVGGraphicsElement | null>;
+
+  // unmount 之後 MathJax 才排版完成時，不要再 forceUpdate
+  private mounted: boolean;
+
+  // hatch pattern id 的前綴（每個實例唯一）
+  private readonly patternPrefix: string;
 
 
   constructor(props: Props) {
@@ -89,8 +113,13 @@ export class SvgSceneView extends React.Component<Props> {
     this.draggingId = null; // 你正在拖哪一個點（例如 "opt"）
     this.pointerId = null;  // Pointer Events 的識別碼
     this.draggingKind = null;
+    this.draggingLinePart = null;
 
     this.textNodeById = {};
+    this.mounted = false;
+
+    this.patternPrefix = `scene${nextInstanceId}`;
+    nextInstanceId += 1;
 
     // --------------------------------------------------------
     // bind：class component 必備
@@ -105,6 +134,50 @@ export class SvgSceneView extends React.Component<Props> {
 
 
   
+  // ----------------------------------------------------------
+  // MathJax 排版是非同步的：
+  // - render 時快取裡還沒有的 mathSvg 先畫 fallback 文字
+  // - mount / update 後把缺的送去排版，完成後 forceUpdate 重畫
+  // ----------------------------------------------------------
+  componentDidMount() {
+    this.mounted = true;
+    this.requestMissingMath();
+  }
+
+  componentDidUpdate() {
+    this.requestMissingMath();
+  }
+
+  componentWillUnmount() {
+    this.mounted = false;
+  }
+
+  private requestMissingMath() {
+    const drawables = this.props.scene.drawables;
+
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+      if (d.kind === "mathSvg") {
+        const fontSize = d.fontSize ? d.fontSize : 12;
+        const display = d.displayMode === true;
+        const ready = getCachedMathSvg(d.latex, fontSize, display) !== null;
+        if (!ready && !hasMathSvgFailed(d.latex, fontSize, display)) {
+          requestMathSvg(d.latex, fontSize, display)
+            .then(() => {
+              if (this.mounted) {
+                this.forceUpdate();
+              }
+            })
+            .catch(() => {
+              // 失敗就維持 fallback 文字（hasMathSvgFailed 會擋掉重試）
+            });
+        }
+      }
+      i += 1;
+    }
+  }
+
   // ------------------------------------------------------------
   // 小工具：exhaustiveness check
   // 目的：如果你未來在 Drawable union type 新增一種 kind（例如 "rect"）
@@ -269,7 +342,7 @@ export class SvgSceneView extends React.Component<Props> {
     while (i < drawables.length) {
       const d = drawables[i];
 
-      if (d.kind === "text" && d.draggable) {
+      if ((d.kind === "text" || d.kind === "mathSvg") && d.draggable) {
         const node = this.textNodeById[d.id];
 
         // 預設使用 bbox hit-test；若 node 不存在才 fallback
@@ -306,7 +379,8 @@ export class SvgSceneView extends React.Component<Props> {
         // fallback: 萬一 node 尚未建立，才使用近似法
         if (!usedBBox) {
           const fontSize = d.fontSize ? d.fontSize : 12;
-          const approxW = d.text.length * fontSize * 0.6;
+          const approxText = d.kind === "text" ? d.text : this.mathFallbackText(d);
+          const approxW = approxText.length * fontSize * 0.6;
           const approxH = fontSize;
 
           const padding = 10;
@@ -339,6 +413,77 @@ export class SvgSceneView extends React.Component<Props> {
 
 
 
+  // ----------------------------------------------------------
+  // findHitDraggableLine:
+  // 命中 draggable line
+  // - 先看端點（LINE_END_TOLERANCE 內）：part = "a" / "b"
+  // - 再看線身（到線段的距離 LINE_BODY_TOLERANCE 內）：part = "body"
+  // - 同時命中多條線，取距離最小者
+  // ----------------------------------------------------------
+  private findHitDraggableLine(local: { x: number; y: number }) {
+    const drawables = this.props.scene.drawables;
+
+    let best: { id: string; part: LineDragPart } | null = null;
+    let bestD2 = Number.POSITIVE_INFINITY;
+
+    const endR2 = LINE_END_TOLERANCE * LINE_END_TOLERANCE;
+    const bodyR2 = LINE_BODY_TOLERANCE * LINE_BODY_TOLERANCE;
+
+    let i = 0;
+    while (i < drawables.length) {
+      const d = drawables[i];
+
+      if (d.kind === "line" && d.draggable) {
+        const da = this.distance2(local, d.a);
+        const db = this.distance2(local, d.b);
+
+        // 線段上最近點：參數 t 限制在 [0, 1]
+        const vx = d.b.x - d.a.x;
+        const vy = d.b.y - d.a.y;
+        const len2 = vx * vx + vy * vy;
+        let t = 0;
+        if (len2 > 0) {
+          t = ((local.x - d.a.x) * vx + (local.y - d.a.y) * vy) / len2;
+        }
+        if (t < 0) {
+          t = 0;
+        }
+        if (t > 1) {
+          t = 1;
+        }
+        const dBody = this.distance2(local, { x: d.a.x + t * vx, y: d.a.y + t * vy });
+
+        let part: LineDragPart | null = null;
+        let d2 = Number.POSITIVE_INFINITY;
+        if (da <= endR2 && da <= db) {
+          part = "a";
+          d2 = da;
+        } else if (db <= endR2) {
+          part = "b";
+          d2 = db;
+        } else if (dBody <= bodyR2) {
+          part = "body";
+          d2 = dBody;
+        }
+
+        if (part && d2 < bestD2) {
+          bestD2 = d2;
+          best = { id: d.id, part };
+        }
+      }
+
+      i += 1;
+    }
+
+    return best;
+  }
+
+  private distance2(p: { x: number; y: number }, q: { x: number; y: number }): number {
+    const dx = p.x - q.x;
+    const dy = p.y - q.y;
+    return dx * dx + dy * dy;
+  }
+
   // ----------------------------------------------------------
   // handlePointerDown：
   // - 取得 local 座標
@@ -391,6 +536,21 @@ export class SvgSceneView extends React.Component<Props> {
 
       return;
     }
+
+    // 最後命中 draggable line（點在線上時，點優先）
+    const hitLine = this.findHitDraggableLine(coordinatePixelClamped);
+    if (hitLine && this.props.onLineDrag) {
+      this.draggingId = hitLine.id;
+      this.draggingKind = "line";
+      this.draggingLinePart = hitLine.part;
+      this.pointerId = e.pointerId;
+
+      g.setPointerCapture(e.pointerId);
+
+      this.props.onLineDrag(hitLine.id, hitLine.part, coordinatePixelClamped);
+
+      return;
+    }
   }
 
   // ----------------------------------------------------------
@@ -437,6 +597,14 @@ export class SvgSceneView extends React.Component<Props> {
       return;
     }
 
+    if (draggingKind === "line") {
+      const cb = this.props.onLineDrag;
+      if (cb && this.draggingLinePart) {
+        cb(draggingId, this.draggingLinePart, coordinatePixelClamped);
+      }
+      return;
+    }
+
     // SvgSceneView：只回報拖曳
     // Controller：算新 scene + notify
     // GraphView：setState(scene) 觸發重畫
@@ -477,15 +645,155 @@ export class SvgSceneView extends React.Component<Props> {
 
   // ----------------------------------------------------------
   // endDrag：
-  // 清空拖曳狀態（結束拖曳）
+  // 清空拖曳狀態（結束拖曳）；真的有在拖才通知 onDragEnd
   // ----------------------------------------------------------
   private endDrag() {
+    const wasDragging = this.draggingId !== null;
+
     this.draggingId = null;
     this.draggingKind = null;
+    this.draggingLinePart = null;
     this.pointerId = null;
+
+    if (wasDragging && this.props.onDragEnd) {
+      this.props.onDragEnd();
+    }
   }
 
 
+  // ----------------------------------------------------------
+  // renderArea：填色多邊形（+ 可選 hatch pattern + 外框）
+  // - hatch 用 <pattern>：一條垂直線 + patternTransform 旋轉
+  // - <defs> 跟著 <g> 一起在 <svg> 裡面，所以匯出 SVG 時 pattern 也會一起帶走
+  // ----------------------------------------------------------
+  private renderArea(d: Extract<Drawable, { kind: "area" }>): React.ReactNode {
+    const pts = d.points.map((p) => `${p.x},${p.y}`).join(" ");
+
+    const fill = d.fill && d.fill.color ? d.fill.color : "none";
+    const fillOpacity = d.fillOpacity !== undefined ? d.fillOpacity : 1;
+
+    const stroke = d.stroke && d.stroke.color ? d.stroke.color : "none";
+    const sw = d.stroke && d.stroke.width ? d.stroke.width : 1;
+    const dash = d.stroke && d.stroke.dash ? d.stroke.dash : undefined;
+
+    const parts: React.ReactNode[] = [];
+
+    // 1) 底色
+    parts.push(
+      <polygon
+        key="fill"
+        points={pts}
+        fill={fill}
+        fillOpacity={fillOpacity}
+        stroke="none"
+      />
+    );
+
+    // 2) hatch：pattern + 用 pattern 填滿的同一個多邊形
+    if (d.hatch) {
+      const spacing = d.hatch.spacing ? d.hatch.spacing : 6;
+      const angle = d.hatch.angle !== undefined ? d.hatch.angle : 45;
+      const hatchColor = d.hatch.color ? d.hatch.color : "currentColor";
+      const hatchWidth = d.hatch.width ? d.hatch.width : 1;
+      const patternId = `${this.patternPrefix}-hatch-${d.id}`;
+
+      parts.push(
+        <defs key="defs">
+          <pattern
+            id={patternId}
+            patternUnits="userSpaceOnUse"
+            width={spacing}
+            height={spacing}
+            patternTransform={`rotate(${angle})`}
+          >
+            <line x1={0} y1={0} x2={0} y2={spacing} stroke={hatchColor} strokeWidth={hatchWidth} />
+          </pattern>
+        </defs>
+      );
+      parts.push(
+        <polygon key="hatch" points={pts} fill={`url(#${patternId})`} stroke="none" />
+      );
+    }
+
+    // 3) 外框
+    if (stroke !== "none") {
+      parts.push(
+        <polygon
+          key="stroke"
+          points={pts}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={sw}
+          strokeDasharray={dash ? dash.join(" ") : undefined}
+          strokeOpacity={d.stroke ? d.stroke.opacity : undefined}
+        />
+      );
+    }
+
+    return <g key={d.id}>{parts}</g>;
+  }
+
+  // ----------------------------------------------------------
+  // renderMathSvg：
+  // - 快取裡有 MathJax 的結果：用巢狀 <svg> 直接嵌入 path（匯出 SVG 時一起帶走）
+  // - 還沒有（載入中 / 失敗）：用 fallbackSpans / fallbackText 畫成一般 text
+  // 兩種情況都把 node 存進 textNodeById，拖曳 hit-test 和 text 標籤相同
+  // ----------------------------------------------------------
+  private mathFallbackText(d: Extract<Drawable, { kind: "mathSvg" }>): string {
+    return d.fallbackText !== undefined ? d.fallbackText : d.latex;
+  }
+
+  private renderMathSvg(d: Extract<Drawable, { kind: "mathSvg" }>): React.ReactNode {
+    const fontSize = d.fontSize ? d.fontSize : 12;
+    const display = d.displayMode === true;
+    const rendered = getCachedMathSvg(d.latex, fontSize, display);
+
+    if (!rendered) {
+      return this.renderTextWithSpans({
+        kind: "text",
+        id: d.id,
+        pos: d.pos,
+        text: this.mathFallbackText(d),
+        spans: d.fallbackSpans,
+        fontSize,
+        fill: d.fill,
+        draggable: d.draggable,
+      });
+    }
+
+    const color = d.fill && d.fill.color ? d.fill.color : "currentColor";
+
+    // MathJax 的 path 用 currentColor，所以顏色設在外層 <g> 的 color 上
+    // 位置放在內層 <svg> 的 x / y（不用 <g> transform）：
+    // getBBox 不含元素自己的 transform，用 transform 定位的話 hit-test 的框會跑到原點附近
+    const groupStyle: React.CSSProperties = { color };
+    if (d.draggable) {
+      groupStyle.cursor = "grab";
+    }
+
+    const setRef = (node: SVGGElement | null) => {
+      this.textNodeById[d.id] = node;
+    };
+
+    return (
+      <g
+        key={d.id}
+        ref={setRef}
+        style={groupStyle}
+      >
+        <svg
+          x={d.pos.x}
+          y={d.pos.y - rendered.ascent}
+          width={rendered.width}
+          height={rendered.height}
+          viewBox={rendered.viewBox}
+          overflow="visible"
+          dangerouslySetInnerHTML={{ __html: rendered.inner }}
+        />
+      </g>
+    );
+  }
+
   // ----------------------------------------------------------
   // renderTextWithSpans：
   // ----------------------------------------------------------
@@ -798,10 +1106,25 @@ export class SvgSceneView extends React.Component<Props> {
 
     const nodes: React.ReactNode[] = [];
 
+    // 先畫所有 area（最底層），其他圖元照原本順序疊在上面
+    let a = 0;
+    while (a < drawables.length) {
+      const d = drawables[a];
+      if (d.kind === "area") {
+        nodes.push(this.renderArea(d));
+      }
+      a += 1;
+    }
+
     let i = 0;
     while (i < drawables.length) {
       const d = drawables[i];
 
+      if (d.kind === "area") {
+        i += 1;
+        continue;
+      }
+
       if (d.kind === "line") {
         const stroke = d.stroke && d.stroke.color ? d.stroke.color : "currentColor";
         const w = d.stroke && d.stroke.width ? d.stroke.width : 1;
@@ -818,9 +1141,28 @@ export class SvgSceneView extends React.Component<Props> {
             stroke={stroke}
             strokeWidth={w}
             strokeDasharray={dash ? dash.join(" ") : undefined}
+            strokeOpacity={d.stroke ? d.stroke.opacity : undefined}
           />
         );
 
+        // draggable line：疊一條透明的粗線當命中區（細線很難點到）
+        // data-hit-area：匯出 SVG 時會被拿掉
+        if (d.draggable) {
+          nodes.push(
+            <line
+              key={`${d.id}-hit`}
+              data-hit-area="true"
+              x1={d.a.x}
+              y1={d.a.y}
+              x2={d.b.x}
+              y2={d.b.y}
+              stroke="transparent"
+              strokeWidth={LINE_BODY_TOLERANCE * 2}
+              style={{ cursor: "grab" }}
+            />
+          );
+        }
+
         i += 1;
         continue;
       }
@@ -829,6 +1171,8 @@ export class SvgSceneView extends React.Component<Props> {
         const stroke = d.stroke && d.stroke.color ? d.stroke.color : "currentColor";
         const w = d.stroke && d.stroke.width ? d.stroke.width : 1;
 
+        const dash = d.stroke && d.stroke.dash ? d.stroke.dash : undefined;
+
         const pts = d.points.map((p) => `${p.x},${p.y}`).join(" ");
 
         nodes.push(
@@ -838,6 +1182,8 @@ export class SvgSceneView extends React.Component<Props> {
             fill="none"
             stroke={stroke}
             strokeWidth={w}
+            strokeDasharray={dash ? dash.join(" ") : undefined}
+            strokeOpacity={d.stroke ? d.stroke.opacity : undefined}
           />
         );
 
@@ -872,6 +1218,12 @@ export class SvgSceneView extends React.Component<Props> {
         continue;
       }
 
+      if (d.kind === "mathSvg") {
+        nodes.push(this.renderMathSvg(d));
+        i += 1;
+        continue;
+      }
+
       // 若未來新增 Drawable.kind，這裡會提醒你補上
       this.assertNever(d as never);
     }
@@ -0,0 +1,540 @@
+// src/mvc/view/tikzExport.ts
+
+// ------------------------------------------------------------
+// TikZ / pgfplots 匯出（LaTeX 講義、習題用）
+//
+// 和 SvgSceneView 一樣是「renderer」：吃 SceneOutput，不做經濟計算
+// 差別：
+// - SVG 用像素座標；這裡用 Viewport 把像素轉回「經濟座標」
+//   -> 在 LaTeX 裡改 x=, y= 或 axis 的 width 就能整張重新縮放、重新上色
+// - 座標軸 / 刻度 / 軸名稱照 AxesView 的規則重畫（ticks 等分、formatTick）
+// - text 的 spans 轉成 \textsuperscript / \textsubscript；mathSvg 直接輸出 $latex$
+//
+// 兩種輸出：
+// - "tikz"：純 tikzpicture（\clip 在 domain 範圍內）
+// - "pgfplots"：axis 環境（xmin/xmax/xtick ... 由 pgfplots 畫軸）
+// standalone = true 時再包一層 \documentclass{standalone}，可以直接編譯
+// ------------------------------------------------------------
+
+import type { Drawable, SceneOutput, StrokeStyle, TextSpan, Vec2 } from "../../core/drawables";
+import { Viewport } from "../../core/Viewport";
+
+import { formatTick, normalizeTicks } from "./axesTicks";
+import type { TickVisibility } from "./axesTicks";
+
+export type TikzFormat = "tikz" | "pgfplots";
+
+export type TikzExportOptions = {
+  format: TikzFormat;
+  standalone: boolean;
+
+  // 圖的寬度（cm）；高度依 scene 的長寬比
+  widthCm: number;
+
+  // 座標軸：和 GraphView / AxesView 的 props 一致
+  ticks: number;
+  tickVisibility: TickVisibility;
+  xLabel: string;
+  yLabel: string;
+  showXLabel: boolean;
+  showYLabel: boolean;
+
+  // 標題（空字串就不畫）
+  title: string;
+};
+
+// SVG 的 1px 在 LaTeX 裡大約是 0.75pt（96 px/in vs 72 pt/in）
+const PX_TO_PT = 0.75;
+
+// ------------------------------------------------------------
+// sceneToTikz：主入口
+// ------------------------------------------------------------
+export function sceneToTikz(scene: SceneOutput, options: TikzExportOptions): string {
+  const vp = new Viewport(scene.width, scene.height, scene.xDomain, scene.yDomain);
+  const colors = new ColorTable();
+
+  const body =
+    options.format === "pgfplots"
+      ? buildPgfplots(scene, vp, options, colors)
+      : buildTikz(scene, vp, options, colors);
+
+  const lines: string[] = [];
+  if (options.standalone) {
+    lines.push("\\documentclass[tikz,border=4pt]{standalone}");
+    if (options.format === "pgfplots") {
+      lines.push("\\usepackage{pgfplots}");
+      lines.push("\\pgfplotsset{compat=1.17}");
+    }
+    lines.push("\\usetikzlibrary{patterns.meta}");
+    lines.push("\\begin{document}");
+  } else {
+    // 貼進既有文件時需要的套件
+    lines.push(
+      options.format === "pgfplots"
+        ? "% requires \\usepackage{pgfplots} and \\usetikzlibrary{patterns.meta}"
+        : "% requires \\usepackage{tikz} and \\usetikzlibrary{patterns.meta}"
+    );
+  }
+
+  const defs = colors.definitions();
+  let i = 0;
+  while (i < defs.length) {
+    lines.push(defs[i]);
+    i += 1;
+  }
+
+  i = 0;
+  while (i < body.length) {
+    lines.push(body[i]);
+    i += 1;
+  }
+
+  if (options.standalone) {
+    lines.push("\\end{document}");
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// =========================================================
+// tikz：x=, y= 設成「每一個經濟單位幾 cm」
+// =========================================================
+function buildTikz(
+  scene: SceneOutput,
+  vp: Viewport,
+  options: TikzExportOptions,
+  colors: ColorTable
+): string[] {
+  const [x0, x1] = scene.xDomain;
+  const [y0, y1] = scene.yDomain;
+
+  const widthCm = options.widthCm;
+  const heightCm = (widthCm * scene.height) / scene.width;
+  const xUnit = x1 > x0 ? widthCm / (x1 - x0) : 1;
+  const yUnit = y1 > y0 ? heightCm / (y1 - y0) : 1;
+
+  const out: string[] = [];
+  out.push(`\\begin{tikzpicture}[x=${num(xUnit)}cm, y=${num(yUnit)}cm, font=\\small]`);
+
+  // ---------------------------------------------------------
+  // 座標軸 + 刻度 + 軸名稱（規則同 AxesView）
+  // ---------------------------------------------------------
+  out.push(`  \\draw (${num(x0)},${num(y0)}) -- (${num(x1)},${num(y0)});`);
+  out.push(`  \\draw (${num(x0)},${num(y0)}) -- (${num(x0)},${num(y1)});`);
+
+  const ticks = normalizeTicks(options.ticks);
+  const vis = options.tickVisibility;
+  if (vis.showTickLines || vis.showTickLabels) {
+    const tickStyle = vis.showTickLines ? "" : "draw=none";
+    let i = 0;
+    while (i <= ticks) {
+      const xv = x0 + ((x1 - x0) * i) / ticks;
+      const yv = y0 + ((y1 - y0) * i) / ticks;
+      const xText = vis.showTickLabels ? formatTick(xv) : "";
+      const yText = vis.showTickLabels ? formatTick(yv) : "";
+      out.push(
+        `  \\draw[${tickStyle}] (${num(xv)},${num(y0)}) -- ++(0,-3pt) node[below] {${xText}};`
+      );
+      out.push(
+        `  \\draw[${tickStyle}] (${num(x0)},${num(yv)}) -- ++(-3pt,0) node[left] {${yText}};`
+      );
+      i += 1;
+    }
+  }
+
+  const xMid = (x0 + x1) / 2;
+  const yMid = (y0 + y1) / 2;
+  if (options.showXLabel && options.xLabel.length > 0) {
+    out.push(
+      `  \\node[below=16pt] at (${num(xMid)},${num(y0)}) {${textToLatex(options.xLabel)}};`
+    );
+  }
+  if (options.showYLabel && options.yLabel.length > 0) {
+    out.push(
+      `  \\node[left=28pt] at (${num(x0)},${num(yMid)}) {${textToLatex(options.yLabel)}};`
+    );
+  }
+  if (options.title.length > 0) {
+    out.push(`  \\node[above=6pt] at (${num(xMid)},${num(y1)}) {${textToLatex(options.title)}};`);
+  }
+
+  // ---------------------------------------------------------
+  // 圖元：area 先畫（最底層），其他照原本順序；線條 clip 在 domain 內
+  // ---------------------------------------------------------
+  out.push("  \\begin{scope}");
+  out.push(`    \\clip (${num(x0)},${num(y0)}) rectangle (${num(x1)},${num(y1)});`);
+  pushShapes(out, "    ", scene.drawables, vp, colors, (pts) => pathOf(pts, ""));
+  out.push("  \\end{scope}");
+
+  pushLabels(out, "  ", scene.drawables, vp, colors, "");
+
+  out.push("\\end{tikzpicture}");
+  return out;
+}
+
+// =========================================================
+// pgfplots：axis 環境負責座標軸，圖元用 axis cs: 座標
+// =========================================================
+function buildPgfplots(
+  scene: SceneOutput,
+  vp: Viewport,
+  options: TikzExportOptions,
+  colors: ColorTable
+): string[] {
+  const [x0, x1] = scene.xDomain;
+  const [y0, y1] = scene.yDomain;
+
+  const widthCm = options.widthCm;
+  const heightCm = (widthCm * scene.height) / scene.width;
+
+  const ticks = normalizeTicks(options.ticks);
+  const xTicks: string[] = [];
+  const yTicks: string[] = [];
+  let i = 0;
+  while (i <= ticks) {
+    xTicks.push(num(x0 + ((x1 - x0) * i) / ticks));
+    yTicks.push(num(y0 + ((y1 - y0) * i) / ticks));
+    i += 1;
+  }
+
+  const axisOpts: string[] = [
+    "axis lines=left",
+    `width=${num(widthCm)}cm`,
+    `height=${num(heightCm)}cm`,
+    "scale only axis",
+    `xmin=${num(x0)}`,
+    `xmax=${num(x1)}`,
+    `ymin=${num(y0)}`,
+    `ymax=${num(y1)}`,
+  ];
+
+  const vis = options.tickVisibility;
+  if (vis.showTickLines || vis.showTickLabels) {
+    axisOpts.push(`xtick={${xTicks.join(",")}}`);
+    axisOpts.push(`ytick={${yTicks.join(",")}}`);
+    axisOpts.push("tick label style={/pgf/number format/fixed, /pgf/number format/precision=2}");
+    if (!vis.showTickLabels) {
+      axisOpts.push("xticklabels={}", "yticklabels={}");
+    }
+    if (!vis.showTickLines) {
+      axisOpts.push("major tick length=0pt");
+    }
+  } else {
+    axisOpts.push("xtick=\\empty", "ytick=\\empty");
+  }
+
+  if (options.showXLabel && options.xLabel.length > 0) {
+    axisOpts.push(`xlabel={${textToLatex(options.xLabel)}}`);
+  }
+  if (options.showYLabel && options.yLabel.length > 0) {
+    axisOpts.push(`ylabel={${textToLatex(options.yLabel)}}`);
+  }
+  if (options.title.length > 0) {
+    axisOpts.push(`title={${textToLatex(options.title)}}`);
+  }
+
+  const out: string[] = [];
+  out.push("\\begin{tikzpicture}[font=\\small]");
+  out.push("\\begin{axis}[");
+  let k = 0;
+  while (k < axisOpts.length) {
+    out.push(`  ${axisOpts[k]},`);
+    k += 1;
+  }
+  out.push("]");
+
+  pushShapes(out, "  ", scene.drawables, vp, colors, (pts) => pathOf(pts, "axis cs:"));
+  pushLabels(out, "  ", scene.drawables, vp, colors, "axis cs:");
+
+  out.push("\\end{axis}");
+  out.push("\\end{tikzpicture}");
+  return out;
+}
+
+// =========================================================
+// 圖元 -> \fill / \draw
+// =========================================================
+function pushShapes(
+  out: string[],
+  indent: string,
+  drawables: Drawable[],
+  vp: Viewport,
+  colors: ColorTable,
+  path: (pts: Vec2[]) => string
+) {
+  // area 最底層（和 SvgSceneView 相同）
+  let a = 0;
+  while (a < drawables.length) {
+    const d = drawables[a];
+    if (d.kind === "area" && d.points.length >= 3) {
+      const pts = d.points.map((p) => vp.pixelToEconMapping(p));
+      const opts: string[] = [];
+      if (d.fill && d.fill.color) {
+        opts.push(`fill=${colors.name(d.fill.color)}`);
+        if (d.fillOpacity !== undefined) {
+          opts.push(`fill opacity=${num(d.fillOpacity)}`);
+        }
+        out.push(`${indent}\\fill[${opts.join(", ")}] ${path(pts)} -- cycle;`);
+      }
+      if (d.hatch) {
+        // 和 SvgSceneView 的預設值相同；SVG 是「垂直線順時針轉 angle 度」（y 朝下）
+        // -> Lines 的角度（逆時針、從水平量起）是 90 - angle；間距 / 線寬換成 pt
+        const spacing = d.hatch.spacing ? d.hatch.spacing : 6;
+        const angle = d.hatch.angle !== undefined ? d.hatch.angle : 45;
+        const hatchWidth = d.hatch.width ? d.hatch.width : 1;
+        const hatchColor = d.hatch.color ? colors.name(d.hatch.color) : "black";
+        const lines =
+          `Lines[angle=${num(90 - angle)}, distance=${num(spacing * PX_TO_PT)}pt, ` +
+          `line width=${num(hatchWidth * PX_TO_PT)}pt]`;
+        out.push(
+          `${indent}\\fill[pattern={${lines}}, pattern color=${hatchColor}] ${path(pts)} -- cycle;`
+        );
+      }
+      if (d.stroke && d.stroke.color) {
+        out.push(`${indent}\\draw[${strokeOptions(d.stroke, colors)}] ${path(pts)} -- cycle;`);
+      }
+    }
+    a += 1;
+  }
+
+  let i = 0;
+  while (i < drawables.length) {
+    const d = drawables[i];
+
+    if (d.kind === "line") {
+      const pts = [vp.pixelToEconMapping(d.a), vp.pixelToEconMapping(d.b)];
+      out.push(`${indent}\\draw[${strokeOptions(d.stroke, colors)}] ${path(pts)};`);
+    }
+
+    if (d.kind === "polyline" && d.points.length >= 2) {
+      const pts = d.points.map((p) => vp.pixelToEconMapping(p));
+      out.push(`${indent}\\draw[${strokeOptions(d.stroke, colors)}] ${path(pts)};`);
+    }
+
+    if (d.kind === "point") {
+      const c = vp.pixelToEconMapping(d.center);
+      const fill = d.fill && d.fill.color ? colors.name(d.fill.color) : "black";
+      out.push(
+        `${indent}\\fill[${fill}] ${path([c])} circle[radius=${num(d.r * PX_TO_PT)}pt];`
+      );
+    }
+
+    i += 1;
+  }
+}
+
+// text / mathSvg -> \node（放在 clip 外面，標籤可以超出 plot）
+function pushLabels(
+  out: string[],
+  indent: string,
+  drawables: Drawable[],
+  vp: Viewport,
+  colors: ColorTable,
+  coordPrefix: string
+) {
+  let i = 0;
+  while (i < drawables.length) {
+    const d = drawables[i];
+
+    if (d.kind === "text" || d.kind === "mathSvg") {
+      const pos = vp.pixelToEconMapping(d.pos);
+      const color = d.fill && d.fill.color ? colors.name(d.fill.color) : "black";
+
+      let anchor = "base west";
+      if (d.kind === "text" && d.textAnchor === "middle") {
+        anchor = "base";
+      } else if (d.kind === "text" && d.textAnchor === "end") {
+        anchor = "base east";
+      }
+
+      let content = "";
+      if (d.kind === "mathSvg") {
+        content = `$${d.latex}$`;
+      } else if (d.spans && d.spans.length > 0) {
+        content = spansToLatex(d.spans);
+      } else {
+        content = textToLatex(d.text);
+      }
+
+      out.push(
+        `${indent}\\node[anchor=${anchor}, inner sep=0pt, text=${color}] at (${coordPrefix}${num(pos.x)},${num(pos.y)}) {${content}};`
+      );
+    }
+
+    i += 1;
+  }
+}
+
+function pathOf(pts: Vec2[], coordPrefix: string): string {
+  return pts.map((p) => `(${coordPrefix}${num(p.x)},${num(p.y)})`).join(" -- ");
+}
+
+function strokeOptions(stroke: StrokeStyle | undefined, colors: ColorTable): string {
+  const color = stroke && stroke.color ? colors.name(stroke.color) : "black";
+  const width = stroke && stroke.width ? stroke.width : 1;
+
+  const opts: string[] = [color, `line width=${num(width * PX_TO_PT)}pt`];
+  if (stroke && stroke.dash && stroke.dash.length > 0) {
+    // 奇數個 dash 值：SVG 會重複一次湊成偶數
+    const dash = stroke.dash.length % 2 === 1 ? stroke.dash.concat(stroke.dash) : stroke.dash;
+    const parts: string[] = [];
+    let i = 0;
+    while (i < dash.length) {
+      const kind = i % 2 === 0 ? "on" : "off";
+      parts.push(`${kind} ${num(dash[i] * PX_TO_PT)}pt`);
+      i += 1;
+    }
+    opts.push(`dash pattern=${parts.join(" ")}`);
+  }
+  if (stroke && stroke.opacity !== undefined) {
+    opts.push(`draw opacity=${num(stroke.opacity)}`);
+  }
+  return opts.join(", ");
+}
+
+// =========================================================
+// 顏色：#rrggbb -> \definecolor{egcN}{HTML}{RRGGBB}
+// =========================================================
+class ColorTable {
+  private readonly names: Map<string, string>;
+
+  constructor() {
+    this.names = new Map();
+  }
+
+  name(color: string): string {
+    const hex = normalizeHex(color);
+    if (hex === null) {
+      return "black";
+    }
+    const existing = this.names.get(hex);
+    if (existing) {
+      return existing;
+    }
+    const next = `egc${this.names.size + 1}`;
+    this.names.set(hex, next);
+    return next;
+  }
+
+  definitions(): string[] {
+    const defs: string[] = [];
+    this.names.forEach((name, hex) => {
+      defs.push(`\\definecolor{${name}}{HTML}{${hex}}`);
+    });
+    return defs;
+  }
+}
+
+// "#abc" / "#aabbcc" -> "AABBCC"；其他（currentColor、名稱色）回傳 null
+function normalizeHex(color: string): string | null {
+  const m = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!m) {
+    return null;
+  }
+  let hex = m[1];
+  if (hex.length === 3) {
+    hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+  }
+  return hex.toUpperCase();
+}
+
+// =========================================================
+// 文字 -> LaTeX
+// =========================================================
+
+// 標籤裡會出現的 Unicode 符號 -> 數學模式指令
+const UNICODE_TO_LATEX: Record<string, string> = {
+  "α": "\\alpha",
+  "β": "\\beta",
+  "ρ": "\\rho",
+  "σ": "\\sigma",
+  "η": "\\eta",
+  "Δ": "\\Delta",
+  "≤": "\\le",
+  "≥": "\\ge",
+  "×": "\\times",
+  "·": "\\cdot",
+  "−": "-",
+  "x̄": "\\bar{x}",
+  "ȳ": "\\bar{y}",
+};
+
+const TEXT_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "{": "\\{",
+  "}": "\\}",
+  "$": "\\$",
+  "&": "\\&",
+  "%": "\\%",
+  "#": "\\#",
+  "_": "\\_",
+  "^": "\\^{}",
+  "~": "\\~{}",
+};
+
+// 純文字（text mode）：跳脫特殊字元，Unicode 符號改成 $\alpha$ ...
+export function textToLatex(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    // x̄ / ȳ 是「字母 + 組合用上橫線」兩個 code unit
+    const pair = text.slice(i, i + 2);
+    if (UNICODE_TO_LATEX[pair] !== undefined) {
+      out += `$${UNICODE_TO_LATEX[pair]}$`;
+      i += 2;
+      continue;
+    }
+
+    const ch = text[i];
+    if (UNICODE_TO_LATEX[ch] !== undefined) {
+      out += `$${UNICODE_TO_LATEX[ch]}$`;
+    } else if (TEXT_ESCAPES[ch] !== undefined) {
+      out += TEXT_ESCAPES[ch];
+    } else {
+      out += ch;
+    }
+    i += 1;
+  }
+  return out;
+}
+
+// spans：上標 / 下標 / 粗體 / 斜體
+function spansToLatex(spans: TextSpan[]): string {
+  let out = "";
+  let i = 0;
+  while (i < spans.length) {
+    const s = spans[i];
+    let part = textToLatex(s.text);
+
+    if (s.fontWeight === "bold" || s.fontWeight === "700") {
+      part = `\\textbf{${part}}`;
+    }
+    if (s.fontStyle === "italic") {
+      part = `\\textit{${part}}`;
+    }
+    if (s.baselineShift === "super" || s.kind === "sup") {
+      part = `\\textsuperscript{${part}}`;
+    } else if (s.baselineShift === "sub" || s.kind === "sub") {
+      part = `\\textsubscript{${part}}`;
+    }
+
+    out += part;
+    i += 1;
+  }
+  return out;
+}
+
+// 數字：最多 4 位小數，去掉多餘的 0
+function num(value: number): string {
+  if (!Number.isFinite(value)) {
+    return "0";
+  }
+  let s = value.toFixed(4);
+  if (s.indexOf(".") >= 0) {
+    s = s.replace(/0+$/, "").replace(/\.$/, "");
+  }
+  if (s === "-0") {
+    s = "0";
+  }
+  return s;
+}
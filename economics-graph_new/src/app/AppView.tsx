@@ -25,7 +25,12 @@ import React from "react";
 import { ConsumerOptModel, type ConsumerParams } from "../MVC/model/ConsumerOptModel";
 
 // Controller：接 UI 事件、更新 model、build scene、notify listeners
-import { ConsumerOptController } from "../MVC/controller/ConsumerOptController";
+import {
+  ConsumerOptController,
+  OPT_DRAG_MODES,
+  isOptDragMode,
+  type OptDragMode,
+} from "../MVC/controller/ConsumerOptController";
 
 // GraphView：SVG 容器 + 訂閱 controller 更新 + renderer (SvgSceneView)
 import { ConsumerOptGraphView } from "../MVC/view/ConsumerOptGraphView";
@@ -36,12 +41,220 @@ import { ControlledSlider } from "../common/ControlledSlider";
 import type { TickVisibility } from "../MVC/view/axesTicks";
 import { computeInnerAvailSize } from "../core/layout";
 
+// 生產者圖：Model / Controller / 控制面板
+import { ProducerOptModel, type ProducerParams } from "../MVC/model/ProducerOptModel";
+import { ProducerOptController } from "../MVC/controller/ProducerOptController";
+import { ProducerOptPanel } from "./ProducerOptPanel";
+
+// 供需市場圖：Model / Controller / 控制面板
+import { DEFAULT_MARKET_PARAMS, MarketModel } from "../MVC/model/MarketModel";
+import { MarketController } from "../MVC/controller/MarketController";
+import { MarketPanel } from "./MarketPanel";
+import { WELFARE_REGIONS } from "../lib/market";
+
+// 獨占訂價圖：Model / Controller / 控制面板
+import { DEFAULT_MONOPOLY_PARAMS, MonopolyModel } from "../MVC/model/MonopolyModel";
+import { MonopolyController } from "../MVC/controller/MonopolyController";
+import { MonopolyPanel } from "./MonopolyPanel";
+
+// 成本曲線圖：Model / Controller / 控制面板，下方的總成本面板共用 x 軸
+import { DEFAULT_COST_PARAMS, CostCurvesModel } from "../MVC/model/CostCurvesModel";
+import { CostCurvesController } from "../MVC/controller/CostCurvesController";
+import { TotalCostController } from "../MVC/controller/TotalCostController";
+import { CostCurvesPanel } from "./CostCurvesPanel";
+
+// 需求曲線面板（消費者圖下方，共用 x 軸）
+import { DemandCurveController } from "../MVC/controller/DemandCurveController";
+
+// Engel 曲線面板（I vs. x*）
+import { EngelCurveController } from "../MVC/controller/EngelCurveController";
+
+import type { SceneController } from "../MVC/controller/SceneController";
+
+// undo / redo（以 FigureDocument 為快照）
+import { HistoryController } from "../MVC/controller/HistoryController";
+
+// 效用函數家族（下拉選單用）
+import {
+  UTILITY_KINDS,
+  getUtilityFunction,
+  isUtilityKind,
+  type UtilityKind,
+} from "../lib/utility";
+
+// 預算集合（拗折 / 非線性預算）
+import {
+  BUDGET_SET_KINDS,
+  budgetSetLabel,
+  isBudgetSetKind,
+  type BudgetSetKind,
+  type BudgetSetSpec,
+} from "../lib/budgetSet";
+
+// 匯出圖檔（PNG 的解析度 / 背景、TikZ 的格式）
+import { CSS_DPI, downloadBlob, type ExportBackground } from "../common/exportImage";
+import type { TikzFormat } from "../MVC/view/tikzExport";
+import { PDF_PAGE_SIZES, isPdfPageSize, type PdfPageSize } from "../common/exportPdf";
+
+// 存檔 / 讀檔：整張圖的狀態（JSON）
+import {
+  FIGURE_DOCUMENT_FORMAT,
+  FIGURE_DOCUMENT_VERSION,
+  parseFigureDocument,
+  serializeFigureDocument,
+  type FigureDocument,
+} from "./figureDocument";
+import { decodeFigureHash, encodeFigureHash, hasFigureHash } from "./figureUrl";
+
 
 // ------------------------------------------------------------
 // ALLOWED_TICKS: 限制 ticks 值: 避免奇怪數字 (1, 2, 4, 5, 10)
 // ------------------------------------------------------------
 const ALLOWED_TICKS: number[] = [1, 2, 4, 5, 10]; 
 
+// ------------------------------------------------------------
+// 匯出格式：由檔名副檔名決定（.png -> PNG，.pdf -> PDF，.tex -> TikZ，其他 -> SVG）
+// PNG 解析度：倍率（螢幕 / 投影片）或 DPI（印刷），兩者換算 scale = dpi / 96
+// ------------------------------------------------------------
+type ExportFormat = "svg" | "png" | "pdf" | "tex";
+
+const EXPORT_RESOLUTIONS: { id: string; label: string; scale: number; dpi: number }[] = [
+  { id: "1x", label: "1x", scale: 1, dpi: CSS_DPI },
+  { id: "2x", label: "2x", scale: 2, dpi: CSS_DPI * 2 },
+  { id: "4x", label: "4x", scale: 4, dpi: CSS_DPI * 4 },
+  { id: "150dpi", label: "150 DPI", scale: 150 / CSS_DPI, dpi: 150 },
+  { id: "300dpi", label: "300 DPI", scale: 300 / CSS_DPI, dpi: 300 },
+  { id: "600dpi", label: "600 DPI", scale: 600 / CSS_DPI, dpi: 600 },
+];
+
+const EXPORT_BUTTON_LABELS: Record<ExportFormat, string> = {
+  svg: "Export SVG",
+  png: "Export PNG",
+  pdf: "Export PDF",
+  tex: "Export TikZ",
+};
+
+function exportFormatOf(fileName: string): ExportFormat {
+  const lower = fileName.trim().toLowerCase();
+  if (lower.endsWith(".png")) {
+    return "png";
+  }
+  if (lower.endsWith(".pdf")) {
+    return "pdf";
+  }
+  if (lower.endsWith(".tex")) {
+    return "tex";
+  }
+  return "svg";
+}
+
+// 換格式時順便換掉檔名的副檔名
+function withExportFormat(fileName: string, format: ExportFormat): string {
+  let base = fileName.trim().replace(/\.(svg|png|pdf|tex)$/i, "");
+  if (base.length === 0) {
+    base = "figure";
+  }
+  return `${base}.${format}`;
+}
+
+// 存檔檔名：沿用匯出檔名，副檔名換成 .json
+function figureDocumentFileName(exportFileName: string): string {
+  let base = exportFileName.trim().replace(/\.(svg|png|pdf|tex)$/i, "");
+  if (base.length === 0) {
+    base = "figure";
+  }
+  return `${base}.json`;
+}
+
+// 讀檔失敗時的訊息（錯誤太多只列前幾筆）
+const MAX_LISTED_ERRORS = 12;
+
+function describeLoadErrors(source: string, errors: string[]): string {
+  const listed = errors.slice(0, MAX_LISTED_ERRORS);
+  let message = `Could not load ${source}:\n\n- ` + listed.join("\n- ");
+  if (errors.length > listed.length) {
+    message += `\n... and ${errors.length - listed.length} more`;
+  }
+  return message;
+}
+
+// 網址同步：狀態停止變動這麼久之後才更新 hash（拖 slider 時不會每一格都重算）
+const URL_SYNC_DELAY_MS = 300;
+
+// undo / redo 比較快照時不看匯出設定（改檔名 / 解析度不算一步）
+function sameFigure(a: FigureDocument, b: FigureDocument): boolean {
+  return JSON.stringify({ ...a, export: null }) === JSON.stringify({ ...b, export: null });
+}
+
+// 焦點在文字輸入框時，Ctrl+Z 交給瀏覽器原生的文字 undo
+function isTextEntry(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement) {
+    return true;
+  }
+  if (target instanceof HTMLInputElement) {
+    const type = target.type;
+    return (
+      type !== "range" &&
+      type !== "checkbox" &&
+      type !== "radio" &&
+      type !== "color" &&
+      type !== "button" &&
+      type !== "file"
+    );
+  }
+  return false;
+}
+
+// ------------------------------------------------------------
+// GraphKind：右側要畫哪一張圖
+// 切換時，標題 / 軸標籤 / 匯出檔名換成該圖的預設值
+// ------------------------------------------------------------
+type GraphKind = "consumer" | "producer" | "market" | "monopoly" | "costs";
+
+const GRAPH_DEFAULTS: Record<GraphKind, {
+  label: string;
+  chartTitle: string;
+  xLabel: string;
+  yLabel: string;
+  exportFileName: string;
+}> = {
+  consumer: {
+    label: "Consumer optimum",
+    chartTitle: "Consumer Optimum (Cobb-Douglas)",
+    xLabel: "x",
+    yLabel: "y",
+    exportFileName: "figure-consumer-opt.svg",
+  },
+  producer: {
+    label: "Producer cost minimization",
+    chartTitle: "Cost Minimization (Cobb-Douglas)",
+    xLabel: "L",
+    yLabel: "K",
+    exportFileName: "figure-producer-opt.svg",
+  },
+  market: {
+    label: "Supply and demand",
+    chartTitle: "Market Equilibrium",
+    xLabel: "Q",
+    yLabel: "P",
+    exportFileName: "figure-market.svg",
+  },
+  monopoly: {
+    label: "Monopoly pricing",
+    chartTitle: "Monopoly",
+    xLabel: "Q",
+    yLabel: "P",
+    exportFileName: "figure-monopoly.svg",
+  },
+  costs: {
+    label: "Cost curves",
+    chartTitle: "Cost Curves",
+    xLabel: "Q",
+    yLabel: "Cost",
+    exportFileName: "figure-costs.svg",
+  },
+};
+
 // ------------------------------------------------------------
 // AppView 的 state：
 // - I：收入 slider 顯示用（UI state）
@@ -52,12 +265,21 @@ const ALLOWED_TICKS: number[] = [1, 2, 4, 5, 10];
 // - 拖曳點改變：controller 更新 model，並 notify，AppView 再 setState 同步 slider
 // ------------------------------------------------------------
 type State = {
+  // 目前顯示哪一張圖
+  graphKind: GraphKind;
+
   // 模型相關 (UI 顯示用)
   I: number;
   a: number;
   px: number;
   py: number;
 
+  // 效用函數家族 + 形狀參數
+  utility: UtilityKind;
+  rho: number;
+  xBar: number;
+  yBar: number;
+
   // 圖表控制 (純 UI)
   ticks: number;
   showTickLines: boolean;
@@ -70,27 +292,105 @@ type State = {
   // 圖表標題 (會出現在 SVG 內)
   chartTitle: string;
 
-  // 匯出檔名
+  // 匯出檔名（副檔名決定格式）+ PNG 的解析度 / 背景
   exportFileName: string;
+  exportResolution: string;
+  exportBackground: ExportBackground;
+  tikzFormat: TikzFormat;
+  tikzStandalone: boolean;
+  tikzWidthCm: number;
+  pdfPageSize: PdfPageSize;
+  pdfWidthCm: number;
 
   // 線段顏色 (線段 + 方程式標籤共用)
   budgetColor: string;
   indiffColor: string;
 
+  // 預算集合：種類 + 各種類的參數
+  budgetSetKind: BudgetSetKind;
+  discountThreshold: number;
+  discountRate: number;
+  unitTax: number;
+  rationCap: number;
+  inKindAmount: number;
+
+  // Slutsky 分解模式（px 變動的替代效果 / 所得效果）
+  slutskyMode: boolean;
+
+  // CV / EV 模式（同一個 px 變動的補償變量 / 等價變量）
+  welfareMode: boolean;
+
+  // 需求曲線面板（消費者圖下方）
+  showDemandPanel: boolean;
+  demandColor: string;
+
+  // Engel 曲線面板
+  showEngelPanel: boolean;
+  engelColor: string;
+
+  // PCC / ICC overlay（掃描範圍 + 一族預算線 / 無異曲線 + 顏色）
+  showPcc: boolean;
+  showIcc: boolean;
+  pccMin: number;
+  pccMax: number;
+  iccMin: number;
+  iccMax: number;
+  showOverlayFamily: boolean;
+  overlaySteps: number;
+  pccColor: string;
+  iccColor: string;
+
   showEquationLabels: boolean;
+  useLatexLabels: boolean;
   equationFontSize: number;
 
   showOpt: boolean;
   optPointColor: string;
   optTextColor: string;
 
+  // 拖 opt 點時改哪個參數（消費者圖）
+  optDragMode: OptDragMode;
+
   showXLabel: boolean;
   showYLabel: boolean;
 
   showChartTitle: boolean;
   chartTitleFontSize: number;
+
+  // undo / redo 按鈕是否可按
+  canUndo: boolean;
+  canRedo: boolean;
 };
 
+// ------------------------------------------------------------
+// BudgetSetControls：預算集合的 UI 參數（每一種都保留自己的值，切換時不會跑掉）
+// toBudgetSetSpec：把目前選的種類 + 參數組成 model 用的 spec
+// ------------------------------------------------------------
+type BudgetSetControls = {
+  budgetSetKind: BudgetSetKind;
+  discountThreshold: number;
+  discountRate: number;
+  unitTax: number;
+  rationCap: number;
+  inKindAmount: number;
+};
+
+function toBudgetSetSpec(v: BudgetSetControls): BudgetSetSpec {
+  if (v.budgetSetKind === "quantityDiscount") {
+    return { kind: "quantityDiscount", threshold: v.discountThreshold, discountRate: v.discountRate };
+  }
+  if (v.budgetSetKind === "unitTax") {
+    return { kind: "unitTax", tax: v.unitTax };
+  }
+  if (v.budgetSetKind === "ration") {
+    return { kind: "ration", cap: v.rationCap };
+  }
+  if (v.budgetSetKind === "inKind") {
+    return { kind: "inKind", amount: v.inKindAmount };
+  }
+  return { kind: "linear" };
+}
+
 // ------------------------------------------------------------
 // React.Component<Props, State> 
 //   => P : props 的型別；S : state 的型別
@@ -110,10 +410,49 @@ export default class AppView extends React.Component<
   private controller: ConsumerOptController;
   private model: ConsumerOptModel;
 
+  // 生產者圖（切換 graphKind 時使用）
+  private producerController: ProducerOptController;
+  private producerModel: ProducerOptModel;
+
+  // 供需市場圖（切換 graphKind 時使用）
+  private marketController: MarketController;
+  private marketModel: MarketModel;
+
+  // 獨占訂價圖（切換 graphKind 時使用）
+  private monopolyController: MonopolyController;
+  private monopolyModel: MonopolyModel;
+
+  // 成本曲線圖（切換 graphKind 時使用）+ 下方的總成本面板
+  private costCurvesController: CostCurvesController;
+  private costCurvesModel: CostCurvesModel;
+  private totalCostController: TotalCostController;
+
+  // 需求曲線面板：跟著消費者 controller 更新
+  private demandController: DemandCurveController;
+
+  // Engel 曲線面板：跟著消費者 controller 更新
+  private engelController: EngelCurveController;
+
 
   // 用 ref 拿到 GraphView，才能從左側按鈕呼叫 exportSvg
   private graphRef: React.RefObject<ConsumerOptGraphView | null>;
 
+  // 讀檔用的隱藏 <input type="file">（按 Load 按鈕時幫它 click）
+  private figureFileRef: React.RefObject<HTMLInputElement | null>;
+
+  // 分享連結：狀態 <-> 網址 hash
+  // - urlSyncTimer：debounce 用
+  // - urlSyncSeq：encode 是 async，只採用最後一次的結果
+  // - restoringFromUrl：從網址還原完成前，不要把預設狀態寫回網址
+  private urlSyncTimer: number | null;
+  private urlSyncSeq: number;
+  private restoringFromUrl: boolean;
+
+  // undo / redo：快照 = FigureDocument（匯出設定不還原）
+  // historyRecordTimer：同一輪事件裡的多次變動（setState + controller notify）只拍一次快照
+  private history: HistoryController<FigureDocument>;
+  private historyRecordTimer: number | null;
+
   // ----------------------------------------------------------
   // constructor：初始化 UI state、建立 MVC 物件、綁定事件、建立同步訂閱
   // ----------------------------------------------------------
@@ -121,15 +460,32 @@ export default class AppView extends React.Component<
     super(props);
 
     // 1) 初始化參數
-    const initialParameters: ConsumerParams = { I: 20, a: 0.5, px: 1, py: 1}
+    const initialParameters: ConsumerParams = {
+      I: 20,
+      a: 0.5,
+      px: 1,
+      py: 1,
+      utility: "cobbDouglas",
+      rho: 0.5,
+      xBar: 2,
+      yBar: 2,
+      budgetSet: { kind: "linear" },
+    };
 
     // 2) 初始化 UI state（slider 顯示用）
     this.state = { 
+      graphKind: "consumer",
+
       I: initialParameters.I, 
       a: initialParameters.a,
       px: initialParameters.px,
       py: initialParameters.py,
 
+      utility: initialParameters.utility,
+      rho: initialParameters.rho,
+      xBar: initialParameters.xBar,
+      yBar: initialParameters.yBar,
+
       ticks: 5,
       showTickLines: true,
       showTickLabels: true,
@@ -137,25 +493,64 @@ export default class AppView extends React.Component<
       xLabel: "x",
       yLabel: "y",
 
-      chartTitle: "Consumer Optimum (Cobb-Douglas)",
-      exportFileName: "figure-consumer-opt.svg",
+      chartTitle: GRAPH_DEFAULTS.consumer.chartTitle,
+      exportFileName: GRAPH_DEFAULTS.consumer.exportFileName,
+      exportResolution: "2x",
+      exportBackground: "white",
+      tikzFormat: "tikz",
+      tikzStandalone: true,
+      tikzWidthCm: 8,
+      pdfPageSize: "figure",
+      pdfWidthCm: 14,
 
       budgetColor: "#111111",
       indiffColor: "#111111",
 
+      budgetSetKind: "linear",
+      discountThreshold: 8,
+      discountRate: 0.4,
+      unitTax: 0.5,
+      rationCap: 6,
+      inKindAmount: 5,
+
+      slutskyMode: false,
+      welfareMode: false,
+
+      showDemandPanel: false,
+      demandColor: "#111111",
+
+      showEngelPanel: false,
+      engelColor: "#111111",
+
+      showPcc: false,
+      showIcc: false,
+      pccMin: 0.5,
+      pccMax: 3,
+      iccMin: 5,
+      iccMax: 40,
+      showOverlayFamily: false,
+      overlaySteps: 5,
+      pccColor: "#2ca02c",
+      iccColor: "#9467bd",
 
       showEquationLabels: true,
+      useLatexLabels: true,
       equationFontSize: 12,
 
       showOpt: true,
       optPointColor: "#111111",
       optTextColor: "#111111",
 
+      optDragMode: "alongBudget",
+
       showXLabel: true,
       showYLabel: true,
 
       showChartTitle: true,
       chartTitleFontSize: 14,
+
+      canUndo: false,
+      canRedo: false,
     };
 
     // 3) 建立 Model：把初始參數塞進去
@@ -195,7 +590,73 @@ export default class AppView extends React.Component<
       model: this.model,
     });
 
+    // 生產者圖：同樣的 layout，同樣的 GraphView
+    const initialProducerParameters: ProducerParams = { Q: 20, w: 1, r: 1, a: 0.5, A: 1 };
+    this.producerModel = new ProducerOptModel(initialProducerParameters);
+    this.producerController = new ProducerOptController({
+      innerWidth: inner.innerWidth,
+      innerHeight: inner.innerHeight,
+      model: this.producerModel,
+    });
+
+    // 供需市場圖：同樣的 layout，同樣的 GraphView
+    this.marketModel = new MarketModel(DEFAULT_MARKET_PARAMS);
+    this.marketController = new MarketController({
+      innerWidth: inner.innerWidth,
+      innerHeight: inner.innerHeight,
+      model: this.marketModel,
+    });
+
+    // 獨占訂價圖：同樣的 layout，同樣的 GraphView
+    this.monopolyModel = new MonopolyModel(DEFAULT_MONOPOLY_PARAMS);
+    this.monopolyController = new MonopolyController({
+      innerWidth: inner.innerWidth,
+      innerHeight: inner.innerHeight,
+      model: this.monopolyModel,
+    });
+
+    // 成本曲線圖：單位成本在上、總成本在下（同一個 model，x 軸跟著上圖）
+    this.costCurvesModel = new CostCurvesModel(DEFAULT_COST_PARAMS);
+    this.costCurvesController = new CostCurvesController({
+      innerWidth: inner.innerWidth,
+      innerHeight: inner.innerHeight,
+      model: this.costCurvesModel,
+    });
+    this.totalCostController = new TotalCostController({
+      innerWidth: inner.innerWidth,
+      innerHeight: inner.innerHeight,
+      model: this.costCurvesModel,
+      costs: this.costCurvesController,
+    });
+
+    // 需求曲線面板：同一個 model，x 軸跟著消費者圖
+    this.demandController = new DemandCurveController({
+      innerWidth: inner.innerWidth,
+      innerHeight: inner.innerHeight,
+      model: this.model,
+      consumer: this.controller,
+    });
+
+    this.engelController = new EngelCurveController({
+      innerWidth: inner.innerWidth,
+      innerHeight: inner.innerHeight,
+      model: this.model,
+      consumer: this.controller,
+    });
+
     this.graphRef = React.createRef<ConsumerOptGraphView>();
+    this.figureFileRef = React.createRef<HTMLInputElement>();
+
+    this.urlSyncTimer = null;
+    this.urlSyncSeq = 0;
+    this.restoringFromUrl = false;
+
+    this.history = new HistoryController<FigureDocument>({
+      capture: () => this.buildFigureDocument(),
+      restore: (doc) => this.applyFigureDocument({ ...doc, export: this.buildFigureDocument().export }),
+      same: sameFigure,
+    });
+    this.historyRecordTimer = null;
 
 
     // 5) bind：class component 綁定 this
@@ -212,14 +673,104 @@ export default class AppView extends React.Component<
     // this.handleModelSyncFromController = this.handleModelSyncFromController.bind(this);
 
     this.handleExportClick = this.handleExportClick.bind(this);
+    this.handleGraphKindChange = this.handleGraphKindChange.bind(this);
+    this.handleUtilityKindChange = this.handleUtilityKindChange.bind(this);
+    this.handleSaveFigureClick = this.handleSaveFigureClick.bind(this);
+    this.handleLoadFigureClick = this.handleLoadFigureClick.bind(this);
+    this.handleFigureFileChange = this.handleFigureFileChange.bind(this);
+    this.scheduleUrlSync = this.scheduleUrlSync.bind(this);
+    this.handleHashChange = this.handleHashChange.bind(this);
+    this.handleFigureChange = this.handleFigureChange.bind(this);
+    this.handleHistoryChange = this.handleHistoryChange.bind(this);
+    this.handleGlobalPointerDown = this.handleGlobalPointerDown.bind(this);
+    this.handleGlobalKeyDown = this.handleGlobalKeyDown.bind(this);
+    this.handleUndoClick = this.handleUndoClick.bind(this);
+    this.handleRedoClick = this.handleRedoClick.bind(this);
 
     // ??? 你也可以保留 handleIncomeChange/handleAlphaChange，但這裡直接用 slider onChange inline 即可
 
-    this.controller.setShowEquationLabels(this.state.showEquationLabels);
-    this.controller.setEquationFontSize(this.state.equationFontSize);
-    this.controller.setShowOpt(this.state.showOpt);
-    this.controller.setOptPointColor(this.state.optPointColor);
-    this.controller.setOptTextColor(this.state.optTextColor);
+    const showEquationLabels = this.state.showEquationLabels;
+    const useLatexLabels = this.state.useLatexLabels;
+    const equationFontSize = this.state.equationFontSize;
+    const showOpt = this.state.showOpt;
+    const optPointColor = this.state.optPointColor;
+    const optTextColor = this.state.optTextColor;
+    this.forEachSceneController((c) => {
+      c.setShowEquationLabels(showEquationLabels);
+      c.setUseLatexLabels(useLatexLabels);
+      c.setEquationFontSize(equationFontSize);
+    });
+    this.forEachOptController((c) => {
+      c.setShowOpt(showOpt);
+      c.setOptPointColor(optPointColor);
+      c.setOptTextColor(optTextColor);
+    });
+  }
+
+  // ----------------------------------------------------------
+  // forEachOptController：
+  // 顯示控制（方程式標籤 / 字體 / Opt）是所有「最適化圖」共用的，
+  // 所以同時套用到消費者與生產者 controller，切換圖時設定不會跑掉。
+  // ----------------------------------------------------------
+  private forEachOptController(fn: (c: ConsumerOptController | ProducerOptController) => void) {
+    fn(this.controller);
+    fn(this.producerController);
+  }
+
+  // ----------------------------------------------------------
+  // forEachSceneController：標籤顯示 / 字體是「所有圖」共用的（含需求曲線面板）
+  // ----------------------------------------------------------
+  private forEachSceneController(fn: (c: SceneController) => void) {
+    this.forEachOptController(fn);
+    fn(this.demandController);
+    fn(this.engelController);
+    fn(this.marketController);
+    fn(this.monopolyController);
+    fn(this.costCurvesController);
+    fn(this.totalCostController);
+  }
+
+  // ----------------------------------------------------------
+  // getActiveController：右側 GraphView 目前要畫的 controller
+  // ----------------------------------------------------------
+  private getActiveController(): SceneController {
+    if (this.state.graphKind === "producer") {
+      return this.producerController;
+    }
+    if (this.state.graphKind === "market") {
+      return this.marketController;
+    }
+    if (this.state.graphKind === "monopoly") {
+      return this.monopolyController;
+    }
+    if (this.state.graphKind === "costs") {
+      return this.costCurvesController;
+    }
+    return this.controller;
+  }
+
+  // ----------------------------------------------------------
+  // handleGraphKindChange：切換圖
+  // - 標題 / 軸標籤 / 匯出檔名 換成該圖的預設值
+  // ----------------------------------------------------------
+  private handleGraphKindChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const raw = e.currentTarget.value;
+    let next: GraphKind = "consumer";
+    if (raw === "producer" || raw === "market" || raw === "monopoly" || raw === "costs") {
+      next = raw;
+    }
+
+    const defaults = GRAPH_DEFAULTS[next];
+    this.setState({
+      graphKind: next,
+      chartTitle: defaults.chartTitle,
+      xLabel: defaults.xLabel,
+      yLabel: defaults.yLabel,
+      exportFileName: withExportFormat(
+        defaults.exportFileName,
+        exportFormatOf(this.state.exportFileName)
+      ),
+    });
   }
 
   // ----------------------------------------------------------
@@ -231,9 +782,40 @@ export default class AppView extends React.Component<
   componentDidMount(){
     this.controller.subscribe(this.handleParamsFromController);
 
+    // 需求曲線面板訂閱消費者 controller
+    this.demandController.connect();
+    this.engelController.connect();
+    this.totalCostController.connect();
+
     // 確保 mounted 後 UI state 跟 model params 完全一致
-    const params = this.model.getModelParams();
-    this.setState({ I: params.I, a: params.a, px: params.px, py: params.py });
+    this.handleParamsFromController();
+
+    // undo / redo：以目前狀態為起點；每次按下滑鼠 / 按鍵就是一個新動作的開始
+    this.history.subscribe(this.handleHistoryChange);
+    this.history.reset();
+    window.addEventListener("pointerdown", this.handleGlobalPointerDown, true);
+    window.addEventListener("keydown", this.handleGlobalKeyDown, true);
+
+    // 分享連結：網址帶著圖就還原；之後任何圖的 scene 改變（含標籤拖曳）都同步回網址
+    this.forEachSceneController((c) => c.subscribe(this.handleFigureChange));
+    window.addEventListener("hashchange", this.handleHashChange);
+    if (hasFigureHash(window.location.hash)) {
+      this.restoreFromUrlHash(window.location.hash, true);
+    }
+  }
+
+  // UI state 改變（標題、刻度、顯示開關 ...）也算圖的變動
+  componentDidUpdate() {
+    this.handleFigureChange();
+  }
+
+  // ----------------------------------------------------------
+  // handleFigureChange：圖可能變了（controller notify / UI state 更新）
+  // -> 同步網址 + 記錄 undo 歷史
+  // ----------------------------------------------------------
+  private handleFigureChange() {
+    this.scheduleUrlSync();
+    this.scheduleHistoryRecord();
   }
 
 
@@ -243,6 +825,179 @@ export default class AppView extends React.Component<
   // ----------------------------------------------------------
   componentWillUnmount() {
     this.controller.unsubscribe(this.handleParamsFromController);
+    this.demandController.disconnect();
+    this.engelController.disconnect();
+    this.totalCostController.disconnect();
+
+    this.forEachSceneController((c) => c.unsubscribe(this.handleFigureChange));
+    window.removeEventListener("hashchange", this.handleHashChange);
+    if (this.urlSyncTimer !== null) {
+      window.clearTimeout(this.urlSyncTimer);
+      this.urlSyncTimer = null;
+    }
+    // 還在 encode 的結果作廢
+    this.urlSyncSeq += 1;
+
+    this.history.unsubscribe(this.handleHistoryChange);
+    window.removeEventListener("pointerdown", this.handleGlobalPointerDown, true);
+    window.removeEventListener("keydown", this.handleGlobalKeyDown, true);
+    if (this.historyRecordTimer !== null) {
+      window.clearTimeout(this.historyRecordTimer);
+      this.historyRecordTimer = null;
+    }
+  }
+
+  // ----------------------------------------------------------
+  // scheduleHistoryRecord：等這一輪事件（setState + 各 controller notify）都跑完再拍快照
+  // flushHistoryRecord：undo / redo 之前先把還沒記錄的變動記下來
+  // ----------------------------------------------------------
+  private scheduleHistoryRecord() {
+    if (this.historyRecordTimer !== null) {
+      return;
+    }
+    this.historyRecordTimer = window.setTimeout(() => {
+      this.historyRecordTimer = null;
+      this.history.record();
+    }, 0);
+  }
+
+  private flushHistoryRecord() {
+    if (this.historyRecordTimer !== null) {
+      window.clearTimeout(this.historyRecordTimer);
+      this.historyRecordTimer = null;
+      this.history.record();
+    }
+  }
+
+  private handleHistoryChange() {
+    const canUndo = this.history.canUndo();
+    const canRedo = this.history.canRedo();
+    if (canUndo !== this.state.canUndo || canRedo !== this.state.canRedo) {
+      this.setState({ canUndo, canRedo });
+    }
+  }
+
+  private handleUndoClick() {
+    this.flushHistoryRecord();
+    this.history.undo();
+  }
+
+  private handleRedoClick() {
+    this.flushHistoryRecord();
+    this.history.redo();
+  }
+
+  // 按下滑鼠 / 觸控：一個新動作（拖曳、拖 slider 的整個過程都算這一步）
+  private handleGlobalPointerDown() {
+    this.flushHistoryRecord();
+    this.history.markInput("pointer");
+  }
+
+  // ----------------------------------------------------------
+  // handleGlobalKeyDown：
+  // - Ctrl+Z / Cmd+Z：undo；Ctrl+Shift+Z / Cmd+Shift+Z / Ctrl+Y：redo
+  // - 其他按鍵：一個新動作（連續打字會在 HistoryController 裡合併）
+  // ----------------------------------------------------------
+  private handleGlobalKeyDown(e: KeyboardEvent) {
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && (key === "z" || key === "y")) {
+      if (isTextEntry(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) {
+        this.handleRedoClick();
+      } else {
+        this.handleUndoClick();
+      }
+      return;
+    }
+
+    // 單獨按修飾鍵不算動作
+    if (key === "shift" || key === "control" || key === "meta" || key === "alt") {
+      return;
+    }
+    this.flushHistoryRecord();
+    this.history.markInput("key");
+  }
+
+  // ----------------------------------------------------------
+  // scheduleUrlSync：狀態改變 -> 稍等一下再寫進網址（debounce）
+  // ----------------------------------------------------------
+  private scheduleUrlSync() {
+    if (this.restoringFromUrl) {
+      return;
+    }
+    if (this.urlSyncTimer !== null) {
+      window.clearTimeout(this.urlSyncTimer);
+    }
+    this.urlSyncTimer = window.setTimeout(() => {
+      this.urlSyncTimer = null;
+      this.writeUrlHash();
+    }, URL_SYNC_DELAY_MS);
+  }
+
+  // ----------------------------------------------------------
+  // writeUrlHash：目前狀態 -> hash
+  // 用 replaceState：只換掉目前這一筆 history，不會每動一次就多一筆「上一頁」
+  // ----------------------------------------------------------
+  private writeUrlHash() {
+    this.urlSyncSeq += 1;
+    const seq = this.urlSyncSeq;
+
+    encodeFigureHash(this.buildFigureDocument()).then(
+      (hash) => {
+        if (seq !== this.urlSyncSeq || hash === window.location.hash) {
+          return;
+        }
+        window.history.replaceState(window.history.state, "", hash);
+      },
+      () => {
+        // 瀏覽器不支援 CompressionStream：網址就不同步（圖本身不受影響）
+      }
+    );
+  }
+
+  // ----------------------------------------------------------
+  // restoreFromUrlHash：hash -> FigureDocument -> 套用
+  // 解碼失敗 / 套用時丟出例外：和讀檔一樣跳出錯誤訊息（不要變成 unhandled rejection）
+  // - restoringFromUrl 要等套用完（state commit 之後）才放掉，否則剛還原的圖會馬上被重新編碼寫回網址
+  // - initial（開頁時的還原）：還原的圖就是 undo 的起點，不是疊在預設圖上面的一步
+  // ----------------------------------------------------------
+  private restoreFromUrlHash(hash: string, initial: boolean) {
+    this.restoringFromUrl = true;
+    decodeFigureHash(hash).then(
+      (result) => {
+        if (!result.ok) {
+          this.restoringFromUrl = false;
+          window.alert(describeLoadErrors("the shared link", result.errors));
+          return;
+        }
+        try {
+          this.applyFigureDocument(result.doc, () => {
+            this.restoringFromUrl = false;
+            if (initial) {
+              this.history.reset();
+            }
+          });
+        } catch (err: unknown) {
+          this.restoringFromUrl = false;
+          window.alert(describeLoadErrors("the shared link", [String(err)]));
+        }
+      },
+      (err: unknown) => {
+        this.restoringFromUrl = false;
+        window.alert(describeLoadErrors("the shared link", [String(err)]));
+      }
+    );
+  }
+
+  // 同一個分頁貼上另一個分享連結（只有 hash 變了，頁面不會重新載入）
+  // （replaceState 不會觸發 hashchange，所以自己寫的 hash 不會走到這裡）
+  private handleHashChange() {
+    if (hasFigureHash(window.location.hash)) {
+      this.restoreFromUrlHash(window.location.hash, false);
+    }
   }
 
   // // ----------------------------------------------------------
@@ -265,10 +1020,167 @@ export default class AppView extends React.Component<
   // ----------------------------------------------------------
   private handleParamsFromController() {
     const params = this.model.getModelParams();
-    this.setState({ I: params.I, a: params.a, px: params.px, py: params.py });
+    this.setState({
+      I: params.I,
+      a: params.a,
+      px: params.px,
+      py: params.py,
+      utility: params.utility,
+      rho: params.rho,
+      xBar: params.xBar,
+      yBar: params.yBar,
+    });
   }
 
 
+  // ----------------------------------------------------------
+  // renderExportControls：格式（改副檔名）+ PNG / PDF / TikZ 各自的選項 + 匯出按鈕
+  // ----------------------------------------------------------
+  private renderExportControls() {
+    const format = exportFormatOf(this.state.exportFileName);
+
+    return (
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginTop: 8, alignItems: "center" }}>
+        <select
+          value={format}
+          onChange={(e) => {
+            const raw = e.currentTarget.value;
+            let next: ExportFormat = "svg";
+            if (raw === "png" || raw === "pdf" || raw === "tex") {
+              next = raw;
+            }
+            this.setState({ exportFileName: withExportFormat(this.state.exportFileName, next) });
+          }}
+        >
+          <option value="svg">SVG</option>
+          <option value="png">PNG</option>
+          <option value="pdf">PDF</option>
+          <option value="tex">TikZ (.tex)</option>
+        </select>
+
+        {format === "png" ? (
+          <select
+            value={this.state.exportResolution}
+            onChange={(e) => this.setState({ exportResolution: e.currentTarget.value })}
+          >
+            {EXPORT_RESOLUTIONS.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        ) : null}
+
+        {format === "png" ? (
+          <select
+            value={this.state.exportBackground}
+            onChange={(e) =>
+              this.setState({
+                exportBackground: e.currentTarget.value === "transparent" ? "transparent" : "white",
+              })
+            }
+          >
+            <option value="white">White background</option>
+            <option value="transparent">Transparent</option>
+          </select>
+        ) : null}
+
+        {format === "pdf" ? (
+          <select
+            value={this.state.pdfPageSize}
+            onChange={(e) => {
+              const raw = e.currentTarget.value;
+              if (isPdfPageSize(raw)) {
+                this.setState({ pdfPageSize: raw });
+              }
+            }}
+          >
+            {PDF_PAGE_SIZES.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        ) : null}
+
+        {format === "pdf" && this.state.pdfPageSize === "figure" ? (
+          <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            Width (cm)
+            <input
+              type="number"
+              min={2}
+              max={40}
+              step={0.5}
+              value={this.state.pdfWidthCm}
+              onChange={(e) => {
+                let v = Number(e.currentTarget.value);
+                if (!Number.isFinite(v) || v < 2) {
+                  v = 2;
+                }
+                if (v > 40) {
+                  v = 40;
+                }
+                this.setState({ pdfWidthCm: v });
+              }}
+              style={{ width: 56 }}
+            />
+          </label>
+        ) : null}
+
+        {format === "tex" ? (
+          <select
+            value={this.state.tikzFormat}
+            onChange={(e) =>
+              this.setState({ tikzFormat: e.currentTarget.value === "pgfplots" ? "pgfplots" : "tikz" })
+            }
+          >
+            <option value="tikz">TikZ</option>
+            <option value="pgfplots">pgfplots</option>
+          </select>
+        ) : null}
+
+        {format === "tex" ? (
+          <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            Width (cm)
+            <input
+              type="number"
+              min={2}
+              max={30}
+              step={0.5}
+              value={this.state.tikzWidthCm}
+              onChange={(e) => {
+                let v = Number(e.currentTarget.value);
+                if (!Number.isFinite(v) || v < 2) {
+                  v = 2;
+                }
+                if (v > 30) {
+                  v = 30;
+                }
+                this.setState({ tikzWidthCm: v });
+              }}
+              style={{ width: 56 }}
+            />
+          </label>
+        ) : null}
+
+        {format === "tex" ? (
+          <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={this.state.tikzStandalone}
+              onChange={(e) => this.setState({ tikzStandalone: e.currentTarget.checked })}
+            />
+            standalone
+          </label>
+        ) : null}
+
+        <button onClick={this.handleExportClick}>
+          {EXPORT_BUTTON_LABELS[format]}
+        </button>
+      </div>
+    );
+  }
+
   // ----------------------------------------------------------
   // handleExportClick：
   //
@@ -278,7 +1190,425 @@ export default class AppView extends React.Component<
     if (!graphRefClick) {
       return;
     }
-    graphRefClick.exportSvg(this.state.exportFileName);
+
+    const fileName = this.state.exportFileName;
+    const format = exportFormatOf(fileName);
+    if (format === "svg") {
+      graphRefClick.exportSvg(fileName);
+      return;
+    }
+    if (format === "pdf") {
+      graphRefClick
+        .exportPdf(fileName, {
+          pageSize: this.state.pdfPageSize,
+          figureWidthCm: this.state.pdfWidthCm,
+        })
+        .catch((err: unknown) => {
+          window.alert("PDF export failed: " + String(err));
+        });
+      return;
+    }
+    if (format === "tex") {
+      graphRefClick.exportTikz(fileName, {
+        format: this.state.tikzFormat,
+        standalone: this.state.tikzStandalone,
+        widthCm: this.state.tikzWidthCm,
+      });
+      return;
+    }
+
+    let resolution = EXPORT_RESOLUTIONS[0];
+    let i = 0;
+    while (i < EXPORT_RESOLUTIONS.length) {
+      if (EXPORT_RESOLUTIONS[i].id === this.state.exportResolution) {
+        resolution = EXPORT_RESOLUTIONS[i];
+      }
+      i += 1;
+    }
+
+    graphRefClick
+      .exportPng(fileName, {
+        scale: resolution.scale,
+        dpi: resolution.dpi,
+        background: this.state.exportBackground,
+      })
+      .catch((err: unknown) => {
+        window.alert("PNG export failed: " + String(err));
+      });
+  }
+
+
+  // ----------------------------------------------------------
+  // buildFigureDocument：把 model / controller / UI state 收集成一份 FigureDocument
+  // ----------------------------------------------------------
+  private buildFigureDocument(): FigureDocument {
+    const s = this.state;
+    const producerParams = this.producerModel.getModelParams();
+    const producerColors = this.producerController.getLineColors();
+    const marketParams = this.marketModel.getModelParams();
+    const marketColors = this.marketController.getLineColors();
+    const marketWelfare = this.marketController.getWelfareOptions();
+    const monopolyAreas = this.monopolyController.getAreaOptions();
+    const costLongRun = this.costCurvesController.getLongRunOptions();
+
+    return {
+      format: FIGURE_DOCUMENT_FORMAT,
+      version: FIGURE_DOCUMENT_VERSION,
+      graphKind: s.graphKind,
+
+      consumer: {
+        params: {
+          I: s.I,
+          a: s.a,
+          px: s.px,
+          py: s.py,
+          utility: s.utility,
+          rho: s.rho,
+          xBar: s.xBar,
+          yBar: s.yBar,
+        },
+        budgetSet: {
+          kind: s.budgetSetKind,
+          discountThreshold: s.discountThreshold,
+          discountRate: s.discountRate,
+          unitTax: s.unitTax,
+          rationCap: s.rationCap,
+          inKindAmount: s.inKindAmount,
+        },
+        colors: {
+          budget: s.budgetColor,
+          indiff: s.indiffColor,
+          demand: s.demandColor,
+          engel: s.engelColor,
+          pcc: s.pccColor,
+          icc: s.iccColor,
+        },
+        comparison: {
+          slutskyMode: s.slutskyMode,
+          welfareMode: s.welfareMode,
+          basePx: this.controller.getComparisonBasePx(),
+        },
+        overlays: {
+          showPcc: s.showPcc,
+          showIcc: s.showIcc,
+          pccMin: s.pccMin,
+          pccMax: s.pccMax,
+          iccMin: s.iccMin,
+          iccMax: s.iccMax,
+          showOverlayFamily: s.showOverlayFamily,
+          overlaySteps: s.overlaySteps,
+        },
+        panels: {
+          showDemand: s.showDemandPanel,
+          showEngel: s.showEngelPanel,
+        },
+      },
+
+      producer: {
+        params: { ...producerParams },
+        colors: { isocost: producerColors.isocost, isoquant: producerColors.isoquant },
+      },
+
+      market: {
+        params: {
+          demand: { ...marketParams.demand },
+          supply: { ...marketParams.supply },
+          intervention: { ...marketParams.intervention },
+        },
+        colors: { demand: marketColors.demand, supply: marketColors.supply },
+        welfare: { show: marketWelfare.show, colors: marketWelfare.colors },
+      },
+
+      monopoly: {
+        params: { ...this.monopolyModel.getModelParams() },
+        colors: this.monopolyController.getCurveColors(),
+        showProfit: monopolyAreas.showProfit,
+        showDwl: monopolyAreas.showDwl,
+      },
+
+      costs: {
+        params: { ...this.costCurvesModel.getModelParams() },
+        colors: this.costCurvesController.getCurveColors(),
+        showLongRun: costLongRun.showLongRun,
+        plantCount: costLongRun.plantCount,
+      },
+
+      view: {
+        ticks: s.ticks,
+        showTickLines: s.showTickLines,
+        showTickLabels: s.showTickLabels,
+        xLabel: s.xLabel,
+        yLabel: s.yLabel,
+        showXLabel: s.showXLabel,
+        showYLabel: s.showYLabel,
+        chartTitle: s.chartTitle,
+        showChartTitle: s.showChartTitle,
+        chartTitleFontSize: s.chartTitleFontSize,
+        showEquationLabels: s.showEquationLabels,
+        useLatexLabels: s.useLatexLabels,
+        equationFontSize: s.equationFontSize,
+        showOpt: s.showOpt,
+        optPointColor: s.optPointColor,
+        optTextColor: s.optTextColor,
+      },
+
+      export: {
+        fileName: s.exportFileName,
+        resolution: s.exportResolution,
+        background: s.exportBackground,
+        tikzFormat: s.tikzFormat,
+        tikzStandalone: s.tikzStandalone,
+        tikzWidthCm: s.tikzWidthCm,
+        pdfPageSize: s.pdfPageSize,
+        pdfWidthCm: s.pdfWidthCm,
+      },
+
+      labelOffsets: {
+        consumer: this.controller.getLabelOffsets(),
+        producer: this.producerController.getLabelOffsets(),
+        demand: this.demandController.getLabelOffsets(),
+        engel: this.engelController.getLabelOffsets(),
+        market: this.marketController.getLabelOffsets(),
+        monopoly: this.monopolyController.getLabelOffsets(),
+        costs: this.costCurvesController.getLabelOffsets(),
+        totalCost: this.totalCostController.getLabelOffsets(),
+      },
+    };
+  }
+
+  // ----------------------------------------------------------
+  // applyFigureDocument：讀檔成功後，把文件分送回 UI state / model / controller
+  // onApplied：UI state 真正 commit 之後才呼叫（componentDidUpdate 也已經跑完）
+  // ----------------------------------------------------------
+  private applyFigureDocument(doc: FigureDocument, onApplied?: () => void) {
+    const c = doc.consumer;
+    const v = doc.view;
+
+    // 刻度只接受 ALLOWED_TICKS；PNG 解析度只接受 EXPORT_RESOLUTIONS（不認得就維持目前設定）
+    let ticks = this.state.ticks;
+    if (ALLOWED_TICKS.indexOf(v.ticks) >= 0) {
+      ticks = v.ticks;
+    }
+    let exportResolution = this.state.exportResolution;
+    let i = 0;
+    while (i < EXPORT_RESOLUTIONS.length) {
+      if (EXPORT_RESOLUTIONS[i].id === doc.export.resolution) {
+        exportResolution = doc.export.resolution;
+      }
+      i += 1;
+    }
+
+    // 1) UI state
+    this.setState({
+      graphKind: doc.graphKind,
+
+      budgetColor: c.colors.budget,
+      indiffColor: c.colors.indiff,
+      demandColor: c.colors.demand,
+      engelColor: c.colors.engel,
+      pccColor: c.colors.pcc,
+      iccColor: c.colors.icc,
+
+      budgetSetKind: c.budgetSet.kind,
+      discountThreshold: c.budgetSet.discountThreshold,
+      discountRate: c.budgetSet.discountRate,
+      unitTax: c.budgetSet.unitTax,
+      rationCap: c.budgetSet.rationCap,
+      inKindAmount: c.budgetSet.inKindAmount,
+
+      slutskyMode: c.comparison.slutskyMode,
+      welfareMode: c.comparison.welfareMode,
+
+      showPcc: c.overlays.showPcc,
+      showIcc: c.overlays.showIcc,
+      pccMin: c.overlays.pccMin,
+      pccMax: c.overlays.pccMax,
+      iccMin: c.overlays.iccMin,
+      iccMax: c.overlays.iccMax,
+      showOverlayFamily: c.overlays.showOverlayFamily,
+      overlaySteps: c.overlays.overlaySteps,
+
+      showDemandPanel: c.panels.showDemand,
+      showEngelPanel: c.panels.showEngel,
+
+      ticks,
+      showTickLines: v.showTickLines,
+      showTickLabels: v.showTickLabels,
+      xLabel: v.xLabel,
+      yLabel: v.yLabel,
+      showXLabel: v.showXLabel,
+      showYLabel: v.showYLabel,
+      chartTitle: v.chartTitle,
+      showChartTitle: v.showChartTitle,
+      chartTitleFontSize: v.chartTitleFontSize,
+      showEquationLabels: v.showEquationLabels,
+      useLatexLabels: v.useLatexLabels,
+      equationFontSize: v.equationFontSize,
+      showOpt: v.showOpt,
+      optPointColor: v.optPointColor,
+      optTextColor: v.optTextColor,
+
+      exportFileName: doc.export.fileName,
+      exportResolution,
+      exportBackground: doc.export.background,
+      tikzFormat: doc.export.tikzFormat,
+      tikzStandalone: doc.export.tikzStandalone,
+      tikzWidthCm: doc.export.tikzWidthCm,
+      pdfPageSize: doc.export.pdfPageSize,
+      pdfWidthCm: doc.export.pdfWidthCm,
+    }, onApplied);
+
+    // 2) 消費者 model + controller
+    //    （模型參數的 slider 由 handleParamsFromController 同步）
+    const ctrl = this.controller;
+    ctrl.onUtilityKindChange(c.params.utility);
+    ctrl.onRhoChange(c.params.rho);
+    ctrl.onSubsistenceChange(c.params.xBar, c.params.yBar);
+    ctrl.onBudgetSetChange(
+      toBudgetSetSpec({
+        budgetSetKind: c.budgetSet.kind,
+        discountThreshold: c.budgetSet.discountThreshold,
+        discountRate: c.budgetSet.discountRate,
+        unitTax: c.budgetSet.unitTax,
+        rationCap: c.budgetSet.rationCap,
+        inKindAmount: c.budgetSet.inKindAmount,
+      })
+    );
+    ctrl.onIncomeChange(c.params.I);
+    ctrl.onAlphaChange(c.params.a);
+    ctrl.onPyChange(c.params.py);
+
+    // Slutsky / CV-EV：開啟比較模式時會記下當下的 px，所以原價格要在開啟之後才指定
+    ctrl.setSlutskyMode(c.comparison.slutskyMode);
+    ctrl.setWelfareMode(c.comparison.welfareMode);
+    ctrl.setComparisonBasePx(c.comparison.basePx);
+    ctrl.onPxChange(c.params.px);
+
+    ctrl.setBudgetColor(c.colors.budget);
+    ctrl.setIndiffColor(c.colors.indiff);
+    ctrl.setPccColor(c.colors.pcc);
+    ctrl.setIccColor(c.colors.icc);
+    ctrl.setShowPcc(c.overlays.showPcc);
+    ctrl.setShowIcc(c.overlays.showIcc);
+    ctrl.setPccRange(c.overlays.pccMin, c.overlays.pccMax);
+    ctrl.setIccRange(c.overlays.iccMin, c.overlays.iccMax);
+    ctrl.setShowOverlayFamily(c.overlays.showOverlayFamily);
+    ctrl.setOverlaySteps(c.overlays.overlaySteps);
+
+    this.demandController.setDemandColor(c.colors.demand);
+    this.engelController.setEngelColor(c.colors.engel);
+
+    // 3) 生產者 model + controller（ProducerOptPanel 訂閱 controller，自己會同步）
+    const p = doc.producer;
+    this.producerController.onOutputChange(p.params.Q);
+    this.producerController.onAlphaChange(p.params.a);
+    this.producerController.onTechnologyChange(p.params.A);
+    this.producerController.onWageChange(p.params.w);
+    this.producerController.onRentalChange(p.params.r);
+    this.producerController.setIsocostColor(p.colors.isocost);
+    this.producerController.setIsoquantColor(p.colors.isoquant);
+
+    // 4) 供需市場 model + controller（MarketPanel 訂閱 controller，自己會同步）
+    const m = doc.market;
+    this.marketController.setMarketParams(m.params);
+    this.marketController.setDemandColor(m.colors.demand);
+    this.marketController.setSupplyColor(m.colors.supply);
+    let w = 0;
+    while (w < WELFARE_REGIONS.length) {
+      const region = WELFARE_REGIONS[w];
+      this.marketController.setShowWelfareRegion(region, m.welfare.show[region]);
+      this.marketController.setWelfareColor(region, m.welfare.colors[region]);
+      w += 1;
+    }
+
+    // 5) 獨占訂價圖（MonopolyPanel 訂閱 controller，自己會同步）
+    const mo = doc.monopoly;
+    this.monopolyController.setMonopolyParams(mo.params);
+    this.monopolyController.setCurveColor("demand", mo.colors.demand);
+    this.monopolyController.setCurveColor("mr", mo.colors.mr);
+    this.monopolyController.setCurveColor("mc", mo.colors.mc);
+    this.monopolyController.setCurveColor("atc", mo.colors.atc);
+    this.monopolyController.setShowProfit(mo.showProfit);
+    this.monopolyController.setShowDwl(mo.showDwl);
+
+    // 6) 成本曲線圖（CostCurvesPanel 訂閱 controller；總成本面板跟著上圖更新）
+    const co = doc.costs;
+    this.costCurvesController.setCostParams(co.params);
+    this.costCurvesController.setCurveColor("mc", co.colors.mc);
+    this.costCurvesController.setCurveColor("atc", co.colors.atc);
+    this.costCurvesController.setCurveColor("avc", co.colors.avc);
+    this.costCurvesController.setCurveColor("afc", co.colors.afc);
+    this.costCurvesController.setCurveColor("lrac", co.colors.lrac);
+    this.costCurvesController.setShowLongRun(co.showLongRun);
+    this.costCurvesController.setPlantCount(co.plantCount);
+
+    // 7) 所有圖共用的顯示設定
+    this.forEachSceneController((sc) => {
+      sc.setShowEquationLabels(v.showEquationLabels);
+      sc.setUseLatexLabels(v.useLatexLabels);
+      sc.setEquationFontSize(v.equationFontSize);
+    });
+    this.forEachOptController((oc) => {
+      oc.setShowOpt(v.showOpt);
+      oc.setOptPointColor(v.optPointColor);
+      oc.setOptTextColor(v.optTextColor);
+    });
+
+    // 8) 標籤拖曳位置
+    this.controller.setLabelOffsets(doc.labelOffsets.consumer);
+    this.producerController.setLabelOffsets(doc.labelOffsets.producer);
+    this.demandController.setLabelOffsets(doc.labelOffsets.demand);
+    this.engelController.setLabelOffsets(doc.labelOffsets.engel);
+    this.marketController.setLabelOffsets(doc.labelOffsets.market);
+    this.monopolyController.setLabelOffsets(doc.labelOffsets.monopoly);
+    this.costCurvesController.setLabelOffsets(doc.labelOffsets.costs);
+    this.totalCostController.setLabelOffsets(doc.labelOffsets.totalCost);
+  }
+
+  // ----------------------------------------------------------
+  // handleSaveFigureClick：目前狀態 -> JSON 檔下載
+  // ----------------------------------------------------------
+  private handleSaveFigureClick() {
+    const text = serializeFigureDocument(this.buildFigureDocument());
+    const blob = new Blob([text], { type: "application/json;charset=utf-8" });
+    downloadBlob(blob, figureDocumentFileName(this.state.exportFileName));
+  }
+
+  // handleLoadFigureClick：打開檔案選擇視窗（隱藏的 <input type="file">）
+  private handleLoadFigureClick() {
+    const input = this.figureFileRef.current;
+    if (input) {
+      input.click();
+    }
+  }
+
+  // ----------------------------------------------------------
+  // handleFigureFileChange：讀檔 -> 驗證 / 升級版本 -> 套用
+  // 驗證失敗就列出錯誤，目前的圖不動
+  // ----------------------------------------------------------
+  private handleFigureFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const input = e.currentTarget;
+    const file = input.files && input.files.length > 0 ? input.files[0] : null;
+
+    // 清掉選取，同一個檔案再選一次也會觸發 onChange
+    input.value = "";
+    if (!file) {
+      return;
+    }
+
+    file.text().then(
+      (text) => {
+        const result = parseFigureDocument(text);
+        if (!result.ok) {
+          window.alert(describeLoadErrors(`"${file.name}"`, result.errors));
+          return;
+        }
+        this.applyFigureDocument(result.doc);
+      },
+      (err: unknown) => {
+        window.alert(`Could not read "${file.name}": ` + String(err));
+      }
+    );
   }
 
 
@@ -345,6 +1675,547 @@ export default class AppView extends React.Component<
   // }
 
 
+  // ----------------------------------------------------------
+  // handleUtilityKindChange：切換效用函數家族
+  // - 標題跟著換成該家族名稱
+  // ----------------------------------------------------------
+  private handleUtilityKindChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const raw = e.currentTarget.value;
+    if (!isUtilityKind(raw)) {
+      return;
+    }
+    this.setState({
+      utility: raw,
+      chartTitle: `Consumer Optimum (${getUtilityFunction(raw).label})`,
+    });
+    this.controller.onUtilityKindChange(raw);
+  }
+
+  // ----------------------------------------------------------
+  // applyBudgetSet：更新預算集合的 UI 參數，並把組好的 spec 交給 controller
+  // ----------------------------------------------------------
+  private applyBudgetSet(patch: Partial<BudgetSetControls>) {
+    const next: BudgetSetControls = {
+      budgetSetKind: this.state.budgetSetKind,
+      discountThreshold: this.state.discountThreshold,
+      discountRate: this.state.discountRate,
+      unitTax: this.state.unitTax,
+      rationCap: this.state.rationCap,
+      inKindAmount: this.state.inKindAmount,
+      ...patch,
+    };
+    this.setState(next);
+    this.controller.onBudgetSetChange(toBudgetSetSpec(next));
+  }
+
+  // ----------------------------------------------------------
+  // renderBudgetSetControls：預算集合下拉選單 + 該種類的參數 slider
+  // ----------------------------------------------------------
+  private renderBudgetSetControls() {
+    const kind = this.state.budgetSetKind;
+
+    let sliders: React.ReactNode = null;
+    if (kind === "quantityDiscount") {
+      sliders = (
+        <>
+          <ControlledSlider
+            label="Discount threshold (x)"
+            min={0}
+            max={40}
+            step={0.5}
+            value={this.state.discountThreshold}
+            onChange={(next) => this.applyBudgetSet({ discountThreshold: next })}
+          />
+          <ControlledSlider
+            label="Discount rate"
+            min={0}
+            max={0.9}
+            step={0.05}
+            value={this.state.discountRate}
+            onChange={(next) => this.applyBudgetSet({ discountRate: next })}
+          />
+        </>
+      );
+    } else if (kind === "unitTax") {
+      sliders = (
+        <ControlledSlider
+          label="Tax per unit of x (< 0 = subsidy)"
+          min={-0.9}
+          max={3}
+          step={0.05}
+          value={this.state.unitTax}
+          onChange={(next) => this.applyBudgetSet({ unitTax: next })}
+        />
+      );
+    } else if (kind === "ration") {
+      sliders = (
+        <ControlledSlider
+          label="Ration cap (x)"
+          min={0}
+          max={40}
+          step={0.5}
+          value={this.state.rationCap}
+          onChange={(next) => this.applyBudgetSet({ rationCap: next })}
+        />
+      );
+    } else if (kind === "inKind") {
+      sliders = (
+        <ControlledSlider
+          label="In-kind amount (x)"
+          min={0}
+          max={30}
+          step={0.5}
+          value={this.state.inKindAmount}
+          onChange={(next) => this.applyBudgetSet({ inKindAmount: next })}
+        />
+      );
+    }
+
+    return (
+      <>
+        <div>
+          <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 6 }}>Budget set</div>
+          <select
+            value={kind}
+            onChange={(e) => {
+              const raw = e.currentTarget.value;
+              if (isBudgetSetKind(raw)) {
+                this.applyBudgetSet({ budgetSetKind: raw });
+              }
+            }}
+            style={{ width: "100%" }}
+          >
+            {BUDGET_SET_KINDS.map((k) => (
+              <option key={`budget-set-${k}`} value={k}>
+                {budgetSetLabel(k)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {sliders}
+      </>
+    );
+  }
+
+  // ----------------------------------------------------------
+  // renderUtilityShapeSliders：只有 CES / Stone-Geary 需要額外的形狀參數
+  // ----------------------------------------------------------
+  private renderUtilityShapeSliders() {
+    if (this.state.utility === "ces") {
+      return (
+        <ControlledSlider
+          label="ρ (CES substitution)"
+          min={-5}
+          max={0.9}
+          step={0.05}
+          value={this.state.rho}
+          onChange={(nextRho) => {
+            this.setState({ rho: nextRho });
+            this.controller.onRhoChange(nextRho);
+          }}
+        />
+      );
+    }
+
+    if (this.state.utility === "stoneGeary") {
+      return (
+        <>
+          <ControlledSlider
+            label="x̄ (subsistence x)"
+            min={0}
+            max={10}
+            step={0.5}
+            value={this.state.xBar}
+            onChange={(nextXBar) => {
+              this.setState({ xBar: nextXBar });
+              this.controller.onSubsistenceChange(nextXBar, this.state.yBar);
+            }}
+          />
+          <ControlledSlider
+            label="ȳ (subsistence y)"
+            min={0}
+            max={10}
+            step={0.5}
+            value={this.state.yBar}
+            onChange={(nextYBar) => {
+              this.setState({ yBar: nextYBar });
+              this.controller.onSubsistenceChange(this.state.xBar, nextYBar);
+            }}
+          />
+        </>
+      );
+    }
+
+    return null;
+  }
+
+  // ----------------------------------------------------------
+  // renderConsumerControls：消費者圖專屬的控制項
+  // - 效用函數家族（下拉選單）+ 形狀參數
+  // - 預算線 / 無異曲線顏色
+  // - 模型參數 sliders（I, a, px, py）
+  // ----------------------------------------------------------
+  private renderConsumerControls() {
+    return (
+      <>
+        {/* 效用函數家族 */}
+        <div>
+          <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 6 }}>Utility function</div>
+          <select
+            value={this.state.utility}
+            onChange={this.handleUtilityKindChange}
+            style={{ width: "100%" }}
+          >
+            {UTILITY_KINDS.map((kind) => (
+              <option key={`utility-${kind}`} value={kind}>
+                {getUtilityFunction(kind).label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* 線段顏色（線與方程式標籤會一起變色） */}
+        <div style={{ display: "flex", gap: 12 }}>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            Budget color
+            <input
+              type="color"
+              value={this.state.budgetColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ budgetColor: c });
+                this.controller.setBudgetColor(c);
+              }}
+            />
+          </label>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            Indiff color
+            <input
+              type="color"
+              value={this.state.indiffColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ indiffColor: c });
+                this.controller.setIndiffColor(c);
+              }}
+            />
+          </label>
+        </div>
+
+        {/* 模型參數 sliders */}
+        <ControlledSlider
+          label="Income I"
+          min={5}
+          max={60}
+          value={this.state.I}
+          onChange={(nextI) => {
+            this.setState({ I: nextI });
+            this.controller.onIncomeChange(nextI);
+          }}
+        />
+
+        <ControlledSlider
+          label="a (weight on x)"
+          min={0.1}
+          max={0.9}
+          step={0.01}
+          value={Number(this.state.a.toFixed(2))}
+          onChange={(nextA) => {
+            this.setState({ a: nextA });
+            this.controller.onAlphaChange(nextA);
+          }}
+        />
+
+        {/* 拖曳 opt 點的意義 */}
+        <div>
+          <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 6 }}>Drag optimum</div>
+          <select
+            value={this.state.optDragMode}
+            onChange={(e) => {
+              const raw = e.currentTarget.value;
+              if (isOptDragMode(raw)) {
+                this.setState({ optDragMode: raw });
+                this.controller.setOptDragMode(raw);
+              }
+            }}
+            style={{ width: "100%" }}
+          >
+            {OPT_DRAG_MODES.map((m) => (
+              <option key={`opt-drag-${m.id}`} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <ControlledSlider
+          label="Price px"
+          value={this.state.px}
+          min={0.1}
+          max={5}
+          step={0.1}
+          onChange={(nextPx) => {
+            this.setState({ px: nextPx });
+            this.controller.onPxChange(nextPx);
+          }}
+        />
+
+        {/* Slutsky 分解：勾選當下的 px 作為原價格，之後移動 px slider 比較 */}
+        {/* 只在一般預算線下比較（controller 在非線性預算集合時不畫），所以這裡一起停用 */}
+        <label style={{ display: "block" }}>
+          <input
+            type="checkbox"
+            checked={this.state.slutskyMode}
+            disabled={this.state.budgetSetKind !== "linear"}
+            onChange={(e) => {
+              const v = e.currentTarget.checked;
+              this.setState({ slutskyMode: v });
+              this.controller.setSlutskyMode(v);
+            }}
+          />
+          {" "}Slutsky 分解（以目前 px 為原價格，拖 px 看 SE / IE）
+        </label>
+
+        {/* CV / EV：同樣以勾選當下的 px 為原價格（和 Slutsky 同時開時共用） */}
+        <label style={{ display: "block" }}>
+          <input
+            type="checkbox"
+            checked={this.state.welfareMode}
+            disabled={this.state.budgetSetKind !== "linear"}
+            onChange={(e) => {
+              const v = e.currentTarget.checked;
+              this.setState({ welfareMode: v });
+              this.controller.setWelfareMode(v);
+            }}
+          />
+          {" "}CV / EV（補償變量 / 等價變量）
+        </label>
+        {this.state.budgetSetKind !== "linear" ? (
+          <div style={{ fontSize: 12, color: "#666" }}>
+            Slutsky / CV-EV 只適用於一般預算線（目前的預算集合有折點）
+          </div>
+        ) : null}
+
+        {/* 需求曲線面板：顯示在消費者圖下方，共用 x 軸 */}
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={this.state.showDemandPanel}
+              onChange={(e) => this.setState({ showDemandPanel: e.currentTarget.checked })}
+            />
+            {" "}顯示需求曲線面板
+          </label>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            Demand color
+            <input
+              type="color"
+              value={this.state.demandColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ demandColor: c });
+                this.demandController.setDemandColor(c);
+              }}
+            />
+          </label>
+        </div>
+
+        <ControlledSlider
+          label="Price py"
+          value={this.state.py}
+          min={0.1}
+          max={5}
+          step={0.1}
+          onChange={(nextPy) => {
+            this.setState({ py: nextPy });
+            this.controller.onPyChange(nextPy);
+          }}
+        />
+
+        {this.renderUtilityShapeSliders()}
+
+        {this.renderBudgetSetControls()}
+
+        {this.renderSweepControls()}
+
+        {/* Engel 曲線面板：I vs. x*，拖 Income slider 看點移動 */}
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={this.state.showEngelPanel}
+              onChange={(e) => this.setState({ showEngelPanel: e.currentTarget.checked })}
+            />
+            {" "}顯示 Engel 曲線面板
+          </label>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            Engel color
+            <input
+              type="color"
+              value={this.state.engelColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ engelColor: c });
+                this.engelController.setEngelColor(c);
+              }}
+            />
+          </label>
+        </div>
+      </>
+    );
+  }
+
+  // ----------------------------------------------------------
+  // renderSweepControls：PCC / ICC overlay 的控制項
+  // - 勾選顯示 + 掃描範圍 sliders + 顏色
+  // - 「一族」預算線 / 無異曲線（淡淡地畫）與條數
+  // ----------------------------------------------------------
+  private renderSweepControls() {
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+        <div style={{ fontSize: 12, opacity: 0.8 }}>Comparative statics overlays</div>
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={this.state.showPcc}
+              onChange={(e) => {
+                const v = e.currentTarget.checked;
+                this.setState({ showPcc: v });
+                this.controller.setShowPcc(v);
+              }}
+            />
+            {" "}PCC（掃 px）
+          </label>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            PCC color
+            <input
+              type="color"
+              value={this.state.pccColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ pccColor: c });
+                this.controller.setPccColor(c);
+              }}
+            />
+          </label>
+        </div>
+
+        {this.state.showPcc ? (
+          <>
+            <ControlledSlider
+              label="PCC px from"
+              min={0.1}
+              max={5}
+              step={0.1}
+              value={this.state.pccMin}
+              onChange={(next) => {
+                this.setState({ pccMin: next });
+                this.controller.setPccRange(next, this.state.pccMax);
+              }}
+            />
+            <ControlledSlider
+              label="PCC px to"
+              min={0.1}
+              max={5}
+              step={0.1}
+              value={this.state.pccMax}
+              onChange={(next) => {
+                this.setState({ pccMax: next });
+                this.controller.setPccRange(this.state.pccMin, next);
+              }}
+            />
+          </>
+        ) : null}
+
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={this.state.showIcc}
+              onChange={(e) => {
+                const v = e.currentTarget.checked;
+                this.setState({ showIcc: v });
+                this.controller.setShowIcc(v);
+              }}
+            />
+            {" "}ICC（掃 I）
+          </label>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            ICC color
+            <input
+              type="color"
+              value={this.state.iccColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ iccColor: c });
+                this.controller.setIccColor(c);
+              }}
+            />
+          </label>
+        </div>
+
+        {this.state.showIcc ? (
+          <>
+            <ControlledSlider
+              label="ICC I from"
+              min={1}
+              max={60}
+              value={this.state.iccMin}
+              onChange={(next) => {
+                this.setState({ iccMin: next });
+                this.controller.setIccRange(next, this.state.iccMax);
+              }}
+            />
+            <ControlledSlider
+              label="ICC I to"
+              min={1}
+              max={60}
+              value={this.state.iccMax}
+              onChange={(next) => {
+                this.setState({ iccMax: next });
+                this.controller.setIccRange(this.state.iccMin, next);
+              }}
+            />
+          </>
+        ) : null}
+
+        <label>
+          <input
+            type="checkbox"
+            checked={this.state.showOverlayFamily}
+            onChange={(e) => {
+              const v = e.currentTarget.checked;
+              this.setState({ showOverlayFamily: v });
+              this.controller.setShowOverlayFamily(v);
+            }}
+          />
+          {" "}畫出每一步的預算線與相切無異曲線（淡色）
+        </label>
+
+        {this.state.showOverlayFamily ? (
+          <ControlledSlider
+            label="Steps"
+            min={2}
+            max={12}
+            value={this.state.overlaySteps}
+            onChange={(next) => {
+              this.setState({ overlaySteps: next });
+              this.controller.setOverlaySteps(next);
+            }}
+          />
+        ) : null}
+      </div>
+    );
+  }
+
+
   // ----------------------------------------------------------
   // render：渲染 UI
   // - 左側：slider 控制
@@ -365,7 +2236,39 @@ export default class AppView extends React.Component<
               左側：所有控制項統一放這裡
              ----------------------------- */}
           <div style={{ width: 340, display: "flex", flexDirection: "column", gap: 14 }}>
-            <h3 style={{ margin: 0 }}>Controls Panel</h3>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <h3 style={{ margin: 0, flex: 1 }}>Controls Panel</h3>
+              <button
+                onClick={this.handleUndoClick}
+                disabled={!this.state.canUndo}
+                title="Undo (Ctrl+Z)"
+              >
+                Undo
+              </button>
+              <button
+                onClick={this.handleRedoClick}
+                disabled={!this.state.canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                Redo
+              </button>
+            </div>
+
+            {/* 圖的種類 */}
+            <div>
+              <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 6 }}>Graph</div>
+              <select
+                value={this.state.graphKind}
+                onChange={this.handleGraphKindChange}
+                style={{ width: "100%" }}
+              >
+                <option value="consumer">{GRAPH_DEFAULTS.consumer.label}</option>
+                <option value="producer">{GRAPH_DEFAULTS.producer.label}</option>
+                <option value="market">{GRAPH_DEFAULTS.market.label}</option>
+                <option value="monopoly">{GRAPH_DEFAULTS.monopoly.label}</option>
+                <option value="costs">{GRAPH_DEFAULTS.costs.label}</option>
+              </select>
+            </div>
 
             {/* -------------------------
                顯示控制（需求1）
@@ -380,12 +2283,25 @@ export default class AppView extends React.Component<
                   onChange={(e) => {
                     const v = e.currentTarget.checked;
                     this.setState({ showEquationLabels: v });
-                    this.controller.setShowEquationLabels(v);
+                    this.forEachSceneController((c) => c.setShowEquationLabels(v));
                   }}
                 />
                 {" "}顯示方程式文字標籤
               </label>
 
+              <label style={{ display: "block", marginBottom: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={this.state.useLatexLabels}
+                  onChange={(e) => {
+                    const v = e.currentTarget.checked;
+                    this.setState({ useLatexLabels: v });
+                    this.forEachSceneController((c) => c.setUseLatexLabels(v));
+                  }}
+                />
+                {" "}方程式用 LaTeX 排版（MathJax）
+              </label>
+
               <label style={{ display: "block", marginBottom: 6 }}>
                 <input
                   type="checkbox"
@@ -393,7 +2309,7 @@ export default class AppView extends React.Component<
                   onChange={(e) => {
                     const v = e.currentTarget.checked;
                     this.setState({ showOpt: v });
-                    this.controller.setShowOpt(v);
+                    this.forEachOptController((c) => c.setShowOpt(v));
                   }}
                 />
                 {" "}顯示 Opt（點 + 文字）
@@ -441,7 +2357,7 @@ export default class AppView extends React.Component<
                 value={this.state.equationFontSize}
                 onChange={(next) => {
                   this.setState({ equationFontSize: next });
-                  this.controller.setEquationFontSize(next);
+                  this.forEachSceneController((c) => c.setEquationFontSize(next));
                 }}
               />
 
@@ -473,9 +2389,23 @@ export default class AppView extends React.Component<
                 onChange={(e) => this.setState({ exportFileName: e.currentTarget.value })}
                 style={{ width: "100%" }}
               />
-              <button onClick={this.handleExportClick} style={{ marginTop: 8 }}>
-                Export SVG
-              </button>
+              {this.renderExportControls()}
+            </div>
+
+            {/* 存檔 / 讀檔：整張圖的狀態（參數、顏色、標籤位置、顯示設定） */}
+            <div>
+              <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 6 }}>Figure document</div>
+              <div style={{ display: "flex", gap: 8 }}>
+                <button onClick={this.handleSaveFigureClick}>Save figure (.json)</button>
+                <button onClick={this.handleLoadFigureClick}>Load figure…</button>
+                <input
+                  ref={this.figureFileRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={this.handleFigureFileChange}
+                  style={{ display: "none" }}
+                />
+              </div>
             </div>
 
             {/* 軸變數名稱 */}
@@ -549,35 +2479,6 @@ export default class AppView extends React.Component<
               </div>
             </div>
 
-            {/* 線段顏色（線與方程式標籤會一起變色） */}
-            <div style={{ display: "flex", gap: 12 }}>
-              <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                Budget color
-                <input
-                  type="color"
-                  value={this.state.budgetColor}
-                  onChange={(e) => {
-                    const c = e.currentTarget.value;
-                    this.setState({ budgetColor: c });
-                    this.controller.setBudgetColor(c);
-                  }}
-                />
-              </label>
-
-              <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                Indiff color
-                <input
-                  type="color"
-                  value={this.state.indiffColor}
-                  onChange={(e) => {
-                    const c = e.currentTarget.value;
-                    this.setState({ indiffColor: c });
-                    this.controller.setIndiffColor(c);
-                  }}
-                />
-              </label>
-            </div>
-            
              {/* ✅（需求3）Opt 顏色 */}
             <div style={{ display: "flex", gap: 12 }}>
               <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
@@ -588,7 +2489,7 @@ export default class AppView extends React.Component<
                   onChange={(e) => {
                     const c = e.currentTarget.value;
                     this.setState({ optPointColor: c });
-                    this.controller.setOptPointColor(c);
+                    this.forEachOptController((ctrl) => ctrl.setOptPointColor(c));
                   }}
                 />
               </label>
@@ -601,60 +2502,25 @@ export default class AppView extends React.Component<
                   onChange={(e) => {
                     const c = e.currentTarget.value;
                     this.setState({ optTextColor: c });
-                    this.controller.setOptTextColor(c);
+                    this.forEachOptController((ctrl) => ctrl.setOptTextColor(c));
                   }}
                 />
               </label>
             </div>
 
 
-            {/* 模型參數 sliders */}
-            <ControlledSlider
-              label="Income I"
-              min={5}
-              max={60}
-              value={this.state.I}
-              onChange={(nextI) => {
-                this.setState({ I: nextI });
-                this.controller.onIncomeChange(nextI);
-              }}
-            />
-
-            <ControlledSlider
-              label="a (x exponent)"
-              min={0.1}
-              max={0.9}
-              step={0.01}
-              value={Number(this.state.a.toFixed(2))}
-              onChange={(nextA) => {
-                this.setState({ a: nextA });
-                this.controller.onAlphaChange(nextA);
-              }}
-            />
-
-            <ControlledSlider
-              label="Price px"
-              value={this.state.px}
-              min={0.1}
-              max={5}
-              step={0.1}
-              onChange={(nextPx) => {
-                this.setState({ px: nextPx });
-                this.controller.onPxChange(nextPx);
-              }}
-            />
-
-            <ControlledSlider
-              label="Price py"
-              value={this.state.py}
-              min={0.1}
-              max={5}
-              step={0.1}
-              onChange={(nextPy) => {
-                this.setState({ py: nextPy });
-                this.controller.onPyChange(nextPy);
-              }}
-            />
+            {/* 圖專屬的控制項（顏色 + 模型參數 sliders） */}
+            {this.state.graphKind === "producer" ? (
+              <ProducerOptPanel controller={this.producerController} />
+            ) : this.state.graphKind === "market" ? (
+              <MarketPanel controller={this.marketController} />
+            ) : this.state.graphKind === "monopoly" ? (
+              <MonopolyPanel controller={this.monopolyController} />
+            ) : this.state.graphKind === "costs" ? (
+              <CostCurvesPanel controller={this.costCurvesController} />
+            ) : (
+              this.renderConsumerControls()
+            )}
           </div>
 
           {/* -----------------------------
@@ -662,8 +2528,9 @@ export default class AppView extends React.Component<
              ----------------------------- */}
           <div>
             <ConsumerOptGraphView
+              key={this.state.graphKind}
               ref={this.graphRef}
-              controller={this.controller}
+              controller={this.getActiveController()}
               ticks={this.state.ticks}
               tickVisibility={tickVisibility}
               xLabel={this.state.xLabel}
@@ -674,6 +2541,60 @@ export default class AppView extends React.Component<
               showChartTitle={this.state.showChartTitle}
               chartTitleFontSize={this.state.chartTitleFontSize}
             />
+
+            {/* 需求曲線面板：和上圖同寬、同 x 範圍，所以 x 軸會對齊 */}
+            {this.state.graphKind === "consumer" && this.state.showDemandPanel ? (
+              <div style={{ marginTop: 8 }}>
+                <ConsumerOptGraphView
+                  controller={this.demandController}
+                  ticks={this.state.ticks}
+                  tickVisibility={tickVisibility}
+                  xLabel={this.state.xLabel}
+                  yLabel="px"
+                  showXLabel={this.state.showXLabel}
+                  showYLabel={this.state.showYLabel}
+                  chartTitle="Demand for x"
+                  showChartTitle={this.state.showChartTitle}
+                  chartTitleFontSize={this.state.chartTitleFontSize}
+                />
+              </div>
+            ) : null}
+
+            {/* Engel 曲線面板：垂直軸 I、水平軸 x* */}
+            {this.state.graphKind === "consumer" && this.state.showEngelPanel ? (
+              <div style={{ marginTop: 8 }}>
+                <ConsumerOptGraphView
+                  controller={this.engelController}
+                  ticks={this.state.ticks}
+                  tickVisibility={tickVisibility}
+                  xLabel={this.state.xLabel}
+                  yLabel="I"
+                  showXLabel={this.state.showXLabel}
+                  showYLabel={this.state.showYLabel}
+                  chartTitle="Engel curve for x"
+                  showChartTitle={this.state.showChartTitle}
+                  chartTitleFontSize={this.state.chartTitleFontSize}
+                />
+              </div>
+            ) : null}
+
+            {/* 總成本面板：和上面的單位成本圖同寬、同 Q 範圍 */}
+            {this.state.graphKind === "costs" ? (
+              <div style={{ marginTop: 8 }}>
+                <ConsumerOptGraphView
+                  controller={this.totalCostController}
+                  ticks={this.state.ticks}
+                  tickVisibility={tickVisibility}
+                  xLabel={this.state.xLabel}
+                  yLabel="Cost"
+                  showXLabel={this.state.showXLabel}
+                  showYLabel={this.state.showYLabel}
+                  chartTitle="Total cost"
+                  showChartTitle={this.state.showChartTitle}
+                  chartTitleFontSize={this.state.chartTitleFontSize}
+                />
+              </div>
+            ) : null}
           </div>
         </div>
       </div>
@@ -0,0 +1,183 @@
+// src/app/CostCurvesPanel.tsx
+
+// ------------------------------------------------------------
+// CostCurvesPanel：成本曲線圖的控制面板（React class component）
+// - 短期成本 (F, a, b, c) 的 slider
+// - 長期：規模效果 sigma、工廠規模數、LRAC 開關
+// - 曲線顏色（TC 面板沿用 ATC / AVC / AFC 的顏色）
+// - 顯示歇業點、損益兩平點、最小效率規模
+//
+// 和 MonopolyPanel 的做法一樣：單一真實來源放在 Model，
+// 這裡只把 Model 的值映射到 UI。
+// ------------------------------------------------------------
+
+import React from "react";
+
+import {
+  CostCurvesController,
+  type CostCurveColorKey,
+  type CostParam,
+} from "../MVC/controller/CostCurvesController";
+import type { CostParams } from "../MVC/model/CostCurvesModel";
+import { ControlledSlider } from "../common/ControlledSlider";
+
+type Props = {
+  controller: CostCurvesController;
+};
+
+type State = {
+  params: CostParams;
+  colors: Record<CostCurveColorKey, string>;
+  showLongRun: boolean;
+  plantCount: number;
+};
+
+// slider 設定：短期一組、長期一組
+const SHORT_RUN_SLIDERS: { param: CostParam; label: string; min: number; max: number; step: number }[] = [
+  { param: "F", label: "Fixed cost (F)", min: 0, max: 100, step: 1 },
+  { param: "a", label: "Linear term (a)", min: 0.1, max: 30, step: 0.1 },
+  { param: "b", label: "Quadratic term (b)", min: 0, max: 6, step: 0.05 },
+  { param: "c", label: "Cubic term (c)", min: 0.01, max: 1, step: 0.01 },
+];
+
+const LONG_RUN_SLIDERS: { param: CostParam; label: string; min: number; max: number; step: number }[] = [
+  { param: "sigma", label: "Cost of off-scale plants (σ)", min: 0, max: 1, step: 0.01 },
+];
+
+const CURVE_COLOR_LABELS: { curve: CostCurveColorKey; label: string }[] = [
+  { curve: "mc", label: "MC" },
+  { curve: "atc", label: "ATC / TC" },
+  { curve: "avc", label: "AVC / TVC" },
+  { curve: "afc", label: "AFC / TFC" },
+  { curve: "lrac", label: "LRAC" },
+];
+
+export class CostCurvesPanel extends React.Component<Props, State> {
+  constructor(props: Props) {
+    super(props);
+
+    const longRun = props.controller.getLongRunOptions();
+    this.state = {
+      params: props.controller.getModelParamsSnapshot(),
+      colors: props.controller.getCurveColors(),
+      showLongRun: longRun.showLongRun,
+      plantCount: longRun.plantCount,
+    };
+
+    this.handleParamsFromController = this.handleParamsFromController.bind(this);
+  }
+
+  // mounted 後才訂閱，並立刻對齊 model params
+  componentDidMount() {
+    this.props.controller.subscribe(this.handleParamsFromController);
+    this.handleParamsFromController();
+  }
+
+  componentWillUnmount() {
+    this.props.controller.unsubscribe(this.handleParamsFromController);
+  }
+
+  // controller 通知「scene 更新」時，把最新的參數（與讀檔後的顏色 / 開關）同步回 UI
+  private handleParamsFromController() {
+    const longRun = this.props.controller.getLongRunOptions();
+    this.setState({
+      params: this.props.controller.getModelParamsSnapshot(),
+      colors: this.props.controller.getCurveColors(),
+      showLongRun: longRun.showLongRun,
+      plantCount: longRun.plantCount,
+    });
+  }
+
+  private renderSliders(
+    title: string,
+    sliders: { param: CostParam; label: string; min: number; max: number; step: number }[]
+  ) {
+    const controller = this.props.controller;
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+        <div style={{ fontWeight: 600 }}>{title}</div>
+        {sliders.map((cfg) => (
+          <ControlledSlider
+            key={`costs-${cfg.param}`}
+            label={cfg.label}
+            min={cfg.min}
+            max={cfg.max}
+            step={cfg.step}
+            value={this.state.params[cfg.param]}
+            onChange={(next) => controller.onParamChange(cfg.param, next)}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  // 歇業點 / 損益兩平點（一行一個事實）
+  private describeOutcome(): string[] {
+    const controller = this.props.controller;
+    const f = (v: number) => v.toFixed(2);
+    const sd = controller.getShutdown();
+    const be = controller.getBreakEven();
+    const lines = [
+      `Shutdown: P = min AVC = ${f(sd.y)} at Q = ${f(sd.x)}`,
+      `Break-even: P = min ATC = ${f(be.y)} at Q = ${f(be.x)}`,
+    ];
+    // 偏離基準工廠只會讓單位成本變高，所以 LRAC 的最低點就是基準工廠的 ATC 最低點
+    if (this.state.showLongRun) {
+      lines.push(`Minimum efficient scale: Q = ${f(be.x)} (LRAC = ${f(be.y)})`);
+    }
+    return lines;
+  }
+
+  render() {
+    const controller = this.props.controller;
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+        <div style={{ padding: 10, border: "1px solid #eee", borderRadius: 8 }}>
+          {this.renderSliders("Short-run costs", SHORT_RUN_SLIDERS)}
+        </div>
+
+        <div style={{ padding: 10, border: "1px solid #eee", borderRadius: 8, display: "flex", flexDirection: "column", gap: 14 }}>
+          <label style={{ display: "block", fontWeight: 600 }}>
+            <input
+              type="checkbox"
+              checked={this.state.showLongRun}
+              onChange={(e) => controller.setShowLongRun(e.currentTarget.checked)}
+            />{" "}
+            Long run (LRAC envelope)
+          </label>
+          {this.state.showLongRun && this.renderSliders("Plant sizes", LONG_RUN_SLIDERS)}
+          {this.state.showLongRun && (
+            <ControlledSlider
+              label="Number of plant sizes"
+              min={1}
+              max={7}
+              step={1}
+              value={this.state.plantCount}
+              onChange={(next) => controller.setPlantCount(next)}
+            />
+          )}
+        </div>
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          {CURVE_COLOR_LABELS.map((item) => (
+            <label key={`costs-color-${item.curve}`} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              {item.label}
+              <input
+                type="color"
+                value={this.state.colors[item.curve]}
+                onChange={(e) => controller.setCurveColor(item.curve, e.currentTarget.value)}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+          {this.describeOutcome().map((line, i) => (
+            <div key={`costs-line-${i}`}>{line}</div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+}
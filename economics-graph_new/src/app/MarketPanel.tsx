@@ -0,0 +1,375 @@
+// src/app/MarketPanel.tsx
+
+// ------------------------------------------------------------
+// MarketPanel：供需市場圖的控制面板（React class component）
+// - 需求 / 供給各一組：顏色、曲線種類、參數 slider、水平移動 slider
+// - 顯示目前的均衡 Q* / P*
+// - 市場干預：種類 + 參數 slider + 干預後的數量 / 價格 / 稅負歸宿
+// - 福利分析：CS / PS / Gov / DWL 各自的開關、顏色、面積
+//
+// 和 ProducerOptPanel 的做法一樣：單一真實來源放在 Model，
+// 這裡只把 Model 的值映射到 UI。
+// ------------------------------------------------------------
+
+import React from "react";
+
+import {
+  MarketController,
+  type MarketCurveParam,
+  type MarketInterventionParam,
+} from "../MVC/controller/MarketController";
+import { ControlledSlider } from "../common/ControlledSlider";
+import {
+  MARKET_CURVE_KINDS,
+  MARKET_INTERVENTION_KINDS,
+  WELFARE_REGIONS,
+  isMarketCurveKind,
+  isMarketInterventionKind,
+  marketCurveLabel,
+  marketInterventionLabel,
+  welfareLabel,
+  type MarketCurve,
+  type MarketIntervention,
+  type MarketInterventionResult,
+  type MarketSide,
+  type WelfareRegion,
+} from "../lib/market";
+
+type Props = {
+  controller: MarketController;
+};
+
+type State = {
+  demand: MarketCurve;
+  supply: MarketCurve;
+
+  demandColor: string;
+  supplyColor: string;
+
+  equilibrium: { x: number; y: number } | null;
+
+  intervention: MarketIntervention;
+  interventionResult: MarketInterventionResult | null;
+
+  showWelfare: Record<WelfareRegion, boolean>;
+  welfareColors: Record<WelfareRegion, string>;
+  welfareAreas: Record<WelfareRegion, number> | null;
+};
+
+// 每種干預用哪個參數（none 沒有參數）
+const INTERVENTION_SLIDERS: Record<
+  MarketInterventionParam,
+  { label: string; min: number; max: number; step: number }
+> = {
+  tax: { label: "Tax per unit (t)", min: 0, max: 10, step: 0.25 },
+  subsidy: { label: "Subsidy per unit (s)", min: 0, max: 10, step: 0.25 },
+  ceiling: { label: "Price ceiling", min: 0, max: 30, step: 0.25 },
+  floor: { label: "Price floor", min: 0, max: 30, step: 0.25 },
+  quota: { label: "Quota (max quantity)", min: 0, max: 30, step: 0.25 },
+};
+
+// 面板上的完整名稱（圖上的標籤用縮寫）
+const WELFARE_NAMES: Record<WelfareRegion, string> = {
+  cs: "Consumer surplus",
+  ps: "Producer surplus",
+  gov: "Government revenue",
+  dwl: "Deadweight loss",
+};
+
+// 每個參數的 slider 設定（需求 / 供給的截距範圍不同）
+const SLIDERS: Record<MarketSide, Record<MarketCurveParam, { label: string; min: number; max: number; step: number }>> = {
+  demand: {
+    intercept: { label: "Intercept (max price)", min: 1, max: 30, step: 0.5 },
+    slope: { label: "Slope |dP/dQ|", min: 0.1, max: 5, step: 0.05 },
+    scale: { label: "Scale (Q at P = 1)", min: 1, max: 100, step: 1 },
+    elasticity: { label: "Price elasticity |ε|", min: 0.2, max: 3, step: 0.05 },
+    shift: { label: "Shift (ΔQ)", min: -10, max: 10, step: 0.5 },
+  },
+  supply: {
+    intercept: { label: "Intercept (min price)", min: 0, max: 20, step: 0.5 },
+    slope: { label: "Slope dP/dQ", min: 0.1, max: 5, step: 0.05 },
+    scale: { label: "Scale (Q at P = 1)", min: 0.5, max: 50, step: 0.5 },
+    elasticity: { label: "Price elasticity ε", min: 0.2, max: 3, step: 0.05 },
+    shift: { label: "Shift (ΔQ)", min: -10, max: 10, step: 0.5 },
+  },
+};
+
+export class MarketPanel extends React.Component<Props, State> {
+  constructor(props: Props) {
+    super(props);
+
+    const params = props.controller.getModelParamsSnapshot();
+    const colors = props.controller.getLineColors();
+    const welfare = props.controller.getWelfareOptions();
+    this.state = {
+      demand: params.demand,
+      supply: params.supply,
+
+      demandColor: colors.demand,
+      supplyColor: colors.supply,
+
+      equilibrium: props.controller.getEquilibrium(),
+
+      intervention: params.intervention,
+      interventionResult: props.controller.getInterventionResult(),
+
+      showWelfare: welfare.show,
+      welfareColors: welfare.colors,
+      welfareAreas: props.controller.getWelfareAreas(),
+    };
+
+    this.handleParamsFromController = this.handleParamsFromController.bind(this);
+  }
+
+  // mounted 後才訂閱，並立刻對齊 model params
+  componentDidMount() {
+    this.props.controller.subscribe(this.handleParamsFromController);
+    this.handleParamsFromController();
+  }
+
+  componentWillUnmount() {
+    this.props.controller.unsubscribe(this.handleParamsFromController);
+  }
+
+  // controller 通知「scene 更新」時，把最新的參數（與讀檔後的顏色）同步回 slider
+  private handleParamsFromController() {
+    const params = this.props.controller.getModelParamsSnapshot();
+    const colors = this.props.controller.getLineColors();
+    const welfare = this.props.controller.getWelfareOptions();
+    this.setState({
+      demand: params.demand,
+      supply: params.supply,
+      demandColor: colors.demand,
+      supplyColor: colors.supply,
+      equilibrium: this.props.controller.getEquilibrium(),
+      intervention: params.intervention,
+      interventionResult: this.props.controller.getInterventionResult(),
+      showWelfare: welfare.show,
+      welfareColors: welfare.colors,
+      welfareAreas: this.props.controller.getWelfareAreas(),
+    });
+  }
+
+  // ----------------------------------------------------------
+  // renderCurveControls：一條曲線的控制項
+  // - linear：截距 + 斜率
+  // - constantElasticity：規模 + 彈性
+  // - 兩種都有水平移動
+  // ----------------------------------------------------------
+  private renderCurveControls(side: MarketSide) {
+    const controller = this.props.controller;
+    const curve = side === "demand" ? this.state.demand : this.state.supply;
+
+    const params: MarketCurveParam[] =
+      curve.kind === "linear" ? ["intercept", "slope", "shift"] : ["scale", "elasticity", "shift"];
+
+    return (
+      <div style={{ padding: 10, border: "1px solid #eee", borderRadius: 8 }}>
+        <div style={{ display: "flex", gap: 12, alignItems: "center", marginBottom: 8 }}>
+          <div style={{ fontWeight: 600, flex: 1 }}>{side === "demand" ? "Demand" : "Supply"}</div>
+          <input
+            type="color"
+            value={side === "demand" ? this.state.demandColor : this.state.supplyColor}
+            onChange={(e) => {
+              const c = e.currentTarget.value;
+              if (side === "demand") {
+                this.setState({ demandColor: c });
+                controller.setDemandColor(c);
+              } else {
+                this.setState({ supplyColor: c });
+                controller.setSupplyColor(c);
+              }
+            }}
+          />
+        </div>
+
+        <select
+          value={curve.kind}
+          onChange={(e) => {
+            const raw = e.currentTarget.value;
+            if (isMarketCurveKind(raw)) {
+              controller.onCurveKindChange(side, raw);
+            }
+          }}
+          style={{ width: "100%", marginBottom: 10 }}
+        >
+          {MARKET_CURVE_KINDS.map((k) => (
+            <option key={`${side}-kind-${k}`} value={k}>
+              {marketCurveLabel(k)}
+            </option>
+          ))}
+        </select>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+          {params.map((param) => {
+            const cfg = SLIDERS[side][param];
+            return (
+              <ControlledSlider
+                key={`${side}-${param}`}
+                label={cfg.label}
+                min={cfg.min}
+                max={cfg.max}
+                step={cfg.step}
+                value={curve[param]}
+                onChange={(next) => controller.onCurveParamChange(side, param, next)}
+              />
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  // ----------------------------------------------------------
+  // renderInterventionControls：干預種類 + 參數 + 結果
+  // ----------------------------------------------------------
+  private renderInterventionControls() {
+    const controller = this.props.controller;
+    const iv = this.state.intervention;
+    const kind = iv.kind;
+
+    return (
+      <div style={{ padding: 10, border: "1px solid #eee", borderRadius: 8 }}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Intervention</div>
+
+        <select
+          value={kind}
+          onChange={(e) => {
+            const raw = e.currentTarget.value;
+            if (isMarketInterventionKind(raw)) {
+              controller.onInterventionKindChange(raw);
+            }
+          }}
+          style={{ width: "100%", marginBottom: 10 }}
+        >
+          {MARKET_INTERVENTION_KINDS.map((k) => (
+            <option key={`intervention-${k}`} value={k}>
+              {marketInterventionLabel(k)}
+            </option>
+          ))}
+        </select>
+
+        {kind !== "none" ? (
+          <ControlledSlider
+            key={`intervention-${kind}`}
+            label={INTERVENTION_SLIDERS[kind].label}
+            min={INTERVENTION_SLIDERS[kind].min}
+            max={INTERVENTION_SLIDERS[kind].max}
+            step={INTERVENTION_SLIDERS[kind].step}
+            value={iv[kind]}
+            onChange={(next) => controller.onInterventionParamChange(kind, next)}
+          />
+        ) : null}
+
+        {kind !== "none" ? (
+          <div style={{ fontSize: 13, marginTop: 10, display: "flex", flexDirection: "column", gap: 4 }}>
+            {this.describeIntervention().map((line, i) => (
+              <div key={`intervention-line-${i}`}>{line}</div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
+  // 干預結果的文字說明（一行一個事實）
+  private describeIntervention(): string[] {
+    const kind = this.state.intervention.kind;
+    const r = this.state.interventionResult;
+    if (!r) {
+      return ["No trade at a positive quantity."];
+    }
+    if (!r.binding) {
+      return ["Not binding: the market stays at the free-market equilibrium."];
+    }
+
+    const o = r.outcome;
+    const f = (v: number) => v.toFixed(2);
+
+    if (kind === "ceiling" || kind === "floor") {
+      const gap = Math.abs(r.quantityDemanded - r.quantitySupplied);
+      return [
+        `Quantity demanded = ${f(r.quantityDemanded)}, supplied = ${f(r.quantitySupplied)}`,
+        `${kind === "ceiling" ? "Shortage" : "Surplus"} = ${f(gap)}, traded = ${f(o.quantity)}`,
+      ];
+    }
+
+    const lines = [
+      `Quantity traded = ${f(o.quantity)}`,
+      `Buyers pay ${f(o.buyerPrice)}, sellers receive ${f(o.sellerPrice)}`,
+    ];
+
+    // 歸宿：買方 / 賣方各自負擔（補貼：各自拿到）楔子的幾成
+    const wedge = r.buyerBurden + r.sellerBurden;
+    if (wedge !== 0 && kind !== "quota") {
+      const buyerShare = (r.buyerBurden / wedge) * 100;
+      const verb = kind === "tax" ? "bear" : "receive";
+      lines.push(
+        `Buyers ${verb} ${f(Math.abs(r.buyerBurden))} per unit (${buyerShare.toFixed(0)}%), ` +
+          `sellers ${f(Math.abs(r.sellerBurden))} (${(100 - buyerShare).toFixed(0)}%)`
+      );
+    }
+    if (kind === "quota") {
+      lines.push(`Quota rent = ${f(o.buyerPrice - o.sellerPrice)} per unit`);
+    }
+    return lines;
+  }
+
+  // ----------------------------------------------------------
+  // renderWelfareControls：福利區域（開關 + 顏色 + 面積）
+  // ----------------------------------------------------------
+  private renderWelfareControls() {
+    const controller = this.props.controller;
+    const areas = this.state.welfareAreas;
+
+    return (
+      <div style={{ padding: 10, border: "1px solid #eee", borderRadius: 8 }}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Welfare</div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+          {WELFARE_REGIONS.map((region) => (
+            <div key={`welfare-${region}`} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <label style={{ flex: 1 }}>
+                <input
+                  type="checkbox"
+                  checked={this.state.showWelfare[region]}
+                  onChange={(e) => controller.setShowWelfareRegion(region, e.currentTarget.checked)}
+                />{" "}
+                {WELFARE_NAMES[region]} ({welfareLabel(region)})
+              </label>
+              <span style={{ fontSize: 13, minWidth: 48, textAlign: "right" }}>
+                {areas ? areas[region].toFixed(2) : "-"}
+              </span>
+              <input
+                type="color"
+                value={this.state.welfareColors[region]}
+                onChange={(e) => controller.setWelfareColor(region, e.currentTarget.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  render() {
+    const eq = this.state.equilibrium;
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+        {this.renderCurveControls("demand")}
+        {this.renderCurveControls("supply")}
+
+        <div style={{ fontSize: 13 }}>
+          {eq
+            ? `Equilibrium: Q* = ${eq.x.toFixed(2)}, P* = ${eq.y.toFixed(2)}`
+            : "No equilibrium with positive quantity."}
+        </div>
+
+        {this.renderInterventionControls()}
+
+        {this.renderWelfareControls()}
+      </div>
+    );
+  }
+}
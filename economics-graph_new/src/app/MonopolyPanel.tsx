@@ -0,0 +1,181 @@
+// src/app/MonopolyPanel.tsx
+
+// ------------------------------------------------------------
+// MonopolyPanel：獨占訂價圖的控制面板（React class component）
+// - 需求 (a, b)、成本 (F, c, d) 的 slider
+// - 四條曲線的顏色、利潤 / DWL 區域的開關
+// - 顯示獨占解 Q_m / P_m、利潤、競爭解、DWL
+//
+// 和 MarketPanel 的做法一樣：單一真實來源放在 Model，
+// 這裡只把 Model 的值映射到 UI。
+// ------------------------------------------------------------
+
+import React from "react";
+
+import { MonopolyController, type MonopolyParam } from "../MVC/controller/MonopolyController";
+import { ControlledSlider } from "../common/ControlledSlider";
+import type { MonopolyCurve, MonopolyParams } from "../lib/monopoly";
+
+type Props = {
+  controller: MonopolyController;
+};
+
+type State = {
+  params: MonopolyParams;
+  colors: Record<MonopolyCurve, string>;
+  showProfit: boolean;
+  showDwl: boolean;
+};
+
+// slider 設定：需求一組、成本一組
+const DEMAND_SLIDERS: { param: MonopolyParam; label: string; min: number; max: number; step: number }[] = [
+  { param: "a", label: "Demand intercept (a)", min: 1, max: 50, step: 0.5 },
+  { param: "b", label: "Demand slope (b)", min: 0.1, max: 5, step: 0.05 },
+];
+
+const COST_SLIDERS: { param: MonopolyParam; label: string; min: number; max: number; step: number }[] = [
+  { param: "F", label: "Fixed cost (F)", min: 0, max: 100, step: 1 },
+  { param: "c", label: "MC intercept (c)", min: 0, max: 30, step: 0.5 },
+  { param: "d", label: "Cost curvature (d, MC slope = 2d)", min: 0, max: 5, step: 0.05 },
+];
+
+const CURVE_COLOR_LABELS: { curve: MonopolyCurve; label: string }[] = [
+  { curve: "demand", label: "D" },
+  { curve: "mr", label: "MR" },
+  { curve: "mc", label: "MC" },
+  { curve: "atc", label: "ATC" },
+];
+
+export class MonopolyPanel extends React.Component<Props, State> {
+  constructor(props: Props) {
+    super(props);
+
+    const areas = props.controller.getAreaOptions();
+    this.state = {
+      params: props.controller.getModelParamsSnapshot(),
+      colors: props.controller.getCurveColors(),
+      showProfit: areas.showProfit,
+      showDwl: areas.showDwl,
+    };
+
+    this.handleParamsFromController = this.handleParamsFromController.bind(this);
+  }
+
+  // mounted 後才訂閱，並立刻對齊 model params
+  componentDidMount() {
+    this.props.controller.subscribe(this.handleParamsFromController);
+    this.handleParamsFromController();
+  }
+
+  componentWillUnmount() {
+    this.props.controller.unsubscribe(this.handleParamsFromController);
+  }
+
+  // controller 通知「scene 更新」時，把最新的參數（與讀檔後的顏色 / 開關）同步回 UI
+  private handleParamsFromController() {
+    const areas = this.props.controller.getAreaOptions();
+    this.setState({
+      params: this.props.controller.getModelParamsSnapshot(),
+      colors: this.props.controller.getCurveColors(),
+      showProfit: areas.showProfit,
+      showDwl: areas.showDwl,
+    });
+  }
+
+  private renderSliders(
+    title: string,
+    sliders: { param: MonopolyParam; label: string; min: number; max: number; step: number }[]
+  ) {
+    const controller = this.props.controller;
+    return (
+      <div style={{ padding: 10, border: "1px solid #eee", borderRadius: 8 }}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>{title}</div>
+        <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+          {sliders.map((cfg) => (
+            <ControlledSlider
+              key={`monopoly-${cfg.param}`}
+              label={cfg.label}
+              min={cfg.min}
+              max={cfg.max}
+              step={cfg.step}
+              value={this.state.params[cfg.param]}
+              onChange={(next) => controller.onParamChange(cfg.param, next)}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // 獨占解 / 競爭解的數值（一行一個事實）
+  private describeOutcome(): string[] {
+    const controller = this.props.controller;
+    const m = controller.getOptimum();
+    if (!m) {
+      return ["No output: the highest price buyers pay is below marginal cost."];
+    }
+    const f = (v: number) => v.toFixed(2);
+    const lines = [
+      `Monopoly: Q_m = ${f(m.Q)}, P_m = ${f(m.P)} (MR = MC = ${f(m.mc)})`,
+      `ATC at Q_m = ${f(m.atc)}, ${m.profit >= 0 ? "profit" : "loss"} = ${f(Math.abs(m.profit))}`,
+    ];
+    const comp = controller.getCompetitive();
+    if (comp) {
+      lines.push(`Competitive (P = MC): Q_c = ${f(comp.x)}, P_c = ${f(comp.y)}`);
+    }
+    const dwl = controller.getDeadweightLoss();
+    if (dwl !== null) {
+      lines.push(`Deadweight loss = ${f(dwl)}`);
+    }
+    return lines;
+  }
+
+  render() {
+    const controller = this.props.controller;
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+        {this.renderSliders("Demand", DEMAND_SLIDERS)}
+        {this.renderSliders("Costs", COST_SLIDERS)}
+
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          {CURVE_COLOR_LABELS.map((item) => (
+            <label key={`monopoly-color-${item.curve}`} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              {item.label}
+              <input
+                type="color"
+                value={this.state.colors[item.curve]}
+                onChange={(e) => controller.setCurveColor(item.curve, e.currentTarget.value)}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <label style={{ display: "block" }}>
+            <input
+              type="checkbox"
+              checked={this.state.showProfit}
+              onChange={(e) => controller.setShowProfit(e.currentTarget.checked)}
+            />{" "}
+            Shade profit / loss
+          </label>
+          <label style={{ display: "block" }}>
+            <input
+              type="checkbox"
+              checked={this.state.showDwl}
+              onChange={(e) => controller.setShowDwl(e.currentTarget.checked)}
+            />{" "}
+            Shade deadweight loss
+          </label>
+        </div>
+
+        <div style={{ fontSize: 13, display: "flex", flexDirection: "column", gap: 4 }}>
+          {this.describeOutcome().map((line, i) => (
+            <div key={`monopoly-line-${i}`}>{line}</div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,174 @@
+// src/app/ProducerOptPanel.tsx
+
+// ------------------------------------------------------------
+// ProducerOptPanel：生產者圖的控制面板（React class component）
+// - 顯示 Q / w / r / a / A 的 slider 與等成本線、等產量曲線顏色
+// - slider 改變：setState + 通知 controller
+// - 拖曳最適點改變 a：controller notify -> 這裡同步 slider
+//
+// 和 AppView 對消費者圖的做法一樣：單一真實來源放在 Model，
+// 這裡只把 Model 的值映射到 UI。
+// ------------------------------------------------------------
+
+import React from "react";
+
+import { ProducerOptController } from "../MVC/controller/ProducerOptController";
+import { ControlledSlider } from "../common/ControlledSlider";
+
+type Props = {
+  controller: ProducerOptController;
+};
+
+type State = {
+  Q: number;
+  w: number;
+  r: number;
+  a: number;
+  A: number;
+
+  isocostColor: string;
+  isoquantColor: string;
+};
+
+export class ProducerOptPanel extends React.Component<Props, State> {
+  constructor(props: Props) {
+    super(props);
+
+    const params = props.controller.getModelParamsSnapshot();
+    const colors = props.controller.getLineColors();
+    this.state = {
+      Q: params.Q,
+      w: params.w,
+      r: params.r,
+      a: params.a,
+      A: params.A,
+
+      isocostColor: colors.isocost,
+      isoquantColor: colors.isoquant,
+    };
+
+    this.handleParamsFromController = this.handleParamsFromController.bind(this);
+  }
+
+  // mounted 後才訂閱，並立刻對齊 model params
+  componentDidMount() {
+    this.props.controller.subscribe(this.handleParamsFromController);
+    this.handleParamsFromController();
+  }
+
+  componentWillUnmount() {
+    this.props.controller.unsubscribe(this.handleParamsFromController);
+  }
+
+  // controller 通知「scene 更新」時，把最新的參數（與讀檔後的顏色）同步回 slider
+  private handleParamsFromController() {
+    const params = this.props.controller.getModelParamsSnapshot();
+    const colors = this.props.controller.getLineColors();
+    this.setState({
+      Q: params.Q,
+      w: params.w,
+      r: params.r,
+      a: params.a,
+      A: params.A,
+      isocostColor: colors.isocost,
+      isoquantColor: colors.isoquant,
+    });
+  }
+
+  render() {
+    const controller = this.props.controller;
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+        {/* 線段顏色（線與方程式標籤會一起變色） */}
+        <div style={{ display: "flex", gap: 12 }}>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            Isocost color
+            <input
+              type="color"
+              value={this.state.isocostColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ isocostColor: c });
+                controller.setIsocostColor(c);
+              }}
+            />
+          </label>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            Isoquant color
+            <input
+              type="color"
+              value={this.state.isoquantColor}
+              onChange={(e) => {
+                const c = e.currentTarget.value;
+                this.setState({ isoquantColor: c });
+                controller.setIsoquantColor(c);
+              }}
+            />
+          </label>
+        </div>
+
+        {/* 模型參數 sliders */}
+        <ControlledSlider
+          label="Output Q"
+          min={1}
+          max={60}
+          value={this.state.Q}
+          onChange={(nextQ) => {
+            this.setState({ Q: nextQ });
+            controller.onOutputChange(nextQ);
+          }}
+        />
+
+        <ControlledSlider
+          label="a (L exponent)"
+          min={0.1}
+          max={0.9}
+          step={0.01}
+          value={Number(this.state.a.toFixed(2))}
+          onChange={(nextA) => {
+            this.setState({ a: nextA });
+            controller.onAlphaChange(nextA);
+          }}
+        />
+
+        <ControlledSlider
+          label="Technology A"
+          min={0.5}
+          max={3}
+          step={0.1}
+          value={this.state.A}
+          onChange={(nextTech) => {
+            this.setState({ A: nextTech });
+            controller.onTechnologyChange(nextTech);
+          }}
+        />
+
+        <ControlledSlider
+          label="Wage w"
+          min={0.1}
+          max={5}
+          step={0.1}
+          value={this.state.w}
+          onChange={(nextW) => {
+            this.setState({ w: nextW });
+            controller.onWageChange(nextW);
+          }}
+        />
+
+        <ControlledSlider
+          label="Rental r"
+          min={0.1}
+          max={5}
+          step={0.1}
+          value={this.state.r}
+          onChange={(nextR) => {
+            this.setState({ r: nextR });
+            controller.onRentalChange(nextR);
+          }}
+        />
+      </div>
+    );
+  }
+}
@@ -0,0 +1,860 @@
+// src/app/figureDocument.ts
+
+// ------------------------------------------------------------
+// FigureDocument：整張圖的「存檔格式」（JSON）
+//
+// 圖的狀態分散在好幾個地方：
+// - Model：I / a / px / py / 效用函數 ...（ConsumerOptModel / ProducerOptModel / MarketModel）
+// - Controller：顏色、Slutsky / CV-EV 的原價格、PCC / ICC、標籤拖曳 offset（labelOffsets）
+// - AppView state：刻度、標題、軸名稱、顯示開關、匯出設定
+// 存檔時由 AppView 把它們收集成一份 FigureDocument，讀檔時再分送回去。
+//
+// 版本：
+// - 每份文件都有 format + version
+// - 讀到舊版文件時，依序跑 MIGRATIONS 升級到 FIGURE_DOCUMENT_VERSION
+// - 讀到比程式還新的版本：直接拒絕（不要猜欄位意思）
+//
+// 驗證：
+// - 每個欄位都檢查型別 / 範圍，錯誤訊息帶欄位路徑（例如 consumer.params.a）
+// - 一次收集所有錯誤，不是遇到第一個就停（手改 JSON 時比較好修）
+// ------------------------------------------------------------
+
+import type { PixelOffset } from "../MVC/controller/SceneController";
+import type { ProducerParams } from "../MVC/model/ProducerOptModel";
+import { DEFAULT_MARKET_PARAMS } from "../MVC/model/MarketModel";
+import { DEFAULT_WELFARE_COLORS } from "../MVC/controller/MarketController";
+import {
+  isMarketCurveKind,
+  isMarketInterventionKind,
+  type MarketCurve,
+  type MarketIntervention,
+  type WelfareRegion,
+} from "../lib/market";
+import { DEFAULT_MONOPOLY_PARAMS } from "../MVC/model/MonopolyModel";
+import { DEFAULT_MONOPOLY_COLORS } from "../MVC/controller/MonopolyController";
+import type { MonopolyCurve, MonopolyParams } from "../lib/monopoly";
+import { DEFAULT_COST_PARAMS, type CostParams } from "../MVC/model/CostCurvesModel";
+import {
+  DEFAULT_COST_COLORS,
+  DEFAULT_PLANT_COUNT,
+  type CostCurveColorKey,
+} from "../MVC/controller/CostCurvesController";
+import { isUtilityKind, type UtilityKind } from "../lib/utility";
+import { isBudgetSetKind, type BudgetSetKind } from "../lib/budgetSet";
+import type { ExportBackground } from "../common/exportImage";
+import type { TikzFormat } from "../MVC/view/tikzExport";
+import { isPdfPageSize, type PdfPageSize } from "../common/exportPdf";
+
+export const FIGURE_DOCUMENT_FORMAT = "economics-graph/figure";
+export const FIGURE_DOCUMENT_VERSION = 6;
+
+// 哪幾個 controller 有自己的 labelOffsets
+export type LabelOffsetOwner =
+  | "consumer"
+  | "producer"
+  | "demand"
+  | "engel"
+  | "market"
+  | "monopoly"
+  | "costs"
+  | "totalCost";
+
+export const LABEL_OFFSET_OWNERS: LabelOffsetOwner[] = [
+  "consumer",
+  "producer",
+  "demand",
+  "engel",
+  "market",
+  "monopoly",
+  "costs",
+  "totalCost",
+];
+
+// ------------------------------------------------------------
+// FigureDocument（version 6）
+// - version 2：加上供需市場圖（graphKind "market" + market）
+// - version 3：市場圖的福利區域（market.welfare）
+// - version 4：市場干預（market.params.intervention）
+// - version 5：加上獨占訂價圖（graphKind "monopoly" + monopoly）
+// - version 6：加上成本曲線圖（graphKind "costs" + costs）
+// ------------------------------------------------------------
+export type FigureDocument = {
+  format: typeof FIGURE_DOCUMENT_FORMAT;
+  version: typeof FIGURE_DOCUMENT_VERSION;
+
+  graphKind: "consumer" | "producer" | "market" | "monopoly" | "costs";
+
+  consumer: {
+    params: {
+      I: number;
+      a: number;
+      px: number;
+      py: number;
+      utility: UtilityKind;
+      rho: number;
+      xBar: number;
+      yBar: number;
+    };
+
+    // 預算集合：目前的種類 + 每一種的參數（切換種類時各自保留）
+    budgetSet: {
+      kind: BudgetSetKind;
+      discountThreshold: number;
+      discountRate: number;
+      unitTax: number;
+      rationCap: number;
+      inKindAmount: number;
+    };
+
+    colors: {
+      budget: string;
+      indiff: string;
+      demand: string;
+      engel: string;
+      pcc: string;
+      icc: string;
+    };
+
+    // Slutsky / CV-EV：basePx 是「原價格」，params.px 是新價格
+    comparison: {
+      slutskyMode: boolean;
+      welfareMode: boolean;
+      basePx: number;
+    };
+
+    overlays: {
+      showPcc: boolean;
+      showIcc: boolean;
+      pccMin: number;
+      pccMax: number;
+      iccMin: number;
+      iccMax: number;
+      showOverlayFamily: boolean;
+      overlaySteps: number;
+    };
+
+    panels: {
+      showDemand: boolean;
+      showEngel: boolean;
+    };
+  };
+
+  producer: {
+    params: ProducerParams;
+    colors: {
+      isocost: string;
+      isoquant: string;
+    };
+  };
+
+  market: {
+    params: {
+      demand: MarketCurve;
+      supply: MarketCurve;
+      intervention: MarketIntervention;
+    };
+    colors: {
+      demand: string;
+      supply: string;
+    };
+
+    // CS / PS / Gov / DWL：各自的開關、顏色
+    welfare: {
+      show: Record<WelfareRegion, boolean>;
+      colors: Record<WelfareRegion, string>;
+    };
+  };
+
+  monopoly: {
+    params: MonopolyParams;
+    colors: Record<MonopolyCurve, string>;
+    showProfit: boolean;
+    showDwl: boolean;
+  };
+
+  costs: {
+    params: CostParams;
+    colors: Record<CostCurveColorKey, string>;
+    showLongRun: boolean;
+    plantCount: number;
+  };
+
+  view: {
+    ticks: number;
+    showTickLines: boolean;
+    showTickLabels: boolean;
+
+    xLabel: string;
+    yLabel: string;
+    showXLabel: boolean;
+    showYLabel: boolean;
+
+    chartTitle: string;
+    showChartTitle: boolean;
+    chartTitleFontSize: number;
+
+    showEquationLabels: boolean;
+    useLatexLabels: boolean;
+    equationFontSize: number;
+
+    showOpt: boolean;
+    optPointColor: string;
+    optTextColor: string;
+  };
+
+  export: {
+    fileName: string;
+    resolution: string;
+    background: ExportBackground;
+    tikzFormat: TikzFormat;
+    tikzStandalone: boolean;
+    tikzWidthCm: number;
+    pdfPageSize: PdfPageSize;
+    pdfWidthCm: number;
+  };
+
+  // 各 controller 的方程式標籤拖曳 offset（像素，相對於 anchor）
+  labelOffsets: Record<LabelOffsetOwner, Record<string, PixelOffset>>;
+};
+
+export type FigureDocumentResult =
+  | { ok: true; doc: FigureDocument }
+  | { ok: false; errors: string[] };
+
+// ------------------------------------------------------------
+// MIGRATIONS：舊版 -> 新版的升級函式
+// - MIGRATIONS[v] 把 version v 的文件（已 JSON.parse）轉成 version v + 1
+// - 改格式時：FIGURE_DOCUMENT_VERSION + 1，FigureDocument 改成新版，
+//   並在這裡補上「上一版 -> 新版」的函式（舊檔案就還能讀）
+// ------------------------------------------------------------
+type RawObject = Record<string, unknown>;
+
+const MIGRATIONS: Record<number, (raw: RawObject) => RawObject> = {
+  // 1 -> 2：還沒有市場圖，補上預設的供需曲線
+  1: (raw) => ({
+    ...raw,
+    market: {
+      params: {
+        demand: { ...DEFAULT_MARKET_PARAMS.demand },
+        supply: { ...DEFAULT_MARKET_PARAMS.supply },
+      },
+      colors: { demand: "#111111", supply: "#111111" },
+    },
+  }),
+
+  // 2 -> 3：還沒有福利區域，全部關閉、用預設顏色
+  2: (raw) => ({
+    ...raw,
+    market: {
+      ...(isRawObject(raw.market) ? raw.market : {}),
+      welfare: {
+        show: { cs: false, ps: false, gov: false, dwl: false },
+        colors: { ...DEFAULT_WELFARE_COLORS },
+      },
+    },
+  }),
+
+  // 3 -> 4：還沒有市場干預，補上預設值（kind = "none"）
+  3: (raw) => {
+    const market = isRawObject(raw.market) ? raw.market : {};
+    return {
+      ...raw,
+      market: {
+        ...market,
+        params: {
+          ...(isRawObject(market.params) ? market.params : {}),
+          intervention: { ...DEFAULT_MARKET_PARAMS.intervention },
+        },
+      },
+    };
+  },
+
+  // 4 -> 5：還沒有獨占圖，補上預設值
+  4: (raw) => ({
+    ...raw,
+    monopoly: {
+      params: { ...DEFAULT_MONOPOLY_PARAMS },
+      colors: { ...DEFAULT_MONOPOLY_COLORS },
+      showProfit: true,
+      showDwl: true,
+    },
+  }),
+
+  // 5 -> 6：還沒有成本曲線圖，補上預設值
+  5: (raw) => ({
+    ...raw,
+    costs: {
+      params: { ...DEFAULT_COST_PARAMS },
+      colors: { ...DEFAULT_COST_COLORS },
+      showLongRun: true,
+      plantCount: DEFAULT_PLANT_COUNT,
+    },
+  }),
+};
+
+// ------------------------------------------------------------
+// serializeFigureDocument：FigureDocument -> JSON 字串（縮排，方便 diff / 手改）
+// ------------------------------------------------------------
+export function serializeFigureDocument(doc: FigureDocument): string {
+  return JSON.stringify(doc, null, 2) + "\n";
+}
+
+// ------------------------------------------------------------
+// parseFigureDocument：JSON 字串 -> FigureDocument
+// 1) JSON.parse
+// 2) 檢查 format / version，必要時跑 migrations
+// 3) 逐欄驗證
+// ------------------------------------------------------------
+export function parseFigureDocument(text: string): FigureDocumentResult {
+  let json: unknown = null;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, errors: ["The file is not valid JSON: " + message] };
+  }
+
+  if (!isRawObject(json)) {
+    return { ok: false, errors: ["The file must contain a JSON object."] };
+  }
+  if (json.format !== FIGURE_DOCUMENT_FORMAT) {
+    return {
+      ok: false,
+      errors: [`format: expected "${FIGURE_DOCUMENT_FORMAT}", got ${describeValue(json.format)}.`],
+    };
+  }
+
+  const version = json.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { ok: false, errors: [`version: expected a positive integer, got ${describeValue(version)}.`] };
+  }
+  if (version > FIGURE_DOCUMENT_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `version: this file was saved by a newer version (${version}); ` +
+          `this app reads up to version ${FIGURE_DOCUMENT_VERSION}.`,
+      ],
+    };
+  }
+
+  // 舊版 -> 目前版本
+  let raw: RawObject = json;
+  let v = version;
+  while (v < FIGURE_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) {
+      return { ok: false, errors: [`version: no migration from version ${v}.`] };
+    }
+    raw = { ...migrate(raw), version: v + 1 };
+    v += 1;
+  }
+
+  return readFigureDocument(raw);
+}
+
+// ------------------------------------------------------------
+// readFigureDocument：逐欄驗證（錯誤收集在 reader.errors）
+// ------------------------------------------------------------
+function readFigureDocument(raw: RawObject): FigureDocumentResult {
+  const r = new DocumentReader();
+
+  const graphKind = r.choice(raw, "graphKind", "", isGraphKind, "consumer");
+
+  // ---------------------------------------------------------
+  // consumer
+  // ---------------------------------------------------------
+  const consumer = r.object(raw, "consumer", "");
+  const cParams = r.object(consumer, "params", "consumer");
+  const cBudget = r.object(consumer, "budgetSet", "consumer");
+  const cColors = r.object(consumer, "colors", "consumer");
+  const cComparison = r.object(consumer, "comparison", "consumer");
+  const cOverlays = r.object(consumer, "overlays", "consumer");
+  const cPanels = r.object(consumer, "panels", "consumer");
+
+  const paramsPath = "consumer.params";
+  const budgetPath = "consumer.budgetSet";
+  const colorsPath = "consumer.colors";
+  const comparisonPath = "consumer.comparison";
+  const overlaysPath = "consumer.overlays";
+
+  // ---------------------------------------------------------
+  // producer
+  // ---------------------------------------------------------
+  const producer = r.object(raw, "producer", "");
+  const prParams = r.object(producer, "params", "producer");
+  const prColors = r.object(producer, "colors", "producer");
+
+  // ---------------------------------------------------------
+  // market
+  // ---------------------------------------------------------
+  const market = r.object(raw, "market", "");
+  const mParams = r.object(market, "params", "market");
+  const mColors = r.object(market, "colors", "market");
+  const mWelfare = r.object(market, "welfare", "market");
+  const mWelfareShow = r.object(mWelfare, "show", "market.welfare");
+  const mWelfareColors = r.object(mWelfare, "colors", "market.welfare");
+
+  // ---------------------------------------------------------
+  // monopoly
+  // ---------------------------------------------------------
+  const monopoly = r.object(raw, "monopoly", "");
+  const moParams = r.object(monopoly, "params", "monopoly");
+  const moColors = r.object(monopoly, "colors", "monopoly");
+
+  // ---------------------------------------------------------
+  // costs
+  // ---------------------------------------------------------
+  const costs = r.object(raw, "costs", "");
+  const coParams = r.object(costs, "params", "costs");
+  const coColors = r.object(costs, "colors", "costs");
+
+  const view = r.object(raw, "view", "");
+  const exp = r.object(raw, "export", "");
+  const offsets = r.object(raw, "labelOffsets", "");
+
+  const doc: FigureDocument = {
+    format: FIGURE_DOCUMENT_FORMAT,
+    version: FIGURE_DOCUMENT_VERSION,
+    graphKind,
+
+    consumer: {
+      params: {
+        I: r.number(cParams, "I", paramsPath, { min: 0, exclusive: true }),
+        a: r.number(cParams, "a", paramsPath, { min: 0, max: 1, exclusive: true }),
+        px: r.number(cParams, "px", paramsPath, { min: 0, exclusive: true }),
+        py: r.number(cParams, "py", paramsPath, { min: 0, exclusive: true }),
+        utility: r.choice(cParams, "utility", paramsPath, isUtilityKind, "cobbDouglas"),
+        rho: r.number(cParams, "rho", paramsPath, { max: 1, exclusive: true }),
+        xBar: r.number(cParams, "xBar", paramsPath, { min: 0 }),
+        yBar: r.number(cParams, "yBar", paramsPath, { min: 0 }),
+      },
+      budgetSet: {
+        kind: r.choice(cBudget, "kind", budgetPath, isBudgetSetKind, "linear"),
+        discountThreshold: r.number(cBudget, "discountThreshold", budgetPath, { min: 0 }),
+        // 和 slider 的上限一致；折扣率 1 會讓折扣後單價變 0
+        discountRate: r.number(cBudget, "discountRate", budgetPath, { min: 0, max: 0.9 }),
+        unitTax: r.number(cBudget, "unitTax", budgetPath, { min: -1, exclusive: true }),
+        rationCap: r.number(cBudget, "rationCap", budgetPath, { min: 0 }),
+        inKindAmount: r.number(cBudget, "inKindAmount", budgetPath, { min: 0 }),
+      },
+      colors: {
+        budget: r.color(cColors, "budget", colorsPath),
+        indiff: r.color(cColors, "indiff", colorsPath),
+        demand: r.color(cColors, "demand", colorsPath),
+        engel: r.color(cColors, "engel", colorsPath),
+        pcc: r.color(cColors, "pcc", colorsPath),
+        icc: r.color(cColors, "icc", colorsPath),
+      },
+      comparison: {
+        slutskyMode: r.boolean(cComparison, "slutskyMode", comparisonPath),
+        welfareMode: r.boolean(cComparison, "welfareMode", comparisonPath),
+        basePx: r.number(cComparison, "basePx", comparisonPath, { min: 0, exclusive: true }),
+      },
+      overlays: {
+        showPcc: r.boolean(cOverlays, "showPcc", overlaysPath),
+        showIcc: r.boolean(cOverlays, "showIcc", overlaysPath),
+        pccMin: r.number(cOverlays, "pccMin", overlaysPath, { min: 0, exclusive: true }),
+        pccMax: r.number(cOverlays, "pccMax", overlaysPath, { min: 0, exclusive: true }),
+        iccMin: r.number(cOverlays, "iccMin", overlaysPath, { min: 0, exclusive: true }),
+        iccMax: r.number(cOverlays, "iccMax", overlaysPath, { min: 0, exclusive: true }),
+        showOverlayFamily: r.boolean(cOverlays, "showOverlayFamily", overlaysPath),
+        overlaySteps: r.number(cOverlays, "overlaySteps", overlaysPath, { min: 2, max: 12, integer: true }),
+      },
+      panels: {
+        showDemand: r.boolean(cPanels, "showDemand", "consumer.panels"),
+        showEngel: r.boolean(cPanels, "showEngel", "consumer.panels"),
+      },
+    },
+
+    producer: {
+      params: {
+        Q: r.number(prParams, "Q", "producer.params", { min: 0, exclusive: true }),
+        w: r.number(prParams, "w", "producer.params", { min: 0, exclusive: true }),
+        r: r.number(prParams, "r", "producer.params", { min: 0, exclusive: true }),
+        a: r.number(prParams, "a", "producer.params", { min: 0, max: 1, exclusive: true }),
+        A: r.number(prParams, "A", "producer.params", { min: 0, exclusive: true }),
+      },
+      colors: {
+        isocost: r.color(prColors, "isocost", "producer.colors"),
+        isoquant: r.color(prColors, "isoquant", "producer.colors"),
+      },
+    },
+
+    market: {
+      params: {
+        demand: readMarketCurve(r, r.object(mParams, "demand", "market.params"), "market.params.demand"),
+        supply: readMarketCurve(r, r.object(mParams, "supply", "market.params"), "market.params.supply"),
+        intervention: readMarketIntervention(
+          r,
+          r.object(mParams, "intervention", "market.params"),
+          "market.params.intervention"
+        ),
+      },
+      colors: {
+        demand: r.color(mColors, "demand", "market.colors"),
+        supply: r.color(mColors, "supply", "market.colors"),
+      },
+      welfare: {
+        show: {
+          cs: r.boolean(mWelfareShow, "cs", "market.welfare.show"),
+          ps: r.boolean(mWelfareShow, "ps", "market.welfare.show"),
+          gov: r.boolean(mWelfareShow, "gov", "market.welfare.show"),
+          dwl: r.boolean(mWelfareShow, "dwl", "market.welfare.show"),
+        },
+        colors: {
+          cs: r.color(mWelfareColors, "cs", "market.welfare.colors"),
+          ps: r.color(mWelfareColors, "ps", "market.welfare.colors"),
+          gov: r.color(mWelfareColors, "gov", "market.welfare.colors"),
+          dwl: r.color(mWelfareColors, "dwl", "market.welfare.colors"),
+        },
+      },
+    },
+
+    monopoly: {
+      params: {
+        a: r.number(moParams, "a", "monopoly.params", { min: 0, exclusive: true }),
+        b: r.number(moParams, "b", "monopoly.params", { min: 0, exclusive: true }),
+        F: r.number(moParams, "F", "monopoly.params", { min: 0 }),
+        c: r.number(moParams, "c", "monopoly.params", { min: 0 }),
+        d: r.number(moParams, "d", "monopoly.params", { min: 0 }),
+      },
+      colors: {
+        demand: r.color(moColors, "demand", "monopoly.colors"),
+        mr: r.color(moColors, "mr", "monopoly.colors"),
+        mc: r.color(moColors, "mc", "monopoly.colors"),
+        atc: r.color(moColors, "atc", "monopoly.colors"),
+      },
+      showProfit: r.boolean(monopoly, "showProfit", "monopoly"),
+      showDwl: r.boolean(monopoly, "showDwl", "monopoly"),
+    },
+
+    costs: {
+      params: {
+        F: r.number(coParams, "F", "costs.params", { min: 0 }),
+        a: r.number(coParams, "a", "costs.params", { min: 0, exclusive: true }),
+        b: r.number(coParams, "b", "costs.params", { min: 0 }),
+        c: r.number(coParams, "c", "costs.params", { min: 0, exclusive: true }),
+        sigma: r.number(coParams, "sigma", "costs.params", { min: 0 }),
+      },
+      colors: {
+        mc: r.color(coColors, "mc", "costs.colors"),
+        atc: r.color(coColors, "atc", "costs.colors"),
+        avc: r.color(coColors, "avc", "costs.colors"),
+        afc: r.color(coColors, "afc", "costs.colors"),
+        lrac: r.color(coColors, "lrac", "costs.colors"),
+      },
+      showLongRun: r.boolean(costs, "showLongRun", "costs"),
+      plantCount: r.number(costs, "plantCount", "costs", { min: 1, max: 7, integer: true }),
+    },
+
+    view: {
+      ticks: r.number(view, "ticks", "view", { min: 1, max: 10, integer: true }),
+      showTickLines: r.boolean(view, "showTickLines", "view"),
+      showTickLabels: r.boolean(view, "showTickLabels", "view"),
+
+      xLabel: r.string(view, "xLabel", "view"),
+      yLabel: r.string(view, "yLabel", "view"),
+      showXLabel: r.boolean(view, "showXLabel", "view"),
+      showYLabel: r.boolean(view, "showYLabel", "view"),
+
+      chartTitle: r.string(view, "chartTitle", "view"),
+      showChartTitle: r.boolean(view, "showChartTitle", "view"),
+      chartTitleFontSize: r.number(view, "chartTitleFontSize", "view", { min: 6, max: 48 }),
+
+      showEquationLabels: r.boolean(view, "showEquationLabels", "view"),
+      useLatexLabels: r.boolean(view, "useLatexLabels", "view"),
+      equationFontSize: r.number(view, "equationFontSize", "view", { min: 8, max: 28 }),
+
+      showOpt: r.boolean(view, "showOpt", "view"),
+      optPointColor: r.color(view, "optPointColor", "view"),
+      optTextColor: r.color(view, "optTextColor", "view"),
+    },
+
+    export: {
+      fileName: r.string(exp, "fileName", "export"),
+      resolution: r.string(exp, "resolution", "export"),
+      background: r.choice(exp, "background", "export", isExportBackground, "white"),
+      tikzFormat: r.choice(exp, "tikzFormat", "export", isTikzFormat, "tikz"),
+      tikzStandalone: r.boolean(exp, "tikzStandalone", "export"),
+      tikzWidthCm: r.number(exp, "tikzWidthCm", "export", { min: 0, exclusive: true }),
+      pdfPageSize: r.choice(exp, "pdfPageSize", "export", isPdfPageSize, "figure"),
+      pdfWidthCm: r.number(exp, "pdfWidthCm", "export", { min: 0, exclusive: true }),
+    },
+
+    labelOffsets: readLabelOffsets(r, offsets),
+  };
+
+  // 成本：MC 的最低點 a - b^2 / (3c) 不能 < 0（和 slider 的限制一致）
+  // 容許一點浮點誤差：slider 夾住時 a 剛好等於 b^2 / (3c)
+  const cp = doc.costs.params;
+  r.check(
+    !(cp.c > 0) || 3 * cp.a * cp.c >= cp.b * cp.b * (1 - 1e-9),
+    "costs.params.a",
+    `must be >= b²/(3c) = ${cp.c > 0 ? Number(((cp.b * cp.b) / (3 * cp.c)).toFixed(4)) : 0}, got ${cp.a}`
+  );
+
+  if (r.errors.length > 0) {
+    return { ok: false, errors: r.errors };
+  }
+  return { ok: true, doc };
+}
+
+// =========================================================
+// Internals
+// =========================================================
+
+function readLabelOffsets(
+  r: DocumentReader,
+  offsets: RawObject
+): Record<LabelOffsetOwner, Record<string, PixelOffset>> {
+  const out = {} as Record<LabelOffsetOwner, Record<string, PixelOffset>>;
+  let i = 0;
+  while (i < LABEL_OFFSET_OWNERS.length) {
+    const owner = LABEL_OFFSET_OWNERS[i];
+    out[owner] = r.offsets(offsets, owner, "labelOffsets");
+    i += 1;
+  }
+  return out;
+}
+
+function readMarketCurve(r: DocumentReader, curve: RawObject, path: string): MarketCurve {
+  return {
+    kind: r.choice(curve, "kind", path, isMarketCurveKind, "linear"),
+    intercept: r.number(curve, "intercept", path, { min: 0 }),
+    slope: r.number(curve, "slope", path, { min: 0, exclusive: true }),
+    scale: r.number(curve, "scale", path, { min: 0, exclusive: true }),
+    elasticity: r.number(curve, "elasticity", path, { min: 0, exclusive: true }),
+    shift: r.number(curve, "shift", path, {}),
+  };
+}
+
+function readMarketIntervention(r: DocumentReader, raw: RawObject, path: string): MarketIntervention {
+  return {
+    kind: r.choice(raw, "kind", path, isMarketInterventionKind, "none"),
+    tax: r.number(raw, "tax", path, { min: 0 }),
+    subsidy: r.number(raw, "subsidy", path, { min: 0 }),
+    ceiling: r.number(raw, "ceiling", path, { min: 0 }),
+    floor: r.number(raw, "floor", path, { min: 0 }),
+    quota: r.number(raw, "quota", path, { min: 0 }),
+  };
+}
+
+function isRawObject(value: unknown): value is RawObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isGraphKind(raw: string): raw is FigureDocument["graphKind"] {
+  return raw === "consumer" || raw === "producer" || raw === "market" || raw === "monopoly" || raw === "costs";
+}
+
+function isExportBackground(raw: string): raw is ExportBackground {
+  return raw === "transparent" || raw === "white";
+}
+
+function isTikzFormat(raw: string): raw is TikzFormat {
+  return raw === "tikz" || raw === "pgfplots";
+}
+
+// 錯誤訊息裡顯示的值（太長就截斷）
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return "nothing";
+  }
+  let text = JSON.stringify(value);
+  if (text === undefined) {
+    text = String(value);
+  }
+  if (text.length > 40) {
+    text = text.slice(0, 37) + "...";
+  }
+  return text;
+}
+
+type NumberRange = {
+  min?: number;
+  max?: number;
+  exclusive?: boolean;  // true：min / max 本身不合法（例如價格必須 > 0）
+  integer?: boolean;
+};
+
+// ------------------------------------------------------------
+// DocumentReader：讀欄位 + 檢查型別 / 範圍
+// - 不合法時記一筆錯誤，回傳一個「佔位」值讓後面的欄位繼續檢查
+// - path 是父物件的路徑（"" 代表最上層）
+// ------------------------------------------------------------
+class DocumentReader {
+  readonly errors: string[];
+
+  constructor() {
+    this.errors = [];
+  }
+
+  private fail(path: string, message: string) {
+    this.errors.push(`${path}: ${message}.`);
+  }
+
+  object(obj: RawObject, key: string, path: string): RawObject {
+    const value = obj[key];
+    if (isRawObject(value)) {
+      return value;
+    }
+    // 父物件本身已經壞了就不重複報錯
+    if (this.isBroken(obj)) {
+      return BROKEN;
+    }
+    this.fail(joinPath(path, key), value === undefined ? "missing" : `expected an object, got ${describeValue(value)}`);
+    return BROKEN;
+  }
+
+  // 跨欄位的限制（單一欄位的範圍檢查之外）：ok 為 false 時記一筆錯誤
+  check(ok: boolean, path: string, message: string) {
+    if (!ok) {
+      this.fail(path, message);
+    }
+  }
+
+  number(obj: RawObject, key: string, path: string, range: NumberRange): number {
+    const value = this.field(obj, key, path);
+    if (value === undefined) {
+      return 0;
+    }
+    const at = joinPath(path, key);
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.fail(at, `expected a number, got ${describeValue(value)}`);
+      return 0;
+    }
+    if (range.integer && !Number.isInteger(value)) {
+      this.fail(at, `expected an integer, got ${value}`);
+      return value;
+    }
+
+    const lowOk =
+      range.min === undefined || (range.exclusive ? value > range.min : value >= range.min);
+    const highOk =
+      range.max === undefined || (range.exclusive ? value < range.max : value <= range.max);
+    if (!lowOk || !highOk) {
+      this.fail(at, `${describeRange(range)}, got ${value}`);
+    }
+    return value;
+  }
+
+  boolean(obj: RawObject, key: string, path: string): boolean {
+    const value = this.field(obj, key, path);
+    if (value === undefined) {
+      return false;
+    }
+    if (typeof value !== "boolean") {
+      this.fail(joinPath(path, key), `expected true or false, got ${describeValue(value)}`);
+      return false;
+    }
+    return value;
+  }
+
+  string(obj: RawObject, key: string, path: string): string {
+    const value = this.field(obj, key, path);
+    if (value === undefined) {
+      return "";
+    }
+    if (typeof value !== "string") {
+      this.fail(joinPath(path, key), `expected a string, got ${describeValue(value)}`);
+      return "";
+    }
+    return value;
+  }
+
+  // <input type="color"> 只接受 #rrggbb
+  color(obj: RawObject, key: string, path: string): string {
+    const value = this.string(obj, key, path);
+    if (value !== "" && !/^#[0-9a-fA-F]{6}$/.test(value)) {
+      this.fail(joinPath(path, key), `expected a color like "#1f77b4", got ${describeValue(value)}`);
+    }
+    return value;
+  }
+
+  choice<T extends string>(
+    obj: RawObject,
+    key: string,
+    path: string,
+    isValid: (raw: string) => raw is T,
+    fallback: T
+  ): T {
+    const value = this.field(obj, key, path);
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== "string" || !isValid(value)) {
+      this.fail(joinPath(path, key), `unknown value ${describeValue(value)}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  // labelOffsets：{ [labelId]: { dx, dy } }，整組可省略（代表沒有拖曳過）
+  offsets(obj: RawObject, key: string, path: string): Record<string, PixelOffset> {
+    const out: Record<string, PixelOffset> = {};
+    const value = obj[key];
+    if (value === undefined) {
+      return out;
+    }
+    const at = joinPath(path, key);
+    if (!isRawObject(value)) {
+      this.fail(at, `expected an object, got ${describeValue(value)}`);
+      return out;
+    }
+
+    const ids = Object.keys(value);
+    let i = 0;
+    while (i < ids.length) {
+      const id = ids[i];
+      const entry = value[id];
+      if (!isRawObject(entry)) {
+        this.fail(joinPath(at, id), `expected { "dx": number, "dy": number }, got ${describeValue(entry)}`);
+      } else {
+        const dx = this.number(entry, "dx", joinPath(at, id), {});
+        const dy = this.number(entry, "dy", joinPath(at, id), {});
+        out[id] = { dx, dy };
+      }
+      i += 1;
+    }
+    return out;
+  }
+
+  // 缺欄位時記錯誤（父物件已經壞了就跳過）
+  private field(obj: RawObject, key: string, path: string): unknown {
+    const value = obj[key];
+    if (value === undefined && !this.isBroken(obj)) {
+      this.fail(joinPath(path, key), "missing");
+    }
+    return value;
+  }
+
+  private isBroken(obj: RawObject): boolean {
+    return obj === BROKEN;
+  }
+}
+
+// 讀不到的物件用同一個空物件代替（底下的欄位就不會重複報「missing」）
+const BROKEN: RawObject = {};
+
+function joinPath(path: string, key: string): string {
+  if (path === "") {
+    return key;
+  }
+  return `${path}.${key}`;
+}
+
+function describeRange(range: NumberRange): string {
+  const lowOp = range.exclusive ? ">" : ">=";
+  const highOp = range.exclusive ? "<" : "<=";
+  if (range.min !== undefined && range.max !== undefined) {
+    return `must be ${lowOp} ${range.min} and ${highOp} ${range.max}`;
+  }
+  if (range.min !== undefined) {
+    return `must be ${lowOp} ${range.min}`;
+  }
+  if (range.max !== undefined) {
+    return `must be ${highOp} ${range.max}`;
+  }
+  return "out of range";
+}
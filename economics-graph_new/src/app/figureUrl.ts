@@ -0,0 +1,111 @@
+// src/app/figureUrl.ts
+
+// ------------------------------------------------------------
+// figureUrl：把 FigureDocument 放進網址的 hash（分享連結用）
+//
+// 格式：#fig=v1.<payload>
+// - v1：hash 的編碼方式版本（壓縮 / 字元集）；以後換編碼就用 v2，舊連結照樣能讀
+// - payload：FigureDocument 的 JSON（不縮排）-> deflate-raw 壓縮 -> base64url
+//   文件本身的 format / version 在 JSON 裡，讀取時和讀檔走同一條路
+//   （parseFigureDocument：驗證 + 舊版 migrations）
+//
+// 用 hash 而不是 query string：hash 不會送到 server，改它也不會重新載入頁面
+// 壓縮用瀏覽器內建的 CompressionStream，所以 encode / decode 都是 async
+// ------------------------------------------------------------
+
+import {
+  parseFigureDocument,
+  type FigureDocument,
+  type FigureDocumentResult,
+} from "./figureDocument";
+
+const HASH_PREFIX = "#fig=";
+const ENCODING_V1 = "v1.";
+
+// hasFigureHash：網址的 hash 是不是一張分享的圖
+export function hasFigureHash(hash: string): boolean {
+  return hash.startsWith(HASH_PREFIX);
+}
+
+// ------------------------------------------------------------
+// encodeFigureHash：FigureDocument -> "#fig=v1.<payload>"
+// ------------------------------------------------------------
+export async function encodeFigureHash(doc: FigureDocument): Promise<string> {
+  const json = JSON.stringify(doc);
+  const compressed = await transformBytes(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  );
+  return HASH_PREFIX + ENCODING_V1 + bytesToBase64Url(compressed);
+}
+
+// ------------------------------------------------------------
+// decodeFigureHash："#fig=v1.<payload>" -> FigureDocument（錯誤訊息和讀檔一樣）
+// ------------------------------------------------------------
+export async function decodeFigureHash(hash: string): Promise<FigureDocumentResult> {
+  if (!hasFigureHash(hash)) {
+    return { ok: false, errors: ["The link does not contain a figure."] };
+  }
+
+  const body = hash.slice(HASH_PREFIX.length);
+  if (!body.startsWith(ENCODING_V1)) {
+    const dot = body.indexOf(".");
+    const label = dot > 0 ? body.slice(0, dot) : body.slice(0, 8);
+    return {
+      ok: false,
+      errors: [`Unknown link encoding "${label}"; the link may come from a newer version of the app.`],
+    };
+  }
+
+  let text = "";
+  try {
+    const bytes = base64UrlToBytes(body.slice(ENCODING_V1.length));
+    const inflated = await transformBytes(bytes, new DecompressionStream("deflate-raw"));
+    text = new TextDecoder().decode(inflated);
+  } catch {
+    return { ok: false, errors: ["The link is damaged (it may have been cut off when copying)."] };
+  }
+
+  return parseFigureDocument(text);
+}
+
+// =========================================================
+// Internals
+// =========================================================
+
+// bytes -> (Compression|Decompression)Stream -> bytes
+async function transformBytes(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  const buffer = await new Response(stream).arrayBuffer();
+  return new Uint8Array(buffer);
+}
+
+// base64url：+ / 換成 - _，拿掉結尾的 =（網址裡不用跳脫）
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  let i = 0;
+  while (i < bytes.length) {
+    binary += String.fromCharCode(bytes[i]);
+    i += 1;
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlToBytes(text: string): Uint8Array {
+  let base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  while (base64.length % 4 !== 0) {
+    base64 += "=";
+  }
+
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  let i = 0;
+  while (i < binary.length) {
+    bytes[i] = binary.charCodeAt(i);
+    i += 1;
+  }
+  return bytes;
+}
@@ -0,0 +1,323 @@
+// src/cli/renderFigure.tsx
+
+// ------------------------------------------------------------
+// renderFigure：不開瀏覽器，把「一組參數」畫成 SVG 字串
+//
+// 給命令列（cli/render-svg.ts）批次產生習題圖用：
+// - 用和 AppView 完全一樣的 Model / Controller / GraphView
+//   ConsumerOptModel -> ConsumerOptController.buildScene -> ConsumerOptGraphView
+// - React 用 renderToStaticMarkup（server render）輸出 <svg>
+// - 再做 exportSvg 在瀏覽器裡做的事：xmlns / viewBox / style="color: black;"
+//   並把 React 的序列化格式調成 XMLSerializer 的格式，兩邊輸出的檔案一致
+//
+// 這個檔案不碰檔案系統（讀 / 寫檔交給 cli/render-svg.ts）
+// ------------------------------------------------------------
+
+import { renderToStaticMarkup } from "react-dom/server";
+
+import { ConsumerOptModel, type ConsumerParams } from "../MVC/model/ConsumerOptModel";
+import { ConsumerOptController } from "../MVC/controller/ConsumerOptController";
+import { ConsumerOptGraphView } from "../MVC/view/ConsumerOptGraphView";
+
+import { computeInnerAvailSize, SVG_HEIGHT, SVG_WIDTH } from "../core/layout";
+import { requestMathSvg } from "../common/mathjaxSvg";
+import { isUtilityKind } from "../lib/utility";
+import { isBudgetSetKind, type BudgetSetSpec } from "../lib/budgetSet";
+
+// ------------------------------------------------------------
+// FigureSpec：JSON 參數檔裡「一張圖」的格式（全部可省略，省略就用 AppView 的預設值）
+// ------------------------------------------------------------
+export type FigureSpec = {
+  // 輸出檔名（批次時沒給就用 figure-<n>.svg）
+  output?: string;
+
+  // 模型參數
+  I?: number;
+  a?: number;
+  px?: number;
+  py?: number;
+  utility?: string;
+  rho?: number;
+  xBar?: number;
+  yBar?: number;
+  budgetSet?: BudgetSetSpec;
+
+  // 線段 / 點 / 文字顏色
+  colors?: {
+    budget?: string;
+    indiff?: string;
+    optPoint?: string;
+    optText?: string;
+  };
+
+  // 標題 / 軸名稱 / 方程式標籤
+  labels?: {
+    x?: string;
+    y?: string;
+    title?: string;
+    showX?: boolean;
+    showY?: boolean;
+    showTitle?: boolean;
+    titleFontSize?: number;
+    equations?: boolean;
+    equationFontSize?: number;
+    latex?: boolean;
+  };
+
+  // 刻度
+  ticks?: number;
+  showTickLines?: boolean;
+  showTickLabels?: boolean;
+
+  showOpt?: boolean;
+};
+
+// 和 AppView 的初始值一致
+const DEFAULT_PARAMS: ConsumerParams = {
+  I: 20,
+  a: 0.5,
+  px: 1,
+  py: 1,
+  utility: "cobbDouglas",
+  rho: 0.5,
+  xBar: 2,
+  yBar: 2,
+  budgetSet: { kind: "linear" },
+};
+
+const DEFAULT_COLOR = "#111111";
+const DEFAULT_TITLE = "Consumer Optimum (Cobb-Douglas)";
+
+// ------------------------------------------------------------
+// mergeSpecs：批次檔的 defaults + 單張圖的設定（colors / labels 逐欄合併）
+// ------------------------------------------------------------
+export function mergeSpecs(base: FigureSpec, override: FigureSpec): FigureSpec {
+  return {
+    ...base,
+    ...override,
+    colors: { ...base.colors, ...override.colors },
+    labels: { ...base.labels, ...override.labels },
+  };
+}
+
+// ------------------------------------------------------------
+// renderFigureSvg：FigureSpec -> SVG 檔案內容（含 <?xml ?> 表頭）
+// 參數不合法時丟 Error（訊息會被 CLI 印出來）
+// ------------------------------------------------------------
+export async function renderFigureSvg(spec: FigureSpec): Promise<string> {
+  const params = toConsumerParams(spec);
+  const colors = spec.colors ? spec.colors : {};
+  const labels = spec.labels ? spec.labels : {};
+
+  // 1) Model + Controller（和 AppView 一樣的內容區尺寸）
+  const model = new ConsumerOptModel(params);
+  const inner = computeInnerAvailSize();
+  const controller = new ConsumerOptController({
+    innerWidth: inner.innerWidth,
+    innerHeight: inner.innerHeight,
+    model,
+  });
+
+  controller.setBudgetColor(colors.budget ? colors.budget : DEFAULT_COLOR);
+  controller.setIndiffColor(colors.indiff ? colors.indiff : DEFAULT_COLOR);
+  controller.setOptPointColor(colors.optPoint ? colors.optPoint : DEFAULT_COLOR);
+  controller.setOptTextColor(colors.optText ? colors.optText : DEFAULT_COLOR);
+  controller.setShowOpt(spec.showOpt !== false);
+  controller.setShowEquationLabels(labels.equations !== false);
+  controller.setUseLatexLabels(labels.latex !== false);
+  controller.setEquationFontSize(
+    labels.equationFontSize !== undefined ? labels.equationFontSize : 12
+  );
+
+  // 2) mathSvg 先排版好：server render 是同步的，SvgSceneView 只讀快取
+  //    （排版失敗就維持 fallback 文字，和瀏覽器一樣）
+  const drawables = controller.getScene().drawables;
+  let i = 0;
+  while (i < drawables.length) {
+    const d = drawables[i];
+    if (d.kind === "mathSvg") {
+      const fontSize = d.fontSize ? d.fontSize : 12;
+      try {
+        await requestMathSvg(d.latex, fontSize, d.displayMode === true);
+      } catch {
+        // fallback text
+      }
+    }
+    i += 1;
+  }
+
+  // 3) GraphView server render
+  const markup = renderToStaticMarkup(
+    <ConsumerOptGraphView
+      controller={controller}
+      ticks={spec.ticks !== undefined ? spec.ticks : 5}
+      tickVisibility={{
+        showTickLines: spec.showTickLines !== false,
+        showTickLabels: spec.showTickLabels !== false,
+      }}
+      xLabel={labels.x !== undefined ? labels.x : "x"}
+      yLabel={labels.y !== undefined ? labels.y : "y"}
+      showXLabel={labels.showX !== false}
+      showYLabel={labels.showY !== false}
+      chartTitle={labels.title !== undefined ? labels.title : DEFAULT_TITLE}
+      showChartTitle={labels.showTitle !== false}
+      chartTitleFontSize={labels.titleFontSize !== undefined ? labels.titleFontSize : 14}
+    />
+  );
+
+  // 4) 調成 exportSvg 的輸出格式
+  const source = toExportedSvg(markup, SVG_WIDTH, SVG_HEIGHT);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${source}`;
+}
+
+// ------------------------------------------------------------
+// toConsumerParams：檢查 + 補預設值
+// ------------------------------------------------------------
+function toConsumerParams(spec: FigureSpec): ConsumerParams {
+  const params: ConsumerParams = { ...DEFAULT_PARAMS };
+
+  const numericKeys: ("I" | "a" | "px" | "py" | "rho" | "xBar" | "yBar")[] = [
+    "I",
+    "a",
+    "px",
+    "py",
+    "rho",
+    "xBar",
+    "yBar",
+  ];
+  let i = 0;
+  while (i < numericKeys.length) {
+    const key = numericKeys[i];
+    const raw = spec[key];
+    if (raw !== undefined) {
+      if (typeof raw !== "number" || !Number.isFinite(raw)) {
+        throw new Error(`"${key}" must be a finite number.`);
+      }
+      params[key] = raw;
+    }
+    i += 1;
+  }
+
+  if (params.I <= 0 || params.px <= 0 || params.py <= 0) {
+    throw new Error('"I", "px" and "py" must be positive.');
+  }
+  if (params.a <= 0 || params.a >= 1) {
+    throw new Error('"a" must be between 0 and 1.');
+  }
+
+  if (spec.utility !== undefined) {
+    if (!isUtilityKind(spec.utility)) {
+      throw new Error(`Unknown utility "${spec.utility}".`);
+    }
+    params.utility = spec.utility;
+  }
+
+  if (spec.budgetSet !== undefined) {
+    params.budgetSet = toBudgetSetSpec(spec.budgetSet);
+  }
+
+  return params;
+}
+
+// ------------------------------------------------------------
+// toBudgetSetSpec：budgetSet 的欄位也要檢查（少一個就是 NaN 座標的 SVG）
+// 範圍和 figureDocument 讀檔時一樣
+// ------------------------------------------------------------
+function toBudgetSetSpec(raw: BudgetSetSpec): BudgetSetSpec {
+  if (!raw || !isBudgetSetKind(raw.kind)) {
+    throw new Error("Unknown budgetSet kind.");
+  }
+
+  // 從 raw 讀一個有限數字，並檢查範圍（min / max 都含端點，除非 exclusive）
+  const num = (key: string, range: { min?: number; max?: number; exclusive?: boolean }): number => {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`"budgetSet.${key}" must be a finite number.`);
+    }
+    const lowOk =
+      range.min === undefined || (range.exclusive ? value > range.min : value >= range.min);
+    const highOk =
+      range.max === undefined || (range.exclusive ? value < range.max : value <= range.max);
+    if (!lowOk || !highOk) {
+      const lowOp = range.exclusive ? ">" : ">=";
+      const highOp = range.exclusive ? "<" : "<=";
+      const parts: string[] = [];
+      if (range.min !== undefined) {
+        parts.push(`${lowOp} ${range.min}`);
+      }
+      if (range.max !== undefined) {
+        parts.push(`${highOp} ${range.max}`);
+      }
+      throw new Error(`"budgetSet.${key}" must be ${parts.join(" and ")}.`);
+    }
+    return value;
+  };
+
+  if (raw.kind === "quantityDiscount") {
+    return {
+      kind: "quantityDiscount",
+      threshold: num("threshold", { min: 0 }),
+      discountRate: num("discountRate", { min: 0, max: 0.9 }),
+    };
+  }
+  if (raw.kind === "unitTax") {
+    return { kind: "unitTax", tax: num("tax", { min: -1, exclusive: true }) };
+  }
+  if (raw.kind === "ration") {
+    return { kind: "ration", cap: num("cap", { min: 0 }) };
+  }
+  if (raw.kind === "inKind") {
+    return { kind: "inKind", amount: num("amount", { min: 0 }) };
+  }
+  return { kind: "linear" };
+}
+
+// ------------------------------------------------------------
+// toExportedSvg：React 的 server markup -> exportSvg（XMLSerializer）的格式
+// - 根 <svg>：xmlns 放最前面、style 換成 "color: black;"、補 viewBox
+// - 拿掉互動用的命中區（data-hit-area，exportSvg 也會拿掉）
+// - 空元素寫成 <line .../>（XMLSerializer 的寫法）
+// - style 屬性寫成 "prop: value;"（瀏覽器 CSSOM 的寫法）
+// - 文字裡的 ' " 不跳脫（XMLSerializer 只跳脫 & < >）
+// ------------------------------------------------------------
+function toExportedSvg(markup: string, width: number, height: number): string {
+  let out = markup.replace(/^<svg([^>]*)>/, (_m, attrs: string) => {
+    const kept = attrs.replace(/\s(style|xmlns)="[^"]*"/g, "");
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg"${kept} style="color: black;"` +
+      ` viewBox="0 0 ${width} ${height}">`
+    );
+  });
+
+  out = out.replace(/<([a-zA-Z][\w:-]*)((?:\s[^<>]*)?)><\/\1>/g, "<$1$2/>");
+
+  out = out.replace(/<[a-zA-Z][\w:-]*\s[^<>]*data-hit-area="[^"]*"[^<>]*\/>/g, "");
+
+  out = out.replace(/(<[^>]*?\s)style="([^"]*)"/g, (_m, head: string, css: string) => {
+    if (css === "color: black;") {
+      return `${head}style="${css}"`;
+    }
+    return `${head}style="${normalizeCss(css)}"`;
+  });
+
+  out = out.replace(/>([^<]*)</g, (_m, text: string) => {
+    return ">" + text.replace(/&#x27;/g, "'").replace(/&quot;/g, '"') + "<";
+  });
+
+  return out;
+}
+
+function normalizeCss(css: string): string {
+  const decls = css.split(";");
+  const parts: string[] = [];
+  let i = 0;
+  while (i < decls.length) {
+    const decl = decls[i].trim();
+    const colon = decl.indexOf(":");
+    if (colon > 0) {
+      parts.push(`${decl.slice(0, colon).trim()}: ${decl.slice(colon + 1).trim()};`);
+    }
+    i += 1;
+  }
+  return parts.join(" ");
+}
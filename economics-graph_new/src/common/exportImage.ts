@@ -0,0 +1,210 @@
+// src/common/exportImage.ts
+
+// ------------------------------------------------------------
+// 匯出圖檔的共用工具（SVG / PNG）
+// - serializeSvgForExport：clone 畫面上的 <svg>，補 xmlns / viewBox，序列化成字串
+// - rasterizeSvg：把同一份 SVG 字串畫到 <canvas>，輸出 PNG Blob
+//   - scale：1x / 2x / 4x（像素數放大，向量內容不會糊）
+//   - background：透明或白底（投影片 / LMS 常常需要白底）
+//   - dpi：寫進 PNG 的 pHYs chunk，Word / PowerPoint / 印刷會依它決定實際尺寸
+// - downloadBlob：Blob -> <a download> 下載
+// ------------------------------------------------------------
+
+export type ExportBackground = "transparent" | "white";
+
+export type PngExportOptions = {
+  scale: number;
+  dpi: number;
+  background: ExportBackground;
+};
+
+// CSS 像素的定義：1 inch = 96 px
+export const CSS_DPI = 96;
+
+// ------------------------------------------------------------
+// serializeSvgForExport：
+// 1) clone 一份 svg DOM（不要直接改畫面那份）
+// 2) 加 xmlns / viewBox（讓外部工具更穩）
+// 3) 拿掉互動用的命中區（data-hit-area）
+// 4) XMLSerializer -> 字串
+// ------------------------------------------------------------
+export function serializeSvgForExport(svg: SVGSVGElement, width: number, height: number): string {
+  const svgCloned = svg.cloneNode(true) as SVGSVGElement;  // 避免直接影響原 <svg> 元素
+
+  // 加上 xmlns (SVG 標準)
+  //  - 有些工具看到 XML (SVG 本質上是一種 XML)，如果沒有 xmlns，可能解析會失敗
+  svgCloned.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+
+  // 加上 viewBox: 讓 LaText / Inkscape 縮放更穩，避免切掉、跑位
+  svgCloned.setAttribute("viewBox", `0 0 ${width} ${height}`);
+
+  // 匯出時拿掉 border (避免文件有醜框)
+  // 並且明確指定 color (因為許多 stroke 使用 currentColor)
+  svgCloned.setAttribute("style", "color: black;");
+
+  // 拿掉拖曳用的透明命中區（只在畫面上互動用）
+  const hitAreas = svgCloned.querySelectorAll("[data-hit-area]");
+  let i = 0;
+  while (i < hitAreas.length) {
+    hitAreas[i].remove();
+    i += 1;
+  }
+
+  const serializer = new XMLSerializer();
+  return serializer.serializeToString(svgCloned);
+}
+
+// ------------------------------------------------------------
+// rasterizeSvg：SVG 字串 -> PNG Blob
+// - 用 data URL 載入 <img>（blob URL 在部分瀏覽器會讓 canvas 變成 tainted）
+// - canvas 尺寸 = SVG 尺寸 × scale，再用 ctx.scale 放大繪製
+// ------------------------------------------------------------
+export function rasterizeSvg(
+  source: string,
+  width: number,
+  height: number,
+  options: PngExportOptions
+): Promise<Blob> {
+  return new Promise<Blob>((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * options.scale);
+      canvas.height = Math.round(height * options.scale);
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas 2D context is not available."));
+        return;
+      }
+
+      if (options.background === "white") {
+        ctx.fillStyle = "#ffffff";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+
+      ctx.scale(options.scale, options.scale);
+      ctx.drawImage(img, 0, 0, width, height);
+
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error("Canvas did not produce a PNG."));
+          return;
+        }
+        withPngDpi(blob, options.dpi).then(resolve, reject);
+      }, "image/png");
+    };
+
+    img.onerror = () => {
+      reject(new Error("Failed to load the SVG into an image."));
+    };
+
+    img.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(source);
+  });
+}
+
+// ------------------------------------------------------------
+// downloadBlob：建立暫時 URL -> <a download> -> 點一下 -> 清掉
+// ------------------------------------------------------------
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+
+  // 清理 DOM 與 釋放暫時 URL (避免記憶體累積)
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// ------------------------------------------------------------
+// withPngDpi：在 IHDR 後面插入（或取代）pHYs chunk
+// PNG chunk 格式：length(4) + type(4) + data(length) + crc32(type + data)(4)
+// pHYs data：x 像素/公尺(4) + y 像素/公尺(4) + 單位(1，1 = 公尺)
+// ------------------------------------------------------------
+async function withPngDpi(blob: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  // 8 bytes 簽章 + IHDR（13 bytes data）= 33 bytes
+  const headerEnd = 33;
+  if (bytes.length < headerEnd) {
+    return blob;
+  }
+
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, pixelsPerMeter);
+  view.setUint32(4, pixelsPerMeter);
+  data[8] = 1;
+  const chunk = buildPngChunk("pHYs", data);
+
+  // 保留 IHDR 之後的 chunk，但丟掉原本就有的 pHYs
+  const rest: Uint8Array[] = [];
+  let offset = headerEnd;
+  while (offset + 8 <= bytes.length) {
+    const length = new DataView(bytes.buffer, offset, 4).getUint32(0);
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    const end = offset + 12 + length;
+    if (type !== "pHYs") {
+      rest.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, headerEnd), chunk];
+  let i = 0;
+  while (i < rest.length) {
+    parts.push(rest[i]);
+    i += 1;
+  }
+  return new Blob(parts as BlobPart[], { type: "image/png" });
+}
+
+function buildPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+
+  view.setUint32(0, data.length);
+  let i = 0;
+  while (i < 4) {
+    chunk[4 + i] = type.charCodeAt(i);
+    i += 1;
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+
+  return chunk;
+}
+
+// CRC-32（PNG 規格用的多項式 0xEDB88320），表格第一次用到才建
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (crcTable === null) {
+    crcTable = new Uint32Array(256);
+    let n = 0;
+    while (n < 256) {
+      let c = n;
+      let k = 0;
+      while (k < 8) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        k += 1;
+      }
+      crcTable[n] = c >>> 0;
+      n += 1;
+    }
+  }
+
+  let crc = 0xffffffff;
+  let i = 0;
+  while (i < bytes.length) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    i += 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,129 @@
+// src/common/exportPdf.ts
+
+// ------------------------------------------------------------
+// 匯出 PDF（列印講義用）
+// - 輸入：serializeSvgForExport 產生的同一份 SVG 字串（座標軸 / 標題 / 方程式標籤都在裡面）
+// - 用 jsPDF + svg2pdf.js 在瀏覽器內直接轉成向量 PDF（不經過 server）
+//   - <text> 會變成 PDF 的文字物件（可選取、可搜尋）
+//   - MathJax 的方程式本來就是 path，照樣是向量
+// - jsPDF / svg2pdf 用 dynamic import：按下匯出才載入，主 bundle 不變大
+//
+// 頁面大小：
+// - "figure"：頁面 = 圖本身，寬度由使用者指定（cm），高度依長寬比
+// - "a4" / "letter"：圖等比例縮放、置中放進留白後的頁面（寬圖自動橫向）
+// ------------------------------------------------------------
+
+export type PdfPageSize = "figure" | "a4" | "letter";
+
+export type PdfExportOptions = {
+  pageSize: PdfPageSize;
+  figureWidthCm: number;  // 只有 pageSize = "figure" 用
+};
+
+export const PDF_PAGE_SIZES: { id: PdfPageSize; label: string }[] = [
+  { id: "figure", label: "Figure size" },
+  { id: "a4", label: "A4" },
+  { id: "letter", label: "US Letter" },
+];
+
+// 單位：pt（1 in = 72 pt = 2.54 cm）
+const PT_PER_CM = 72 / 2.54;
+const PAGE_MARGIN_PT = 36;
+
+// 紙張尺寸（直向，pt）
+const PAPER_PT: Record<"a4" | "letter", { w: number; h: number }> = {
+  a4: { w: 595.28, h: 841.89 },
+  letter: { w: 612, h: 792 },
+};
+
+export function isPdfPageSize(raw: string): raw is PdfPageSize {
+  let i = 0;
+  while (i < PDF_PAGE_SIZES.length) {
+    if (PDF_PAGE_SIZES[i].id === raw) {
+      return true;
+    }
+    i += 1;
+  }
+  return false;
+}
+
+// ------------------------------------------------------------
+// svgToPdfBlob：SVG 字串 -> 單頁 PDF Blob
+// ------------------------------------------------------------
+export async function svgToPdfBlob(
+  source: string,
+  width: number,
+  height: number,
+  options: PdfExportOptions
+): Promise<Blob> {
+  const [{ jsPDF }, { svg2pdf }] = await Promise.all([import("jspdf"), import("svg2pdf.js")]);
+
+  // ---------------------------------------------------------
+  // 1) 決定頁面大小與圖的位置（pt）
+  // ---------------------------------------------------------
+  let pageW = 0;
+  let pageH = 0;
+  let drawX = 0;
+  let drawY = 0;
+  let drawW = 0;
+  let drawH = 0;
+
+  if (options.pageSize === "figure") {
+    let widthCm = options.figureWidthCm;
+    if (!Number.isFinite(widthCm) || widthCm <= 0) {
+      widthCm = (width * 0.75) / PT_PER_CM;  // 預設：1 px = 0.75 pt
+    }
+    drawW = widthCm * PT_PER_CM;
+    drawH = (drawW * height) / width;
+    pageW = drawW;
+    pageH = drawH;
+  } else {
+    const paper = PAPER_PT[options.pageSize];
+    // 寬圖用橫向
+    if (width > height) {
+      pageW = paper.h;
+      pageH = paper.w;
+    } else {
+      pageW = paper.w;
+      pageH = paper.h;
+    }
+
+    const availW = pageW - 2 * PAGE_MARGIN_PT;
+    const availH = pageH - 2 * PAGE_MARGIN_PT;
+    let scale = availW / width;
+    if (height * scale > availH) {
+      scale = availH / height;
+    }
+    drawW = width * scale;
+    drawH = height * scale;
+    drawX = (pageW - drawW) / 2;
+    drawY = (pageH - drawH) / 2;
+  }
+
+  const pdf = new jsPDF({
+    unit: "pt",
+    format: [pageW, pageH],
+    orientation: pageW > pageH ? "landscape" : "portrait",
+  });
+
+  // ---------------------------------------------------------
+  // 2) SVG 字串 -> DOM（svg2pdf 要讀 computed style，所以暫時掛到畫面外）
+  // ---------------------------------------------------------
+  const doc = new DOMParser().parseFromString(source, "image/svg+xml");
+  const svgEl = document.importNode(doc.documentElement, true);
+
+  const holder = document.createElement("div");
+  holder.style.position = "fixed";
+  holder.style.left = "-10000px";
+  holder.style.top = "0";
+  holder.appendChild(svgEl);
+  document.body.appendChild(holder);
+
+  try {
+    await svg2pdf(svgEl, pdf, { x: drawX, y: drawY, width: drawW, height: drawH });
+  } finally {
+    document.body.removeChild(holder);
+  }
+
+  return pdf.output("blob");
+}
@@ -2,101 +2,196 @@
 
 // ------------------------------------------------------------
 // 目的：把 LaTeX 轉成「純 SVG 向量 path」
-// - 使用 MathJax v3 的 tex2svg()
-// - 透過動態插入 <script> 載入 tex-svg.js
+// - 使用本地打包的 MathJax v3（mathjax-full），完全離線可用
+//   （以前是動態插入 jsDelivr CDN 的 <script>，考場 / 飛機上沒網路就壞掉）
+// - MathJax 模組用 dynamic import 載入：第一次用到才下載，主 bundle 不變大
+// - 用 liteAdaptor：不碰真正的 DOM，在瀏覽器與 Node 都能跑
 // - 回傳 SVG markup（字串），給 SvgSceneView 插入渲染
+// - 排版失敗（LaTeX 語法錯、模組載入失敗）一律 reject，
+//   呼叫端（SvgSceneView）就退回 TextSpan 的 fallback 文字
 // ------------------------------------------------------------
 
-// >>> [MOD] 全域型別宣告：讓 TS 知道 window.MathJax 存在
-declare global {
-  interface Window {
-    MathJax?: {
-      // MathJax v3 (tex-svg bundle) 會提供 tex2svg
-      tex2svg?: (tex: string, options?: { display?: boolean }) => Element;
-    };
-  }
-}
-// <<< [MOD]
+import type { LiteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor.js";
+import type { LiteElement } from "mathjax-full/js/adaptors/lite/Element.js";
+import type { MathDocument } from "mathjax-full/js/core/MathDocument.js";
 
-// >>> [MOD] 用 module-level 變數確保「只載入一次」
-let loadPromise: Promise<void> | null = null;
-// <<< [MOD]
+// 載入完成後的 MathJax：adaptor + 一份專門做轉換的 document
+type MathJaxEngine = {
+  adaptor: LiteAdaptor;
+  doc: MathDocument<LiteElement, unknown, unknown>;
+};
 
-// >>> [MOD] 載入 MathJax 的 function（只會成功執行一次）
-export function ensureMathJaxLoaded(): Promise<void> {
-  // 逐行解釋：
-  // 1) 若已經有 loadPromise，代表正在載入或已載入完成，直接回傳同一個 promise
+// 用 module-level 變數確保「只載入一次」
+let loadPromise: Promise<MathJaxEngine> | null = null;
+
+function loadEngine(): Promise<MathJaxEngine> {
   if (loadPromise !== null) {
     return loadPromise;
   }
 
-  // 2) 建立新的 Promise，並記錄到 loadPromise（避免重複插入 script）
-  loadPromise = new Promise<void>((resolve, reject) => {
-    // 3) 若 window.MathJax.tex2svg 已存在，代表已載入，直接 resolve
-    if (window.MathJax && window.MathJax.tex2svg) {
-      resolve();
-      return;
-    }
-
-    // 4) 建立 <script>，載入 tex-svg bundle
-    const script = document.createElement("script");
-    script.src = "https://cdn.jsdelivr.net/npm/mathjax@3/es5/tex-svg.js";
-
-    // 5) async：不阻塞主執行緒
-    script.async = true;
-
-    // 6) onload：成功載入後，檢查 tex2svg 是否存在，不存在就 reject
-    script.onload = () => {
-      if (window.MathJax && window.MathJax.tex2svg) {
-        resolve();
-      } else {
-        reject(new Error("MathJax loaded but tex2svg() is unavailable."));
-      }
-    };
-
-    // 7) onerror：網路或 CDN 問題
-    script.onerror = () => {
-      reject(new Error("Failed to load MathJax tex-svg bundle."));
-    };
-
-    // 8) 插入 head 開始載入
-    document.head.appendChild(script);
+  loadPromise = Promise.all([
+    import("mathjax-full/js/mathjax.js"),
+    import("mathjax-full/js/input/tex.js"),
+    import("mathjax-full/js/output/svg.js"),
+    import("mathjax-full/js/adaptors/liteAdaptor.js"),
+    import("mathjax-full/js/handlers/html.js"),
+    // 註冊 base / ams 套件（\frac, \left, \bar, \min, \ln ... 都在裡面）
+    import("mathjax-full/js/input/tex/base/BaseConfiguration.js"),
+    import("mathjax-full/js/input/tex/ams/AmsConfiguration.js"),
+  ]).then(([core, texModule, svgModule, liteModule, htmlModule]) => {
+    const adaptor = liteModule.liteAdaptor();
+    htmlModule.RegisterHTMLHandler(adaptor);
+
+    const tex = new texModule.TeX({
+      packages: ["base", "ams"],
+      // 預設會把錯誤排成紅字 merror；這裡改成丟例外，讓呼叫端用 fallback
+      formatError: (_jax: unknown, err: Error) => {
+        throw err;
+      },
+    });
+
+    // fontCache "none"：字形直接寫成 <path>，不用 <defs>/<use>
+    // （同一段 markup 會被多張圖共用，<use> 的 id 會撞；匯出 SVG 也比較乾淨）
+    const svg = new svgModule.SVG({ fontCache: "none" });
+
+    const doc = core.mathjax.document("", { InputJax: tex, OutputJax: svg });
+    return { adaptor, doc };
+  });
+
+  // 載入失敗時清掉，下一次還可以重試
+  loadPromise.catch(() => {
+    loadPromise = null;
   });
 
   return loadPromise;
 }
-// <<< [MOD]
 
-// >>> [MOD] tex -> svg markup
-export async function texToSvgMarkup(tex: string, displayMode: boolean): Promise<string> {
-  // 逐行解釋：
-  // 1) 確保 MathJax 已載入
-  await ensureMathJaxLoaded();
+// 保留原本的 API：確保 MathJax 可用
+export function ensureMathJaxLoaded(): Promise<void> {
+  return loadEngine().then(() => undefined);
+}
 
-  // 2) 防呆：確認 tex2svg 存在
-  if (!window.MathJax || !window.MathJax.tex2svg) {
-    throw new Error("MathJax.tex2svg is not available after loading.");
+// 排版一次，回傳外層 <svg> 節點（寬高已移除）
+async function typeset(
+  tex: string,
+  displayMode: boolean
+): Promise<{ engine: MathJaxEngine; svg: LiteElement }> {
+  const engine = await loadEngine();
+
+  // convert 回傳 <mjx-container>，裡面第一個子節點就是 <svg>
+  const container = engine.doc.convert(tex, { display: displayMode }) as LiteElement;
+  const svg = engine.adaptor.firstChild(container) as LiteElement | null;
+  if (!svg || engine.adaptor.kind(svg) !== "svg") {
+    throw new Error("MathJax did not produce an <svg> element.");
   }
 
-  // 3) 呼叫 tex2svg 產生 DOM Element（裡面會含有 <svg>）
-  const wrapper = window.MathJax.tex2svg(tex, { display: displayMode });
+  // 讓輸出更「可嵌入」：
+  // - 移除 width/height（避免嵌入時尺寸被鎖死）
+  // - 保留 viewBox（向量縮放的關鍵）
+  engine.adaptor.removeAttribute(svg, "width");
+  engine.adaptor.removeAttribute(svg, "height");
+  engine.adaptor.removeAttribute(svg, "style");
+
+  return { engine, svg };
+}
+
+// tex -> svg markup
+export async function texToSvgMarkup(tex: string, displayMode: boolean): Promise<string> {
+  const { engine, svg } = await typeset(tex, displayMode);
+  return engine.adaptor.outerHTML(svg);
+}
+
+// ------------------------------------------------------------
+// mathSvg drawable 用的快取
+// - key = latex + fontSize + displayMode
+// - MathJax 的 viewBox 單位是 1/1000 em，所以像素尺寸 = viewBox 尺寸 / 1000 * fontSize
+// - ascent：基線以上的高度（viewBox 的 minY 是負的），renderer 用它把基線對齊 pos.y
+//   （和 <text> 一樣，pos 是「左下基線」）
+// ------------------------------------------------------------
+export type MathSvgRender = {
+  inner: string;   // <svg> 內部的 markup（不含外層 <svg>）
+  viewBox: string;
+  width: number;   // 像素
+  height: number;  // 像素
+  ascent: number;  // 像素
+};
+
+const mathCache = new Map<string, MathSvgRender>();
+const mathPending = new Map<string, Promise<MathSvgRender>>();
+const mathFailed = new Set<string>();
+
+function mathKey(latex: string, fontSize: number, displayMode: boolean): string {
+  return `${latex}|${fontSize}|${displayMode ? "d" : "i"}`;
+}
+
+// 同步取快取（render 時用）；還沒排版好就回傳 null
+export function getCachedMathSvg(
+  latex: string,
+  fontSize: number,
+  displayMode: boolean
+): MathSvgRender | null {
+  const hit = mathCache.get(mathKey(latex, fontSize, displayMode));
+  return hit ? hit : null;
+}
+
+// 排版失敗過（例如離線載不到 MathJax、LaTeX 語法錯）就不要再試
+export function hasMathSvgFailed(latex: string, fontSize: number, displayMode: boolean): boolean {
+  return mathFailed.has(mathKey(latex, fontSize, displayMode));
+}
+
+// 非同步排版並寫進快取；同一個 key 同時只會排版一次
+export function requestMathSvg(
+  latex: string,
+  fontSize: number,
+  displayMode: boolean
+): Promise<MathSvgRender> {
+  const key = mathKey(latex, fontSize, displayMode);
+
+  const cached = mathCache.get(key);
+  if (cached) {
+    return Promise.resolve(cached);
+  }
 
-  // 4) wrapper 內會有一個 <svg>，我們把它取出
-  const svg = wrapper.querySelector("svg");
-  if (!svg) {
-    throw new Error("MathJax.tex2svg did not produce an <svg> element.");
+  const pending = mathPending.get(key);
+  if (pending) {
+    return pending;
   }
 
-  // 5) 讓輸出更「可嵌入」：
-  //    - 移除 width/height（避免嵌入時尺寸被鎖死）
-  //    - 保留 viewBox（向量縮放的關鍵）
-  svg.removeAttribute("width");
-  svg.removeAttribute("height");
+  const job = typeset(latex, displayMode)
+    .then(({ engine, svg }) => {
+      const result = measureMathSvg(engine, svg, fontSize);
+      mathCache.set(key, result);
+      mathPending.delete(key);
+      return result;
+    })
+    .catch((err: unknown) => {
+      mathFailed.add(key);
+      mathPending.delete(key);
+      throw err;
+    });
+
+  mathPending.set(key, job);
+  return job;
+}
 
-  // 6) 將 svg 序列化成字串
-  const serializer = new XMLSerializer();
-  const markup = serializer.serializeToString(svg);
+// 把 <svg viewBox="minX minY w h">...</svg> 拆成 inner markup + 像素尺寸
+function measureMathSvg(engine: MathJaxEngine, svg: LiteElement, fontSize: number): MathSvgRender {
+  const viewBox = engine.adaptor.getAttribute(svg, "viewBox") as string | null;
+  if (!viewBox) {
+    throw new Error("MathJax SVG has no viewBox.");
+  }
+
+  const nums = viewBox.trim().split(/[\s,]+/).map((v) => Number(v));
+  if (nums.length !== 4 || nums.some((v) => !Number.isFinite(v))) {
+    throw new Error("MathJax SVG has an invalid viewBox: " + viewBox);
+  }
 
-  return markup;
+  const scale = fontSize / 1000;
+  return {
+    inner: engine.adaptor.innerHTML(svg),
+    viewBox,
+    width: nums[2] * scale,
+    height: nums[3] * scale,
+    ascent: -nums[1] * scale,
+  };
 }
-// <<< [MOD]
@@ -16,6 +16,7 @@ export type StrokeStyle = {
   width?: number;
   dash?: number[];
   color?: string;
+  opacity?: number;  // 0~1，淡化用（例如比較靜態的「一族」預算線 / 無異曲線）
 };
 
 // 填滿樣式 (可選)
@@ -42,8 +43,14 @@ export type LineDrawable = {
   a: Vec2;       // 線段端點 (像素座標)
   b: Vec2;
   stroke?: StrokeStyle;  // 可選線條樣式
+  draggable?: boolean;   // 線是否可以拖曳（端點 a / b 或線身，見 LineDragPart）
 };
 
+// 拖曳線段時抓到的是哪個部分
+// - a / b：端點附近（例如預算線的 x / y 截距）
+// - body：線身（端點以外）
+export type LineDragPart = "a" | "b" | "body";
+
 // 折線 (點列)
 export type PolylineDrawable = {
   kind: "polyline";        // 折線
@@ -84,6 +91,8 @@ export type TextDrawable = {
 // - color: 用 fill color 控制（MathJax SVG 主要是 path fill）
 // - draggable: 讓方程式標籤可以拖曳
 // - displayMode: true 會用 display math（更大更像獨立方程式）；false 是 inline
+// - fallbackText / fallbackSpans: MathJax 還在載入或載入失敗時，先用一般 <text> 顯示
+// - pos 和 TextDrawable 一樣是「左下基線」
 // =========================================================
 export type MathSvgDrawable = {
   kind: "mathSvg";
@@ -94,15 +103,41 @@ export type MathSvgDrawable = {
   fill?: FillStyle;
   draggable?: boolean;
   displayMode?: boolean;
+  fallbackText?: string;
+  fallbackSpans?: TextSpan[];
+};
+
+// 斜線紋（hatch）樣式：用 SVG <pattern> 畫平行細線
+// - spacing: 線與線的間距（像素）
+// - angle: 旋轉角度（度），45 就是常見的斜線
+export type HatchStyle = {
+  spacing?: number;
+  angle?: number;
+  color?: string;
+  width?: number;
+};
+
+// 填色區域（多邊形）
+// 用途：可行預算集合、消費者 / 生產者剩餘、無謂損失 ...
+// renderer 會把所有 area 畫在最底層（線 / 點 / 文字的下面）
+export type AreaDrawable = {
+  kind: "area";
+  id: string;
+  points: Vec2[];          // 多邊形頂點（像素座標，會自動閉合）
+  fill?: FillStyle;        // 填色（不給就不填色，只畫 hatch / 外框）
+  fillOpacity?: number;    // 0~1
+  hatch?: HatchStyle;      // 可選斜線紋
+  stroke?: StrokeStyle;    // 可選外框
 };
 
-// union type: Drawable 可以是以下4種其中之一
+// union type: Drawable 可以是以下幾種其中之一
 export type Drawable =
   | LineDrawable
   | PolylineDrawable
   | PointDrawable
   | TextDrawable
-  | MathSvgDrawable;
+  | MathSvgDrawable
+  | AreaDrawable;
 ;
 
 export type SceneOutput = {
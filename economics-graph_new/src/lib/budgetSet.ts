@@ -0,0 +1,275 @@
+/* budgetSet.ts */
+//   - 模型計算層: 拗折 / 非線性預算集合（不依賴 React）
+//   - 每一種預算集合都用「邊界折線」(frontier) 表示：
+//     從 y 軸 (0, I/py) 出發，一路往右下走到 x 軸
+//   - 可行集合 = 邊界折線底下、第一象限內的區域（多邊形 = 原點 + frontier）
+//
+//   種類：
+//   - linear:           px x + py y = I（一般預算線）
+//   - quantityDiscount: x 超過 threshold 的部分打折，單價變成 px (1 - discountRate)
+//   - unitTax:          x 每單位加稅 tax（tax < 0 就是補貼），單價變成 px + tax
+//   - ration:           x 最多只能買 cap（配給）
+//   - inKind:           政府直接給 amount 單位的 x（例如食物券，不能轉賣）
+//
+// 座標慣例：x 在水平軸，y 在垂直軸
+
+import type { Point } from "./consumer";
+
+export type BudgetSetKind = "linear" | "quantityDiscount" | "unitTax" | "ration" | "inKind";
+
+export type BudgetSetSpec =
+  | { kind: "linear" }
+  | { kind: "quantityDiscount"; threshold: number; discountRate: number }
+  | { kind: "unitTax"; tax: number }
+  | { kind: "ration"; cap: number }
+  | { kind: "inKind"; amount: number };
+
+export const BUDGET_SET_KINDS: BudgetSetKind[] = [
+  "linear",
+  "quantityDiscount",
+  "unitTax",
+  "ration",
+  "inKind",
+];
+
+const BUDGET_SET_LABELS: Record<BudgetSetKind, string> = {
+  linear: "Linear budget",
+  quantityDiscount: "Quantity discount on x",
+  unitTax: "Per-unit tax / subsidy on x",
+  ration: "Rationing of x",
+  inKind: "In-kind transfer of x",
+};
+
+export function budgetSetLabel(kind: BudgetSetKind): string {
+  return BUDGET_SET_LABELS[kind];
+}
+
+// 防呆：把外部字串（例如 <select> 的 value）轉成 BudgetSetKind
+export function isBudgetSetKind(raw: string): raw is BudgetSetKind {
+  let i = 0;
+  while (i < BUDGET_SET_KINDS.length) {
+    if (BUDGET_SET_KINDS[i] === raw) {
+      return true;
+    }
+    i += 1;
+  }
+  return false;
+}
+
+// 稅後 / 折扣後單價的下限（補貼、折扣都不能讓價格 <= 0）
+const MIN_PRICE = 0.05;
+
+// 邊界折線（經濟座標）
+// 回傳的點從 y 軸開始、x 遞增（垂直段的兩點 x 相同）
+export function budgetFrontier(
+  spec: BudgetSetSpec,
+  b: { I: number; px: number; py: number }
+): Point[] {
+  const { I, px, py } = b;
+  const yMax = I / py;
+
+  if (spec.kind === "quantityDiscount") {
+    const T = spec.threshold;
+    // 連 threshold 都買不到：折扣用不到，就是一般預算線
+    if (T <= 0 || px * T >= I) {
+      return [{ x: 0, y: yMax }, { x: I / px, y: 0 }];
+    }
+    // discountRate = 1 會讓折扣後單價變 0（邊界跑到 x = 無限大），和單位稅一樣守住下限
+    let pxDiscount = px * (1 - spec.discountRate);
+    if (pxDiscount < MIN_PRICE) {
+      pxDiscount = MIN_PRICE;
+    }
+    const left = I - px * T; // 買完前 T 單位後剩下的錢
+    return [
+      { x: 0, y: yMax },
+      { x: T, y: left / py },
+      { x: T + left / pxDiscount, y: 0 },
+    ];
+  }
+
+  if (spec.kind === "unitTax") {
+    let pxTaxed = px + spec.tax;
+    if (pxTaxed < MIN_PRICE) {
+      pxTaxed = MIN_PRICE;
+    }
+    return [{ x: 0, y: yMax }, { x: I / pxTaxed, y: 0 }];
+  }
+
+  if (spec.kind === "ration") {
+    const cap = spec.cap;
+    // 配給量比買得起的還多：配給不具約束力
+    if (cap >= I / px) {
+      return [{ x: 0, y: yMax }, { x: I / px, y: 0 }];
+    }
+    return [
+      { x: 0, y: yMax },
+      { x: cap, y: (I - px * cap) / py },
+      { x: cap, y: 0 },
+    ];
+  }
+
+  if (spec.kind === "inKind") {
+    const amount = spec.amount;
+    if (amount <= 0) {
+      return [{ x: 0, y: yMax }, { x: I / px, y: 0 }];
+    }
+    // 前 amount 單位的 x 是免費的：先水平走到 (amount, I/py)，再沿原斜率往下
+    return [
+      { x: 0, y: yMax },
+      { x: amount, y: yMax },
+      { x: amount + I / px, y: 0 },
+    ];
+  }
+
+  return [{ x: 0, y: yMax }, { x: I / px, y: 0 }];
+}
+
+// 邊界在 x 處的高度（垂直段取較高的那一點）
+// - x 超出邊界的範圍（買不起）：回傳 -Infinity
+// 拖曳時用來解「讓邊界通過某一點的 I / px / py」
+export function frontierHeightAt(frontier: Point[], x: number): number {
+  let best = -Infinity;
+  let i = 0;
+  while (i + 1 < frontier.length) {
+    const a = frontier[i];
+    const b = frontier[i + 1];
+    if (x >= a.x && x <= b.x) {
+      let y = Math.max(a.y, b.y);
+      if (b.x > a.x) {
+        y = a.y + ((b.y - a.y) * (x - a.x)) / (b.x - a.x);
+      }
+      if (y > best) {
+        best = y;
+      }
+    }
+    i += 1;
+  }
+  return best;
+}
+
+// 可行集合的多邊形頂點（原點 + 邊界折線），給陰影用
+export function budgetRegion(frontier: Point[]): Point[] {
+  const pts: Point[] = [{ x: 0, y: 0 }];
+  let i = 0;
+  while (i < frontier.length) {
+    pts.push(frontier[i]);
+    i += 1;
+  }
+  return pts;
+}
+
+// ------------------------------------------------------------
+// optimumOnFrontier：在拗折的邊界上找效用最大的點
+// - 偏好單調：最適點一定在邊界上，所以只要沿著每一段找
+// - 每一段先密集取樣，再在最佳取樣點附近做黃金分割搜尋精修
+//   （不假設可微，完全互補 / 角解 / Stone-Geary 的 0 效用平台都適用）
+// ------------------------------------------------------------
+export function optimumOnFrontier(
+  frontier: Point[],
+  value: (x: number, y: number) => number
+): Point {
+  const samples = 200;
+
+  // NaN / 非有限值一律視為最差
+  const safeValue = (pt: Point): number => {
+    const v = value(pt.x, pt.y);
+    if (Number.isFinite(v)) {
+      return v;
+    }
+    return -Infinity;
+  };
+
+  const lerp = (a: Point, b: Point, t: number): Point => {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  };
+
+  let bestPt = frontier[0];
+  let bestVal = safeValue(bestPt);
+
+  let s = 0;
+  while (s < frontier.length - 1) {
+    const a = frontier[s];
+    const b = frontier[s + 1];
+
+    // 1) 密集取樣
+    let bestK = 0;
+    let bestKVal = -Infinity;
+    let k = 0;
+    while (k <= samples) {
+      const v = safeValue(lerp(a, b, k / samples));
+      if (v > bestKVal) {
+        bestKVal = v;
+        bestK = k;
+      }
+      k += 1;
+    }
+
+    // 2) 在 [bestK-1, bestK+1] 之間做黃金分割搜尋
+    let lo = (bestK - 1) / samples;
+    let hi = (bestK + 1) / samples;
+    if (lo < 0) {
+      lo = 0;
+    }
+    if (hi > 1) {
+      hi = 1;
+    }
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let iter = 0;
+    while (iter < 60) {
+      const t1 = hi - ratio * (hi - lo);
+      const t2 = lo + ratio * (hi - lo);
+      if (safeValue(lerp(a, b, t1)) < safeValue(lerp(a, b, t2))) {
+        lo = t1;
+      } else {
+        hi = t2;
+      }
+      iter += 1;
+    }
+
+    const candidates = [lerp(a, b, (lo + hi) / 2), lerp(a, b, bestK / samples)];
+    let c = 0;
+    while (c < candidates.length) {
+      const v = safeValue(candidates[c]);
+      if (v > bestVal) {
+        bestVal = v;
+        bestPt = candidates[c];
+      }
+      c += 1;
+    }
+
+    s += 1;
+  }
+
+  return bestPt;
+}
+
+// 方程式標籤用的描述（純文字）
+// 例如 "1.00x + 1.00y = 20.00,  x ≤ 8.00"
+export function describeBudgetSet(
+  spec: BudgetSetSpec,
+  b: { I: number; px: number; py: number }
+): string {
+  const base = `${fmt(b.px)}x + ${fmt(b.py)}y = ${fmt(b.I)}`;
+
+  if (spec.kind === "quantityDiscount") {
+    return `${base},  px × ${fmt(1 - spec.discountRate)} for x > ${fmt(spec.threshold)}`;
+  }
+  if (spec.kind === "unitTax") {
+    let pxTaxed = b.px + spec.tax;
+    if (pxTaxed < MIN_PRICE) {
+      pxTaxed = MIN_PRICE;
+    }
+    return `${fmt(pxTaxed)}x + ${fmt(b.py)}y = ${fmt(b.I)}  (t = ${fmt(spec.tax)})`;
+  }
+  if (spec.kind === "ration") {
+    return `${base},  x ≤ ${fmt(spec.cap)}`;
+  }
+  if (spec.kind === "inKind") {
+    return `${fmt(b.px)} max(x - ${fmt(spec.amount)}, 0) + ${fmt(b.py)}y = ${fmt(b.I)}`;
+  }
+  return base;
+}
+
+function fmt(value: number): string {
+  return value.toFixed(2);
+}
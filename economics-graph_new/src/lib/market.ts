@@ -0,0 +1,495 @@
+/* market.ts */
+//   - 模型計算層: 供需市場（不依賴 React）
+//   - 需求 / 供給都用「數量是價格的函數」Q(P) 表示，再加上水平移動 shift
+//     （shift > 0：每個價格下的數量都變多 = 曲線往右移）
+//
+//   曲線種類：
+//   - linear:             需求 P = intercept - slope (Q - shift)
+//                         供給 P = intercept + slope (Q - shift)
+//   - constantElasticity: 需求 Q = scale P^(-elasticity) + shift
+//                         供給 Q = scale P^(elasticity) + shift
+//
+//   市場干預（MarketIntervention）：
+//   - tax / subsidy:   每單位的稅 / 補貼，在買方價格和賣方價格之間打進一個楔子（wedge）
+//   - ceiling / floor: 價格上限 / 下限（有約束力時出現短缺 / 過剩）
+//   - quota:           數量上限（有約束力時買賣價差就是配額租）
+//
+// 座標慣例：Q 在水平軸 (x)，P 在垂直軸 (y)
+
+import type { Point } from "./consumer";
+
+export type MarketCurveKind = "linear" | "constantElasticity";
+
+export type MarketSide = "demand" | "supply";
+
+// 一條需求 / 供給曲線
+// 兩種曲線的參數都保留（切換種類時各自的設定不會不見）
+export type MarketCurve = {
+  kind: MarketCurveKind;
+  intercept: number;    // linear：價格軸截距（需求 = 最高願付價格；供給 = 最低供給價格）
+  slope: number;        // linear：|dP/dQ|（> 0）
+  scale: number;        // constantElasticity：P = 1 時的數量（> 0）
+  elasticity: number;   // constantElasticity：價格彈性的絕對值（> 0）
+  shift: number;        // 水平移動（數量單位）
+};
+
+export const MARKET_CURVE_KINDS: MarketCurveKind[] = ["linear", "constantElasticity"];
+
+const MARKET_CURVE_LABELS: Record<MarketCurveKind, string> = {
+  linear: "Linear",
+  constantElasticity: "Constant elasticity",
+};
+
+export function marketCurveLabel(kind: MarketCurveKind): string {
+  return MARKET_CURVE_LABELS[kind];
+}
+
+// 防呆：把外部字串（例如 <select> 的 value）轉成 MarketCurveKind
+export function isMarketCurveKind(raw: string): raw is MarketCurveKind {
+  let i = 0;
+  while (i < MARKET_CURVE_KINDS.length) {
+    if (MARKET_CURVE_KINDS[i] === raw) {
+      return true;
+    }
+    i += 1;
+  }
+  return false;
+}
+
+// 供需曲線的價格都要 > 0（constantElasticity 在 P = 0 沒有定義）
+const MIN_PRICE = 1e-6;
+
+// ------------------------------------------------------------
+// quantityAt：價格 P 下的需求量 / 供給量
+// - 回傳「未截斷」的值：< 0 代表這個價格下沒有人買 / 賣
+//   （畫圖時略過，均衡求解時用來判斷有沒有正的均衡量）
+// ------------------------------------------------------------
+export function quantityAt(curve: MarketCurve, side: MarketSide, P: number): number {
+  if (curve.kind === "constantElasticity") {
+    const e = side === "demand" ? -curve.elasticity : curve.elasticity;
+    return curve.scale * Math.pow(Math.max(P, MIN_PRICE), e) + curve.shift;
+  }
+
+  // linear：反解 P = intercept ∓ slope (Q - shift)
+  if (side === "demand") {
+    return (curve.intercept - P) / curve.slope + curve.shift;
+  }
+  return (P - curve.intercept) / curve.slope + curve.shift;
+}
+
+// ------------------------------------------------------------
+// priceAt：數量 Q 對應的價格（反需求 / 反供給函數）
+// - 這個數量不在曲線上（例如 constantElasticity 的 Q <= shift）回傳 null
+// ------------------------------------------------------------
+export function priceAt(curve: MarketCurve, side: MarketSide, Q: number): number | null {
+  const q = Q - curve.shift;
+
+  if (curve.kind === "constantElasticity") {
+    if (q <= 0) {
+      return null;
+    }
+    const e = side === "demand" ? -curve.elasticity : curve.elasticity;
+    return Math.pow(q / curve.scale, 1 / e);
+  }
+
+  if (side === "demand") {
+    return curve.intercept - curve.slope * q;
+  }
+  return curve.intercept + curve.slope * q;
+}
+
+// ------------------------------------------------------------
+// solveEquilibrium：Q_d(P) = Q_s(P - wedge)
+// - wedge：買方價格 - 賣方價格（稅 = t、補貼 = -s；不給就是 0 = 沒有干預）
+// - 回傳的 y 是「買方價格」
+// - 超額需求隨 P 遞減，先往上找到 < 0 的價格，再用二分法
+// - 沒有正的均衡量（例如供給的最低價格高過需求的最高價格）回傳 null
+// ------------------------------------------------------------
+export function solveEquilibrium(demand: MarketCurve, supply: MarketCurve, wedge?: number): Point | null {
+  const t = wedge !== undefined ? wedge : 0;
+  const excess = (P: number) => quantityAt(demand, "demand", P) - quantityAt(supply, "supply", P - t);
+
+  let lo = MIN_PRICE;
+  if (excess(lo) <= 0) {
+    return null;
+  }
+
+  let hi = 1;
+  let k = 0;
+  while (excess(hi) > 0) {
+    lo = hi;
+    hi *= 2;
+    k += 1;
+    if (k > 60) {
+      return null;
+    }
+  }
+
+  let i = 0;
+  while (i < 80) {
+    const mid = (lo + hi) / 2;
+    if (excess(mid) > 0) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+    i += 1;
+  }
+
+  const P = (lo + hi) / 2;
+  const Q = quantityAt(demand, "demand", P);
+  if (!(Q > 0) || !(P - t > 0)) {
+    return null;
+  }
+  return { x: Q, y: P };
+}
+
+// ------------------------------------------------------------
+// marketCurvePoints：曲線取樣（經濟座標，x = Q、y = P）
+// - linear：直接回傳裁切到 [0, qMax] x [pMin, pMax] 的線段兩端點（截距畫得剛好）
+// - constantElasticity：在價格軸 [pMin, pMax] 上取 n 個點，只留 0 <= Q <= qMax 的點
+// ------------------------------------------------------------
+export function marketCurvePoints(
+  curve: MarketCurve,
+  side: MarketSide,
+  range: { pMin: number; pMax: number; qMax: number; n: number }
+): Point[] {
+  const { pMin, pMax, qMax, n } = range;
+  const pts: Point[] = [];
+
+  if (curve.kind === "linear") {
+    // Q = 0 和 Q = qMax 時的價格，和 [pMin, pMax] 取交集
+    const pAtZero = priceAt(curve, side, 0) as number;
+    const pAtMax = priceAt(curve, side, qMax) as number;
+    const lo = Math.max(Math.min(pAtZero, pAtMax), pMin);
+    const hi = Math.min(Math.max(pAtZero, pAtMax), pMax);
+    if (hi <= lo) {
+      return pts;
+    }
+    pts.push({ x: quantityAt(curve, side, lo), y: lo });
+    pts.push({ x: quantityAt(curve, side, hi), y: hi });
+    return pts;
+  }
+
+  const step = (pMax - pMin) / (n - 1);
+
+  let i = 0;
+  while (i < n) {
+    const P = Math.max(pMin + step * i, MIN_PRICE);
+    const Q = quantityAt(curve, side, P);
+    if (Number.isFinite(Q) && Q >= 0 && Q <= qMax) {
+      pts.push({ x: Q, y: P });
+    }
+    i += 1;
+  }
+
+  return pts;
+}
+
+// ------------------------------------------------------------
+// 市場干預
+// 所有種類的參數都保留（和 MarketCurve 一樣：切換種類時各自的設定不會不見）
+// ------------------------------------------------------------
+export type MarketInterventionKind = "none" | "tax" | "subsidy" | "ceiling" | "floor" | "quota";
+
+export type MarketIntervention = {
+  kind: MarketInterventionKind;
+  tax: number;        // 每單位的稅（> 0）
+  subsidy: number;    // 每單位的補貼（> 0）
+  ceiling: number;    // 價格上限
+  floor: number;      // 價格下限
+  quota: number;      // 數量上限
+};
+
+export const MARKET_INTERVENTION_KINDS: MarketInterventionKind[] = [
+  "none",
+  "tax",
+  "subsidy",
+  "ceiling",
+  "floor",
+  "quota",
+];
+
+const MARKET_INTERVENTION_LABELS: Record<MarketInterventionKind, string> = {
+  none: "No intervention",
+  tax: "Per-unit tax",
+  subsidy: "Per-unit subsidy",
+  ceiling: "Price ceiling",
+  floor: "Price floor",
+  quota: "Quota",
+};
+
+export function marketInterventionLabel(kind: MarketInterventionKind): string {
+  return MARKET_INTERVENTION_LABELS[kind];
+}
+
+// 防呆：把外部字串（例如 <select> 的 value）轉成 MarketInterventionKind
+export function isMarketInterventionKind(raw: string): raw is MarketInterventionKind {
+  let i = 0;
+  while (i < MARKET_INTERVENTION_KINDS.length) {
+    if (MARKET_INTERVENTION_KINDS[i] === raw) {
+      return true;
+    }
+    i += 1;
+  }
+  return false;
+}
+
+// ------------------------------------------------------------
+// MarketInterventionResult：干預後的市場
+// - binding：干預有沒有約束力（沒有的話 outcome 就是原本的均衡）
+// - outcome：實際成交量、買方價格、賣方價格（給 computeWelfare）
+// - quantityDemanded / quantitySupplied：在買方 / 賣方價格下想買 / 想賣的量
+//   （價格上限：demanded > supplied = 短缺；價格下限：supplied > demanded = 過剩）
+// - buyerBurden / sellerBurden：和原均衡價格比，買方每單位多付 / 賣方每單位少收多少
+//   （稅：兩者相加 = t；補貼時兩者為負 = 各自拿到的好處）
+// ------------------------------------------------------------
+export type MarketInterventionResult = {
+  binding: boolean;
+  outcome: MarketOutcome;
+  quantityDemanded: number;
+  quantitySupplied: number;
+  buyerBurden: number;
+  sellerBurden: number;
+};
+
+// ------------------------------------------------------------
+// solveIntervention
+// - equilibrium：沒有干預時的均衡（solveEquilibrium(demand, supply)）
+// - tax / subsidy：重新解 Q_d(Pb) = Q_s(Pb - wedge)；稅太重以致成交量 <= 0 回傳 null
+// - ceiling：低於 P* 才有約束力，成交量 = 短邊（供給量）
+// - floor：高於 P* 才有約束力，成交量 = 短邊（需求量）
+// - quota：小於 Q* 才有約束力，買方價格沿需求曲線、賣方價格沿供給曲線
+// ------------------------------------------------------------
+export function solveIntervention(
+  demand: MarketCurve,
+  supply: MarketCurve,
+  intervention: MarketIntervention,
+  equilibrium: Point
+): MarketInterventionResult | null {
+  const P = equilibrium.y;
+  const kind = intervention.kind;
+
+  if (kind === "tax" || kind === "subsidy") {
+    const wedge = kind === "tax" ? intervention.tax : -intervention.subsidy;
+    if (wedge === 0) {
+      return unchanged(equilibrium);
+    }
+    const eq = solveEquilibrium(demand, supply, wedge);
+    if (!eq) {
+      return null;
+    }
+    const pb = eq.y;
+    const ps = eq.y - wedge;
+    return {
+      binding: true,
+      outcome: { quantity: eq.x, buyerPrice: pb, sellerPrice: ps },
+      quantityDemanded: eq.x,
+      quantitySupplied: eq.x,
+      buyerBurden: pb - P,
+      sellerBurden: P - ps,
+    };
+  }
+
+  if (kind === "ceiling" || kind === "floor") {
+    const price = kind === "ceiling" ? intervention.ceiling : intervention.floor;
+    const binding = kind === "ceiling" ? price < P : price > P;
+    if (!binding) {
+      return unchanged(equilibrium);
+    }
+    const qd = Math.max(quantityAt(demand, "demand", price), 0);
+    const qs = Math.max(quantityAt(supply, "supply", price), 0);
+    return {
+      binding: true,
+      outcome: { quantity: Math.min(qd, qs), buyerPrice: price, sellerPrice: price },
+      quantityDemanded: qd,
+      quantitySupplied: qs,
+      buyerBurden: price - P,
+      sellerBurden: P - price,
+    };
+  }
+
+  if (kind === "quota") {
+    const q = intervention.quota;
+    if (q >= equilibrium.x) {
+      return unchanged(equilibrium);
+    }
+    if (q <= 0) {
+      return null;
+    }
+    const pb = priceAt(demand, "demand", q);
+    const psRaw = priceAt(supply, "supply", q);
+    if (pb === null) {
+      return null;
+    }
+    // 供給曲線在這個數量沒有定義（constantElasticity 的 Q <= shift）：任何正價格都願意賣
+    const ps = psRaw === null || psRaw < 0 ? 0 : psRaw;
+    return {
+      binding: true,
+      outcome: { quantity: q, buyerPrice: pb, sellerPrice: ps },
+      quantityDemanded: q,
+      quantitySupplied: q,
+      buyerBurden: pb - P,
+      sellerBurden: P - ps,
+    };
+  }
+
+  return unchanged(equilibrium);
+}
+
+function unchanged(equilibrium: Point): MarketInterventionResult {
+  return {
+    binding: false,
+    outcome: { quantity: equilibrium.x, buyerPrice: equilibrium.y, sellerPrice: equilibrium.y },
+    quantityDemanded: equilibrium.x,
+    quantitySupplied: equilibrium.x,
+    buyerBurden: 0,
+    sellerBurden: 0,
+  };
+}
+
+// ------------------------------------------------------------
+// 福利分析：消費者剩餘 CS、生產者剩餘 PS、政府收入 Gov、無謂損失 DWL
+//
+// MarketOutcome：市場「實際」的成交結果
+// - quantity：成交量
+// - buyerPrice：買方付的價格
+// - sellerPrice：賣方收到的價格
+// 沒有干預時三者就是均衡 (Q*, P*, P*)；有稅 / 補貼時 buyerPrice != sellerPrice
+// ------------------------------------------------------------
+export type MarketOutcome = {
+  quantity: number;
+  buyerPrice: number;
+  sellerPrice: number;
+};
+
+export type WelfareRegion = "cs" | "ps" | "gov" | "dwl";
+
+export const WELFARE_REGIONS: WelfareRegion[] = ["cs", "ps", "gov", "dwl"];
+
+const WELFARE_LABELS: Record<WelfareRegion, string> = {
+  cs: "CS",
+  ps: "PS",
+  gov: "Gov",
+  dwl: "DWL",
+};
+
+export function welfareLabel(region: WelfareRegion): string {
+  return WELFARE_LABELS[region];
+}
+
+// 每一塊區域：面積 + 多邊形（經濟座標；面積 = 0 時 polygon 為空陣列）
+// - gov 的面積帶正負號：稅收 > 0、補貼支出 < 0
+export type MarketWelfare = Record<WelfareRegion, { area: number; polygon: Point[] }>;
+
+// 面積太小就當作沒有這塊區域（避免畫出一條線）
+const MIN_AREA = 1e-9;
+
+// ------------------------------------------------------------
+// computeWelfare
+// - 面積直接用「畫出來的多邊形」算（shoelace），數字和塗色的區域一定一致
+// - 價格都截在 [0, pCap]：
+//   constantElasticity 的需求沒有最高願付價格（Q -> shift 時 P -> 無限大），
+//   所以 CS 只算到 pCap（通常是圖的價格軸上限）
+// - 曲線上的點在 [0, quantity] 取 n 個（linear 也照樣取，多邊形的面積不變）
+// ------------------------------------------------------------
+export function computeWelfare(
+  demand: MarketCurve,
+  supply: MarketCurve,
+  outcome: MarketOutcome,
+  equilibrium: Point,
+  range: { pCap: number; n: number }
+): MarketWelfare {
+  const { pCap, n } = range;
+  const q = outcome.quantity;
+  const pb = outcome.buyerPrice;
+  const ps = outcome.sellerPrice;
+
+  // 曲線上的價格（截在 [0, pCap]）
+  // - 需求：數量不在曲線上（Q <= shift）代表價格無限高 -> pCap
+  // - 供給：數量不在曲線上（Q <= shift）代表任何正價格都有這麼多供給 -> 0
+  const demandPrice = (Q: number) => clampPrice(priceAt(demand, "demand", Q), pCap, pCap);
+  const supplyPrice = (Q: number) => clampPrice(priceAt(supply, "supply", Q), 0, pCap);
+
+  // CS：需求曲線以下、買方價格以上，Q 從 0 到成交量
+  const csPolygon: Point[] = [{ x: 0, y: pb }];
+  sampleCurve(demandPrice, 0, q, n, csPolygon);
+  csPolygon.push({ x: q, y: pb });
+
+  // PS：賣方價格以下、供給曲線以上
+  const psPolygon: Point[] = [{ x: 0, y: ps }];
+  sampleCurve(supplyPrice, 0, q, n, psPolygon);
+  psPolygon.push({ x: q, y: ps });
+
+  // Gov：買賣價差 x 成交量（稅收；補貼時是政府支出；配額時是配額租）
+  const govPolygon: Point[] = [
+    { x: 0, y: ps },
+    { x: q, y: ps },
+    { x: q, y: pb },
+    { x: 0, y: pb },
+  ];
+
+  // DWL：成交量和均衡量之間，需求曲線和供給曲線夾住的三角形
+  // （成交量 < Q*：少做的交易；成交量 > Q*：多做的交易，兩種都是損失）
+  const dwlPolygon: Point[] = [];
+  sampleCurve(demandPrice, q, equilibrium.x, n, dwlPolygon);
+  const supplyBack: Point[] = [];
+  sampleCurve(supplyPrice, q, equilibrium.x, n, supplyBack);
+  let i = supplyBack.length - 1;
+  while (i >= 0) {
+    dwlPolygon.push(supplyBack[i]);
+    i -= 1;
+  }
+
+  return {
+    cs: toRegion(csPolygon),
+    ps: toRegion(psPolygon),
+    gov: toRegion(govPolygon, pb < ps ? -1 : 1),
+    dwl: toRegion(dwlPolygon),
+  };
+}
+
+function clampPrice(P: number | null, whenMissing: number, pCap: number): number {
+  if (P === null || !Number.isFinite(P)) {
+    return whenMissing;
+  }
+  if (P < 0) {
+    return 0;
+  }
+  if (P > pCap) {
+    return pCap;
+  }
+  return P;
+}
+
+// 在 [from, to] 取 n 個點（from > to 也可以：由右往左取）
+function sampleCurve(price: (Q: number) => number, from: number, to: number, n: number, out: Point[]) {
+  const step = (to - from) / (n - 1);
+  let i = 0;
+  while (i < n) {
+    const Q = from + step * i;
+    out.push({ x: Q, y: price(Q) });
+    i += 1;
+  }
+}
+
+// shoelace 公式：多邊形面積（取絕對值，頂點順時針 / 逆時針都可以）
+function polygonArea(pts: Point[]): number {
+  let sum = 0;
+  let i = 0;
+  while (i < pts.length) {
+    const a = pts[i];
+    const b = pts[(i + 1) % pts.length];
+    sum += a.x * b.y - b.x * a.y;
+    i += 1;
+  }
+  return Math.abs(sum) / 2;
+}
+
+function toRegion(polygon: Point[], sign?: number): { area: number; polygon: Point[] } {
+  const area = polygonArea(polygon);
+  if (!(area > MIN_AREA)) {
+    return { area: 0, polygon: [] };
+  }
+  return { area: sign !== undefined ? area * sign : area, polygon };
+}
@@ -0,0 +1,155 @@
+/* monopoly.ts */
+//   - 模型計算層: 獨占廠商的訂價（不依賴 React）
+//   - 需求（反需求函數）：P = a - b Q
+//   - 總成本：TC = F + c Q + d Q^2
+//       邊際成本 MC = c + 2 d Q
+//       平均總成本 ATC = F / Q + c + d Q
+//   - 邊際收入：TR = P Q = a Q - b Q^2  =>  MR = a - 2 b Q
+//
+//   獨占：MR = MC  =>  Q_m = (a - c) / (2b + 2d)，P_m 從需求曲線讀
+//   完全競爭（對照組）：P = MC  =>  Q_c = (a - c) / (b + 2d)
+//
+// 座標慣例：Q 在水平軸 (x)，P 在垂直軸 (y)
+
+import type { Point } from "./consumer";
+
+export type MonopolyParams = {
+  a: number;  // 需求的價格軸截距（> 0）
+  b: number;  // 需求斜率 |dP/dQ|（> 0）
+  F: number;  // 固定成本（>= 0）
+  c: number;  // MC 的截距（>= 0）
+  d: number;  // 成本的二次項（>= 0；MC 斜率是 2d）
+};
+
+export type MonopolyCurve = "demand" | "mr" | "mc" | "atc";
+
+export function demandPrice(p: MonopolyParams, Q: number): number {
+  return p.a - p.b * Q;
+}
+
+export function marginalRevenue(p: MonopolyParams, Q: number): number {
+  return p.a - 2 * p.b * Q;
+}
+
+export function marginalCost(p: MonopolyParams, Q: number): number {
+  return p.c + 2 * p.d * Q;
+}
+
+// Q = 0 時 ATC 沒有定義（F / Q）
+export function averageTotalCost(p: MonopolyParams, Q: number): number {
+  return p.F / Q + p.c + p.d * Q;
+}
+
+// ------------------------------------------------------------
+// monopolyOptimum：MR = MC
+// - 需求的最高價格 a <= MC 截距 c：連第一單位都不划算，回傳 null
+// - profit = (P_m - ATC(Q_m)) Q_m，< 0 是虧損（短期仍可能生產，見 atc）
+// ------------------------------------------------------------
+export function monopolyOptimum(
+  p: MonopolyParams
+): { Q: number; P: number; mc: number; atc: number; profit: number } | null {
+  if (p.a <= p.c) {
+    return null;
+  }
+  const Q = (p.a - p.c) / (2 * p.b + 2 * p.d);
+  const P = demandPrice(p, Q);
+  const atc = averageTotalCost(p, Q);
+  return { Q, P, mc: marginalCost(p, Q), atc, profit: (P - atc) * Q };
+}
+
+// ------------------------------------------------------------
+// competitiveOutcome：P = MC（和獨占比較 DWL 用）
+// ------------------------------------------------------------
+export function competitiveOutcome(p: MonopolyParams): Point | null {
+  if (p.a <= p.c) {
+    return null;
+  }
+  const Q = (p.a - p.c) / (p.b + 2 * p.d);
+  return { x: Q, y: demandPrice(p, Q) };
+}
+
+// ------------------------------------------------------------
+// monopolyDeadweightLoss：Q_m 到 Q_c 之間，需求和 MC 夾住的三角形
+// 回傳三角形頂點（經濟座標）和面積；沒有獨占解時為 null
+// ------------------------------------------------------------
+export function monopolyDeadweightLoss(p: MonopolyParams): { area: number; polygon: Point[] } | null {
+  const m = monopolyOptimum(p);
+  const comp = competitiveOutcome(p);
+  if (!m || !comp) {
+    return null;
+  }
+  return {
+    area: ((m.P - m.mc) * (comp.x - m.Q)) / 2,
+    polygon: [
+      { x: m.Q, y: m.P },
+      { x: comp.x, y: comp.y },
+      { x: m.Q, y: m.mc },
+    ],
+  };
+}
+
+// ------------------------------------------------------------
+// monopolyCurvePoints：曲線取樣（經濟座標，x = Q、y = P）
+// - demand / mr / mc 是直線：直接回傳裁切到 [0, qMax] x [0, pMax] 的線段兩端點
+// - atc：在 (0, qMax] 上取 n 個點，只留 0 <= P <= pMax 的點（Q -> 0 時 ATC -> 無限大）
+// ------------------------------------------------------------
+export function monopolyCurvePoints(
+  p: MonopolyParams,
+  curve: MonopolyCurve,
+  range: { qMax: number; pMax: number; n: number }
+): Point[] {
+  const { qMax, pMax, n } = range;
+
+  if (curve === "atc") {
+    const pts: Point[] = [];
+    const step = qMax / n;
+    let i = 1;
+    while (i <= n) {
+      const Q = step * i;
+      const P = averageTotalCost(p, Q);
+      if (Number.isFinite(P) && P >= 0 && P <= pMax) {
+        pts.push({ x: Q, y: P });
+      }
+      i += 1;
+    }
+    return pts;
+  }
+
+  // 直線 P = p0 + s Q
+  let p0 = p.c;
+  let s = 2 * p.d;
+  if (curve === "demand") {
+    p0 = p.a;
+    s = -p.b;
+  } else if (curve === "mr") {
+    p0 = p.a;
+    s = -2 * p.b;
+  }
+  return clipLine(p0, s, qMax, pMax);
+}
+
+// 直線 P = p0 + s Q 和 [0, qMax] x [0, pMax] 的交集（線段兩端點；不相交回傳空陣列）
+function clipLine(p0: number, s: number, qMax: number, pMax: number): Point[] {
+  let qLo = 0;
+  let qHi = qMax;
+
+  if (s === 0) {
+    if (p0 < 0 || p0 > pMax) {
+      return [];
+    }
+  } else {
+    // P = 0 和 P = pMax 對應的 Q
+    const qAtZero = -p0 / s;
+    const qAtMax = (pMax - p0) / s;
+    qLo = Math.max(qLo, Math.min(qAtZero, qAtMax));
+    qHi = Math.min(qHi, Math.max(qAtZero, qAtMax));
+  }
+
+  if (qHi <= qLo) {
+    return [];
+  }
+  return [
+    { x: qLo, y: p0 + s * qLo },
+    { x: qHi, y: p0 + s * qHi },
+  ];
+}
@@ -0,0 +1,326 @@
+/* producer.ts */
+//   - 模型計算層: 負責生產者理論的計算（對應 consumer.ts）
+//   - 生產函數: Q = A L^a K^(1-a)  (Cobb-Douglas, 固定規模報酬)
+//   - 成本最小化要素組合: 給定 w, r, Q 求 L*, K*
+//   - 等成本線截距端點: (C/w,0), (0,C/r)
+//   - 等產量曲線取樣: 給 Q0 算出一串 (L,K) 點
+//   - 短期成本曲線: TC / TVC / TFC、ATC / AVC / AFC / MC、歇業點、損益兩平點
+//   - 長期平均成本: 不同工廠規模的短期 ATC 的包絡線（LRAC）
+//
+// 座標慣例：L 在水平軸 (x)，K 在垂直軸 (y)
+//           成本曲線則是 Q 在水平軸 (x)，成本 / 價格在垂直軸 (y)
+
+import type { Point } from "./consumer";
+
+// 生產函數
+//   - 輸入: A (技術水準), a (L 的產出彈性), L, K
+//   - 計算: Q = A L^a K^(1-a)
+export function productionCobbDouglas(params: {
+  A: number;
+  a: number;
+  L: number;
+  K: number;
+}): number {
+  const { A, a, L, K } = params;
+  return A * Math.pow(L, a) * Math.pow(K, 1 - a);
+}
+
+// 成本最小化要素組合（條件要素需求）
+// min wL + rK  s.t.  A L^a K^(1-a) = Q
+// FOC: MRTS = (a/(1-a)) (K/L) = w/r  =>  K/L = ((1-a)/a) (w/r)
+// 代回生產函數：
+//   L* = (Q/A) ( a r / ((1-a) w) )^(1-a)
+//   K* = (Q/A) ( (1-a) w / (a r) )^a
+// 回傳 Point: x = L*, y = K*
+export function costMinimizingBundle(params: {
+  A: number;
+  a: number;
+  w: number;
+  r: number;
+  Q: number;
+}): Point {
+  const { A, a, w, r, Q } = params;
+
+  const L = (Q / A) * Math.pow((a * r) / ((1 - a) * w), 1 - a);
+  const K = (Q / A) * Math.pow(((1 - a) * w) / (a * r), a);
+
+  return { x: L, y: K };
+}
+
+// 等成本線兩個截距端點
+// 等成本線：wL + rK = C
+// 用兩個截距點表達線段： (C/w, 0), (0, C/r)
+export function isocostLineEndpoints(params: {
+  C: number;
+  w: number;
+  r: number;
+}): { p1: Point; p2: Point } {
+  const { C, w, r } = params;
+  return {
+    p1: { x: C / w, y: 0 },  // L-intercept
+    p2: { x: 0, y: C / r },  // K-intercept
+  };
+}
+
+// 取樣等產量曲線點陣列
+// Q0 = A L^a K^(1-a)  =>  K = (Q0 / (A L^a))^(1/(1-a))
+export function isoquantPoints(params: {
+  A: number;
+  a: number;
+  Q0: number;
+  lMin: number;
+  lMax: number;
+  n: number;
+}): Point[] {
+  const { A, a, Q0, lMin, lMax, n } = params;
+
+  const pts: Point[] = [];
+  const step = (lMax - lMin) / (n - 1);  // 在 [lMin, lMax] 之間取 n 個點
+
+  let i = 0;
+  while (i < n) {
+    const L = lMin + step * i;
+    const K = Math.pow(Q0 / (A * Math.pow(L, a)), 1 / (1 - a));
+    if (Number.isFinite(K)) {
+      pts.push({ x: L, y: K });
+    }
+    i += 1;
+  }
+
+  return pts;
+}
+
+// 擴張路徑上的要素比例 K/L（與 Q 無關）
+//   K/L = ((1-a)/a) (w/r)
+// 反過來：給定 K/L 的比例，可以解回 a（拖曳最適點時用）
+//   a = 1 / (1 + (K/L) (r/w))
+export function alphaFromFactorRatio(params: {
+  kOverL: number;
+  w: number;
+  r: number;
+}): number {
+  const { kOverL, w, r } = params;
+  return 1 / (1 + kOverL * (r / w));
+}
+
+// ------------------------------------------------------------
+// 短期成本曲線（三次成本函數）
+//   TFC = F
+//   TVC = a Q - b Q^2 + c Q^3      （a, c > 0、b >= 0；a > b^2 / (3c) 時 MC 恆正）
+//   TC  = TFC + TVC
+//   MC  = a - 2b Q + 3c Q^2
+//   AVC = a - b Q + c Q^2
+//   AFC = F / Q
+//   ATC = AVC + AFC
+// MC 一定通過 AVC、ATC 的最低點：平均值的導數 = (MC - 平均) / Q
+// ------------------------------------------------------------
+export type ShortRunCostParams = {
+  F: number;
+  a: number;
+  b: number;
+  c: number;
+};
+
+export type CostCurve = "tc" | "tvc" | "tfc" | "mc" | "atc" | "avc" | "afc";
+
+export function costAt(p: ShortRunCostParams, curve: CostCurve, Q: number): number {
+  const { F, a, b, c } = p;
+  const tvc = a * Q - b * Q * Q + c * Q * Q * Q;
+  if (curve === "tc") {
+    return F + tvc;
+  }
+  if (curve === "tvc") {
+    return tvc;
+  }
+  if (curve === "tfc") {
+    return F;
+  }
+  if (curve === "mc") {
+    return a - 2 * b * Q + 3 * c * Q * Q;
+  }
+  if (curve === "avc") {
+    return a - b * Q + c * Q * Q;
+  }
+  if (curve === "afc") {
+    return F / Q;
+  }
+  return F / Q + a - b * Q + c * Q * Q;
+}
+
+// 歇業點（shutdown）：AVC 的最低點 Q = b / (2c)
+// 價格低於這個值時，連變動成本都付不起，短期就該停產
+export function shutdownPoint(p: ShortRunCostParams): Point {
+  const Q = p.b / (2 * p.c);
+  return { x: Q, y: costAt(p, "avc", Q) };
+}
+
+// 損益兩平點（break-even）：ATC 的最低點
+// ATC' = 0  =>  2c Q^3 - b Q^2 - F = 0（Q > 0 只有一個根），用二分法
+export function breakEvenPoint(p: ShortRunCostParams): Point {
+  const g = (Q: number) => 2 * p.c * Q * Q * Q - p.b * Q * Q - p.F;
+
+  // g 在 Q = b / (2c)（AVC 最低點）以下 < 0 或 = 0；往右找到 g > 0 再二分
+  let lo = p.b / (2 * p.c);
+  let hi = Math.max(lo, 1);
+  let k = 0;
+  while (g(hi) < 0 && k < 60) {
+    lo = hi;
+    hi *= 2;
+    k += 1;
+  }
+
+  let i = 0;
+  while (i < 80) {
+    const mid = (lo + hi) / 2;
+    if (g(mid) < 0) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+    i += 1;
+  }
+
+  const Q = (lo + hi) / 2;
+  return { x: Q, y: costAt(p, "atc", Q) };
+}
+
+// 成本曲線取樣：在 (0, qMax] 取 n 個點，只留 0 <= y <= yMax 的點
+// （AFC / ATC 在 Q -> 0 時趨近無限大）
+export function costCurvePoints(
+  p: ShortRunCostParams,
+  curve: CostCurve,
+  range: { qMax: number; yMax: number; n: number }
+): Point[] {
+  const { qMax, yMax, n } = range;
+  const pts: Point[] = [];
+  const step = qMax / n;
+
+  let i = 1;
+  while (i <= n) {
+    const Q = step * i;
+    const y = costAt(p, curve, Q);
+    if (Number.isFinite(y) && y >= 0 && y <= yMax) {
+      pts.push({ x: Q, y });
+    }
+    i += 1;
+  }
+
+  return pts;
+}
+
+// ------------------------------------------------------------
+// 長期：不同的工廠規模 s（s = 1 就是上面的短期成本）
+//   TC_s(Q) = m(s) s TC_1(Q / s)，m(s) = 1 + sigma (ln s)^2
+//   => ATC_s(Q) = m(s) ATC_1(Q / s)
+//      每個工廠的 ATC 形狀一樣：往右放大 s 倍、往上乘 m(s)
+//   - sigma = 0：固定規模報酬，LRAC 是一條水平線
+//   - sigma > 0：LRAC 呈 U 形，最低點在 s = 1（最小效率規模）
+//   LRAC = 所有 s 的 ATC_s 的下包絡線（不是各 ATC_s 最低點的連線）
+// ------------------------------------------------------------
+
+// 連續工廠規模的搜尋範圍（ln s）
+const LN_PLANT_MIN = -3;
+const LN_PLANT_MAX = 3;
+
+// 相鄰工廠規模的間距（ln s）
+const PLANT_LOG_STEP = 0.5;
+
+export function plantAverageCost(p: ShortRunCostParams, sigma: number, s: number, Q: number): number {
+  const ln = Math.log(s);
+  return (1 + sigma * ln * ln) * costAt(p, "atc", Q / s);
+}
+
+// count 個工廠規模，以 s = 1 為中心、ln s 等間距
+export function plantSizes(count: number): number[] {
+  const out: number[] = [];
+  let i = 0;
+  while (i < count) {
+    out.push(Math.exp(PLANT_LOG_STEP * (i - (count - 1) / 2)));
+    i += 1;
+  }
+  return out;
+}
+
+// LRAC(Q) = min_s ATC_s(Q)：先在 ln s 上粗掃，再在最小值附近用黃金分割法細找
+export function longRunAverageCost(p: ShortRunCostParams, sigma: number, Q: number): number {
+  const f = (lnS: number) => plantAverageCost(p, sigma, Math.exp(lnS), Q);
+
+  const n = 120;
+  const step = (LN_PLANT_MAX - LN_PLANT_MIN) / n;
+  let best = 0;
+  let bestValue = Infinity;
+  let i = 0;
+  while (i <= n) {
+    const v = f(LN_PLANT_MIN + step * i);
+    if (v < bestValue) {
+      bestValue = v;
+      best = i;
+    }
+    i += 1;
+  }
+
+  let lo = LN_PLANT_MIN + step * Math.max(best - 1, 0);
+  let hi = LN_PLANT_MIN + step * Math.min(best + 1, n);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let k = 0;
+  while (k < 40) {
+    const m1 = hi - ratio * (hi - lo);
+    const m2 = lo + ratio * (hi - lo);
+    if (f(m1) < f(m2)) {
+      hi = m2;
+    } else {
+      lo = m1;
+    }
+    k += 1;
+  }
+
+  const v = f((lo + hi) / 2);
+  return v < bestValue ? v : bestValue;
+}
+
+// LRAC 取樣：在 (0, qMax] 取 n 個點，只留 0 <= y <= yMax 的點
+export function longRunAverageCostPoints(
+  p: ShortRunCostParams,
+  sigma: number,
+  range: { qMax: number; yMax: number; n: number }
+): Point[] {
+  const { qMax, yMax, n } = range;
+  const pts: Point[] = [];
+  const step = qMax / n;
+
+  let i = 1;
+  while (i <= n) {
+    const Q = step * i;
+    const y = longRunAverageCost(p, sigma, Q);
+    if (Number.isFinite(y) && y >= 0 && y <= yMax) {
+      pts.push({ x: Q, y });
+    }
+    i += 1;
+  }
+
+  return pts;
+}
+
+// 單一工廠規模的 ATC 取樣（畫短期 ATC 族用）
+export function plantAverageCostPoints(
+  p: ShortRunCostParams,
+  sigma: number,
+  s: number,
+  range: { qMax: number; yMax: number; n: number }
+): Point[] {
+  const { qMax, yMax, n } = range;
+  const pts: Point[] = [];
+  const step = qMax / n;
+
+  let i = 1;
+  while (i <= n) {
+    const Q = step * i;
+    const y = plantAverageCost(p, sigma, s, Q);
+    if (Number.isFinite(y) && y >= 0 && y <= yMax) {
+      pts.push({ x: Q, y });
+    }
+    i += 1;
+  }
+
+  return pts;
+}
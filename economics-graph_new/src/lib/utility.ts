@@ -0,0 +1,535 @@
+/* utility.ts */
+//   - 模型計算層: 效用函數家族（不依賴 React）
+//   - 每一種效用函數都提供：
+//     1) value：U(x,y)
+//     2) optimum：給 I, px, py 求最適消費束（含角解、拗折點）
+//     3) indifferenceCurve：給 U0 取樣無異曲線
+//     4) 方程式 spans：給方程式標籤用（類 LaTeX 的上下標）
+//
+//   家族：
+//   - Cobb-Douglas:        U = x^a y^(1-a)
+//   - 完全替代:            U = a x + (1-a) y
+//   - 完全互補:            U = min(x/a, y/(1-a))
+//   - CES:                 U = (a x^ρ + (1-a) y^ρ)^(1/ρ)
+//   - 準線性 (quasilinear): U = a ln x + (1-a) y
+//   - Stone-Geary:         U = (x - x̄)^a (y - ȳ)^(1-a)
+
+import type { TextSpan } from "../core/drawables";
+import {
+  cobbDouglasOptimum,
+  indifferenceCurvePoints,
+  utilityCobbDouglas,
+  type Point,
+} from "./consumer";
+
+export type UtilityKind =
+  | "cobbDouglas"
+  | "perfectSubstitutes"
+  | "perfectComplements"
+  | "ces"
+  | "quasilinear"
+  | "stoneGeary";
+
+// 效用函數的「形狀參數」
+// - a : x 的權重（所有家族共用，0<a<1）
+// - rho : CES 的替代參數（ρ<1, ρ≠0）
+// - xBar, yBar : Stone-Geary 的最低生存消費量
+export type UtilityShape = {
+  a: number;
+  rho: number;
+  xBar: number;
+  yBar: number;
+};
+
+// 預算條件：px x + py y = I
+export type BudgetPrices = {
+  I: number;
+  px: number;
+  py: number;
+};
+
+// 無異曲線取樣範圍
+// - yMax：完全互補的 L 形曲線需要知道垂直段畫到多高
+export type CurveSampling = {
+  xMin: number;
+  xMax: number;
+  yMax: number;
+  n: number;
+};
+
+export type UtilityFunction = {
+  kind: UtilityKind;
+  label: string;
+
+  value: (x: number, y: number, s: UtilityShape) => number;
+  optimum: (b: BudgetPrices, s: UtilityShape) => Point;
+  indifferenceCurve: (U0: number, s: UtilityShape, range: CurveSampling) => Point[];
+
+  // 方程式標籤：spans（上下標）+ 純文字 fallback
+  // supFontSize：上下標字體大小（由 controller 依標籤字體算好傳進來）
+  utilitySpans: (s: UtilityShape, supFontSize: number) => TextSpan[];
+  utilityText: (s: UtilityShape) => string;
+  indiffSpans: (U0: number, s: UtilityShape, supFontSize: number) => TextSpan[];
+  indiffText: (U0: number, s: UtilityShape) => string;
+
+  // 方程式標籤的 LaTeX（給 mathSvg drawable，由 MathJax 排版）
+  utilityLatex: (s: UtilityShape) => string;
+  indiffLatex: (U0: number, s: UtilityShape) => string;
+};
+
+// 避免方程式顯示一堆小數
+function fmt(value: number): string {
+  return value.toFixed(2);
+}
+
+// ------------------------------------------------------------
+// sampleCurve：在 [xMin, xMax] 之間取 n 個點，y = f(x)
+// - 只保留有限且非負的 y（避免 NaN / Infinity / 負值）
+// ------------------------------------------------------------
+function sampleCurve(
+  xMin: number,
+  xMax: number,
+  n: number,
+  f: (x: number) => number
+): Point[] {
+  const pts: Point[] = [];
+  const step = (xMax - xMin) / (n - 1);
+
+  let i = 0;
+  while (i < n) {
+    const x = xMin + step * i;
+    const y = f(x);
+    if (Number.isFinite(y) && y >= 0) {
+      pts.push({ x, y });
+    }
+    i += 1;
+  }
+
+  return pts;
+}
+
+// ------------------------------------------------------------
+// Cobb-Douglas：沿用 consumer.ts 的純函式
+// ------------------------------------------------------------
+const cobbDouglas: UtilityFunction = {
+  kind: "cobbDouglas",
+  label: "Cobb-Douglas",
+
+  value: (x, y, s) => utilityCobbDouglas({ a: s.a, x, y }),
+
+  optimum: (b, s) => cobbDouglasOptimum({ a: s.a, I: b.I, px: b.px, py: b.py }),
+
+  indifferenceCurve: (U0, s, range) =>
+    indifferenceCurvePoints({ a: s.a, U0, xMin: range.xMin, xMax: range.xMax, n: range.n }),
+
+  utilitySpans: (s, sup) => [
+    { text: "U(x,y) = x" },
+    { text: "α", baselineShift: "super", fontSize: sup },
+    { text: " y" },
+    { text: "1-α", baselineShift: "super", fontSize: sup },
+    { text: ",  α=" + fmt(s.a) },
+  ],
+  utilityText: (s) => `U(x,y) = x^a y^(1-a),  a=${fmt(s.a)}`,
+
+  // y = (U_0 / x^{α})^{1/(1-α)},  U_0 = ...
+  indiffSpans: (U0, s, sup) => [
+    { text: "y = (U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: " / x" },
+    { text: "α", baselineShift: "super", fontSize: sup },
+    { text: ")" },
+    { text: "1/(1-α)", baselineShift: "super", fontSize: sup },
+    { text: ",  U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: "=" + fmt(U0) + ",  α=" + fmt(s.a) },
+  ],
+  indiffText: (U0) => `y = (U0 / x^a)^(1/(1-a)),  U0=${fmt(U0)}`,
+
+  utilityLatex: (s) => `U(x,y) = x^{\\alpha} y^{1-\\alpha},\\quad \\alpha=${fmt(s.a)}`,
+  indiffLatex: (U0, s) =>
+    `y = \\left(\\frac{U_0}{x^{\\alpha}}\\right)^{\\frac{1}{1-\\alpha}},\\quad U_0=${fmt(U0)},\\ \\alpha=${fmt(s.a)}`,
+};
+
+// ------------------------------------------------------------
+// 完全替代：U = a x + (1-a) y
+// - 無異曲線是直線，MRS = a/(1-a) 固定
+// - 最適點是角解：比較每一塊錢的邊際效用 a/px 與 (1-a)/py
+//   - a/px > (1-a)/py：全買 x
+//   - a/px < (1-a)/py：全買 y
+//   - 相等：整條預算線都最適，取中點當代表
+// ------------------------------------------------------------
+const perfectSubstitutes: UtilityFunction = {
+  kind: "perfectSubstitutes",
+  label: "Perfect substitutes",
+
+  value: (x, y, s) => s.a * x + (1 - s.a) * y,
+
+  optimum: (b, s) => {
+    const bangX = s.a / b.px;
+    const bangY = (1 - s.a) / b.py;
+    if (Math.abs(bangX - bangY) < 1e-9) {
+      return { x: b.I / (2 * b.px), y: b.I / (2 * b.py) };
+    }
+    if (bangX > bangY) {
+      return { x: b.I / b.px, y: 0 };
+    }
+    return { x: 0, y: b.I / b.py };
+  },
+
+  // 直線沒有 x→0 爆掉的問題，從 x=0 畫到 x 截距
+  indifferenceCurve: (U0, s, range) => {
+    const xIntercept = U0 / s.a;
+    let xEnd = range.xMax;
+    if (xIntercept < xEnd) {
+      xEnd = xIntercept;
+    }
+    return sampleCurve(0, xEnd, range.n, (x) => (U0 - s.a * x) / (1 - s.a));
+  },
+
+  utilitySpans: (s) => [
+    { text: "U(x,y) = αx + (1-α)y" },
+    { text: ",  α=" + fmt(s.a) },
+  ],
+  utilityText: (s) => `U(x,y) = a x + (1-a) y,  a=${fmt(s.a)}`,
+
+  indiffSpans: (U0, s, sup) => [
+    { text: "y = (U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: " - αx) / (1-α)" },
+    { text: ",  U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: "=" + fmt(U0) + ",  α=" + fmt(s.a) },
+  ],
+  indiffText: (U0) => `y = (U0 - a x)/(1-a),  U0=${fmt(U0)}`,
+
+  utilityLatex: (s) => `U(x,y) = \\alpha x + (1-\\alpha) y,\\quad \\alpha=${fmt(s.a)}`,
+  indiffLatex: (U0, s) =>
+    `y = \\frac{U_0 - \\alpha x}{1-\\alpha},\\quad U_0=${fmt(U0)},\\ \\alpha=${fmt(s.a)}`,
+};
+
+// ------------------------------------------------------------
+// 完全互補：U = min(x/a, y/(1-a))
+// - 無異曲線是 L 形，拗折點 (aU, (1-a)U)
+// - 最適點一定在拗折點上：x/a = y/(1-a)，代入預算線
+//   x* = aI / (a px + (1-a) py), y* = (1-a)I / (a px + (1-a) py)
+// ------------------------------------------------------------
+const perfectComplements: UtilityFunction = {
+  kind: "perfectComplements",
+  label: "Perfect complements",
+
+  value: (x, y, s) => Math.min(x / s.a, y / (1 - s.a)),
+
+  optimum: (b, s) => {
+    const denom = s.a * b.px + (1 - s.a) * b.py;
+    return { x: (s.a * b.I) / denom, y: ((1 - s.a) * b.I) / denom };
+  },
+
+  // L 形：垂直段 (aU, yMax) -> 拗折點 -> 水平段 (xMax, (1-a)U)
+  indifferenceCurve: (U0, s, range) => {
+    const kinkX = s.a * U0;
+    const kinkY = (1 - s.a) * U0;
+    return [
+      { x: kinkX, y: range.yMax },
+      { x: kinkX, y: kinkY },
+      { x: range.xMax, y: kinkY },
+    ];
+  },
+
+  utilitySpans: (s) => [
+    { text: "U(x,y) = min(x/α, y/(1-α))" },
+    { text: ",  α=" + fmt(s.a) },
+  ],
+  utilityText: (s) => `U(x,y) = min(x/a, y/(1-a)),  a=${fmt(s.a)}`,
+
+  indiffSpans: (U0, s, sup) => [
+    { text: "min(x/α, y/(1-α)) = U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: ",  U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: "=" + fmt(U0) + ",  α=" + fmt(s.a) },
+  ],
+  indiffText: (U0) => `min(x/a, y/(1-a)) = U0,  U0=${fmt(U0)}`,
+
+  utilityLatex: (s) =>
+    `U(x,y) = \\min\\left(\\frac{x}{\\alpha}, \\frac{y}{1-\\alpha}\\right),\\quad \\alpha=${fmt(s.a)}`,
+  indiffLatex: (U0, s) =>
+    `\\min\\left(\\frac{x}{\\alpha}, \\frac{y}{1-\\alpha}\\right) = U_0,\\quad U_0=${fmt(U0)},\\ \\alpha=${fmt(s.a)}`,
+};
+
+// ------------------------------------------------------------
+// CES：U = (a x^ρ + (1-a) y^ρ)^(1/ρ)
+// - 替代彈性 σ = 1/(1-ρ)
+// - 需求：
+//   x* = I a^σ px^(-σ) / (a^σ px^(1-σ) + (1-a)^σ py^(1-σ))
+//   y* = I (1-a)^σ py^(-σ) / (同一個分母)
+// - ρ → 0 時退化成 Cobb-Douglas（避免 1/ρ 爆掉，直接改用 CD）
+// ------------------------------------------------------------
+function isNearCobbDouglas(s: UtilityShape): boolean {
+  return Math.abs(s.rho) < 1e-6;
+}
+
+const ces: UtilityFunction = {
+  kind: "ces",
+  label: "CES",
+
+  value: (x, y, s) => {
+    if (isNearCobbDouglas(s)) {
+      return cobbDouglas.value(x, y, s);
+    }
+    return Math.pow(s.a * Math.pow(x, s.rho) + (1 - s.a) * Math.pow(y, s.rho), 1 / s.rho);
+  },
+
+  optimum: (b, s) => {
+    if (isNearCobbDouglas(s)) {
+      return cobbDouglas.optimum(b, s);
+    }
+    const sigma = 1 / (1 - s.rho);
+    const wx = Math.pow(s.a, sigma);
+    const wy = Math.pow(1 - s.a, sigma);
+    const denom = wx * Math.pow(b.px, 1 - sigma) + wy * Math.pow(b.py, 1 - sigma);
+    return {
+      x: (b.I * wx * Math.pow(b.px, -sigma)) / denom,
+      y: (b.I * wy * Math.pow(b.py, -sigma)) / denom,
+    };
+  },
+
+  // y = ((U0^ρ - a x^ρ) / (1-a))^(1/ρ)
+  indifferenceCurve: (U0, s, range) => {
+    if (isNearCobbDouglas(s)) {
+      return cobbDouglas.indifferenceCurve(U0, s, range);
+    }
+    const target = Math.pow(U0, s.rho);
+    return sampleCurve(range.xMin, range.xMax, range.n, (x) => {
+      const rest = (target - s.a * Math.pow(x, s.rho)) / (1 - s.a);
+      if (rest <= 0) {
+        return Number.NaN;
+      }
+      return Math.pow(rest, 1 / s.rho);
+    });
+  },
+
+  utilitySpans: (s, sup) => [
+    { text: "U(x,y) = (αx" },
+    { text: "ρ", baselineShift: "super", fontSize: sup },
+    { text: " + (1-α)y" },
+    { text: "ρ", baselineShift: "super", fontSize: sup },
+    { text: ")" },
+    { text: "1/ρ", baselineShift: "super", fontSize: sup },
+    { text: ",  α=" + fmt(s.a) + ",  ρ=" + fmt(s.rho) },
+  ],
+  utilityText: (s) => `U(x,y) = (a x^r + (1-a) y^r)^(1/r),  a=${fmt(s.a)},  r=${fmt(s.rho)}`,
+
+  indiffSpans: (U0, s, sup) => [
+    { text: "αx" },
+    { text: "ρ", baselineShift: "super", fontSize: sup },
+    { text: " + (1-α)y" },
+    { text: "ρ", baselineShift: "super", fontSize: sup },
+    { text: " = U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: "ρ", baselineShift: "super", fontSize: sup },
+    { text: ",  U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: "=" + fmt(U0) + ",  ρ=" + fmt(s.rho) },
+  ],
+  indiffText: (U0) => `a x^r + (1-a) y^r = U0^r,  U0=${fmt(U0)}`,
+
+  utilityLatex: (s) =>
+    `U(x,y) = \\left(\\alpha x^{\\rho} + (1-\\alpha) y^{\\rho}\\right)^{1/\\rho},\\quad \\alpha=${fmt(s.a)},\\ \\rho=${fmt(s.rho)}`,
+  indiffLatex: (U0, s) =>
+    `\\alpha x^{\\rho} + (1-\\alpha) y^{\\rho} = U_0^{\\rho},\\quad U_0=${fmt(U0)},\\ \\rho=${fmt(s.rho)}`,
+};
+
+// ------------------------------------------------------------
+// 準線性：U = a ln x + (1-a) y
+// - FOC: (a/x) / (1-a) = px/py  =>  x* = a py / ((1-a) px)（與所得無關）
+// - 若所得不夠買 x*，角解：全買 x
+// ------------------------------------------------------------
+const quasilinear: UtilityFunction = {
+  kind: "quasilinear",
+  label: "Quasilinear",
+
+  value: (x, y, s) => s.a * Math.log(x) + (1 - s.a) * y,
+
+  optimum: (b, s) => {
+    const xInterior = (s.a * b.py) / ((1 - s.a) * b.px);
+    if (b.px * xInterior >= b.I) {
+      return { x: b.I / b.px, y: 0 };
+    }
+    return { x: xInterior, y: (b.I - b.px * xInterior) / b.py };
+  },
+
+  // y = (U0 - a ln x) / (1-a)
+  indifferenceCurve: (U0, s, range) =>
+    sampleCurve(range.xMin, range.xMax, range.n, (x) => (U0 - s.a * Math.log(x)) / (1 - s.a)),
+
+  utilitySpans: (s) => [
+    { text: "U(x,y) = α ln x + (1-α)y" },
+    { text: ",  α=" + fmt(s.a) },
+  ],
+  utilityText: (s) => `U(x,y) = a ln x + (1-a) y,  a=${fmt(s.a)}`,
+
+  indiffSpans: (U0, s, sup) => [
+    { text: "y = (U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: " - α ln x) / (1-α)" },
+    { text: ",  U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: "=" + fmt(U0) + ",  α=" + fmt(s.a) },
+  ],
+  indiffText: (U0) => `y = (U0 - a ln x)/(1-a),  U0=${fmt(U0)}`,
+
+  utilityLatex: (s) => `U(x,y) = \\alpha \\ln x + (1-\\alpha) y,\\quad \\alpha=${fmt(s.a)}`,
+  indiffLatex: (U0, s) =>
+    `y = \\frac{U_0 - \\alpha \\ln x}{1-\\alpha},\\quad U_0=${fmt(U0)},\\ \\alpha=${fmt(s.a)}`,
+};
+
+// ------------------------------------------------------------
+// Stone-Geary：U = (x - x̄)^a (y - ȳ)^(1-a)
+// - 先買最低生存量 (x̄, ȳ)，剩下的「超額所得」M = I - px x̄ - py ȳ
+//   再依 Cobb-Douglas 比例分配：
+//   x* = x̄ + aM/px, y* = ȳ + (1-a)M/py
+// - 若 M <= 0（買不起生存量）：沿 (x̄, ȳ) 的方向縮到預算線上
+// ------------------------------------------------------------
+const stoneGeary: UtilityFunction = {
+  kind: "stoneGeary",
+  label: "Stone-Geary",
+
+  value: (x, y, s) => {
+    if (x <= s.xBar || y <= s.yBar) {
+      return 0;
+    }
+    return Math.pow(x - s.xBar, s.a) * Math.pow(y - s.yBar, 1 - s.a);
+  },
+
+  optimum: (b, s) => {
+    const subsistenceCost = b.px * s.xBar + b.py * s.yBar;
+    const M = b.I - subsistenceCost;
+    if (M <= 0) {
+      const t = b.I / subsistenceCost;
+      return { x: t * s.xBar, y: t * s.yBar };
+    }
+    return { x: s.xBar + (s.a * M) / b.px, y: s.yBar + ((1 - s.a) * M) / b.py };
+  },
+
+  // y = ȳ + (U0 / (x - x̄)^a)^(1/(1-a))，只在 x > x̄ 有定義
+  indifferenceCurve: (U0, s, range) => {
+    let xStart = range.xMin;
+    const shifted = s.xBar + (range.xMax - s.xBar) * 0.02;
+    if (shifted > xStart) {
+      xStart = shifted;
+    }
+    return sampleCurve(xStart, range.xMax, range.n, (x) =>
+      s.yBar + Math.pow(U0 / Math.pow(x - s.xBar, s.a), 1 / (1 - s.a))
+    );
+  },
+
+  utilitySpans: (s, sup) => [
+    { text: "U(x,y) = (x - x̄)" },
+    { text: "α", baselineShift: "super", fontSize: sup },
+    { text: " (y - ȳ)" },
+    { text: "1-α", baselineShift: "super", fontSize: sup },
+    { text: ",  x̄=" + fmt(s.xBar) + ",  ȳ=" + fmt(s.yBar) },
+  ],
+  utilityText: (s) =>
+    `U(x,y) = (x - xb)^a (y - yb)^(1-a),  xb=${fmt(s.xBar)},  yb=${fmt(s.yBar)}`,
+
+  indiffSpans: (U0, s, sup) => [
+    { text: "y = ȳ + (U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: " / (x - x̄)" },
+    { text: "α", baselineShift: "super", fontSize: sup },
+    { text: ")" },
+    { text: "1/(1-α)", baselineShift: "super", fontSize: sup },
+    { text: ",  U" },
+    { text: "0", baselineShift: "sub", fontSize: sup },
+    { text: "=" + fmt(U0) + ",  α=" + fmt(s.a) },
+  ],
+  indiffText: (U0) => `y = yb + (U0 / (x - xb)^a)^(1/(1-a)),  U0=${fmt(U0)}`,
+
+  utilityLatex: (s) =>
+    `U(x,y) = (x - \\bar{x})^{\\alpha} (y - \\bar{y})^{1-\\alpha},\\quad \\bar{x}=${fmt(s.xBar)},\\ \\bar{y}=${fmt(s.yBar)}`,
+  indiffLatex: (U0, s) =>
+    `y = \\bar{y} + \\left(\\frac{U_0}{(x - \\bar{x})^{\\alpha}}\\right)^{\\frac{1}{1-\\alpha}},\\quad U_0=${fmt(U0)},\\ \\alpha=${fmt(s.a)}`,
+};
+
+// ------------------------------------------------------------
+// 註冊表：kind -> UtilityFunction
+// UTILITY_KINDS 的順序就是 UI 下拉選單的順序
+// ------------------------------------------------------------
+const UTILITY_FUNCTIONS: Record<UtilityKind, UtilityFunction> = {
+  cobbDouglas,
+  perfectSubstitutes,
+  perfectComplements,
+  ces,
+  quasilinear,
+  stoneGeary,
+};
+
+export const UTILITY_KINDS: UtilityKind[] = [
+  "cobbDouglas",
+  "perfectSubstitutes",
+  "perfectComplements",
+  "ces",
+  "quasilinear",
+  "stoneGeary",
+];
+
+export function getUtilityFunction(kind: UtilityKind): UtilityFunction {
+  return UTILITY_FUNCTIONS[kind];
+}
+
+// 防呆：把外部字串（例如 <select> 的 value）轉成 UtilityKind
+export function isUtilityKind(raw: string): raw is UtilityKind {
+  let i = 0;
+  while (i < UTILITY_KINDS.length) {
+    if (UTILITY_KINDS[i] === raw) {
+      return true;
+    }
+    i += 1;
+  }
+  return false;
+}
+
+// ------------------------------------------------------------
+// expenditureFor：支出函數 e(px, py, U0)
+// - 在價格 (px, py) 下，要達到效用 U0 最少需要多少所得
+// - 通用解法：對 I 做二分搜尋，讓「在 I 下的最適效用」剛好等於 U0
+//   （所有家族的間接效用都隨 I 遞增，所以二分搜尋一定收斂；角解/拗折點也適用）
+// - 用途：Slutsky/Hicks 分解的補償預算線、CV / EV
+// ------------------------------------------------------------
+export function expenditureFor(
+  f: UtilityFunction,
+  s: UtilityShape,
+  px: number,
+  py: number,
+  U0: number
+): number {
+  const utilityAt = (I: number): number => {
+    const opt = f.optimum({ I, px, py }, s);
+    return f.value(opt.x, opt.y, s);
+  };
+
+  // 先找一個夠大的上界 hi（效用 >= U0）
+  let lo = 0;
+  let hi = 1;
+  let guard = 0;
+  while (utilityAt(hi) < U0 && guard < 60) {
+    lo = hi;
+    hi = hi * 2;
+    guard += 1;
+  }
+
+  // 二分搜尋
+  let i = 0;
+  while (i < 80) {
+    const mid = (lo + hi) / 2;
+    if (utilityAt(mid) < U0) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+    i += 1;
+  }
+
+  return hi;
+}
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// 命令列版本（cli/render-svg.ts）：打包成 Node 可以直接執行的單一檔案
+// - ssr: true -> 目標是 Node，不是瀏覽器
+// - mathjax-full 是 CommonJS 深層路徑 import，直接打包進來比較穩
+export default defineConfig({
+  plugins: [react()],
+  ssr: {
+    noExternal: ['mathjax-full'],
+  },
+  build: {
+    ssr: 'cli/render-svg.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'render-svg.js',
+        inlineDynamicImports: true,
+      },
+    },
+  },
+})